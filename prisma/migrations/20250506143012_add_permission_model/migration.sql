@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "Permission" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Permission_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_PermissionToRole" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_PermissionToRole_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Permission_name_key" ON "Permission"("name");
+
+-- CreateIndex
+CREATE INDEX "_PermissionToRole_B_index" ON "_PermissionToRole"("B");
+
+-- AddForeignKey
+ALTER TABLE "_PermissionToRole" ADD CONSTRAINT "_PermissionToRole_A_fkey" FOREIGN KEY ("A") REFERENCES "Permission"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_PermissionToRole" ADD CONSTRAINT "_PermissionToRole_B_fkey" FOREIGN KEY ("B") REFERENCES "Role"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed the permissions checked by the API (see src/permissions/constants.ts)
+INSERT INTO "Permission" ("id", "name", "description", "updatedAt") VALUES
+    (gen_random_uuid()::text, 'projects:write', 'Create, update and delete projects', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'categories:write', 'Create, update and delete categories', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'quotes:read', 'View quote requests', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'quotes:write', 'Update and delete quote requests', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'users:read', 'View user accounts', CURRENT_TIMESTAMP),
+    (gen_random_uuid()::text, 'users:write', 'Update and delete user accounts', CURRENT_TIMESTAMP)
+ON CONFLICT ("name") DO NOTHING;
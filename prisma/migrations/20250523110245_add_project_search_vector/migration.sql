@@ -0,0 +1,47 @@
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "searchVector" tsvector;
+
+-- Full-text vector of a project, indexed with both English and Spanish stemming.
+-- Weights: name A, technologies B, category name C, description D
+CREATE OR REPLACE FUNCTION project_search_vector_update() RETURNS trigger AS $$
+DECLARE
+    category_name TEXT;
+    technology_list TEXT := array_to_string(NEW."technologies", ' ');
+BEGIN
+    SELECT "name" INTO category_name FROM "Category" WHERE "id" = NEW."categoryId";
+
+    NEW."searchVector" :=
+        setweight(to_tsvector('english', coalesce(NEW."name", '')), 'A') ||
+        setweight(to_tsvector('spanish', coalesce(NEW."name", '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(technology_list, '')), 'B') ||
+        setweight(to_tsvector('spanish', coalesce(technology_list, '')), 'B') ||
+        setweight(to_tsvector('english', coalesce(category_name, '')), 'C') ||
+        setweight(to_tsvector('spanish', coalesce(category_name, '')), 'C') ||
+        setweight(to_tsvector('english', coalesce(NEW."description", '')), 'D') ||
+        setweight(to_tsvector('spanish', coalesce(NEW."description", '')), 'D');
+    RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Project_searchVector_update"
+    BEFORE INSERT OR UPDATE OF "name", "description", "technologies", "categoryId" ON "Project"
+    FOR EACH ROW EXECUTE FUNCTION project_search_vector_update();
+
+-- Renaming a category refreshes the vectors of its projects
+CREATE OR REPLACE FUNCTION category_search_vector_update() RETURNS trigger AS $$
+BEGIN
+    UPDATE "Project" SET "categoryId" = "categoryId" WHERE "categoryId" = NEW."id";
+    RETURN NULL;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Category_searchVector_update"
+    AFTER UPDATE OF "name" ON "Category"
+    FOR EACH ROW WHEN (OLD."name" IS DISTINCT FROM NEW."name")
+    EXECUTE FUNCTION category_search_vector_update();
+
+-- Backfill existing projects
+UPDATE "Project" SET "name" = "name";
+
+-- CreateIndex
+CREATE INDEX "Project_searchVector_idx" ON "Project" USING GIN ("searchVector");
@@ -0,0 +1,17 @@
+-- CreateEnum
+CREATE TYPE "PublicationStatus" AS ENUM ('DRAFT', 'IN_REVIEW', 'PUBLISHED', 'ARCHIVED');
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "publicationStatus" "PublicationStatus" NOT NULL DEFAULT 'DRAFT',
+ADD COLUMN     "publishedAt" TIMESTAMP(3);
+
+-- Projects created before the workflow existed were already public
+UPDATE "Project" SET "publicationStatus" = 'PUBLISHED', "publishedAt" = "createdAt";
+
+-- CreateIndex
+CREATE INDEX "Project_publicationStatus_publishedAt_idx" ON "Project"("publicationStatus", "publishedAt");
+
+-- Seed the permission required to publish and archive projects
+INSERT INTO "Permission" ("id", "name", "description", "updatedAt") VALUES
+    (gen_random_uuid()::text, 'projects:publish', 'Publish, schedule and archive projects', CURRENT_TIMESTAMP)
+ON CONFLICT ("name") DO NOTHING;
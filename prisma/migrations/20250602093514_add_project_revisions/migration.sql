@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "ProjectRevision" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "technologies" TEXT[],
+    "weeksWorked" INTEGER NOT NULL,
+    "price" DECIMAL(10,2) NOT NULL,
+    "images" TEXT[],
+    "video" TEXT NOT NULL,
+    "status" "ProjectStatus" NOT NULL,
+    "completionDate" TIMESTAMP(3),
+    "categoryId" TEXT NOT NULL,
+    "authorId" TEXT,
+    "restoredFromVersion" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProjectRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProjectRevision_projectId_version_key" ON "ProjectRevision"("projectId", "version");
+
+-- AddForeignKey
+ALTER TABLE "ProjectRevision" ADD CONSTRAINT "ProjectRevision_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ProjectRevision" ADD CONSTRAINT "ProjectRevision_authorId_fkey" FOREIGN KEY ("authorId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- The current state of existing projects becomes their first revision
+INSERT INTO "ProjectRevision" ("id", "projectId", "version", "name", "description", "technologies", "weeksWorked", "price", "images", "video", "status", "completionDate", "categoryId", "createdAt")
+SELECT gen_random_uuid()::text, "id", 1, "name", "description", "technologies", "weeksWorked", "price", "images", "video", "status", "completionDate", "categoryId", "updatedAt"
+FROM "Project";
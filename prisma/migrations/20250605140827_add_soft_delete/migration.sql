@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "Category" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Project" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "quote_requests" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Category_deletedAt_idx" ON "Category"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "Project_deletedAt_idx" ON "Project"("deletedAt");
+
+-- CreateIndex
+CREATE INDEX "quote_requests_deletedAt_idx" ON "quote_requests"("deletedAt");
@@ -0,0 +1,5 @@
+-- DropForeignKey
+ALTER TABLE "Project" DROP CONSTRAINT "Project_categoryId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "Project" ADD CONSTRAINT "Project_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "Category"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
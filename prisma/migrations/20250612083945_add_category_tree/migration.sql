@@ -0,0 +1,35 @@
+-- AlterTable
+ALTER TABLE "Category" ADD COLUMN     "parentId" TEXT,
+ADD COLUMN     "position" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "slug" TEXT;
+
+-- Existing categories become top-level, ordered by name, with a slug derived
+-- from their name (accents removed, "-<n>" appended on collisions)
+WITH "bases" AS (
+    SELECT "id", "name", "createdAt",
+           COALESCE(NULLIF(trim(BOTH '-' FROM regexp_replace(
+               translate(lower("name"), 'áàäâéèëêíìïîóòöôúùüûñç', 'aaaaeeeeiiiioooouuuunc'),
+               '[^a-z0-9]+', '-', 'g')), ''), 'category') AS "base"
+    FROM "Category"
+), "numbered" AS (
+    SELECT "id", "base",
+           row_number() OVER (PARTITION BY "base" ORDER BY "createdAt") AS "n",
+           row_number() OVER (ORDER BY "name") - 1 AS "position"
+    FROM "bases"
+)
+UPDATE "Category" c
+SET "slug" = CASE WHEN n."n" = 1 THEN n."base" ELSE n."base" || '-' || n."n" END,
+    "position" = n."position"
+FROM "numbered" n
+WHERE c."id" = n."id";
+
+ALTER TABLE "Category" ALTER COLUMN "slug" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Category_slug_key" ON "Category"("slug");
+
+-- CreateIndex
+CREATE INDEX "Category_parentId_position_idx" ON "Category"("parentId", "position");
+
+-- AddForeignKey
+ALTER TABLE "Category" ADD CONSTRAINT "Category_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "Category"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
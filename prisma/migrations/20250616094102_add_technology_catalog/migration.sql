@@ -0,0 +1,130 @@
+-- CreateEnum
+CREATE TYPE "TechnologyCategory" AS ENUM ('FRONTEND', 'BACKEND', 'DATABASE', 'MOBILE', 'DEVOPS', 'DESIGN', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "Technology" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "aliases" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "iconKey" TEXT,
+    "category" "TechnologyCategory" NOT NULL DEFAULT 'OTHER',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Technology_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_ProjectToTechnology" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_ProjectToTechnology_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Technology_name_key" ON "Technology"("name");
+
+-- CreateIndex
+CREATE INDEX "_ProjectToTechnology_B_index" ON "_ProjectToTechnology"("B");
+
+-- AddForeignKey
+ALTER TABLE "_ProjectToTechnology" ADD CONSTRAINT "_ProjectToTechnology_A_fkey" FOREIGN KEY ("A") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_ProjectToTechnology" ADD CONSTRAINT "_ProjectToTechnology_B_fkey" FOREIGN KEY ("B") REFERENCES "Technology"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- One technology per distinct name, ignoring case and surrounding spaces.
+-- The most used spelling becomes the canonical name
+WITH "spellings" AS (
+    SELECT btrim(t) AS "name", count(*) AS "uses"
+    FROM "Project" p CROSS JOIN LATERAL unnest(p."technologies") AS t
+    WHERE btrim(t) <> ''
+    GROUP BY btrim(t)
+)
+INSERT INTO "Technology" ("id", "name", "updatedAt")
+SELECT DISTINCT ON (lower("name")) gen_random_uuid()::text, "name", CURRENT_TIMESTAMP
+FROM "spellings"
+ORDER BY lower("name"), "uses" DESC, "name";
+
+INSERT INTO "_ProjectToTechnology" ("A", "B")
+SELECT DISTINCT p."id", tech."id"
+FROM "Project" p
+CROSS JOIN LATERAL unnest(p."technologies") AS t
+JOIN "Technology" tech ON lower(tech."name") = lower(btrim(t));
+
+-- The search trigger depends on the column being dropped
+DROP TRIGGER "Project_searchVector_update" ON "Project";
+
+-- AlterTable
+ALTER TABLE "Project" DROP COLUMN "technologies";
+
+-- Same vector as before, with the names and aliases of the linked technologies
+CREATE OR REPLACE FUNCTION project_search_vector_update() RETURNS trigger AS $$
+DECLARE
+    category_name TEXT;
+    technology_list TEXT;
+BEGIN
+    SELECT "name" INTO category_name FROM "Category" WHERE "id" = NEW."categoryId";
+    SELECT string_agg(t."name" || ' ' || array_to_string(t."aliases", ' '), ' ')
+    INTO technology_list
+    FROM "_ProjectToTechnology" pt JOIN "Technology" t ON t."id" = pt."B"
+    WHERE pt."A" = NEW."id";
+
+    NEW."searchVector" :=
+        setweight(to_tsvector('english', coalesce(NEW."name", '')), 'A') ||
+        setweight(to_tsvector('spanish', coalesce(NEW."name", '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(technology_list, '')), 'B') ||
+        setweight(to_tsvector('spanish', coalesce(technology_list, '')), 'B') ||
+        setweight(to_tsvector('english', coalesce(category_name, '')), 'C') ||
+        setweight(to_tsvector('spanish', coalesce(category_name, '')), 'C') ||
+        setweight(to_tsvector('english', coalesce(NEW."description", '')), 'D') ||
+        setweight(to_tsvector('spanish', coalesce(NEW."description", '')), 'D');
+    RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Project_searchVector_update"
+    BEFORE INSERT OR UPDATE OF "name", "description", "categoryId" ON "Project"
+    FOR EACH ROW EXECUTE FUNCTION project_search_vector_update();
+
+-- Linking or unlinking a technology refreshes the vector of the project
+CREATE OR REPLACE FUNCTION project_technology_search_vector_update() RETURNS trigger AS $$
+DECLARE
+    project_id TEXT;
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        project_id := OLD."A";
+    ELSE
+        project_id := NEW."A";
+    END IF;
+    UPDATE "Project" SET "name" = "name" WHERE "id" = project_id;
+    RETURN NULL;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "ProjectToTechnology_searchVector_update"
+    AFTER INSERT OR DELETE ON "_ProjectToTechnology"
+    FOR EACH ROW EXECUTE FUNCTION project_technology_search_vector_update();
+
+-- Renaming a technology or changing its aliases refreshes its projects
+CREATE OR REPLACE FUNCTION technology_search_vector_update() RETURNS trigger AS $$
+BEGIN
+    UPDATE "Project" SET "name" = "name"
+    WHERE "id" IN (SELECT "A" FROM "_ProjectToTechnology" WHERE "B" = NEW."id");
+    RETURN NULL;
+END
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Technology_searchVector_update"
+    AFTER UPDATE OF "name", "aliases" ON "Technology"
+    FOR EACH ROW WHEN (OLD."name" IS DISTINCT FROM NEW."name" OR OLD."aliases" IS DISTINCT FROM NEW."aliases")
+    EXECUTE FUNCTION technology_search_vector_update();
+
+-- Backfill existing projects
+UPDATE "Project" SET "name" = "name";
+
+-- Seed the permission required to manage the technology catalog
+INSERT INTO "Permission" ("id", "name", "description", "updatedAt") VALUES
+    (gen_random_uuid()::text, 'technologies:write', 'Create, update, merge and delete technologies', CURRENT_TIMESTAMP)
+ON CONFLICT ("name") DO NOTHING;
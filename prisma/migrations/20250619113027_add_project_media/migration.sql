@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "ProjectMedia" (
+    "id" TEXT NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "isCover" BOOLEAN NOT NULL DEFAULT false,
+    "altText" JSONB NOT NULL DEFAULT '{}',
+    "caption" TEXT,
+    "width" INTEGER,
+    "height" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProjectMedia_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProjectMedia_projectId_position_idx" ON "ProjectMedia"("projectId", "position");
+
+-- AddForeignKey
+ALTER TABLE "ProjectMedia" ADD CONSTRAINT "ProjectMedia_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "Project"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Each image becomes a media row in its current order; the first one is the cover.
+-- Dimensions of existing images are unknown and can be set through the API
+INSERT INTO "ProjectMedia" ("id", "projectId", "key", "position", "isCover", "updatedAt")
+SELECT gen_random_uuid()::text, p."id", i."key", i."ordinality" - 1, i."ordinality" = 1, CURRENT_TIMESTAMP
+FROM "Project" p
+CROSS JOIN LATERAL unnest(p."images") WITH ORDINALITY AS i("key", "ordinality");
+
+-- AlterTable
+ALTER TABLE "Project" DROP COLUMN "images";
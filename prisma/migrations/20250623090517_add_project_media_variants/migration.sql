@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "ImageVariantSize" AS ENUM ('THUMBNAIL', 'MEDIUM', 'LARGE');
+
+-- CreateEnum
+CREATE TYPE "ImageVariantFormat" AS ENUM ('WEBP', 'AVIF');
+
+-- CreateTable
+CREATE TABLE "ProjectMediaVariant" (
+    "id" TEXT NOT NULL,
+    "mediaId" TEXT NOT NULL,
+    "size" "ImageVariantSize" NOT NULL,
+    "format" "ImageVariantFormat" NOT NULL,
+    "key" TEXT NOT NULL,
+    "width" INTEGER NOT NULL,
+    "height" INTEGER NOT NULL,
+    "bytes" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProjectMediaVariant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProjectMediaVariant_mediaId_size_format_key" ON "ProjectMediaVariant"("mediaId", "size", "format");
+
+-- AddForeignKey
+ALTER TABLE "ProjectMediaVariant" ADD CONSTRAINT "ProjectMediaVariant_mediaId_fkey" FOREIGN KEY ("mediaId") REFERENCES "ProjectMedia"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "UploadPurpose" AS ENUM ('PROJECT_IMAGE', 'PROJECT_VIDEO', 'QUOTE_REQUIREMENTS');
+
+-- CreateTable
+CREATE TABLE "Upload" (
+    "id" TEXT NOT NULL,
+    "purpose" "UploadPurpose" NOT NULL,
+    "key" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "userId" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "consumedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Upload_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Upload_key_key" ON "Upload"("key");
+
+-- CreateIndex
+CREATE INDEX "Upload_consumedAt_expiresAt_idx" ON "Upload"("consumedAt", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "Upload" ADD CONSTRAINT "Upload_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
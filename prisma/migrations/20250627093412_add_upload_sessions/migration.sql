@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "UploadSession" (
+    "id" TEXT NOT NULL,
+    "uploadId" TEXT NOT NULL,
+    "s3UploadId" TEXT NOT NULL,
+    "partSize" INTEGER NOT NULL,
+    "partCount" INTEGER NOT NULL,
+    "completedAt" TIMESTAMP(3),
+    "abortedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UploadSession_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UploadSession_uploadId_key" ON "UploadSession"("uploadId");
+
+-- CreateIndex
+CREATE INDEX "UploadSession_completedAt_abortedAt_idx" ON "UploadSession"("completedAt", "abortedAt");
+
+-- AddForeignKey
+ALTER TABLE "UploadSession" ADD CONSTRAINT "UploadSession_uploadId_fkey" FOREIGN KEY ("uploadId") REFERENCES "Upload"("id") ON DELETE CASCADE ON UPDATE CASCADE;
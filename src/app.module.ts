@@ -1,30 +1,64 @@
 import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
 import { ConfigModule } from './config/config.module';
 import { PrismaModule } from './prisma/prisma.module';
 import { RolesModule } from './roles/roles.module';
+import { PermissionsModule } from './permissions/permissions.module';
 import { CategoriesModule } from './categories/categories.module';
 import { DatabaseErrorService } from './common/services/database-error.service';
 import { ProjectsModule } from './projects/projects.module';
+import { TechnologiesModule } from './technologies/technologies.module';
 import { AuthModule } from './auth/auth.module';
 import { UsersModule } from './users/users.module';
 
 import { MailModule } from './mail/mail.module';
 import { QuoteRequestsModule } from './quote-requests/quote-requests.module';
+import { RateLimitModule } from './rate-limit/rate-limit.module';
+import { TrashModule } from './trash/trash.module';
+import { UploadsModule } from './uploads/uploads.module';
+import { StorageModule } from './storage/storage.module';
+import { JwtAuthGuard } from './auth/jwt-auth.guard';
+import { RolesGuard } from './auth/roles.guard';
+import { PermissionsGuard } from './auth/permissions.guard';
+import { AccessControlService } from './auth/access-control.service';
 
 @Module({
   imports: [
     ConfigModule,
     PrismaModule,
     RolesModule,
+    PermissionsModule,
     CategoriesModule,
     ProjectsModule,
+    TechnologiesModule,
     AuthModule,
     UsersModule,
     MailModule,
     QuoteRequestsModule,
+    TrashModule,
+    UploadsModule,
+    StorageModule,
+    RateLimitModule,
   ],
   controllers: [],
-  providers: [DatabaseErrorService],
+  providers: [
+    DatabaseErrorService,
+    AccessControlService,
+    // Registered once for the whole app. Guards of the root module run before
+    // those of imported modules, so req.user is set for the rate limit guard
+    {
+      provide: APP_GUARD,
+      useClass: JwtAuthGuard,
+    },
+    {
+      provide: APP_GUARD, // runs after JwtAuthGuard has attached req.user
+      useClass: RolesGuard,
+    },
+    {
+      provide: APP_GUARD,
+      useClass: PermissionsGuard,
+    },
+  ],
   exports: [DatabaseErrorService],
 })
 export class AppModule {}
@@ -0,0 +1,65 @@
+import { Injectable } from '@nestjs/common';
+import { Permission, Role } from '@prisma/client';
+import { Request } from 'express';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { RoleNames } from 'src/roles/constants';
+
+export type RoleWithPermissions = Role & { permissions: Permission[] };
+
+// Shape of the request once JwtAuthGuard has attached the user payload.
+// The resolved role is cached on the request so that the roles and permissions
+// guards only hit the database once per request.
+export interface RequestWithRole extends Request {
+  user?: { id: string; email: string };
+  userRole?: RoleWithPermissions | null;
+}
+
+@Injectable()
+export class AccessControlService {
+  constructor(private prismaService: PrismaService) {}
+
+  /**
+   * Resolves the role (with its permissions) of the user attached to the request.
+   * @param request - Request already processed by JwtAuthGuard.
+   * @returns The user's role, or null if the user no longer exists.
+   */
+  async getRole(request: RequestWithRole): Promise<RoleWithPermissions | null> {
+    if (!request.user?.id) {
+      return null;
+    }
+    if (request.userRole === undefined) {
+      const user = await this.prismaService.user.findUnique({
+        where: { id: request.user.id },
+        include: { role: { include: { permissions: true } } },
+      });
+      request.userRole = user?.role ?? null;
+    }
+    return request.userRole;
+  }
+
+  /**
+   * Checks whether a role matches any of the given role names (case-insensitive).
+   */
+  hasAnyRole(role: Role | null, roleNames: string[]): boolean {
+    const roleName = role?.name.toLowerCase();
+    return roleNames.some((name) => name.toLowerCase() === roleName);
+  }
+
+  /**
+   * Checks whether a role grants every given permission.
+   * The admin role implicitly holds all permissions.
+   */
+  hasPermissions(
+    role: RoleWithPermissions | null,
+    permissions: string[],
+  ): boolean {
+    if (!role) {
+      return false;
+    }
+    if (this.hasAnyRole(role, [RoleNames.ADMIN])) {
+      return true;
+    }
+    const granted = new Set(role.permissions.map((p) => p.name));
+    return permissions.every((permission) => granted.has(permission));
+  }
+}
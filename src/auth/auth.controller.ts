@@ -1,7 +1,6 @@
 import {
   Controller,
   UseGuards,
-  Request,
   Post,
   HttpCode,
   HttpStatus,
@@ -13,6 +12,9 @@ import {
   ParseUUIDPipe, // Import ParseUUIDPipe for validation
   Logger,
   UnauthorizedException, // Import Logger
+  Ip,
+  Headers,
+  Delete,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -27,28 +29,36 @@ import { JwtAuthGuard } from './jwt-auth.guard';
 import { LocalAuthGuard } from './local-auth.guard';
 import { AuthService } from './auth.service';
 import { Public } from 'src/decorators/public.decorator';
-// Assume a RefreshTokenGuard exists that uses RefreshStrategy
-import { RefreshTokenGuard } from './refresh-token.guard'; // Corrected Guard usage
+import {
+  AuthenticatedUser,
+  CurrentUser,
+} from 'src/decorators/current-user.decorator';
+import { RateLimit } from 'src/decorators/rate-limit.decorator';
 import { RefreshTokenDto } from './dto/refresh-token.dto';
-
-import { RefreshStrategy } from './refresh.strategy';
-
-// --- Interface for Request object with user payload ---
-// Consider creating a custom decorator (@CurrentUser) for cleaner access
-interface RequestWithUser extends Request {
-  user: {
-    id: string; // Changed from userId for consistency
-    email: string;
-    // refreshToken might be present depending on the guard/strategy
-    refreshToken?: string;
-  };
-}
+import {
+  RecoveryCodesResponse,
+  TwoFactorService,
+  TwoFactorSetupResponse,
+} from './two-factor.service';
+import { JwtKeysService } from './jwt-keys.service';
+import { TwoFactorCodeDto } from './dto/two-factor-code.dto';
+import { TwoFactorChallengeDto } from './dto/two-factor-challenge.dto';
+import { TwoFactorLoginDto } from './dto/two-factor-login.dto';
+import { SessionResponseDto } from './dto/session-response.dto';
+import { UserResponseDto } from 'src/users/dto/user-response.dto';
 
 export interface LoginResponse {
   access_token: string;
   refresh_token: string;
 }
 
+// Returned by /auth/login instead of tokens when a second factor is needed
+export interface TwoFactorChallengeResponse {
+  two_factor_required: true;
+  setup_required: boolean; // the role requires 2FA but the user has not enrolled yet
+  challenge_token: string;
+}
+
 @ApiTags('Authentication') // Group endpoints under 'Authentication' in Swagger UI
 @Controller('auth')
 export class AuthController {
@@ -57,11 +67,14 @@ export class AuthController {
 
   constructor(
     private authService: AuthService, // Inject UsersService
+    private twoFactorService: TwoFactorService,
+    private jwtKeysService: JwtKeysService,
   ) {}
 
   // --- Standard Auth ---
 
   @Public()
+  @RateLimit({ limit: 10, ttl: 60 }) // credential stuffing; see also LoginAttemptsService
   @UseGuards(LocalAuthGuard)
   @Post('login')
   @HttpCode(HttpStatus.OK) // Explicitly set OK status
@@ -78,42 +91,289 @@ export class AuthController {
   })
   @ApiResponse({
     status: HttpStatus.OK,
-    description: 'Login successful, returns tokens.',
+    description:
+      'Login successful, returns tokens. If two-factor authentication is enabled or required, returns a challenge token instead (`two_factor_required: true`).',
   })
   @ApiResponse({
     status: HttpStatus.UNAUTHORIZED,
     description: 'Invalid credentials.',
   })
-  async login(@Request() req: RequestWithUser): Promise<LoginResponse> {
-    // this.logger.log(`Login attempt for user: ${req.user.email}`);
-    return this.authService.login(req.user); // Pass only the user ID instead of the incomplete user object
+  async login(
+    @CurrentUser() user: AuthenticatedUser,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<LoginResponse | TwoFactorChallengeResponse> {
+    // this.logger.log(`Login attempt for user: ${user.email}`);
+    return this.authService.login(user, { ipAddress, userAgent }); // Opens a new session for this device
+  }
+
+  @Public()
+  @RateLimit({ limit: 10, ttl: 60 })
+  @Post('login/2fa')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Complete a two-factor login with a TOTP or recovery code',
+  })
+  @ApiBody({ type: TwoFactorLoginDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Login successful, returns tokens.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Invalid or expired challenge, or invalid code.',
+  })
+  async loginWithTwoFactor(
+    @Body() twoFactorLoginDto: TwoFactorLoginDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<LoginResponse> {
+    return this.authService.loginWithTwoFactor(
+      twoFactorLoginDto.challenge_token,
+      twoFactorLoginDto.code,
+      { ipAddress, userAgent },
+    );
+  }
+
+  @Public()
+  @RateLimit({ limit: 10, ttl: 60 })
+  @Post('login/2fa/setup')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Start the mandatory 2FA enrolment with a setup challenge',
+  })
+  @ApiBody({ type: TwoFactorChallengeDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Returns the TOTP secret and otpauth URI.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Invalid or expired challenge.',
+  })
+  async setupTwoFactorWithChallenge(
+    @Body() twoFactorChallengeDto: TwoFactorChallengeDto,
+  ): Promise<TwoFactorSetupResponse> {
+    return this.authService.setupTwoFactorWithChallenge(
+      twoFactorChallengeDto.challenge_token,
+    );
+  }
+
+  @Public()
+  @RateLimit({ limit: 10, ttl: 60 })
+  @Post('login/2fa/confirm')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Confirm the mandatory 2FA enrolment and log in',
+  })
+  @ApiBody({ type: TwoFactorLoginDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Returns tokens and the one-time recovery codes.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Invalid or expired challenge, or invalid code.',
+  })
+  async confirmTwoFactorWithChallenge(
+    @Body() twoFactorLoginDto: TwoFactorLoginDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<LoginResponse & RecoveryCodesResponse> {
+    return this.authService.confirmTwoFactorWithChallenge(
+      twoFactorLoginDto.challenge_token,
+      twoFactorLoginDto.code,
+      { ipAddress, userAgent },
+    );
   }
 
   @UseGuards(JwtAuthGuard) // Protected by JWT access token
   @Post('logout')
   @HttpCode(HttpStatus.OK)
   @ApiBearerAuth() // Indicate JWT is needed in Swagger
-  @ApiOperation({ summary: 'Log out the current user' })
+  @ApiOperation({ summary: 'Log out the current session' })
   @ApiResponse({ status: HttpStatus.OK, description: 'Logout successful.' })
   @ApiResponse({
     status: HttpStatus.UNAUTHORIZED,
     description: 'User not authenticated.',
   })
-  async logout(@Request() req: RequestWithUser) {
-    // this.logger.log(`Logout request for user ID: ${req.user.id}`);
-    // Ensure req.user.id is correctly populated by JwtAuthGuard
-    if (!req.user || !req.user.id) {
+  async logout(@CurrentUser() user: AuthenticatedUser) {
+    // this.logger.log(`Logout request for user ID: ${user.id}`);
+    // Ensure user.id is correctly populated by JwtAuthGuard
+    if (!user || !user.id) {
       throw new UnauthorizedException('User information not found in request.');
     }
-    return this.authService.logout(req.user.id);
+    return this.authService.logout(user.id, user.sessionId);
+  }
+
+  @UseGuards(JwtAuthGuard) // Protected by JWT access token
+  @Post('logout-all')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Log out the current user from every device' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'All sessions revoked, returns how many.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'User not authenticated.',
+  })
+  async logoutAll(@CurrentUser() user: AuthenticatedUser) {
+    return this.authService.logoutAll(user.id);
+  }
+
+  // --- Sessions ---
+
+  @UseGuards(JwtAuthGuard) // Protected by JWT access token
+  @Get('sessions')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List the active sessions of the current user' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description:
+      'Returns the active sessions; the one making the request has `current: true`.',
+    type: [SessionResponseDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'User not authenticated.',
+  })
+  async getSessions(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<SessionResponseDto[]> {
+    const sessions = await this.authService.getSessions(
+      user.id,
+      user.sessionId,
+    );
+    return sessions.map((session) => new SessionResponseDto(session));
+  }
+
+  @UseGuards(JwtAuthGuard) // Protected by JWT access token
+  @Delete('sessions/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: "Revoke one of the current user's sessions" })
+  @ApiParam({ name: 'id', description: 'Session UUID', type: String })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Session revoked.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Session not found or already revoked.',
+  })
+  async revokeSession(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    await this.authService.revokeSession(user.id, id);
+  }
+
+  // --- Two-factor authentication ---
+
+  @UseGuards(JwtAuthGuard) // Protected by JWT access token
+  @Post('2fa/setup')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Start TOTP enrolment for the current user' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description:
+      'Returns the TOTP secret and otpauth URI. 2FA stays off until confirmed.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Two-factor authentication is already enabled.',
+  })
+  async setupTwoFactor(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<TwoFactorSetupResponse> {
+    return this.twoFactorService.setup(user.id);
+  }
+
+  @UseGuards(JwtAuthGuard) // Protected by JWT access token
+  @Post('2fa/confirm')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Confirm TOTP enrolment and enable 2FA' })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Returns the one-time recovery codes.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Invalid code.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Already enabled, or setup not started.',
+  })
+  async confirmTwoFactor(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ): Promise<RecoveryCodesResponse> {
+    return this.twoFactorService.confirm(user.id, twoFactorCodeDto.code);
+  }
+
+  @UseGuards(JwtAuthGuard) // Protected by JWT access token
+  @Post('2fa/disable')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Disable 2FA for the current user' })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiResponse({ status: HttpStatus.OK, description: '2FA disabled.' })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Invalid code.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'The role of the user requires 2FA.',
+  })
+  async disableTwoFactor(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ): Promise<{ message: string }> {
+    return this.twoFactorService.disable(user.id, twoFactorCodeDto.code);
+  }
+
+  @UseGuards(JwtAuthGuard) // Protected by JWT access token
+  @Post('2fa/recovery-codes')
+  @HttpCode(HttpStatus.OK)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Regenerate the recovery codes, invalidating the old ones',
+  })
+  @ApiBody({ type: TwoFactorCodeDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Returns the new recovery codes.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Invalid code.',
+  })
+  async regenerateRecoveryCodes(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() twoFactorCodeDto: TwoFactorCodeDto,
+  ): Promise<RecoveryCodesResponse> {
+    return this.twoFactorService.regenerateRecoveryCodes(
+      user.id,
+      twoFactorCodeDto.code,
+    );
   }
 
   @Public()
-  @UseGuards(RefreshStrategy) // Incorrect: Guards use Strategies
-  // @UseGuards(RefreshTokenGuard) // Correct: Use a guard that employs the RefreshStrategy
+  @RateLimit({ limit: 30, ttl: 60 })
   @Post('refresh')
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Refresh access token using a refresh token' })
+  @ApiOperation({
+    summary: 'Refresh access token using a refresh token',
+    description:
+      'The refresh token is rotated on every call. Reusing an already rotated token revokes the whole session.',
+  })
   @ApiBody({ type: RefreshTokenDto })
   @ApiResponse({
     status: HttpStatus.OK,
@@ -121,21 +381,18 @@ export class AuthController {
   })
   @ApiResponse({
     status: HttpStatus.UNAUTHORIZED,
-    description: 'Invalid or expired refresh token.',
+    description: 'Invalid, expired or reused refresh token.',
   })
-  async refresh(@Body() refreshTokenDto: RefreshTokenDto) {
-    // Get user from the RefreshTokenGuard
-    //this.logger.log(`Token refresh requested for user ID: ${req.user.id}`);
-
-    // The RefreshTokenGuard should validate the token and attach user/token info
-    // We might need the refresh token itself if the guard doesn't handle rotation logic internally
-    // For simplicity, assuming guard attaches user, and service handles finding the token if needed.
-    // Adjust based on your RefreshTokenGuard implementation.
-    // If the guard requires the token in the body AND validates it, you might need both @Body and @Request
-    // Let's assume the guard provides the necessary user context (id, email) and the service
-    // can retrieve the specific token from the request or user context if needed for rotation.
-
-    return this.authService.refreshToken(refreshTokenDto.refresh_token);
+  async refresh(
+    @Body() refreshTokenDto: RefreshTokenDto,
+    @Ip() ipAddress: string,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<LoginResponse> {
+    // The service validates the token against its session and rotates it
+    return this.authService.refreshToken(refreshTokenDto.refresh_token, {
+      ipAddress,
+      userAgent,
+    });
   }
 
   @UseGuards(JwtAuthGuard) // Protected by JWT access token
@@ -144,16 +401,30 @@ export class AuthController {
   @ApiOperation({ summary: 'Get the profile of the current user' })
   @ApiResponse({
     status: HttpStatus.OK,
-    description:
-      'Returns user profile data.' /* type: UserProfileDto - Define if needed */,
+    description: 'Returns user profile data.',
+    type: UserResponseDto,
   })
   @ApiResponse({
     status: HttpStatus.UNAUTHORIZED,
     description: 'User not authenticated.',
   })
-  async getProfile(@Request() req: RequestWithUser) {
-    // this.logger.log(`Profile requested for user ID: ${req.user.id}`);
+  async getProfile(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<UserResponseDto> {
+    // this.logger.log(`Profile requested for user ID: ${user.id}`);
     // The user object (id, email) is attached by JwtAuthGuard
-    return this.authService.getProfile(req.user); // Pass user ID
+    return new UserResponseDto(await this.authService.getProfile(user));
+  }
+
+  @Public()
+  @Get('.well-known/jwks.json')
+  @ApiOperation({
+    summary: 'Public keys to verify access tokens (JSON Web Key Set)',
+    description:
+      'Lists the RS256/ES256 keys currently accepted, matched by the `kid` header of each token. HS256 keys are never published.',
+  })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Returns the JWKS.' })
+  getJwks() {
+    return this.jwtKeysService.getJwks();
   }
 }
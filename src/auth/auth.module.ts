@@ -8,42 +8,78 @@ import { PassportModule } from '@nestjs/passport';
 import { LocalStrategy } from './local.strategy';
 //new
 import { JwtStrategy } from './jwt.strategy';
-import { JwtModule, JwtService } from '@nestjs/jwt';
-import { jwtConstants } from './constants';
+import { JwtService } from '@nestjs/jwt';
+import { ConfigService } from '@nestjs/config';
 import { MailService } from 'src/mail/mail.service';
 import { RolesModule } from 'src/roles/roles.module';
+import { SessionsService } from './sessions.service';
+import { TwoFactorService } from './two-factor.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { JwtKeysService } from './jwt-keys.service';
 
 @Module({
   imports: [
     //  UsersModule,
     // RolesModule,
     PassportModule,
-    JwtModule.registerAsync({
-      useFactory: () => ({
-        secret: jwtConstants.secret,
-        signOptions: { expiresIn: jwtConstants.accessExpiration },
-      }),
-    }),
-    /* JwtModule.registerAsync({
-      useFactory: () => ({
-        secret: jwtConstants.refreshSecret,
-        signOptions: { expiresIn: jwtConstants.refreshExpiration },
-      }),
-    }), */
   ],
   controllers: [AuthController],
   providers: [
     AuthService,
+    SessionsService,
+    TwoFactorService,
+    LoginAttemptsService,
     LocalStrategy,
     JwtStrategy,
     PrismaService,
     MailService,
+    JwtKeysService,
+    {
+      // Access tokens: signed with the active key of JwtKeysService
+      provide: JwtService,
+      inject: [JwtKeysService, ConfigService],
+      useFactory: (
+        jwtKeysService: JwtKeysService,
+        configService: ConfigService,
+      ) => {
+        const { kid, alg, signingKey } = jwtKeysService.getSigningKey();
+        return new JwtService({
+          ...(alg === 'HS256'
+            ? { secret: signingKey }
+            : { privateKey: signingKey }),
+          signOptions: {
+            algorithm: alg,
+            keyid: kid,
+            expiresIn: configService.get<string>(
+              'JWT_ACCESS_EXPIRATION',
+              '15m',
+            ),
+          },
+        });
+      },
+    },
     {
       provide: 'refresh',
-      useFactory: () => {
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => {
+        return new JwtService({
+          secret: configService.getOrThrow<string>('JWT_REFRESH_SECRET'),
+          signOptions: {
+            expiresIn: configService.get<string>(
+              'JWT_REFRESH_EXPIRATION',
+              '7d',
+            ),
+          },
+        });
+      },
+    },
+    {
+      provide: 'twoFactorChallenge',
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) => {
         return new JwtService({
-          secret: jwtConstants.refreshSecret,
-          signOptions: { expiresIn: jwtConstants.refreshExpiration },
+          secret: configService.getOrThrow<string>('JWT_CHALLENGE_SECRET'),
+          signOptions: { expiresIn: '5m' }, // time to enter the 2FA code
         });
       },
     },
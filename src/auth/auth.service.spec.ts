@@ -1,12 +1,51 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
 import { Test, TestingModule } from '@nestjs/testing';
+import * as bcrypt from 'bcrypt';
 import { AuthService } from './auth.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { SessionsService } from './sessions.service';
+import { TwoFactorService } from './two-factor.service';
+import { LoginAttemptsService } from './login-attempts.service';
 
 describe('AuthService', () => {
   let service: AuthService;
+  const refreshJwtService = new JwtService({
+    secret: 'refresh-secret',
+    signOptions: { expiresIn: '7d' },
+  });
+  const prismaService = { user: { findUnique: jest.fn() } };
+  const sessionsService = {
+    findOne: jest.fn(),
+    rotate: jest.fn(),
+    revoke: jest.fn(),
+  };
+  const loginAttemptsService = {
+    assertIpAllowed: jest.fn(),
+    isLocked: jest.fn(),
+    recordFailure: jest.fn(),
+    recordSuccess: jest.fn(),
+  };
 
   beforeEach(async () => {
+    jest.resetAllMocks();
     const module: TestingModule = await Test.createTestingModule({
-      providers: [AuthService],
+      providers: [
+        AuthService,
+        { provide: PrismaService, useValue: prismaService },
+        {
+          provide: JwtService,
+          useValue: new JwtService({ secret: 'access-secret' }),
+        },
+        { provide: 'refresh', useValue: refreshJwtService },
+        {
+          provide: 'twoFactorChallenge',
+          useValue: new JwtService({ secret: 'challenge-secret' }),
+        },
+        { provide: SessionsService, useValue: sessionsService },
+        { provide: TwoFactorService, useValue: {} },
+        { provide: LoginAttemptsService, useValue: loginAttemptsService },
+      ],
     }).compile();
 
     service = module.get<AuthService>(AuthService);
@@ -15,4 +54,141 @@ describe('AuthService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('validateUser', () => {
+    const password = 'correct horse';
+    const user = {
+      id: 'user',
+      email: 'user@example.com',
+      password: bcrypt.hashSync(password, 4),
+      isActive: true,
+      lockedUntil: null as Date | null,
+    };
+
+    it('returns the user without its password on valid credentials', async () => {
+      prismaService.user.findUnique.mockResolvedValue(user);
+      loginAttemptsService.isLocked.mockReturnValue(false);
+
+      const result = await service.validateUser(user.email, password, 'ip');
+
+      expect(result).toEqual({
+        id: user.id,
+        email: user.email,
+        isActive: true,
+        lockedUntil: null,
+      });
+      expect(loginAttemptsService.recordSuccess).toHaveBeenCalledWith(
+        user.email,
+        'ip',
+        user,
+      );
+    });
+
+    it.each([
+      ['the right password', password],
+      ['a wrong password', 'wrong'],
+    ])(
+      'answers a locked account with %s like a wrong password',
+      async (_, pass) => {
+        const locked = { ...user, lockedUntil: new Date(Date.now() + 60_000) };
+        prismaService.user.findUnique.mockResolvedValue(locked);
+        loginAttemptsService.isLocked.mockReturnValue(true);
+
+        await expect(
+          service.validateUser(user.email, pass, 'ip'),
+        ).resolves.toBeNull();
+        // Only the IP failure is counted: the lock is neither extended nor revealed
+        expect(loginAttemptsService.recordFailure).toHaveBeenCalledWith(
+          user.email,
+          'ip',
+          null,
+        );
+        expect(loginAttemptsService.recordSuccess).not.toHaveBeenCalled();
+      },
+    );
+
+    it('counts a wrong password against the account', async () => {
+      prismaService.user.findUnique.mockResolvedValue(user);
+      loginAttemptsService.isLocked.mockReturnValue(false);
+
+      await expect(
+        service.validateUser(user.email, 'wrong', 'ip'),
+      ).resolves.toBeNull();
+      expect(loginAttemptsService.recordFailure).toHaveBeenCalledWith(
+        user.email,
+        'ip',
+        user,
+      );
+    });
+  });
+
+  describe('refreshToken', () => {
+    const user = { id: 'user', email: 'user@example.com', isActive: true };
+    const session = {
+      id: 'sid',
+      userId: user.id,
+      revokedAt: null,
+      expiresAt: new Date(Date.now() + 60_000),
+    };
+    const refreshToken = refreshJwtService.sign({
+      sub: user.id,
+      email: user.email,
+      sid: session.id,
+      jti: 'first',
+    });
+
+    beforeEach(() => {
+      sessionsService.findOne.mockResolvedValue(session);
+      prismaService.user.findUnique.mockResolvedValue(user);
+    });
+
+    it('rotates the refresh token of the session', async () => {
+      sessionsService.rotate.mockResolvedValue(true);
+
+      const tokens = await service.refreshToken(refreshToken);
+
+      expect(tokens.refresh_token).not.toBe(refreshToken);
+      expect(sessionsService.rotate).toHaveBeenCalledWith(
+        session.id,
+        refreshToken,
+        tokens.refresh_token,
+        expect.any(Date),
+        {},
+      );
+      expect(sessionsService.revoke).not.toHaveBeenCalled();
+    });
+
+    it('revokes the session when a rotated token is presented again', async () => {
+      sessionsService.rotate.mockResolvedValue(false);
+
+      await expect(service.refreshToken(refreshToken)).rejects.toThrow(
+        'Refresh token has already been used. Please log in again.',
+      );
+      expect(sessionsService.revoke).toHaveBeenCalledWith(session.id);
+    });
+
+    it('rejects tokens of revoked sessions without rotating', async () => {
+      sessionsService.findOne.mockResolvedValue({
+        ...session,
+        revokedAt: new Date(),
+      });
+
+      await expect(service.refreshToken(refreshToken)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(sessionsService.rotate).not.toHaveBeenCalled();
+    });
+
+    it('rejects tokens that are not signed with the refresh secret', async () => {
+      const forged = new JwtService({ secret: 'other' }).sign({
+        sub: user.id,
+        sid: session.id,
+      });
+
+      await expect(service.refreshToken(forged)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(sessionsService.findOne).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -11,9 +11,20 @@ import {
 import { JwtService } from '@nestjs/jwt';
 import { PrismaService } from 'src/prisma/prisma.service';
 import * as bcrypt from 'bcrypt';
-import { jwtConstants } from './constants';
 import { User } from '@prisma/client'; // Import User type
-import { LoginResponse } from './auth.controller';
+import { LoginResponse, TwoFactorChallengeResponse } from './auth.controller';
+import {
+  ActiveSession,
+  SessionContext,
+  SessionsService,
+} from './sessions.service';
+import {
+  RecoveryCodesResponse,
+  TwoFactorService,
+  TwoFactorSetupResponse,
+} from './two-factor.service';
+import { LoginAttemptsService } from './login-attempts.service';
+import { randomUUID } from 'crypto';
 
 interface UserPayload {
   // userId: string;
@@ -25,11 +36,21 @@ interface UserPayload {
 interface AccessTokenPayload {
   sub: string; // User ID (subject)
   email: string;
+  sid: string; // Session ID
 }
 
 interface RefreshTokenPayload extends AccessTokenPayload {
-  // Potentially add a refresh token specific identifier if needed
-  // jti?: string;
+  jti: string; // Unique token ID, changes on every rotation
+  exp?: number;
+}
+
+// Short-lived token proving the password step succeeded
+type ChallengePurpose = 'login' | 'setup';
+
+interface ChallengeTokenPayload {
+  sub: string;
+  email: string;
+  purpose: ChallengePurpose;
 }
 
 // Define return type for login
@@ -39,15 +60,15 @@ interface RefreshTokenPayload extends AccessTokenPayload {
 } */
 
 // Define return type for profile (excluding sensitive info)
-// Consider creating a UserProfileDto
+// The controller serializes it through UserResponseDto
 type UserProfile = Omit<
   User,
   | 'password'
-  | 'refreshToken'
-  | 'refreshTokenExpires'
   | 'activationToken'
   | 'resetToken'
   | 'resetTokenExpires'
+  | 'twoFactorSecret'
+  | 'twoFactorRecoveryCodes'
 >;
 
 @Injectable()
@@ -59,21 +80,41 @@ export class AuthService {
     private jwtService: JwtService, // For access tokens
     // Inject the refresh token specific JwtService instance
     @Inject('refresh') private readonly refreshJwtService: JwtService,
+    // Signs the challenge tokens of the two-step (2FA) login
+    @Inject('twoFactorChallenge')
+    private readonly challengeJwtService: JwtService,
+    private sessionsService: SessionsService,
+    private twoFactorService: TwoFactorService,
+    private loginAttemptsService: LoginAttemptsService,
   ) {}
 
   /**
    * Validates user credentials for the LocalStrategy.
+   * Failed attempts are tracked per account and per IP address: repeated
+   * failures slow the response down, lock the account temporarily and
+   * eventually block the IP (see LoginAttemptsService).
    * @param email - User's email
    * @param pass - User's plain text password
+   * @param ipAddress - Client IP address
    * @returns The user object without password if valid, otherwise null.
    */
   async validateUser(
     email: string,
     pass: string,
+    ipAddress?: string,
   ): Promise<Omit<User, 'password'> | null> {
     // this.logger.log(`Validating user: ${email}`);
+    await this.loginAttemptsService.assertIpAllowed(ipAddress);
     const user = await this.prismaService.user.findUnique({ where: { email } });
 
+    // A locked account gets the same answer as a wrong password, so the
+    // response tells nothing about the account. Only the IP failure counts.
+    if (user && this.loginAttemptsService.isLocked(user)) {
+      this.logger.warn(`Login attempt on locked account: ${email}`);
+      await this.loginAttemptsService.recordFailure(email, ipAddress, null);
+      return null;
+    }
+
     if (user && user.isActive === false) {
       this.logger.warn(`Login attempt failed for inactive user: ${email}`);
       // Throw specific error or return null based on desired behavior for inactive users
@@ -97,54 +138,151 @@ export class AuthService {
 
     if (user && (await bcrypt.compare(pass, user.password))) {
       this.logger.log(`User validation successful for: ${email}`);
+      await this.loginAttemptsService.recordSuccess(email, ipAddress, user);
       const { password, ...result } = user; // Exclude password
       return result;
     }
 
     this.logger.warn(`User validation failed for: ${email}`);
+    await this.loginAttemptsService.recordFailure(email, ipAddress, user);
     return null; // Indicate validation failure
   }
 
   /**
-   * Generates access and refresh tokens upon successful login.
-   * Stores the refresh token hash (best practice) or the token itself.
+   * Completes the password step of the login.
+   * Users without 2FA get their tokens right away. Users with 2FA enabled, or
+   * whose role requires it, get a short-lived challenge token instead, to be
+   * exchanged at /auth/login/2fa (or /auth/login/2fa/setup to enrol).
    * @param user - The validated user object (without password).
+   * @param context - User agent and IP address of the client.
+   * @returns Access and Refresh tokens, or a two-factor challenge.
+   */
+  async login(
+    user: UserPayload,
+    context: SessionContext = {},
+  ): Promise<LoginResponse | TwoFactorChallengeResponse> {
+    const dbUser = await this.prismaService.user.findUnique({
+      where: { id: user.id },
+      include: { role: true },
+    });
+    if (!dbUser) {
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    if (dbUser.twoFactorEnabled) {
+      return this.createChallenge(dbUser, 'login');
+    }
+    if (dbUser.role.requireTwoFactor) {
+      this.logger.log(
+        `User ID ${user.id} must enrol 2FA before logging in (role "${dbUser.role.name}").`,
+      );
+      return this.createChallenge(dbUser, 'setup');
+    }
+
+    return this.createSession(user, context);
+  }
+
+  /**
+   * Completes a two-step login with a TOTP or recovery code.
+   * @param challengeToken - Token returned by the password step.
+   * @param code - TOTP code or recovery code.
+   * @param context - User agent and IP address of the client.
    * @returns Access and Refresh tokens.
+   * @throws UnauthorizedException if the challenge or the code is invalid.
    */
-  async login(user: UserPayload): Promise<LoginResponse> {
-    this.logger.log(`Generating tokens for user ID: ${user.id}`);
-    const accessPayload: AccessTokenPayload = {
-      email: user.email,
-      sub: user.id,
-    };
-    const refreshPayload: RefreshTokenPayload = {
-      email: user.email,
-      sub: user.id,
-    };
+  async loginWithTwoFactor(
+    challengeToken: string,
+    code: string,
+    context: SessionContext = {},
+  ): Promise<LoginResponse> {
+    const payload = this.verifyChallenge(challengeToken, 'login');
+    await this.loginAttemptsService.assertIpAllowed(context.ipAddress);
+    const user = await this.prismaService.user.findUnique({
+      where: { id: payload.sub },
+    });
+    if (!user) {
+      throw new UnauthorizedException('Invalid two-factor challenge.');
+    }
+    // Guessing TOTP codes counts towards the same lockout as passwords
+    this.loginAttemptsService.assertNotLocked(user);
+    if (!(await this.twoFactorService.verifyCode(user.id, code))) {
+      this.logger.warn(`Invalid 2FA code for user ID: ${user.id}`);
+      await this.loginAttemptsService.recordFailure(
+        user.email,
+        context.ipAddress,
+        user,
+      );
+      throw new UnauthorizedException('Invalid two-factor code.');
+    }
+    return this.createSession(
+      { id: payload.sub, email: payload.email },
+      context,
+    );
+  }
 
-    // Sign tokens
-    const accessToken = this.jwtService.sign(accessPayload);
-    const refreshToken = this.refreshJwtService.sign(refreshPayload);
+  /**
+   * Starts the mandatory 2FA enrolment of a user who cannot log in without it.
+   * @param challengeToken - Setup challenge returned by the password step.
+   */
+  async setupTwoFactorWithChallenge(
+    challengeToken: string,
+  ): Promise<TwoFactorSetupResponse> {
+    const payload = this.verifyChallenge(challengeToken, 'setup');
+    return this.twoFactorService.setup(payload.sub);
+  }
 
-    // Store the refresh token (or its hash) in the database
-    // Hashing the refresh token before storing is more secure
-    // const hashedRefreshToken = await bcrypt.hash(refreshToken, 10); // Example hashing
+  /**
+   * Confirms the mandatory 2FA enrolment and logs the user in.
+   * @param challengeToken - Setup challenge returned by the password step.
+   * @param code - Current TOTP code.
+   * @param context - User agent and IP address of the client.
+   * @returns The recovery codes together with the Access and Refresh tokens.
+   */
+  async confirmTwoFactorWithChallenge(
+    challengeToken: string,
+    code: string,
+    context: SessionContext = {},
+  ): Promise<LoginResponse & RecoveryCodesResponse> {
+    const payload = this.verifyChallenge(challengeToken, 'setup');
+    const recoveryCodes = await this.twoFactorService.confirm(
+      payload.sub,
+      code,
+    );
+    const tokens = await this.createSession(
+      { id: payload.sub, email: payload.email },
+      context,
+    );
+    return { ...tokens, ...recoveryCodes };
+  }
+
+  /**
+   * Generates access and refresh tokens and opens a new session.
+   * Every login opens a new session, so several devices can stay logged in.
+   * Only the SHA-256 hash of the refresh token is stored.
+   * @param user - The authenticated user.
+   * @param context - User agent and IP address of the client.
+   * @returns Access and Refresh tokens.
+   */
+  private async createSession(
+    user: UserPayload,
+    context: SessionContext,
+  ): Promise<LoginResponse> {
+    this.logger.log(`Generating tokens for user ID: ${user.id}`);
+    const sessionId = randomUUID();
+    const tokens = this.signTokens(user, sessionId);
 
     try {
-      await this.prismaService.user.update({
-        where: { id: user.id },
-        data: {
-          // refreshToken: hashedRefreshToken, // Store hash if implementing hashing
-          refreshToken: refreshToken, // Storing plain token as per original code
-          refreshTokenExpires: new Date(
-            Date.now() + 7 * 24 * 60 * 60 * 1000, // 7 days in milliseconds
-          ), // Use constant
-        },
-      });
-      this.logger.log(`Refresh token stored for user ID: ${user.id}`);
+      await this.sessionsService.create(
+        sessionId,
+        user.id,
+        tokens.refresh_token,
+        this.getRefreshExpiry(tokens.refresh_token),
+        context,
+      );
+      this.logger.log(`Session ${sessionId} created for user ID: ${user.id}`);
     } catch (error) {
       this.logger.error(
-        `Failed to store refresh token for user ${user.id}: ${error.message}`,
+        `Failed to create session for user ${user.id}: ${error.message}`,
         error.stack,
       );
       throw new InternalServerErrorException(
@@ -152,95 +290,137 @@ export class AuthService {
       );
     }
 
-    return {
-      access_token: accessToken,
-      refresh_token: refreshToken,
-    };
+    return tokens;
   }
 
   /**
-   * Logs out a user by invalidating their refresh token.
+   * Logs out the current session. Tokens issued before sessions existed carry
+   * no session ID, in which case every session of the user is revoked.
    * @param userId - The ID of the user to log out.
+   * @param sessionId - The session the access token belongs to.
    */
-  async logout(userId: string): Promise<{ message: string }> {
+  async logout(
+    userId: string,
+    sessionId?: string,
+  ): Promise<{ message: string }> {
     this.logger.log(`Attempting to log out user ID: ${userId}`);
     try {
-      await this.prismaService.user.update({
-        where: { id: userId },
-        data: {
-          refreshToken: null,
-          refreshTokenExpires: null,
-        },
-      });
+      if (sessionId) {
+        await this.sessionsService.revoke(sessionId);
+      } else {
+        await this.sessionsService.revokeAllForUser(userId);
+      }
       this.logger.log(`User ID ${userId} logged out successfully.`);
       return { message: 'Logout successful' };
     } catch (error) {
-      // Handle case where user might not be found, though typically logout should succeed even then
-      if (error.code === 'P2025') {
-        // Prisma code for record not found
-        this.logger.warn(`Logout attempt for non-existent user ID: ${userId}`);
-        // Still return success, as the desired state (no token) is achieved
-        return { message: 'Logout successful' };
-      }
       this.logger.error(
-        `Failed to clear refresh token for user ${userId}: ${error.message}`,
+        `Failed to revoke session for user ${userId}: ${error.message}`,
         error.stack,
       );
       throw new InternalServerErrorException('Failed to process logout.');
     }
   }
 
+  /**
+   * Logs out every device of the user by revoking all their sessions.
+   * @param userId - The ID of the user to log out.
+   */
+  async logoutAll(
+    userId: string,
+  ): Promise<{ message: string; revokedSessions: number }> {
+    this.logger.log(`Logging out all sessions of user ID: ${userId}`);
+    const revokedSessions = await this.sessionsService.revokeAllForUser(userId);
+    return { message: 'Logged out from all devices', revokedSessions };
+  }
+
+  /**
+   * Lists the active sessions of the user, flagging the one making the request.
+   * @param userId - The ID of the user.
+   * @param currentSessionId - The session the access token belongs to.
+   */
+  async getSessions(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<ActiveSession[]> {
+    return this.sessionsService.findActiveForUser(userId, currentSessionId);
+  }
+
+  /**
+   * Revokes one of the user's sessions, e.g. a lost device.
+   * @param userId - The ID of the user.
+   * @param sessionId - The session to revoke.
+   * @throws NotFoundException if the session is not an active session of the user.
+   */
+  async revokeSession(userId: string, sessionId: string): Promise<void> {
+    await this.sessionsService.revokeForUser(userId, sessionId);
+  }
+
   /**
    * Refreshes the access token using a valid refresh token.
-   * Implements basic refresh token validation (existence, expiry).
-   * Consider adding refresh token rotation for enhanced security.
-   * @param refreshToken - The refresh token provided by the client (optional, depending on guard).
-   * @returns New Access and potentially Refresh tokens.
+   * The refresh token is rotated on every call. Presenting a refresh token
+   * that was already rotated (or a validly signed one that does not match the
+   * session) is treated as theft: the whole session is revoked.
+   * @param refreshToken - The refresh token provided by the client.
+   * @param context - User agent and IP address of the client.
+   * @returns New Access and Refresh tokens.
    */
-  async refreshToken(refreshToken: string): Promise<LoginResponse> {
-    // Verify the refresh token exists and is valid
-    const dbUser = await this.prismaService.user.findUnique({
-      where: {
-        refreshToken,
-        refreshTokenExpires: { gt: new Date() },
-      },
-    });
+  async refreshToken(
+    refreshToken: string,
+    context: SessionContext = {},
+  ): Promise<LoginResponse> {
+    // Verify JWT signature and expiration
+    let payload: RefreshTokenPayload;
+    try {
+      payload =
+        this.refreshJwtService.verify<RefreshTokenPayload>(refreshToken);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired refresh token');
+    }
 
-    if (!dbUser) {
+    // Tokens issued before sessions existed cannot be rotated
+    if (!payload.sid) {
       throw new UnauthorizedException('Invalid or expired refresh token');
     }
 
-    // Verify JWT signature
-    try {
-      this.refreshJwtService.verify(refreshToken, {
-        secret: jwtConstants.refreshSecret,
-      });
-    } catch (error) {
-      await this.prismaService.user.update({
-        where: { id: dbUser.id },
-        data: { refreshToken: null, refreshTokenExpires: null },
-      });
-      throw new UnauthorizedException('Invalid refresh token');
+    const session = await this.sessionsService.findOne(payload.sid);
+    if (
+      !session ||
+      session.userId !== payload.sub ||
+      session.revokedAt ||
+      session.expiresAt <= new Date()
+    ) {
+      throw new UnauthorizedException('Invalid or expired refresh token');
     }
 
-    // Generate new tokens
-    const newPayload = { email: dbUser.email, sub: dbUser.id };
-    const newAccessToken = this.jwtService.sign(newPayload);
-    const newRefreshToken = this.refreshJwtService.sign(newPayload);
-
-    // Update refresh token in database
-    await this.prismaService.user.update({
-      where: { id: dbUser.id },
-      data: {
-        refreshToken: newRefreshToken,
-        refreshTokenExpires: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
-      },
+    const dbUser = await this.prismaService.user.findUnique({
+      where: { id: session.userId },
     });
+    if (!dbUser || !dbUser.isActive) {
+      await this.sessionsService.revoke(session.id);
+      throw new UnauthorizedException('Invalid or expired refresh token');
+    }
 
-    return {
-      access_token: newAccessToken,
-      refresh_token: newRefreshToken,
-    };
+    // Generate new tokens for the same session and swap the stored hash
+    const tokens = this.signTokens(dbUser, session.id);
+    const rotated = await this.sessionsService.rotate(
+      session.id,
+      refreshToken,
+      tokens.refresh_token,
+      this.getRefreshExpiry(tokens.refresh_token),
+      context,
+    );
+
+    if (!rotated) {
+      this.logger.warn(
+        `Refresh token reuse detected for session ${session.id} (user ID: ${session.userId}). Revoking session.`,
+      );
+      await this.sessionsService.revoke(session.id);
+      throw new UnauthorizedException(
+        'Refresh token has already been used. Please log in again.',
+      );
+    }
+
+    return tokens;
   }
 
   /**
@@ -252,6 +432,7 @@ export class AuthService {
     const userFound = await this.prismaService.user.findUnique({
       where: { email: user.email },
       include: { role: true },
+      omit: { twoFactorSecret: true, twoFactorRecoveryCodes: true },
     });
 
     if (!userFound) {
@@ -260,6 +441,80 @@ export class AuthService {
     return userFound;
   }
 
+  /**
+   * Issues a challenge token for the second login step.
+   */
+  private createChallenge(
+    user: Pick<User, 'id' | 'email'>,
+    purpose: ChallengePurpose,
+  ): TwoFactorChallengeResponse {
+    const payload: ChallengeTokenPayload = {
+      sub: user.id,
+      email: user.email,
+      purpose,
+    };
+    return {
+      two_factor_required: true,
+      setup_required: purpose === 'setup',
+      challenge_token: this.challengeJwtService.sign(payload),
+    };
+  }
+
+  /**
+   * Verifies a challenge token and checks it was issued for the given step.
+   * @throws UnauthorizedException if the token is invalid, expired or for another step.
+   */
+  private verifyChallenge(
+    challengeToken: string,
+    purpose: ChallengePurpose,
+  ): ChallengeTokenPayload {
+    let payload: ChallengeTokenPayload;
+    try {
+      payload =
+        this.challengeJwtService.verify<ChallengeTokenPayload>(challengeToken);
+    } catch {
+      throw new UnauthorizedException(
+        'Invalid or expired two-factor challenge. Please log in again.',
+      );
+    }
+    if (payload.purpose !== purpose) {
+      throw new UnauthorizedException('Invalid two-factor challenge.');
+    }
+    return payload;
+  }
+
+  /**
+   * Signs an access/refresh token pair bound to a session.
+   */
+  private signTokens(
+    user: Pick<User, 'id' | 'email'>,
+    sessionId: string,
+  ): LoginResponse {
+    const accessPayload: AccessTokenPayload = {
+      email: user.email,
+      sub: user.id,
+      sid: sessionId,
+    };
+    const refreshPayload: RefreshTokenPayload = {
+      ...accessPayload,
+      jti: randomUUID(), // makes every rotated token unique
+    };
+
+    return {
+      access_token: this.jwtService.sign(accessPayload),
+      refresh_token: this.refreshJwtService.sign(refreshPayload),
+    };
+  }
+
+  /**
+   * Reads the expiration date from a freshly signed refresh token.
+   */
+  private getRefreshExpiry(refreshToken: string): Date {
+    const { exp } =
+      this.refreshJwtService.decode<RefreshTokenPayload>(refreshToken);
+    return new Date(exp! * 1000);
+  }
+
   // Note: The actual implementation for password reset, activation, etc.,
   // should reside in the UsersService as they primarily deal with user entity
   // state changes, not just authentication state. AuthService might coordinate
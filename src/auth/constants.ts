@@ -1,6 +0,0 @@
-export const jwtConstants = {
-  secret: 'Z)9~4+i/HY^hNL.SSV!{5@Kg%U93}RYep"kC%(o',
-  refreshSecret: 'mX~6]T8e#VqyB$W9KdLg@zR&uF)hN*PcS',
-  accessExpiration: '15m', // 15 minutes
-  refreshExpiration: '7d', // 7 days
-};
@@ -0,0 +1,47 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Exclude, Expose } from 'class-transformer';
+import { ActiveSession } from '../sessions.service';
+
+/**
+ * Session as returned by the API. The refresh token hash is never exposed.
+ */
+@Exclude()
+export class SessionResponseDto {
+  @Expose()
+  @ApiProperty({ format: 'uuid' })
+  id: string;
+
+  @Expose()
+  @ApiPropertyOptional({ nullable: true, example: 'Firefox on Windows' })
+  device: string | null;
+
+  @Expose()
+  @ApiPropertyOptional({ nullable: true })
+  userAgent: string | null;
+
+  @Expose()
+  @ApiPropertyOptional({ nullable: true })
+  ipAddress: string | null;
+
+  @Expose()
+  @ApiProperty({
+    description: 'Whether this is the session making the request',
+  })
+  current: boolean;
+
+  @Expose()
+  @ApiProperty()
+  createdAt: Date;
+
+  @Expose()
+  @ApiProperty()
+  lastUsedAt: Date;
+
+  @Expose()
+  @ApiProperty()
+  expiresAt: Date;
+
+  constructor(session: ActiveSession) {
+    Object.assign(this, session);
+  }
+}
@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString } from 'class-validator';
+
+/**
+ * DTO carrying the challenge token returned by the password step of the login
+ * when two-factor authentication is required.
+ */
+export class TwoFactorChallengeDto {
+  @ApiProperty({ description: 'The challenge token returned by /auth/login.' })
+  @IsString()
+  challenge_token: string;
+}
@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+/**
+ * DTO carrying a second-factor code: a 6-digit TOTP code from the
+ * authenticator app, or one of the recovery codes (xxxxx-xxxxx).
+ */
+export class TwoFactorCodeDto {
+  @ApiProperty({
+    description: 'TOTP code or recovery code.',
+    example: '123456',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  code: string;
+}
@@ -0,0 +1,18 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { TwoFactorChallengeDto } from './two-factor-challenge.dto';
+
+/**
+ * DTO for the second step of the login: the challenge token plus a TOTP
+ * code (or a recovery code).
+ */
+export class TwoFactorLoginDto extends TwoFactorChallengeDto {
+  @ApiProperty({
+    description: 'TOTP code or recovery code.',
+    example: '123456',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  code: string;
+}
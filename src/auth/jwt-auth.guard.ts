@@ -5,6 +5,7 @@ import {
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { AuthGuard } from '@nestjs/passport';
+import { Request } from 'express';
 import { IS_PUBLIC_KEY } from 'src/decorators/public.decorator';
 
 @Injectable()
@@ -15,7 +16,7 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
     super();
   }
 
-  canActivate(context: ExecutionContext) {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     // Add your custom authentication logic here
     // for example, call super.logIn(request) to establish a session.
 
@@ -25,10 +26,26 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
       context.getClass(),
     ]);
     if (isPublic) {
+      await this.identifyOptionalUser(context);
       return true;
     }   // fin de lo nuevo
 
-    return super.canActivate(context);
+    return super.canActivate(context) as Promise<boolean>;
+  }
+
+  // Public routes still attach req.user when a valid access token is sent, so
+  // they can show more to staff (e.g. draft projects). A missing or invalid
+  // token just leaves the request anonymous.
+  private async identifyOptionalUser(context: ExecutionContext): Promise<void> {
+    const request = context.switchToHttp().getRequest<Request>();
+    if (request.user || !request.headers.authorization) {
+      return;
+    }
+    try {
+      await super.canActivate(context);
+    } catch {
+      request.user = undefined;
+    }
   }
 
   handleRequest(err, user, info) {
@@ -0,0 +1,107 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { generateKeyPairSync } from 'crypto';
+import { sign } from 'jsonwebtoken';
+import { JwtKeysService } from './jwt-keys.service';
+
+const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+const privateKeyPem = privateKey
+  .export({ type: 'pkcs8', format: 'pem' })
+  .toString();
+
+async function createService(
+  config: Record<string, string>,
+): Promise<JwtKeysService> {
+  const module: TestingModule = await Test.createTestingModule({
+    providers: [
+      JwtKeysService,
+      {
+        provide: ConfigService,
+        useValue: { get: (key: string) => config[key] },
+      },
+    ],
+  }).compile();
+  return module.get<JwtKeysService>(JwtKeysService);
+}
+
+describe('JwtKeysService', () => {
+  const keys = JSON.stringify([
+    { kid: 'ec-2025', alg: 'ES256', privateKey: privateKeyPem },
+    { kid: 'legacy', alg: 'HS256', secret: 'legacy-secret' },
+  ]);
+
+  it('should be defined', async () => {
+    expect(await createService({ JWT_SECRET: 'secret' })).toBeDefined();
+  });
+
+  it('falls back to JWT_SECRET as a single HS256 key', async () => {
+    const service = await createService({ JWT_SECRET: 'secret' });
+
+    expect(service.getSigningKey()).toEqual({
+      kid: 'default',
+      alg: 'HS256',
+      signingKey: 'secret',
+      verificationKey: 'secret',
+    });
+    expect(service.getAlgorithms()).toEqual(['HS256']);
+  });
+
+  it('signs with the active key and derives its public key', async () => {
+    const service = await createService({
+      JWT_KEYS: keys,
+      JWT_ACTIVE_KID: 'ec-2025',
+    });
+
+    const key = service.getSigningKey();
+    expect(key.kid).toBe('ec-2025');
+    expect(key.verificationKey).toContain('BEGIN PUBLIC KEY');
+    expect(service.getAlgorithms()).toEqual(['ES256', 'HS256']);
+  });
+
+  it('picks the verification key from the kid header', async () => {
+    const service = await createService({
+      JWT_KEYS: keys,
+      JWT_ACTIVE_KID: 'ec-2025',
+    });
+    const legacyToken = sign({ sub: 'user' }, 'legacy-secret', {
+      keyid: 'legacy',
+    });
+    const unknownToken = sign({ sub: 'user' }, 'x', { keyid: 'unknown' });
+    const tokenWithoutKid = sign({ sub: 'user' }, 'x');
+
+    expect(service.getVerificationKey(legacyToken)?.kid).toBe('legacy');
+    expect(service.getVerificationKey(unknownToken)).toBeUndefined();
+    expect(service.getVerificationKey(tokenWithoutKid)?.kid).toBe('ec-2025');
+  });
+
+  it('publishes only asymmetric keys in the JWKS', async () => {
+    const service = await createService({ JWT_KEYS: keys });
+
+    const { keys: published } = service.getJwks();
+    expect(published).toHaveLength(1);
+    expect(published[0]).toMatchObject({
+      kid: 'ec-2025',
+      alg: 'ES256',
+      kty: 'EC',
+      use: 'sig',
+    });
+    expect(published[0]).not.toHaveProperty('d');
+  });
+
+  it('rejects invalid configurations', async () => {
+    await expect(createService({})).rejects.toThrow(
+      'Either JWT_KEYS or JWT_SECRET must be configured',
+    );
+    await expect(
+      createService({
+        JWT_KEYS: JSON.stringify([
+          { kid: 'a', alg: 'HS256', secret: '1' },
+          { kid: 'a', alg: 'HS256', secret: '2' },
+        ]),
+      }),
+    ).rejects.toThrow('Duplicate JWT key id "a"');
+    await expect(
+      createService({ JWT_KEYS: keys, JWT_ACTIVE_KID: 'missing' }),
+    ).rejects.toThrow('JWT_ACTIVE_KID "missing"');
+  });
+});
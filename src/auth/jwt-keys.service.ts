@@ -0,0 +1,169 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createPublicKey, JsonWebKey } from 'crypto';
+import { Algorithm, decode } from 'jsonwebtoken';
+
+export type JwtKeyAlgorithm = Extract<Algorithm, 'HS256' | 'RS256' | 'ES256'>;
+
+const SUPPORTED_ALGORITHMS: JwtKeyAlgorithm[] = ['HS256', 'RS256', 'ES256'];
+
+// One entry of the JWT_KEYS environment variable (JSON array)
+interface JwtKeyConfig {
+  kid: string;
+  alg: JwtKeyAlgorithm;
+  secret?: string; // HS256
+  privateKey?: string; // RS256/ES256, PEM. Omit for keys that only verify
+  publicKey?: string; // RS256/ES256, PEM. Derived from privateKey if omitted
+}
+
+export interface JwtKey {
+  kid: string;
+  alg: JwtKeyAlgorithm;
+  signingKey?: string; // secret or private key PEM
+  verificationKey: string; // secret or public key PEM
+}
+
+/**
+ * Holds the keys used to sign and verify access tokens.
+ *
+ * Keys come from `JWT_KEYS`, a JSON array of `{ kid, alg, secret | privateKey,
+ * publicKey? }`, and `JWT_ACTIVE_KID` selects the one used for signing. The
+ * other keys keep verifying tokens issued before a rotation until they expire.
+ * Without `JWT_KEYS`, `JWT_SECRET` is used as a single HS256 key.
+ */
+@Injectable()
+export class JwtKeysService {
+  private readonly logger = new Logger(JwtKeysService.name);
+  private readonly keys = new Map<string, JwtKey>();
+  private readonly activeKey: JwtKey;
+
+  constructor(private configService: ConfigService) {
+    for (const keyConfig of this.loadKeyConfigs()) {
+      const key = this.toJwtKey(keyConfig);
+      if (this.keys.has(key.kid)) {
+        throw new Error(`Duplicate JWT key id "${key.kid}" in JWT_KEYS`);
+      }
+      this.keys.set(key.kid, key);
+    }
+
+    const activeKid =
+      this.configService.get<string>('JWT_ACTIVE_KID') ??
+      [...this.keys.keys()][0];
+    const activeKey = this.keys.get(activeKid);
+    if (!activeKey?.signingKey) {
+      throw new Error(
+        `JWT_ACTIVE_KID "${activeKid}" must reference a key with a secret or private key`,
+      );
+    }
+    this.activeKey = activeKey;
+    this.logger.log(
+      `Loaded ${this.keys.size} JWT key(s), signing with "${activeKid}" (${activeKey.alg})`,
+    );
+  }
+
+  /**
+   * The key new access tokens are signed with.
+   */
+  getSigningKey(): JwtKey {
+    return this.activeKey;
+  }
+
+  /**
+   * Algorithms accepted when verifying access tokens.
+   */
+  getAlgorithms(): JwtKeyAlgorithm[] {
+    return [...new Set([...this.keys.values()].map((key) => key.alg))];
+  }
+
+  /**
+   * Finds the key that can verify a token, using the `kid` of its header.
+   * Tokens signed before `kid` headers existed are checked against the active key.
+   * @param rawToken - The encoded JWT.
+   * @returns The key, or undefined if the `kid` is unknown.
+   */
+  getVerificationKey(rawToken: string): JwtKey | undefined {
+    const decoded = decode(rawToken, { complete: true });
+    const kid = decoded?.header.kid;
+    return kid ? this.keys.get(kid) : this.activeKey;
+  }
+
+  /**
+   * Public keys as a JSON Web Key Set. Symmetric keys are never published.
+   */
+  getJwks(): { keys: JsonWebKey[] } {
+    const keys = [...this.keys.values()]
+      .filter((key) => key.alg !== 'HS256')
+      .map((key) => ({
+        ...createPublicKey(key.verificationKey).export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.alg,
+        use: 'sig',
+      }));
+    return { keys };
+  }
+
+  private loadKeyConfigs(): JwtKeyConfig[] {
+    const rawKeys = this.configService.get<string>('JWT_KEYS');
+    if (!rawKeys) {
+      const secret = this.configService.get<string>('JWT_SECRET');
+      if (!secret) {
+        throw new Error('Either JWT_KEYS or JWT_SECRET must be configured');
+      }
+      return [{ kid: 'default', alg: 'HS256', secret }];
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(rawKeys);
+    } catch {
+      throw new Error('JWT_KEYS must be a valid JSON array');
+    }
+    if (!Array.isArray(parsed) || parsed.length === 0) {
+      throw new Error('JWT_KEYS must be a non-empty JSON array');
+    }
+    return parsed as JwtKeyConfig[];
+  }
+
+  private toJwtKey(config: JwtKeyConfig): JwtKey {
+    if (!config.kid) {
+      throw new Error('Every JWT key needs a "kid"');
+    }
+    if (!SUPPORTED_ALGORITHMS.includes(config.alg)) {
+      throw new Error(
+        `Unsupported algorithm "${config.alg}" for JWT key "${config.kid}"`,
+      );
+    }
+
+    if (config.alg === 'HS256') {
+      if (!config.secret) {
+        throw new Error(`HS256 JWT key "${config.kid}" needs a "secret"`);
+      }
+      return {
+        kid: config.kid,
+        alg: config.alg,
+        signingKey: config.secret,
+        verificationKey: config.secret,
+      };
+    }
+
+    // PEMs in environment variables usually have their newlines escaped
+    const privateKey = config.privateKey?.replace(/\\n/g, '\n');
+    let publicKey = config.publicKey?.replace(/\\n/g, '\n');
+    if (!publicKey && privateKey) {
+      publicKey = createPublicKey(privateKey)
+        .export({ type: 'spki', format: 'pem' })
+        .toString();
+    }
+    if (!publicKey) {
+      throw new Error(
+        `${config.alg} JWT key "${config.kid}" needs a "privateKey" or "publicKey"`,
+      );
+    }
+    return {
+      kid: config.kid,
+      alg: config.alg,
+      signingKey: privateKey,
+      verificationKey: publicKey,
+    };
+  }
+}
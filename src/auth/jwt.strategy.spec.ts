@@ -0,0 +1,74 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtStrategy } from './jwt.strategy';
+import { JwtKeysService } from './jwt-keys.service';
+import { SessionsService } from './sessions.service';
+
+describe('JwtStrategy', () => {
+  let strategy: JwtStrategy;
+  const sessionsService = { findOne: jest.fn() };
+  const payload = { sub: 'user', email: 'user@example.com', sid: 'sid' };
+  const session = {
+    id: 'sid',
+    userId: 'user',
+    revokedAt: null,
+    expiresAt: new Date(Date.now() + 60_000),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JwtStrategy,
+        {
+          provide: JwtKeysService,
+          useValue: { getAlgorithms: () => ['HS256'] },
+        },
+        { provide: SessionsService, useValue: sessionsService },
+      ],
+    }).compile();
+
+    strategy = module.get<JwtStrategy>(JwtStrategy);
+  });
+
+  it('accepts tokens of an active session', async () => {
+    sessionsService.findOne.mockResolvedValue(session);
+
+    await expect(strategy.validate(payload)).resolves.toEqual({
+      id: 'user',
+      email: 'user@example.com',
+      sessionId: 'sid',
+    });
+    expect(sessionsService.findOne).toHaveBeenCalledWith('sid');
+  });
+
+  it('rejects tokens of a revoked session', async () => {
+    sessionsService.findOne.mockResolvedValue({
+      ...session,
+      revokedAt: new Date(),
+    });
+
+    await expect(strategy.validate(payload)).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('rejects tokens whose session no longer exists', async () => {
+    sessionsService.findOne.mockResolvedValue(null);
+
+    await expect(strategy.validate(payload)).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('rejects tokens of a session of another user or without a session', async () => {
+    sessionsService.findOne.mockResolvedValue({ ...session, userId: 'other' });
+
+    await expect(strategy.validate(payload)).rejects.toThrow(
+      UnauthorizedException,
+    );
+    await expect(
+      strategy.validate({ sub: 'user', email: 'user@example.com' }),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+});
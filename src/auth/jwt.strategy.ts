@@ -1,24 +1,56 @@
 import { ExtractJwt, Strategy } from 'passport-jwt';
 import { PassportStrategy } from '@nestjs/passport';
 import { Injectable, UnauthorizedException } from '@nestjs/common';
-import { jwtConstants } from './constants';
+import { Request } from 'express';
+import { JwtKeysService } from './jwt-keys.service';
+import { SessionsService } from './sessions.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor() {
+  constructor(
+    jwtKeysService: JwtKeysService,
+    private readonly sessionsService: SessionsService,
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
-      secretOrKey: jwtConstants.secret,
+      algorithms: jwtKeysService.getAlgorithms(),
+      // Pick the verification key from the `kid` header, so tokens signed
+      // with a previous key keep working during a rotation
+      secretOrKeyProvider: (
+        request: Request,
+        rawJwtToken: string,
+        done: (err: Error | null, secretOrKey?: string) => void,
+      ) => {
+        const key = jwtKeysService.getVerificationKey(rawJwtToken);
+        if (!key) {
+          return done(new UnauthorizedException('Unknown signing key'));
+        }
+        done(null, key.verificationKey);
+      },
     });
   }
 
-  async validate(payload: any) {
+  // Access tokens only live as long as their session: logging out, revoking
+  // the session or a force-logout by an administrator rejects them at once
+  async validate(payload: { sub: string; email: string; sid?: string }) {
+    const session = payload.sid
+      ? await this.sessionsService.findOne(payload.sid)
+      : null;
+    if (
+      !session ||
+      session.userId !== payload.sub ||
+      session.revokedAt ||
+      session.expiresAt <= new Date()
+    ) {
+      throw new UnauthorizedException('Session expired or revoked');
+    }
+
     return {
       //userId: payload.sub,
       id: payload.sub,
       email: payload.email,
-      refreshToken: payload.refreshToken,
+      sessionId: payload.sid,
     };
   }
 }
@@ -1,16 +1,18 @@
 import { Strategy } from 'passport-local';
 import { PassportStrategy } from '@nestjs/passport';
 import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { Request } from 'express';
 import { AuthService } from './auth.service';
 
 @Injectable()
 export class LocalStrategy extends PassportStrategy(Strategy) {
   constructor(private authService: AuthService) {
-    super({ usernameField: 'email' }); // Specify that the username field is 'email'
+    super({ usernameField: 'email', passReqToCallback: true }); // Specify that the username field is 'email'
   }
 
-  async validate(email: string, password: string) {
-    const user = await this.authService.validateUser(email, password);
+  async validate(req: Request, email: string, password: string) {
+    // The IP is needed to throttle brute-force attempts
+    const user = await this.authService.validateUser(email, password, req.ip);
 
     if (!user) {
       throw new UnauthorizedException('Invalid credentials');
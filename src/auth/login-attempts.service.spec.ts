@@ -0,0 +1,122 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { LoginAttemptsService } from './login-attempts.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { MailService } from 'src/mail/mail.service';
+
+const MINUTE_MS = 60 * 1000;
+
+describe('LoginAttemptsService', () => {
+  let service: LoginAttemptsService;
+  const prismaService = {
+    user: { update: jest.fn(), updateMany: jest.fn() },
+    loginAttempt: {
+      create: jest.fn(),
+      count: jest.fn(),
+      deleteMany: jest.fn(),
+      findMany: jest.fn(),
+    },
+  };
+  const mailService = { sendEmail: jest.fn() };
+  // No backoff delay in tests; 3 attempts per account, 2 per IP
+  const config: Record<string, string> = {
+    LOGIN_MAX_ATTEMPTS: '3',
+    LOGIN_IP_MAX_ATTEMPTS: '2',
+    LOGIN_IP_WINDOW_MINUTES: '15',
+    LOGIN_DELAY_BASE_MS: '0',
+  };
+  const user = { id: 'user', email: 'user@example.com' };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    mailService.sendEmail.mockResolvedValue(undefined);
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginAttemptsService,
+        { provide: PrismaService, useValue: prismaService },
+        { provide: MailService, useValue: mailService },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<LoginAttemptsService>(LoginAttemptsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('recordFailure', () => {
+    it('increments the counter atomically below the threshold', async () => {
+      prismaService.user.update.mockResolvedValue({ failedLoginAttempts: 2 });
+
+      await service.recordFailure(user.email, undefined, user);
+
+      expect(prismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'user' },
+        data: { failedLoginAttempts: { increment: 1 } },
+        select: { failedLoginAttempts: true },
+      });
+      expect(prismaService.user.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('locks the account and notifies once the threshold is reached', async () => {
+      prismaService.user.update.mockResolvedValue({ failedLoginAttempts: 3 });
+      prismaService.user.updateMany.mockResolvedValue({ count: 1 });
+
+      await service.recordFailure(user.email, undefined, user);
+
+      expect(prismaService.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 'user', failedLoginAttempts: { gte: 3 } },
+        data: { failedLoginAttempts: 0, lockedUntil: expect.any(Date) as Date },
+      });
+      expect(mailService.sendEmail).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not lock again when a concurrent attempt already did', async () => {
+      prismaService.user.update.mockResolvedValue({ failedLoginAttempts: 4 });
+      prismaService.user.updateMany.mockResolvedValue({ count: 0 });
+
+      await service.recordFailure(user.email, undefined, user);
+
+      expect(mailService.sendEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assertIpAllowed', () => {
+    it('allows an IP below the limit', async () => {
+      prismaService.loginAttempt.findMany.mockResolvedValue([
+        { createdAt: new Date() },
+      ]);
+
+      await expect(service.assertIpAllowed('203.0.113.1')).resolves.toBe(
+        undefined,
+      );
+    });
+
+    it('blocks an IP at the limit until its oldest failure leaves the window', async () => {
+      prismaService.loginAttempt.findMany.mockResolvedValue([
+        { createdAt: new Date() },
+        { createdAt: new Date(Date.now() - 10 * MINUTE_MS) },
+      ]);
+
+      const error = await service
+        .assertIpAllowed('203.0.113.1')
+        .catch((caught: HttpException) => caught);
+
+      expect(error).toBeInstanceOf(HttpException);
+      expect((error as HttpException).getStatus()).toBe(
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+      const { retryAfter } = (error as HttpException).getResponse() as {
+        retryAfter: number;
+      };
+      expect(retryAfter).toBeGreaterThan(4 * 60);
+      expect(retryAfter).toBeLessThanOrEqual(5 * 60);
+    });
+  });
+});
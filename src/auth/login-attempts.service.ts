@@ -0,0 +1,252 @@
+import {
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { User } from '@prisma/client';
+import { MailService } from 'src/mail/mail.service';
+import { accountLockedEmailTemplate } from 'src/mail/templates/account-locked-email';
+import { PrismaService } from 'src/prisma/prisma.service';
+
+const MINUTE_MS = 60 * 1000;
+// LoginAttempt rows older than this are no longer needed by any check
+const ATTEMPT_RETENTION_MS = 24 * 60 * MINUTE_MS;
+
+@Injectable()
+export class LoginAttemptsService {
+  private readonly logger = new Logger(LoginAttemptsService.name);
+
+  // Thresholds, configurable through the LOGIN_* environment variables
+  private readonly maxAttempts: number;
+  private readonly lockoutMinutes: number;
+  private readonly ipMaxAttempts: number;
+  private readonly ipWindowMinutes: number;
+  private readonly delayBaseMs: number;
+  private readonly delayMaxMs: number;
+
+  constructor(
+    private prismaService: PrismaService,
+    private mailService: MailService,
+    private configService: ConfigService,
+  ) {
+    this.maxAttempts = this.getNumber('LOGIN_MAX_ATTEMPTS', 5);
+    this.lockoutMinutes = this.getNumber('LOGIN_LOCKOUT_MINUTES', 15);
+    this.ipMaxAttempts = this.getNumber('LOGIN_IP_MAX_ATTEMPTS', 20);
+    this.ipWindowMinutes = this.getNumber('LOGIN_IP_WINDOW_MINUTES', 15);
+    this.delayBaseMs = this.getNumber('LOGIN_DELAY_BASE_MS', 250);
+    this.delayMaxMs = this.getNumber('LOGIN_DELAY_MAX_MS', 4000);
+  }
+
+  /**
+   * Rejects the request if the IP address has too many recent failed attempts,
+   * whatever accounts they targeted.
+   * @param ipAddress - The client IP address.
+   * @throws HttpException (429) with the number of seconds to wait.
+   */
+  async assertIpAllowed(ipAddress?: string): Promise<void> {
+    if (!ipAddress) {
+      return;
+    }
+    const windowStart = new Date(Date.now() - this.ipWindowMinutes * MINUTE_MS);
+    const failures = await this.prismaService.loginAttempt.findMany({
+      where: { ipAddress, success: false, createdAt: { gte: windowStart } },
+      orderBy: { createdAt: 'desc' },
+      take: this.ipMaxAttempts,
+      select: { createdAt: true },
+    });
+    if (failures.length < this.ipMaxAttempts) {
+      return;
+    }
+
+    // The oldest failure still counted decides when the IP may try again
+    const oldest = failures[failures.length - 1].createdAt;
+    const retryAfter = Math.ceil(
+      (oldest.getTime() + this.ipWindowMinutes * MINUTE_MS - Date.now()) / 1000,
+    );
+    this.logger.warn(`Too many failed login attempts from IP ${ipAddress}`);
+    throw new HttpException(
+      {
+        error: 'Too Many Requests',
+        message: 'Too many failed login attempts. Please try again later.',
+        retryAfter: Math.max(retryAfter, 1),
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+
+  /**
+   * Tells whether the account is temporarily locked.
+   * @param user - The user trying to log in.
+   * @returns True while the lock is active.
+   */
+  isLocked(user: Pick<User, 'lockedUntil'>): boolean {
+    return !!user.lockedUntil && user.lockedUntil > new Date();
+  }
+
+  /**
+   * Rejects the login if the account is temporarily locked.
+   * @param user - The user trying to log in.
+   * @throws ForbiddenException while the lock is active.
+   */
+  assertNotLocked(user: Pick<User, 'email' | 'lockedUntil'>): void {
+    if (this.isLocked(user)) {
+      throw new ForbiddenException({
+        error: 'Account Locked',
+        message:
+          'Account temporarily locked after too many failed login attempts.',
+        email: user.email,
+        lockedUntil: user.lockedUntil,
+        resolution: 'Try again later or contact an administrator.',
+        statusCode: 403,
+      });
+    }
+  }
+
+  /**
+   * Records a failed attempt, locks the account once the threshold is reached
+   * (notifying the owner by email) and then waits a progressively longer delay.
+   * The counter is incremented atomically, so concurrent attempts are all
+   * counted and the account is locked (and notified) once.
+   * @param email - The email that was tried.
+   * @param ipAddress - The client IP address.
+   * @param user - The matching user, if the email exists.
+   */
+  async recordFailure(
+    email: string,
+    ipAddress: string | undefined,
+    user: Pick<User, 'id' | 'email'> | null,
+  ): Promise<void> {
+    let failures = 0;
+    if (ipAddress) {
+      await this.prismaService.loginAttempt.create({
+        data: { ipAddress, email, success: false },
+      });
+      failures = await this.countRecentIpFailures(ipAddress);
+      await this.pruneOldAttempts();
+    }
+
+    if (user) {
+      const { failedLoginAttempts: attempts } =
+        await this.prismaService.user.update({
+          where: { id: user.id },
+          data: { failedLoginAttempts: { increment: 1 } },
+          select: { failedLoginAttempts: true },
+        });
+      failures = Math.max(failures, attempts);
+      if (attempts >= this.maxAttempts) {
+        await this.lock(user, attempts);
+      }
+    }
+
+    await this.delay(failures);
+  }
+
+  /**
+   * Records a successful login and clears the account's failure counter.
+   * @param email - The email that logged in.
+   * @param ipAddress - The client IP address.
+   * @param user - The user that logged in.
+   */
+  async recordSuccess(
+    email: string,
+    ipAddress: string | undefined,
+    user: Pick<User, 'id' | 'failedLoginAttempts' | 'lockedUntil'>,
+  ): Promise<void> {
+    if (ipAddress) {
+      await this.prismaService.loginAttempt.create({
+        data: { ipAddress, email, success: true },
+      });
+    }
+    if (user.failedLoginAttempts > 0 || user.lockedUntil) {
+      await this.prismaService.user.update({
+        where: { id: user.id },
+        data: { failedLoginAttempts: 0, lockedUntil: null },
+      });
+    }
+  }
+
+  /**
+   * Lifts a lockout before it expires.
+   * @param userId - The user to unlock.
+   * @throws NotFoundException if the user is not found.
+   */
+  async unlock(userId: string): Promise<{ message: string }> {
+    const { count } = await this.prismaService.user.updateMany({
+      where: { id: userId },
+      data: { failedLoginAttempts: 0, lockedUntil: null },
+    });
+    if (count === 0) {
+      throw new NotFoundException(`User with ID ${userId} not found.`);
+    }
+    this.logger.log(`Account of user ID ${userId} unlocked.`);
+    return { message: 'Account unlocked' };
+  }
+
+  private async lock(
+    user: Pick<User, 'id' | 'email'>,
+    attempts: number,
+  ): Promise<void> {
+    const lockedUntil = new Date(Date.now() + this.lockoutMinutes * MINUTE_MS);
+    // Only the attempt that still sees the counter over the threshold locks;
+    // concurrent ones find it already reset
+    const { count } = await this.prismaService.user.updateMany({
+      where: { id: user.id, failedLoginAttempts: { gte: this.maxAttempts } },
+      data: { failedLoginAttempts: 0, lockedUntil },
+    });
+    if (count === 0) {
+      return;
+    }
+    this.logger.warn(
+      `Account of user ID ${user.id} locked until ${lockedUntil.toISOString()} after ${attempts} failed attempts.`,
+    );
+
+    // Send the notification asynchronously (don't block the response)
+    this.mailService
+      .sendEmail(
+        user.email,
+        'Your Account Has Been Locked',
+        accountLockedEmailTemplate(lockedUntil, attempts),
+      )
+      .catch((error: Error) => {
+        this.logger.error(
+          `Failed to send account locked email to ${user.email}: ${error.message}`,
+          error.stack,
+        );
+      });
+  }
+
+  private async countRecentIpFailures(ipAddress: string): Promise<number> {
+    const windowStart = new Date(Date.now() - this.ipWindowMinutes * MINUTE_MS);
+    return this.prismaService.loginAttempt.count({
+      where: { ipAddress, success: false, createdAt: { gte: windowStart } },
+    });
+  }
+
+  private async pruneOldAttempts(): Promise<void> {
+    await this.prismaService.loginAttempt.deleteMany({
+      where: { createdAt: { lt: new Date(Date.now() - ATTEMPT_RETENTION_MS) } },
+    });
+  }
+
+  // Exponential backoff: base, 2x base, 4x base... capped at delayMaxMs
+  private async delay(failures: number): Promise<void> {
+    if (failures <= 0 || this.delayBaseMs <= 0) {
+      return;
+    }
+    const ms = Math.min(
+      this.delayBaseMs * 2 ** Math.min(failures - 1, 20),
+      this.delayMaxMs,
+    );
+    await new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  private getNumber(key: string, defaultValue: number): number {
+    const value = Number(this.configService.get<string>(key));
+    return Number.isFinite(value) && value >= 0 ? value : defaultValue;
+  }
+}
@@ -0,0 +1,101 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PermissionsGuard } from './permissions.guard';
+import { AccessControlService } from './access-control.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { Public } from 'src/decorators/public.decorator';
+import { RequirePermissions } from 'src/decorators/require-permissions.decorator';
+
+class TestController {
+  @RequirePermissions('projects:write', 'projects:publish')
+  publish() {}
+
+  authenticated() {}
+
+  @Public()
+  @RequirePermissions('projects:write')
+  open() {}
+}
+
+const role = (name: string, permissions: string[] = []) => ({
+  id: name,
+  name,
+  permissions: permissions.map((permission) => ({ name: permission })),
+});
+
+describe('PermissionsGuard', () => {
+  let guard: PermissionsGuard;
+  const prismaService = { user: { findUnique: jest.fn() } };
+
+  const contextFor = (
+    handler: keyof TestController,
+    user: { id: string } | null = { id: 'user' },
+  ) =>
+    ({
+      getHandler: () => TestController.prototype[handler],
+      getClass: () => TestController,
+      switchToHttp: () => ({
+        getRequest: () => ({ method: 'POST', url: `/${handler}`, user }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PermissionsGuard,
+        Reflector,
+        AccessControlService,
+        { provide: PrismaService, useValue: prismaService },
+      ],
+    }).compile();
+
+    guard = module.get<PermissionsGuard>(PermissionsGuard);
+  });
+
+  it('should be defined', () => {
+    expect(guard).toBeDefined();
+  });
+
+  it('lets a role holding every required permission through', async () => {
+    prismaService.user.findUnique.mockResolvedValue({
+      role: role('editor', ['projects:write', 'projects:publish']),
+    });
+
+    await expect(guard.canActivate(contextFor('publish'))).resolves.toBe(true);
+  });
+
+  it('refuses a role missing one of them', async () => {
+    prismaService.user.findUnique.mockResolvedValue({
+      role: role('editor', ['projects:write']),
+    });
+
+    await expect(guard.canActivate(contextFor('publish'))).rejects.toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('grants everything to admins', async () => {
+    prismaService.user.findUnique.mockResolvedValue({ role: role('Admin') });
+
+    await expect(guard.canActivate(contextFor('publish'))).resolves.toBe(true);
+  });
+
+  it('requires a user on protected routes only', async () => {
+    await expect(
+      guard.canActivate(contextFor('publish', null)),
+    ).rejects.toThrow(UnauthorizedException);
+    await expect(
+      guard.canActivate(contextFor('authenticated', null)),
+    ).resolves.toBe(true);
+    await expect(guard.canActivate(contextFor('open', null))).resolves.toBe(
+      true,
+    );
+    expect(prismaService.user.findUnique).not.toHaveBeenCalled();
+  });
+});
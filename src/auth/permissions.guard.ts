@@ -0,0 +1,64 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { IS_PUBLIC_KEY } from 'src/decorators/public.decorator';
+import { PERMISSIONS_KEY } from 'src/decorators/require-permissions.decorator';
+import {
+  AccessControlService,
+  RequestWithRole,
+} from './access-control.service';
+
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  private readonly logger = new Logger(PermissionsGuard.name);
+
+  constructor(
+    private reflector: Reflector,
+    private accessControlService: AccessControlService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (isPublic) {
+      return true;
+    }
+
+    const requiredPermissions = this.reflector.getAllAndOverride<string[]>(
+      PERMISSIONS_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    // Routes without @RequirePermissions() only require a valid token
+    if (!requiredPermissions || requiredPermissions.length === 0) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<RequestWithRole>();
+    if (!request.user?.id) {
+      throw new UnauthorizedException();
+    }
+
+    const role = await this.accessControlService.getRole(request);
+    if (!this.accessControlService.hasPermissions(role, requiredPermissions)) {
+      this.logger.warn(
+        `User ${request.user.id} with role "${role?.name ?? 'none'}" lacks permissions [${requiredPermissions.join(', ')}] for ${request.method} ${request.url}`,
+      );
+      throw new ForbiddenException({
+        error: 'Forbidden',
+        message: 'You do not have permission to perform this action.',
+        requiredPermissions,
+        statusCode: 403,
+      });
+    }
+
+    return true;
+  }
+}
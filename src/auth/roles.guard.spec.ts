@@ -0,0 +1,129 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Test, TestingModule } from '@nestjs/testing';
+import { RolesGuard } from './roles.guard';
+import { AccessControlService } from './access-control.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { Public } from 'src/decorators/public.decorator';
+import { Roles } from 'src/decorators/roles.decorator';
+
+@Roles('admin')
+class AdminController {
+  purge() {}
+}
+
+class TestController {
+  @Roles('admin', 'editor')
+  edit() {}
+
+  authenticated() {}
+
+  @Public()
+  @Roles('admin')
+  open() {}
+}
+
+describe('RolesGuard', () => {
+  let guard: RolesGuard;
+  const prismaService = { user: { findUnique: jest.fn() } };
+
+  const contextFor = <T>(
+    controller: { prototype: T },
+    handler: keyof T,
+    user: { id: string } | null = { id: 'user' },
+  ) =>
+    ({
+      getHandler: () => controller.prototype[handler],
+      getClass: () => controller,
+      switchToHttp: () => ({
+        getRequest: () => ({ method: 'POST', url: '/test', user }),
+      }),
+    }) as unknown as ExecutionContext;
+  const testContext = (
+    handler: keyof TestController,
+    user?: { id: string } | null,
+  ) => contextFor(TestController, handler, user);
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RolesGuard,
+        Reflector,
+        AccessControlService,
+        { provide: PrismaService, useValue: prismaService },
+      ],
+    }).compile();
+
+    guard = module.get<RolesGuard>(RolesGuard);
+  });
+
+  it('should be defined', () => {
+    expect(guard).toBeDefined();
+  });
+
+  it('lets any of the required roles through, ignoring case', async () => {
+    prismaService.user.findUnique.mockResolvedValue({
+      role: { id: 'editor', name: 'Editor', permissions: [] },
+    });
+
+    await expect(guard.canActivate(testContext('edit'))).resolves.toBe(true);
+  });
+
+  it('refuses other roles with the required roles in the 403 body', async () => {
+    prismaService.user.findUnique.mockResolvedValue({
+      role: { id: 'viewer', name: 'Viewer', permissions: [] },
+    });
+
+    const error = await guard
+      .canActivate(testContext('edit'))
+      .catch((caught: ForbiddenException) => caught);
+
+    expect(error).toBeInstanceOf(ForbiddenException);
+    expect((error as ForbiddenException).getResponse()).toEqual({
+      error: 'Forbidden',
+      message: 'You do not have permission to perform this action.',
+      requiredRoles: ['admin', 'editor'],
+      statusCode: 403,
+    });
+  });
+
+  it('refuses users without a role', async () => {
+    prismaService.user.findUnique.mockResolvedValue(null);
+
+    await expect(guard.canActivate(testContext('edit'))).rejects.toThrow(
+      ForbiddenException,
+    );
+  });
+
+  it('reads @Roles() set on the controller class', async () => {
+    prismaService.user.findUnique.mockResolvedValue({
+      role: { id: 'editor', name: 'Editor', permissions: [] },
+    });
+
+    await expect(
+      guard.canActivate(contextFor(AdminController, 'purge')),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('skips public routes and routes without @Roles()', async () => {
+    await expect(guard.canActivate(testContext('open', null))).resolves.toBe(
+      true,
+    );
+    await expect(
+      guard.canActivate(testContext('authenticated', null)),
+    ).resolves.toBe(true);
+    expect(prismaService.user.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('requires a user on routes with @Roles()', async () => {
+    await expect(guard.canActivate(testContext('edit', null))).rejects.toThrow(
+      UnauthorizedException,
+    );
+    expect(prismaService.user.findUnique).not.toHaveBeenCalled();
+  });
+});
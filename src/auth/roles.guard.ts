@@ -0,0 +1,64 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { IS_PUBLIC_KEY } from 'src/decorators/public.decorator';
+import { ROLES_KEY } from 'src/decorators/roles.decorator';
+import {
+  AccessControlService,
+  RequestWithRole,
+} from './access-control.service';
+
+@Injectable()
+export class RolesGuard implements CanActivate {
+  private readonly logger = new Logger(RolesGuard.name);
+
+  constructor(
+    private reflector: Reflector,
+    private accessControlService: AccessControlService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (isPublic) {
+      return true;
+    }
+
+    const requiredRoles = this.reflector.getAllAndOverride<string[]>(
+      ROLES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    // Routes without @Roles() only require a valid token
+    if (!requiredRoles || requiredRoles.length === 0) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<RequestWithRole>();
+    if (!request.user?.id) {
+      throw new UnauthorizedException();
+    }
+
+    const role = await this.accessControlService.getRole(request);
+    if (!this.accessControlService.hasAnyRole(role, requiredRoles)) {
+      this.logger.warn(
+        `User ${request.user.id} with role "${role?.name ?? 'none'}" denied access to ${request.method} ${request.url}`,
+      );
+      throw new ForbiddenException({
+        error: 'Forbidden',
+        message: 'You do not have permission to perform this action.',
+        requiredRoles,
+        statusCode: 403,
+      });
+    }
+
+    return true;
+  }
+}
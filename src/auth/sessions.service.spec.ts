@@ -0,0 +1,95 @@
+import { NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { Test, TestingModule } from '@nestjs/testing';
+import { SessionsService } from './sessions.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { hashToken } from 'src/utils/auth-utils';
+
+describe('SessionsService', () => {
+  let service: SessionsService;
+  const prismaService = {
+    session: {
+      create: jest.fn<Promise<unknown>, [Prisma.SessionCreateArgs]>(),
+      deleteMany: jest.fn(),
+      updateMany: jest.fn<
+        Promise<{ count: number }>,
+        [Prisma.SessionUpdateManyArgs]
+      >(),
+    },
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionsService,
+        { provide: PrismaService, useValue: prismaService },
+      ],
+    }).compile();
+
+    service = module.get<SessionsService>(SessionsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    it('stores only the hash of the refresh token', async () => {
+      const expiresAt = new Date(Date.now() + 60_000);
+      await service.create('sid', 'user', 'refresh-token', expiresAt, {
+        userAgent: 'Mozilla/5.0 (Windows NT 10.0) Chrome/120.0',
+        ipAddress: '203.0.113.1',
+      });
+
+      const { data } = prismaService.session.create.mock.calls[0][0];
+      expect(data.tokenHash).toBe(hashToken('refresh-token'));
+      expect(JSON.stringify(data)).not.toContain('"refresh-token"');
+      expect(prismaService.session.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user', expiresAt: { lte: expect.any(Date) as Date } },
+      });
+    });
+  });
+
+  describe('rotate', () => {
+    const expiresAt = new Date(Date.now() + 60_000);
+
+    it('swaps the hash when the presented token is the current one', async () => {
+      prismaService.session.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(
+        service.rotate('sid', 'old-token', 'new-token', expiresAt, {}),
+      ).resolves.toBe(true);
+      const { where, data } = prismaService.session.updateMany.mock.calls[0][0];
+      expect(where).toEqual({
+        id: 'sid',
+        tokenHash: hashToken('old-token'),
+        revokedAt: null,
+      });
+      expect(data.tokenHash).toBe(hashToken('new-token'));
+      expect(data.expiresAt).toBe(expiresAt);
+    });
+
+    it('reports a stale (already rotated) token', async () => {
+      prismaService.session.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.rotate('sid', 'old-token', 'new-token', expiresAt, {}),
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('revokeForUser', () => {
+    it('throws when no active session of the user matches', async () => {
+      prismaService.session.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.revokeForUser('user', 'sid')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(prismaService.session.updateMany).toHaveBeenCalledWith({
+        where: { id: 'sid', userId: 'user', revokedAt: null },
+        data: { revokedAt: expect.any(Date) as Date },
+      });
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Session } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { describeDevice, hashToken } from 'src/utils/auth-utils';
+
+// Client information captured when a session is created or used
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+// Session as exposed through the API: never includes the token hash
+export type ActiveSession = Omit<Session, 'tokenHash'> & { current: boolean };
+
+@Injectable()
+export class SessionsService {
+  private readonly logger = new Logger(SessionsService.name);
+
+  constructor(private prismaService: PrismaService) {}
+
+  /**
+   * Creates a new session storing only the hash of its refresh token.
+   * Expired sessions of the same user are pruned on the way.
+   * @param id - Session ID, already embedded in the refresh token as `sid`.
+   * @param userId - Owner of the session.
+   * @param refreshToken - The plain refresh token issued for the session.
+   * @param expiresAt - Expiration of the refresh token.
+   * @param context - User agent and IP address of the client.
+   * @returns The created Session.
+   */
+  async create(
+    id: string,
+    userId: string,
+    refreshToken: string,
+    expiresAt: Date,
+    context: SessionContext,
+  ): Promise<Session> {
+    await this.prismaService.session.deleteMany({
+      where: { userId, expiresAt: { lte: new Date() } },
+    });
+
+    return this.prismaService.session.create({
+      data: {
+        id,
+        userId,
+        tokenHash: hashToken(refreshToken),
+        device: describeDevice(context.userAgent),
+        userAgent: context.userAgent,
+        ipAddress: context.ipAddress,
+        expiresAt,
+      },
+    });
+  }
+
+  /**
+   * Retrieves a session by its ID.
+   * @param id - The session ID (`sid` claim).
+   * @returns The session, or null if it does not exist.
+   */
+  async findOne(id: string): Promise<Session | null> {
+    return this.prismaService.session.findUnique({ where: { id } });
+  }
+
+  /**
+   * Lists the active (not revoked, not expired) sessions of a user,
+   * most recently used first.
+   * @param userId - Owner of the sessions.
+   * @param currentSessionId - Session of the caller, flagged as `current`.
+   * @returns The active sessions without their token hashes.
+   */
+  async findActiveForUser(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<ActiveSession[]> {
+    const sessions = await this.prismaService.session.findMany({
+      where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+      omit: { tokenHash: true },
+      orderBy: { lastUsedAt: 'desc' },
+    });
+    return sessions.map((session) => ({
+      ...session,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /**
+   * Replaces the refresh token of a session, but only if the presented token
+   * is still the current one. A concurrent refresh with the same token loses
+   * the race and is reported as reuse.
+   * @param id - The session ID.
+   * @param presentedToken - The refresh token sent by the client.
+   * @param newRefreshToken - The refresh token that replaces it.
+   * @param expiresAt - Expiration of the new refresh token.
+   * @param context - User agent and IP address of the client.
+   * @returns true if the session was rotated, false if the presented token was stale.
+   */
+  async rotate(
+    id: string,
+    presentedToken: string,
+    newRefreshToken: string,
+    expiresAt: Date,
+    context: SessionContext,
+  ): Promise<boolean> {
+    const { count } = await this.prismaService.session.updateMany({
+      where: { id, tokenHash: hashToken(presentedToken), revokedAt: null },
+      data: {
+        tokenHash: hashToken(newRefreshToken),
+        expiresAt,
+        lastUsedAt: new Date(),
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        device: describeDevice(context.userAgent),
+      },
+    });
+    return count === 1;
+  }
+
+  /**
+   * Revokes a single session (and therefore its whole token family).
+   * @param id - The session ID.
+   * @returns true if an active session was revoked.
+   */
+  async revoke(id: string): Promise<boolean> {
+    const { count } = await this.prismaService.session.updateMany({
+      where: { id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (count > 0) {
+      this.logger.log(`Session ${id} revoked.`);
+    }
+    return count > 0;
+  }
+
+  /**
+   * Revokes one of the user's own sessions.
+   * @param userId - Owner of the session.
+   * @param id - The session ID.
+   * @throws NotFoundException if the session does not exist, belongs to
+   * another user or is already revoked.
+   */
+  async revokeForUser(userId: string, id: string): Promise<void> {
+    const { count } = await this.prismaService.session.updateMany({
+      where: { id, userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new NotFoundException(`Session with ID "${id}" not found`);
+    }
+    this.logger.log(`Session ${id} revoked by user ID: ${userId}`);
+  }
+
+  /**
+   * Revokes every active session of a user.
+   * @param userId - The user whose sessions are revoked.
+   * @returns The number of sessions revoked.
+   */
+  async revokeAllForUser(userId: string): Promise<number> {
+    const { count } = await this.prismaService.session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    this.logger.log(`Revoked ${count} session(s) for user ID: ${userId}`);
+    return count;
+  }
+}
@@ -0,0 +1,152 @@
+import { ConfigService } from '@nestjs/config';
+import { UnauthorizedException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { TwoFactorService } from './two-factor.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { hashToken } from 'src/utils/auth-utils';
+import { findTotpStep, generateTotp } from 'src/utils/totp-utils';
+
+// RFC 6238 test secret ("12345678901234567890" in base32)
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const PERIOD_MS = 30_000;
+
+describe('TOTP', () => {
+  it('matches the RFC 6238 reference code', () => {
+    // 94287082 at T = 59s, truncated to 6 digits
+    expect(generateTotp(SECRET, 1)).toBe('287082');
+    expect(findTotpStep(SECRET, '287082', 1, 59_000)).toBe(1);
+  });
+
+  it('accepts one step of clock drift on each side', () => {
+    const now = 1_000 * PERIOD_MS;
+    expect(findTotpStep(SECRET, generateTotp(SECRET, 999), 1, now)).toBe(999);
+    expect(findTotpStep(SECRET, generateTotp(SECRET, 1001), 1, now)).toBe(1001);
+  });
+
+  it('rejects codes outside the drift window or malformed', () => {
+    const now = 1_000 * PERIOD_MS;
+    expect(findTotpStep(SECRET, generateTotp(SECRET, 998), 1, now)).toBeNull();
+    expect(findTotpStep(SECRET, generateTotp(SECRET, 1002), 1, now)).toBeNull();
+    expect(findTotpStep(SECRET, '12345', 1, now)).toBeNull();
+    expect(findTotpStep(SECRET, 'abcdef', 1, now)).toBeNull();
+  });
+});
+
+describe('TwoFactorService', () => {
+  let service: TwoFactorService;
+  const prismaService = {
+    user: { findUnique: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+    $executeRaw: jest.fn(),
+  };
+  const user = {
+    id: 'user',
+    email: 'user@example.com',
+    twoFactorEnabled: true,
+    twoFactorSecret: SECRET,
+    twoFactorRecoveryCodes: [hashToken('aaaaa-bbbbb')],
+    twoFactorLastUsedStep: null,
+    role: { name: 'USER', requireTwoFactor: false },
+  };
+  const currentCode = () =>
+    generateTotp(SECRET, Math.floor(Date.now() / PERIOD_MS));
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prismaService.user.findUnique.mockResolvedValue(user);
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TwoFactorService,
+        { provide: PrismaService, useValue: prismaService },
+        { provide: ConfigService, useValue: { get: () => undefined } },
+      ],
+    }).compile();
+
+    service = module.get<TwoFactorService>(TwoFactorService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('verifyCode', () => {
+    it('accepts a TOTP code newer than the last accepted one', async () => {
+      prismaService.user.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(service.verifyCode('user', currentCode())).resolves.toBe(
+        true,
+      );
+      expect(prismaService.user.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'user',
+          OR: [
+            { twoFactorLastUsedStep: null },
+            { twoFactorLastUsedStep: { lt: expect.any(Number) as number } },
+          ],
+        },
+        data: { twoFactorLastUsedStep: expect.any(Number) as number },
+      });
+    });
+
+    it('rejects a replayed TOTP code', async () => {
+      // The conditional update matches nothing: the step was already used
+      prismaService.user.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.verifyCode('user', currentCode())).resolves.toBe(
+        false,
+      );
+    });
+
+    it('consumes a recovery code only once', async () => {
+      prismaService.$executeRaw.mockResolvedValueOnce(1);
+      prismaService.$executeRaw.mockResolvedValueOnce(0);
+
+      await expect(service.verifyCode('user', 'AAAAA-BBBBB')).resolves.toBe(
+        true,
+      );
+      // A concurrent request that read the same codes loses the race
+      await expect(service.verifyCode('user', 'aaaaa-bbbbb')).resolves.toBe(
+        false,
+      );
+      expect(prismaService.user.update).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown codes', async () => {
+      await expect(service.verifyCode('user', 'zzzzz-zzzzz')).resolves.toBe(
+        false,
+      );
+      expect(prismaService.$executeRaw).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('confirm', () => {
+    it('records the step of the confirmation code', async () => {
+      prismaService.user.findUnique.mockResolvedValue({
+        ...user,
+        twoFactorEnabled: false,
+      });
+
+      const { recovery_codes } = await service.confirm('user', currentCode());
+
+      expect(recovery_codes).toHaveLength(10);
+      expect(prismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'user' },
+        data: {
+          twoFactorEnabled: true,
+          twoFactorRecoveryCodes: recovery_codes.map(hashToken),
+          twoFactorLastUsedStep: expect.any(Number) as number,
+        },
+      });
+    });
+
+    it('rejects a wrong code', async () => {
+      prismaService.user.findUnique.mockResolvedValue({
+        ...user,
+        twoFactorEnabled: false,
+      });
+
+      await expect(service.confirm('user', '000000')).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+  });
+});
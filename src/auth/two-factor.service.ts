@@ -0,0 +1,239 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Role, User } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { hashToken } from 'src/utils/auth-utils';
+import {
+  buildOtpauthUri,
+  findTotpStep,
+  generateRecoveryCodes,
+  generateTotpSecret,
+} from 'src/utils/totp-utils';
+
+export interface TwoFactorSetupResponse {
+  secret: string;
+  otpauth_url: string;
+}
+
+export interface RecoveryCodesResponse {
+  recovery_codes: string[];
+}
+
+@Injectable()
+export class TwoFactorService {
+  private readonly logger = new Logger(TwoFactorService.name);
+  private readonly issuer: string;
+
+  constructor(
+    private prismaService: PrismaService,
+    private configService: ConfigService,
+  ) {
+    this.issuer = this.configService.get<string>('TOTP_ISSUER') ?? 'Tecnet';
+  }
+
+  /**
+   * Starts TOTP enrolment: generates a new secret and stores it unconfirmed.
+   * Calling it again before confirming replaces the pending secret.
+   * @param userId - The user enrolling.
+   * @returns The base32 secret and the otpauth URI to render as a QR code.
+   * @throws ConflictException if 2FA is already enabled.
+   */
+  async setup(userId: string): Promise<TwoFactorSetupResponse> {
+    const user = await this.findUser(userId);
+    if (user.twoFactorEnabled) {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled.',
+      );
+    }
+
+    const secret = generateTotpSecret();
+    await this.prismaService.user.update({
+      where: { id: userId },
+      data: { twoFactorSecret: secret },
+    });
+    this.logger.log(`2FA setup started for user ID: ${userId}`);
+
+    return {
+      secret,
+      otpauth_url: buildOtpauthUri(secret, user.email, this.issuer),
+    };
+  }
+
+  /**
+   * Confirms enrolment with a code from the authenticator app and enables 2FA.
+   * @param userId - The user enrolling.
+   * @param code - Current TOTP code.
+   * @returns The recovery codes. They are shown only once.
+   * @throws ConflictException if 2FA is already enabled or setup was not started.
+   * @throws UnauthorizedException if the code is invalid.
+   */
+  async confirm(userId: string, code: string): Promise<RecoveryCodesResponse> {
+    const user = await this.findUser(userId);
+    if (user.twoFactorEnabled) {
+      throw new ConflictException(
+        'Two-factor authentication is already enabled.',
+      );
+    }
+    if (!user.twoFactorSecret) {
+      throw new ConflictException(
+        'Two-factor setup has not been started for this account.',
+      );
+    }
+    const step = findTotpStep(user.twoFactorSecret, code);
+    if (step === null) {
+      throw new UnauthorizedException('Invalid two-factor code.');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await this.prismaService.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: true,
+        twoFactorRecoveryCodes: recoveryCodes.map(hashToken),
+        twoFactorLastUsedStep: step, // the code can't be used to log in
+      },
+    });
+    this.logger.log(`2FA enabled for user ID: ${userId}`);
+
+    return { recovery_codes: recoveryCodes };
+  }
+
+  /**
+   * Disables 2FA after checking a TOTP or recovery code.
+   * @param userId - The user disabling 2FA.
+   * @param code - TOTP code or recovery code.
+   * @throws ConflictException if 2FA is not enabled.
+   * @throws ForbiddenException if the user's role requires 2FA.
+   * @throws UnauthorizedException if the code is invalid.
+   */
+  async disable(userId: string, code: string): Promise<{ message: string }> {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabled) {
+      throw new ConflictException('Two-factor authentication is not enabled.');
+    }
+    if (user.role.requireTwoFactor) {
+      throw new ForbiddenException(
+        `Two-factor authentication is required for the "${user.role.name}" role.`,
+      );
+    }
+    if (!(await this.verifyCode(userId, code))) {
+      throw new UnauthorizedException('Invalid two-factor code.');
+    }
+
+    await this.prismaService.user.update({
+      where: { id: userId },
+      data: {
+        twoFactorEnabled: false,
+        twoFactorSecret: null,
+        twoFactorRecoveryCodes: [],
+        twoFactorLastUsedStep: null,
+      },
+    });
+    this.logger.log(`2FA disabled for user ID: ${userId}`);
+
+    return { message: 'Two-factor authentication disabled' };
+  }
+
+  /**
+   * Replaces all recovery codes after checking a TOTP or recovery code.
+   * @param userId - The user.
+   * @param code - TOTP code or recovery code.
+   * @returns The new recovery codes.
+   * @throws ConflictException if 2FA is not enabled.
+   * @throws UnauthorizedException if the code is invalid.
+   */
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string,
+  ): Promise<RecoveryCodesResponse> {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabled) {
+      throw new ConflictException('Two-factor authentication is not enabled.');
+    }
+    if (!(await this.verifyCode(userId, code))) {
+      throw new UnauthorizedException('Invalid two-factor code.');
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+    await this.prismaService.user.update({
+      where: { id: userId },
+      data: { twoFactorRecoveryCodes: recoveryCodes.map(hashToken) },
+    });
+    this.logger.log(`Recovery codes regenerated for user ID: ${userId}`);
+
+    return { recovery_codes: recoveryCodes };
+  }
+
+  /**
+   * Checks a second-factor code for a user with 2FA enabled.
+   * Accepts a TOTP code or one of the recovery codes. Each TOTP code is
+   * accepted once: codes of the time step of the last accepted code or of an
+   * earlier one are replays. A recovery code is consumed when used. Both are
+   * conditional updates, so concurrent requests can't use the same code twice.
+   * @param userId - The user.
+   * @param code - TOTP code or recovery code.
+   * @returns true if the code is valid.
+   */
+  async verifyCode(userId: string, code: string): Promise<boolean> {
+    const user = await this.findUser(userId);
+    if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+      return false;
+    }
+
+    const normalized = code.trim().toLowerCase();
+    const step = findTotpStep(user.twoFactorSecret, normalized);
+    if (step !== null) {
+      const { count } = await this.prismaService.user.updateMany({
+        where: {
+          id: userId,
+          OR: [
+            { twoFactorLastUsedStep: null },
+            { twoFactorLastUsedStep: { lt: step } },
+          ],
+        },
+        data: { twoFactorLastUsedStep: step },
+      });
+      if (count === 0) {
+        this.logger.warn(`Replayed two-factor code for user ID: ${userId}`);
+      }
+      return count === 1;
+    }
+
+    const codeHash = hashToken(normalized);
+    if (!user.twoFactorRecoveryCodes.includes(codeHash)) {
+      return false;
+    }
+    // Removes only this code, and only if it is still there
+    const removed = await this.prismaService.$executeRaw`
+      UPDATE "User"
+      SET "twoFactorRecoveryCodes" = array_remove("twoFactorRecoveryCodes", ${codeHash}),
+          "updatedAt" = NOW()
+      WHERE "id" = ${userId} AND ${codeHash} = ANY("twoFactorRecoveryCodes")
+    `;
+    if (removed === 0) {
+      return false;
+    }
+    this.logger.warn(
+      `Recovery code used by user ID: ${userId} (${user.twoFactorRecoveryCodes.length - 1} left)`,
+    );
+    return true;
+  }
+
+  private async findUser(userId: string): Promise<User & { role: Role }> {
+    const user = await this.prismaService.user.findUnique({
+      where: { id: userId },
+      include: { role: true },
+    });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found.`);
+    }
+    return user;
+  }
+}
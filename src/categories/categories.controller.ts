@@ -11,12 +11,23 @@ import {
   ValidationPipe,
   HttpCode,
   HttpStatus,
+  Query,
 } from '@nestjs/common';
 import { CategoriesService } from './categories.service';
 import { CreateCategoryDto } from './dto/create-category.dto';
 import { UpdateCategoryDto } from './dto/update-category.dto';
+import {
+  CategoryResponseDto,
+  CategoryTreeNodeDto,
+} from './dto/category-response.dto';
+import { ListCategoriesQueryDto } from './dto/list-categories-query.dto';
+import { DeleteCategoryQueryDto } from './dto/delete-category-query.dto';
+import { DeleteCategoryResponseDto } from './dto/delete-category-response.dto';
+import {
+  Paginated,
+  PaginatedResponseDto,
+} from 'src/common/dto/paginated-response.dto';
 // Import the Category type generated by Prisma
-import { Category } from '@prisma/client';
 import {
   ApiTags,
   ApiOperation,
@@ -25,6 +36,11 @@ import {
   ApiBody,
 } from '@nestjs/swagger'; // Optional: For API documentation
 import { Public } from 'src/decorators/public.decorator';
+import { RequirePermissions } from 'src/decorators/require-permissions.decorator';
+import { PermissionNames } from 'src/permissions/constants';
+import { Roles } from 'src/decorators/roles.decorator';
+import { RoleNames } from 'src/roles/constants';
+import { TrashQueryDto } from 'src/common/dto/trash-query.dto';
 
 @ApiTags('categories') // Optional: Group endpoints in Swagger UI
 @Controller('categories')
@@ -36,6 +52,7 @@ export class CategoriesController {
    * Creates a new category.
    * Applies validation pipe to the incoming body.
    */
+  @RequirePermissions(PermissionNames.CATEGORIES_WRITE)
   @Post()
   /* @UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true })) // Validate DTO  */
   @ApiOperation({ summary: 'Create a new category' }) // Optional: Swagger description
@@ -43,8 +60,8 @@ export class CategoriesController {
   @ApiResponse({
     status: HttpStatus.CREATED,
     description: 'The category has been successfully created.',
-    type: Object,
-  }) // Use Prisma type if swagger plugin configured, else 'object' or a specific DTO
+    type: CategoryResponseDto,
+  })
   @ApiResponse({
     status: HttpStatus.BAD_REQUEST,
     description: 'Invalid input data.',
@@ -55,25 +72,132 @@ export class CategoriesController {
   })
   async create(
     @Body() createCategoryDto: CreateCategoryDto,
-  ): Promise<Category> {
+  ): Promise<CategoryResponseDto> {
     // Delegate creation logic to the service
-    return this.categoriesService.create(createCategoryDto);
+    return new CategoryResponseDto(
+      await this.categoriesService.create(createCategoryDto),
+    );
   }
 
   /**
-   * Retrieves all categories.
+   * Retrieves a page of categories.
    */
   @Public()
   @Get()
-  @ApiOperation({ summary: 'Get all categories' }) // Optional: Swagger
+  @ApiOperation({ summary: 'List categories with pagination and sorting' })
   @ApiResponse({
     status: HttpStatus.OK,
-    description: 'Returns all categories.',
-    type: Object,
-  }) // Use Prisma type if swagger plugin configured
-  async findAll(): Promise<Category[]> {
+    description: 'Returns a page of categories.',
+    type: PaginatedResponseDto(CategoryResponseDto),
+  })
+  async findAll(
+    @Query() query: ListCategoriesQueryDto,
+  ): Promise<Paginated<CategoryResponseDto>> {
     // Delegate fetching logic to the service
-    return this.categoriesService.findAll();
+    const page = await this.categoriesService.findAll(query);
+    return {
+      ...page,
+      items: page.items.map((category) => new CategoryResponseDto(category)),
+    };
+  }
+
+  /**
+   * Retrieves all the categories as a tree, with their project counts.
+   */
+  @Public()
+  @Get('tree')
+  @ApiOperation({
+    summary: 'Get the category tree',
+    description:
+      'Top-level categories with their nested subcategories, ordered by position. ' +
+      'Each node has the number of published projects it holds directly and in its whole subtree.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Returns the category tree.',
+    type: [CategoryTreeNodeDto],
+  })
+  async getTree(): Promise<CategoryTreeNodeDto[]> {
+    const roots = await this.categoriesService.getTree();
+    return roots.map((node) => new CategoryTreeNodeDto(node));
+  }
+
+  /**
+   * Retrieves a page of trashed categories.
+   */
+  @RequirePermissions(PermissionNames.CATEGORIES_WRITE)
+  @Get('trash')
+  @ApiOperation({ summary: 'List the categories in the trash' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'A page of trashed categories, most recently deleted first.',
+    type: PaginatedResponseDto(CategoryResponseDto),
+  })
+  async findTrashed(
+    @Query() query: TrashQueryDto,
+  ): Promise<Paginated<CategoryResponseDto>> {
+    const page = await this.categoriesService.findTrashed(query);
+    return {
+      ...page,
+      items: page.items.map((category) => new CategoryResponseDto(category)),
+    };
+  }
+
+  /**
+   * Takes a category out of the trash.
+   */
+  @RequirePermissions(PermissionNames.CATEGORIES_WRITE)
+  @Post('trash/:id/restore')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Restore a category from the trash' })
+  @ApiParam({
+    name: 'id',
+    description: 'The UUID of the trashed category',
+    type: String,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The restored category.',
+    type: CategoryResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Category not found in the trash.',
+  })
+  async restore(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<CategoryResponseDto> {
+    return new CategoryResponseDto(await this.categoriesService.restore(id));
+  }
+
+  /**
+   * Permanently deletes a trashed category. Admin only.
+   */
+  @Roles(RoleNames.ADMIN)
+  @Delete('trash/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Permanently delete a trashed category (admin only)',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'The UUID of the trashed category',
+    type: String,
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'The category has been permanently deleted.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Category not found in the trash.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Projects still belong to the category.',
+  })
+  async purge(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    await this.categoriesService.purge(id);
   }
 
   /**
@@ -90,8 +214,8 @@ export class CategoriesController {
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Returns the specified category.',
-    type: 'object',
-  }) // Use Prisma type if swagger plugin configured
+    type: CategoryResponseDto,
+  })
   @ApiResponse({
     status: HttpStatus.NOT_FOUND,
     description: 'Category not found.',
@@ -99,10 +223,10 @@ export class CategoriesController {
   async findOne(
     // Use ParseUUIDPipe (or ParseIntPipe) to validate and potentially transform the ID
     @Param('id', ParseUUIDPipe) id: string,
-  ): Promise<Category> {
+  ): Promise<CategoryResponseDto> {
     // Service handles the NotFoundException
     const category = await this.categoriesService.findOne(id);
-    return category;
+    return new CategoryResponseDto(category);
   }
 
   /**
@@ -110,6 +234,7 @@ export class CategoriesController {
    * Applies validation pipe to the incoming body.
    * Uses ParseUUIDPipe for the ID.
    */
+  @RequirePermissions(PermissionNames.CATEGORIES_WRITE)
   @Patch(':id')
   @UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true })) // Validate DTO
   @ApiOperation({ summary: 'Update a category by ID' }) // Optional: Swagger
@@ -122,8 +247,8 @@ export class CategoriesController {
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'The category has been successfully updated.',
-    type: Object,
-  }) // Use Prisma type if swagger plugin configured
+    type: CategoryResponseDto,
+  })
   @ApiResponse({
     status: HttpStatus.BAD_REQUEST,
     description: 'Invalid input data.',
@@ -139,33 +264,53 @@ export class CategoriesController {
   async update(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() updateCategoryDto: UpdateCategoryDto,
-  ): Promise<Category> {
+  ): Promise<CategoryResponseDto> {
     // Delegate update logic to the service. The service handles 'not found' and 'conflict'.
-    return this.categoriesService.update(id, updateCategoryDto);
+    return new CategoryResponseDto(
+      await this.categoriesService.update(id, updateCategoryDto),
+    );
   }
 
   /**
-   * Deletes a specific role by its ID.
-   * Uses ParseUUIDPipe for the ID.
-   * Returns HTTP 204 No Content on successful deletion.
+   * Moves a category to the trash.
+   * Uses ParseUUIDPipe for the ID. A category that still has projects needs
+   * `reassignTo`, the category that receives them.
    */
+  @RequirePermissions(PermissionNames.CATEGORIES_WRITE)
   @Delete(':id')
-  @HttpCode(HttpStatus.NO_CONTENT) // Set standard HTTP status for successful deletion
-  @ApiOperation({ summary: 'Delete a category by ID' }) // Optional: Swagger
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Move a category to the trash',
+    description:
+      'Refused while projects belong to the category, unless `reassignTo` names the category that receives them.',
+  }) // Optional: Swagger
   @ApiParam({
     name: 'id',
     description: 'The UUID of the category to delete',
     type: String,
   }) // Optional: Swagger
   @ApiResponse({
-    status: HttpStatus.NO_CONTENT,
-    description: 'The category has been successfully deleted.',
+    status: HttpStatus.OK,
+    description:
+      'The category has been moved to the trash; reports how many projects were reassigned.',
+    type: DeleteCategoryResponseDto,
   }) // Optional: Swagger
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid or unknown reassignTo category.',
+  })
   @ApiResponse({
     status: HttpStatus.NOT_FOUND,
     description: 'Category not found.',
   })
-  async remove(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
-    await this.categoriesService.remove(id);
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The category still has projects and no reassignTo was given.',
+  })
+  async remove(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: DeleteCategoryQueryDto,
+  ): Promise<DeleteCategoryResponseDto> {
+    return this.categoriesService.remove(id, query.reassignTo);
   }
 }
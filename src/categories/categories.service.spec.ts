@@ -1,12 +1,39 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
 import { CategoriesService } from './categories.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { publishedProjectsWhere } from 'src/projects/project-visibility';
 
 describe('CategoriesService', () => {
   let service: CategoriesService;
+  const prismaService = {
+    $transaction: jest.fn(),
+    $queryRaw: jest.fn(),
+    category: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      update: jest.fn(),
+    },
+    project: { count: jest.fn(), updateMany: jest.fn(), groupBy: jest.fn() },
+  };
+  const category = (id: string, parentId: string | null = null) => ({
+    id,
+    name: id,
+    parentId,
+  });
 
   beforeEach(async () => {
+    jest.resetAllMocks();
+    prismaService.$transaction.mockImplementation(
+      (callback: (tx: typeof prismaService) => unknown) =>
+        callback(prismaService),
+    );
     const module: TestingModule = await Test.createTestingModule({
-      providers: [CategoriesService],
+      providers: [
+        CategoriesService,
+        { provide: PrismaService, useValue: prismaService },
+      ],
     }).compile();
 
     service = module.get<CategoriesService>(CategoriesService);
@@ -15,4 +42,198 @@ describe('CategoriesService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('getTree', () => {
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('nests the categories and sums the project counts of each subtree', async () => {
+      prismaService.category.findMany.mockResolvedValue([
+        category('web'),
+        category('shops', 'web'),
+        category('sites', 'web'),
+        category('headless', 'shops'),
+        category('apps'),
+      ]);
+      prismaService.project.groupBy.mockResolvedValue([
+        { categoryId: 'web', _count: { _all: 1 } },
+        { categoryId: 'shops', _count: { _all: 2 } },
+        { categoryId: 'headless', _count: { _all: 4 } },
+      ]);
+
+      const tree = await service.getTree();
+
+      const shape = (
+        nodes: Awaited<ReturnType<CategoriesService['getTree']>>,
+      ): unknown[] =>
+        nodes.map(({ id, projectCount, totalProjectCount, children }) => ({
+          id,
+          projectCount,
+          totalProjectCount,
+          children: shape(children),
+        }));
+      expect(shape(tree)).toEqual([
+        {
+          id: 'web',
+          projectCount: 1,
+          totalProjectCount: 7,
+          children: [
+            {
+              id: 'shops',
+              projectCount: 2,
+              totalProjectCount: 6,
+              children: [
+                {
+                  id: 'headless',
+                  projectCount: 4,
+                  totalProjectCount: 4,
+                  children: [],
+                },
+              ],
+            },
+            {
+              id: 'sites',
+              projectCount: 0,
+              totalProjectCount: 0,
+              children: [],
+            },
+          ],
+        },
+        { id: 'apps', projectCount: 0, totalProjectCount: 0, children: [] },
+      ]);
+    });
+
+    it('orders siblings by position and counts only published projects', async () => {
+      jest.useFakeTimers({ now: new Date('2025-06-01T12:00:00Z') });
+      prismaService.category.findMany.mockResolvedValue([]);
+      prismaService.project.groupBy.mockResolvedValue([]);
+
+      await service.getTree();
+
+      expect(prismaService.category.findMany).toHaveBeenCalledWith({
+        where: { deletedAt: null },
+        orderBy: [{ position: 'asc' }, { name: 'asc' }],
+      });
+      expect(prismaService.project.groupBy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { deletedAt: null, ...publishedProjectsWhere() },
+        }),
+      );
+    });
+  });
+
+  describe('findSubtreeIds', () => {
+    it('returns the category followed by its descendants', async () => {
+      prismaService.$queryRaw.mockResolvedValue([
+        { id: 'web' },
+        { id: 'shops' },
+        { id: 'headless' },
+      ]);
+
+      await expect(service.findSubtreeIds('web')).resolves.toEqual([
+        'web',
+        'shops',
+        'headless',
+      ]);
+      const [strings, id] = prismaService.$queryRaw.mock.calls[0] as [
+        TemplateStringsArray,
+        string,
+      ];
+      expect(strings.join('?')).toContain('WITH RECURSIVE subtree');
+      expect(id).toBe('web');
+    });
+
+    it('still matches the category itself when it has no row', async () => {
+      prismaService.$queryRaw.mockResolvedValue([]);
+
+      await expect(service.findSubtreeIds('gone')).resolves.toEqual(['gone']);
+    });
+  });
+
+  describe('update', () => {
+    beforeEach(() => {
+      prismaService.category.count.mockResolvedValue(1);
+      prismaService.$queryRaw.mockResolvedValue([
+        { id: 'web' },
+        { id: 'shops' },
+      ]);
+    });
+
+    it('refuses to move a category under one of its subcategories', async () => {
+      await expect(
+        service.update('web', { parentId: 'shops' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prismaService.category.update).not.toHaveBeenCalled();
+    });
+
+    it('moves a category under another branch', async () => {
+      prismaService.category.update.mockResolvedValue(category('web', 'apps'));
+
+      await service.update('web', { parentId: 'apps' });
+
+      expect(prismaService.category.update).toHaveBeenCalledWith({
+        where: { id: 'web', deletedAt: null },
+        data: { parentId: 'apps' },
+      });
+    });
+
+    it('refuses a parent that does not exist', async () => {
+      prismaService.category.count.mockResolvedValue(0);
+
+      await expect(
+        service.update('web', { parentId: 'missing' }),
+      ).rejects.toThrow('Parent category with ID "missing" not found');
+    });
+  });
+
+  describe('remove', () => {
+    beforeEach(() => {
+      prismaService.category.findFirst.mockResolvedValue({
+        id: 'web',
+        name: 'Web',
+      });
+      prismaService.category.count.mockResolvedValue(0);
+    });
+
+    it('refuses while projects, trashed ones included, still use it', async () => {
+      prismaService.project.count.mockResolvedValue(1);
+
+      await expect(service.remove('web')).rejects.toThrow(ConflictException);
+      expect(prismaService.project.count).toHaveBeenCalledWith({
+        where: { categoryId: 'web' },
+      });
+      expect(prismaService.category.update).not.toHaveBeenCalled();
+    });
+
+    it('moves every project to the target category before trashing', async () => {
+      prismaService.category.findFirst
+        .mockResolvedValueOnce({ id: 'web', name: 'Web' })
+        .mockResolvedValueOnce({ id: 'apps', name: 'Apps' });
+      prismaService.project.updateMany.mockResolvedValue({ count: 3 });
+
+      await expect(service.remove('web', 'apps')).resolves.toEqual({
+        message: 'Category moved to the trash',
+        movedProjects: 3,
+        reassignedTo: 'apps',
+      });
+      expect(prismaService.project.updateMany).toHaveBeenCalledWith({
+        where: { categoryId: 'web' },
+        data: { categoryId: 'apps' },
+      });
+      expect(prismaService.category.update).toHaveBeenCalledWith({
+        where: { id: 'web' },
+        data: { deletedAt: expect.any(Date) as Date },
+      });
+    });
+
+    it('trashes a category without projects', async () => {
+      prismaService.project.count.mockResolvedValue(0);
+
+      await expect(service.remove('web')).resolves.toMatchObject({
+        movedProjects: 0,
+        reassignedTo: null,
+      });
+    });
+  });
 });
@@ -3,13 +3,39 @@ import {
   NotFoundException,
   ConflictException,
   InternalServerErrorException,
+  BadRequestException,
+  HttpException,
   Logger, // Import Logger for better error logging
 } from '@nestjs/common';
 import { CreateCategoryDto } from './dto/create-category.dto';
 import { UpdateCategoryDto } from './dto/update-category.dto';
+import {
+  CategorySortField,
+  ListCategoriesQueryDto,
+} from './dto/list-categories-query.dto';
 import { PrismaService } from 'src/prisma/prisma.service'; // Assuming PrismaService path
 // Import Prisma error codes and generated types
 import { Prisma, Category } from '@prisma/client';
+import { Paginated } from 'src/common/dto/paginated-response.dto';
+import { buildPaginationArgs, toPaginated } from 'src/utils/pagination-utils';
+import { TrashQueryDto, TrashSortField } from 'src/common/dto/trash-query.dto';
+import { nextAvailableSlug, slugify } from 'src/utils/slug-utils';
+import { publishedProjectsWhere } from 'src/projects/project-visibility';
+
+// Outcome of moving a category to the trash
+export interface CategoryDeletionResult {
+  message: string;
+  movedProjects: number;
+  reassignedTo: string | null;
+}
+
+// A category of GET /categories/tree, with the number of published projects
+// it holds directly and together with all its descendants
+export type CategoryTreeNode = Category & {
+  projectCount: number;
+  totalProjectCount: number;
+  children: CategoryTreeNode[];
+};
 
 @Injectable()
 export class CategoriesService {
@@ -21,15 +47,26 @@ export class CategoriesService {
 
   /**
    * Creates a new category using Prisma.
+   * Without an explicit slug, one is derived from the name.
    * @param createCategoryDto - Data for the new category.
    * @returns The created Category object.
-   * @throws ConflictException if a category with the same name already exists (P2002).
+   * @throws BadRequestException if the parent category doesn't exist.
+   * @throws ConflictException if a category with the same name or slug already exists (P2002).
    * @throws InternalServerErrorException for other database errors.
    */
   async create(createCategoryDto: CreateCategoryDto): Promise<Category> {
+    if (createCategoryDto.parentId) {
+      await this.assertParentExists(createCategoryDto.parentId);
+    }
+
     try {
       return await this.prismaService.category.create({
-        data: createCategoryDto,
+        data: {
+          ...createCategoryDto,
+          slug:
+            createCategoryDto.slug ??
+            (await this.generateSlug(createCategoryDto.name)),
+        },
       });
     } catch (error) {
       // Check for Prisma's unique constraint violation error
@@ -37,13 +74,15 @@ export class CategoriesService {
         error instanceof Prisma.PrismaClientKnownRequestError &&
         error.code === 'P2002'
       ) {
+        const conflictingField =
+          (error.meta?.target as string[])?.join(', ') || 'name';
         // Log the specific conflict
         this.logger.warn(
-          `Attempted to create category with existing name: ${createCategoryDto.name}`,
+          `Attempted to create category with existing ${conflictingField}: ${createCategoryDto.name}`,
           error.stack,
         );
         throw new ConflictException(
-          `Role with name '${createCategoryDto.name}' already exists`,
+          `Cannot create category. The value for '${conflictingField}' is already in use.`,
         );
       }
       // Log the unexpected error
@@ -54,18 +93,99 @@ export class CategoriesService {
   }
 
   /**
-   * Retrieves all categories from the database.
-   * @returns An array of Role objects.
+   * Retrieves a page of categories.
+   * @param query - Pagination and sorting.
+   * @returns The page of categories, the total count and the next cursor.
    */
-  async findAll(): Promise<Category[]> {
+  async findAll(query: ListCategoriesQueryDto): Promise<Paginated<Category>> {
+    const where: Prisma.CategoryWhereInput = { deletedAt: null };
     try {
-      return await this.prismaService.category.findMany();
+      const [rows, total] = await this.prismaService.$transaction([
+        this.prismaService.category.findMany({
+          where,
+          ...buildPaginationArgs<CategorySortField>(query, 'createdAt'),
+        }),
+        this.prismaService.category.count({ where }),
+      ]);
+      return toPaginated(rows, total, query);
     } catch (error) {
       this.logger.error('Failed to fetch all categories', error.stack);
       throw new InternalServerErrorException('Could not retrieve categories.');
     }
   }
 
+  /**
+   * Retrieves all the categories as a tree. Siblings are ordered by position,
+   * then by name, and every node carries its published project counts.
+   * @returns The top-level categories with their nested subcategories.
+   */
+  async getTree(): Promise<CategoryTreeNode[]> {
+    try {
+      const [categories, projectCounts] = await Promise.all([
+        this.prismaService.category.findMany({
+          where: { deletedAt: null },
+          orderBy: [{ position: 'asc' }, { name: 'asc' }],
+        }),
+        this.prismaService.project.groupBy({
+          by: ['categoryId'],
+          where: { deletedAt: null, ...publishedProjectsWhere() },
+          _count: { _all: true },
+        }),
+      ]);
+
+      const countByCategory = new Map(
+        projectCounts.map((row) => [row.categoryId, row._count._all]),
+      );
+      const nodes = categories.map(
+        (category): CategoryTreeNode => ({
+          ...category,
+          projectCount: countByCategory.get(category.id) ?? 0,
+          totalProjectCount: 0,
+          children: [],
+        }),
+      );
+      const nodesById = new Map(nodes.map((node) => [node.id, node]));
+
+      const roots: CategoryTreeNode[] = [];
+      for (const node of nodes) {
+        const parent = node.parentId ? nodesById.get(node.parentId) : undefined;
+        (parent ? parent.children : roots).push(node);
+      }
+
+      const sumTotals = (node: CategoryTreeNode): number =>
+        (node.totalProjectCount =
+          node.projectCount +
+          node.children.reduce((sum, child) => sum + sumTotals(child), 0));
+      roots.forEach(sumTotals);
+      return roots;
+    } catch (error) {
+      this.logger.error(
+        'Failed to build the category tree',
+        error instanceof Error ? error.stack : undefined,
+      );
+      throw new InternalServerErrorException(
+        'Could not retrieve the category tree.',
+      );
+    }
+  }
+
+  /**
+   * IDs of a category and all its descendants, trashed ones included.
+   * @param id - The UUID string of the root category.
+   * @returns The IDs, starting with `id` itself.
+   */
+  async findSubtreeIds(id: string): Promise<string[]> {
+    const rows = await this.prismaService.$queryRaw<{ id: string }[]>`
+      WITH RECURSIVE subtree AS (
+        SELECT "id" FROM "Category" WHERE "id" = ${id}
+        UNION ALL
+        SELECT c."id" FROM "Category" c JOIN subtree s ON c."parentId" = s."id"
+      )
+      SELECT "id" FROM subtree
+    `;
+    return rows.length ? rows.map((row) => row.id) : [id];
+  }
+
   /**
    * Retrieves a single category by its ID.
    * @param id - The UUID string of the category to find.
@@ -73,8 +193,8 @@ export class CategoriesService {
    * @throws NotFoundException if no category with the given ID is found.
    */
   async findOne(id: string): Promise<Category> {
-    const categoryFound = await this.prismaService.category.findUnique({
-      where: { id },
+    const categoryFound = await this.prismaService.category.findFirst({
+      where: { id, deletedAt: null },
     });
 
     if (!categoryFound) {
@@ -92,6 +212,7 @@ export class CategoriesService {
    * @param updateCategoryDto - Data to update the category with.
    * @returns The updated Category object.
    * @throws NotFoundException if the category with the given ID is not found (P2025).
+   * @throws BadRequestException if the new parent doesn't exist or is the category itself or one of its descendants.
    * @throws ConflictException if the update violates a unique constraint (e.g., name) (P2002).
    * @throws InternalServerErrorException for other errors.
    */
@@ -102,9 +223,21 @@ export class CategoriesService {
     // First, ensure the category exists (optional, as update can throw P2025, but good for clarity)
     // await this.findOne(id); // Let findOne handle the NotFoundException early
 
+    const { parentId } = updateCategoryDto;
+    if (parentId) {
+      await this.assertParentExists(parentId);
+      // Moving a category under its own subtree would create a cycle
+      const subtreeIds = await this.findSubtreeIds(id);
+      if (subtreeIds.includes(parentId)) {
+        throw new BadRequestException(
+          'A category cannot be moved under itself or one of its subcategories.',
+        );
+      }
+    }
+
     try {
       return await this.prismaService.category.update({
-        where: { id },
+        where: { id, deletedAt: null },
         data: updateCategoryDto,
       });
     } catch (error) {
@@ -139,31 +272,102 @@ export class CategoriesService {
   }
 
   /**
-   * Deletes a category by its ID.
+   * Moves a category to the trash. A category that still has subcategories
+   * can't be deleted. One that still has projects can only be deleted if
+   * `reassignTo` is given: its projects (trashed ones included) are then moved
+   * to that category in the same transaction. Trashed projects count too, as
+   * they would otherwise be left pointing at a category that gets purged.
    * @param id - The UUID string of the category to delete.
-   * @returns void
-   * @throws NotFoundException if the category with the given ID is not found (P2025).
+   * @param reassignTo - The UUID string of the category receiving the projects.
+   * @returns The number of projects moved and the category they were moved to.
+   * @throws NotFoundException if the category with the given ID is not found or already trashed.
+   * @throws BadRequestException if `reassignTo` is the category itself or doesn't exist.
+   * @throws ConflictException if the category still has subcategories, or projects and no `reassignTo` was given.
    * @throws InternalServerErrorException for other errors.
    */
-  async remove(id: string): Promise<void> {
-    // First, ensure the role exists (optional, as delete can throw P2025)
-    // await this.findOne(id); // Let findOne handle the NotFoundException early
-
+  async remove(
+    id: string,
+    reassignTo?: string,
+  ): Promise<CategoryDeletionResult> {
     try {
-      await this.prismaService.category.delete({
-        where: { id },
+      return await this.prismaService.$transaction(async (tx) => {
+        const category = await tx.category.findFirst({
+          where: { id, deletedAt: null },
+        });
+        if (!category) {
+          this.logger.warn(
+            `Attempted to delete non-existent category with ID: ${id}`,
+          );
+          throw new NotFoundException(`Category with ID "${id}" not found`);
+        }
+
+        const childCount = await tx.category.count({
+          where: { parentId: id, deletedAt: null },
+        });
+        if (childCount > 0) {
+          throw new ConflictException({
+            error: 'Conflict',
+            message: `Category "${category.name}" still has ${childCount} subcategory(ies).`,
+            childCount,
+            resolution: 'Move or delete its subcategories first.',
+            statusCode: 409,
+          });
+        }
+
+        let movedProjects = 0;
+        if (reassignTo) {
+          if (reassignTo === id) {
+            throw new BadRequestException(
+              'Projects cannot be reassigned to the category being deleted.',
+            );
+          }
+          const target = await tx.category.findFirst({
+            where: { id: reassignTo, deletedAt: null },
+          });
+          if (!target) {
+            throw new BadRequestException(
+              `Category with ID "${reassignTo}" to reassign the projects to not found`,
+            );
+          }
+          ({ count: movedProjects } = await tx.project.updateMany({
+            where: { categoryId: id },
+            data: { categoryId: reassignTo },
+          }));
+        } else {
+          const projectCount = await tx.project.count({
+            where: { categoryId: id },
+          });
+          if (projectCount > 0) {
+            throw new ConflictException({
+              error: 'Conflict',
+              message: `Category "${category.name}" still has ${projectCount} project(s), trashed ones included.`,
+              projectCount,
+              resolution:
+                'Pass reassignTo with the ID of the category that should receive them.',
+              statusCode: 409,
+            });
+          }
+        }
+
+        await tx.category.update({
+          where: { id },
+          data: { deletedAt: new Date() },
+        });
+        this.logger.log(
+          `Category ${id} moved to the trash` +
+            (reassignTo
+              ? `, ${movedProjects} project(s) moved to category ${reassignTo}.`
+              : '.'),
+        );
+        return {
+          message: 'Category moved to the trash',
+          movedProjects,
+          reassignedTo: reassignTo ?? null,
+        };
       });
-      // No return needed, successful deletion implies void
     } catch (error) {
-      if (
-        error instanceof Prisma.PrismaClientKnownRequestError &&
-        error.code === 'P2025' // Record to delete not found
-      ) {
-        this.logger.warn(
-          `Attempted to delete non-existent category with ID: ${id}`,
-        );
-        // Throw NotFoundException if the record to delete doesn't exist
-        throw new NotFoundException(`Category with ID "${id}" not found`);
+      if (error instanceof HttpException) {
+        throw error;
       }
       // Log unexpected errors during deletion
       this.logger.error(
@@ -173,4 +377,147 @@ export class CategoriesService {
       throw new InternalServerErrorException('Could not delete category.');
     }
   }
+
+  /**
+   * Retrieves a page of trashed categories.
+   * @param query - Pagination and sorting.
+   * @returns The page of trashed categories, the total count and the next cursor.
+   */
+  async findTrashed(query: TrashQueryDto): Promise<Paginated<Category>> {
+    const where: Prisma.CategoryWhereInput = { deletedAt: { not: null } };
+    try {
+      const [rows, total] = await this.prismaService.$transaction([
+        this.prismaService.category.findMany({
+          where,
+          ...buildPaginationArgs<TrashSortField>(query, 'deletedAt'),
+        }),
+        this.prismaService.category.count({ where }),
+      ]);
+      return toPaginated(rows, total, query);
+    } catch (error) {
+      this.logger.error(
+        'Failed to fetch trashed categories',
+        error instanceof Error ? error.stack : undefined,
+      );
+      throw new InternalServerErrorException(
+        'Could not retrieve trashed categories.',
+      );
+    }
+  }
+
+  /**
+   * Takes a category out of the trash.
+   * @param id - The UUID string of the trashed category.
+   * @returns The restored Category object.
+   * @throws NotFoundException if the category is not in the trash.
+   * @throws ConflictException if its parent category is still in the trash.
+   */
+  async restore(id: string): Promise<Category> {
+    const trashed = await this.findTrashedOne(id);
+    if (trashed.parentId) {
+      const parentTrashed = await this.prismaService.category.count({
+        where: { id: trashed.parentId, deletedAt: { not: null } },
+      });
+      if (parentTrashed > 0) {
+        throw new ConflictException(
+          `The parent category of category with ID "${id}" is in the trash. Restore it first.`,
+        );
+      }
+    }
+    const category = await this.prismaService.category.update({
+      where: { id },
+      data: { deletedAt: null },
+    });
+    this.logger.log(`Category ${id} restored from the trash.`);
+    return category;
+  }
+
+  /**
+   * Permanently deletes a trashed category.
+   * @param id - The UUID string of the trashed category.
+   * @throws NotFoundException if the category is not in the trash.
+   * @throws ConflictException if projects or subcategories (trashed or not) still belong to it.
+   */
+  async purge(id: string): Promise<void> {
+    await this.findTrashedOne(id);
+    const childCount = await this.prismaService.category.count({
+      where: { parentId: id },
+    });
+    if (childCount > 0) {
+      throw new ConflictException(
+        `Category with ID "${id}" still has ${childCount} subcategory(ies). Move or purge them first.`,
+      );
+    }
+    const projectCount = await this.prismaService.project.count({
+      where: { categoryId: id },
+    });
+    if (projectCount > 0) {
+      throw new ConflictException(
+        `Category with ID "${id}" still has ${projectCount} project(s). Move or purge them first.`,
+      );
+    }
+    await this.prismaService.category.delete({ where: { id } });
+    this.logger.log(`Category ${id} permanently deleted.`);
+  }
+
+  /**
+   * Permanently deletes the categories trashed before a given date.
+   * Categories that still have projects or subcategories are kept.
+   * @param trashedBefore - Categories trashed before this date are purged.
+   * @returns The number of purged categories.
+   */
+  async purgeExpired(trashedBefore: Date): Promise<number> {
+    const { count } = await this.prismaService.category.deleteMany({
+      where: {
+        deletedAt: { lt: trashedBefore },
+        projects: { none: {} },
+        children: { none: {} },
+      },
+    });
+    const kept = await this.prismaService.category.count({
+      where: { deletedAt: { lt: trashedBefore } },
+    });
+    if (kept > 0) {
+      this.logger.warn(
+        `${kept} expired trashed category(ies) not purged because they still have projects or subcategories.`,
+      );
+    }
+    return count;
+  }
+
+  private async assertParentExists(parentId: string): Promise<void> {
+    const count = await this.prismaService.category.count({
+      where: { id: parentId, deletedAt: null },
+    });
+    if (count === 0) {
+      throw new BadRequestException(
+        `Parent category with ID "${parentId}" not found`,
+      );
+    }
+  }
+
+  // Slug derived from the name, suffixed with "-2", "-3"... if already taken
+  private async generateSlug(name: string): Promise<string> {
+    const base = slugify(name);
+    const similar = await this.prismaService.category.findMany({
+      where: { slug: { startsWith: base } },
+      select: { slug: true },
+    });
+    return nextAvailableSlug(
+      base,
+      similar.map((category) => category.slug),
+    );
+  }
+
+  private async findTrashedOne(id: string): Promise<Category> {
+    const category = await this.prismaService.category.findFirst({
+      where: { id, deletedAt: { not: null } },
+    });
+    if (!category) {
+      throw new NotFoundException(
+        `Category with ID "${id}" not found in trash`,
+      );
+    }
+    return category;
+  }
 }
@@ -0,0 +1,91 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Exclude, Expose } from 'class-transformer';
+import { Category } from '@prisma/client';
+import { CategoryTreeNode } from '../categories.service';
+
+/**
+ * Category as returned by the API.
+ */
+@Exclude()
+export class CategoryResponseDto {
+  @Expose()
+  @ApiProperty({ format: 'uuid' })
+  id: string;
+
+  @Expose()
+  @ApiProperty({ example: 'Web Development' })
+  name: string;
+
+  @Expose()
+  @ApiProperty({ example: 'web-development' })
+  slug: string;
+
+  @Expose()
+  @ApiPropertyOptional({ nullable: true })
+  description: string | null;
+
+  @Expose()
+  @ApiPropertyOptional({
+    nullable: true,
+    format: 'uuid',
+    description: 'Parent category; null for top-level categories',
+  })
+  parentId: string | null;
+
+  @Expose()
+  @ApiProperty({ description: 'Order among its siblings', example: 0 })
+  position: number;
+
+  @Expose()
+  @ApiPropertyOptional({
+    nullable: true,
+    description:
+      'When the item was moved to the trash; null if it is not trashed',
+  })
+  deletedAt: Date | null;
+
+  @Expose()
+  @ApiProperty()
+  createdAt: Date;
+
+  @Expose()
+  @ApiProperty()
+  updatedAt: Date;
+
+  constructor(category: Category) {
+    Object.assign(this, category);
+  }
+}
+
+/**
+ * Node of the category tree, with its project counts and its subcategories.
+ */
+@Exclude()
+export class CategoryTreeNodeDto extends CategoryResponseDto {
+  @Expose()
+  @ApiProperty({
+    description: 'Published projects directly in this category',
+    example: 3,
+  })
+  projectCount: number;
+
+  @Expose()
+  @ApiProperty({
+    description: 'Published projects in this category and its descendants',
+    example: 7,
+  })
+  totalProjectCount: number;
+
+  @Expose()
+  @ApiProperty({ type: () => [CategoryTreeNodeDto] })
+  children: CategoryTreeNodeDto[];
+
+  constructor(node: CategoryTreeNode) {
+    super(node);
+    this.projectCount = node.projectCount;
+    this.totalProjectCount = node.totalProjectCount;
+    this.children = node.children.map(
+      (child) => new CategoryTreeNodeDto(child),
+    );
+  }
+}
@@ -1,5 +1,15 @@
 import { ApiProperty } from '@nestjs/swagger'; // Optional: For Swagger documentation
-import { IsString, IsNotEmpty, IsOptional, MaxLength } from 'class-validator'; // Import validation decorators
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  MaxLength,
+  IsUUID,
+  IsInt,
+  Min,
+  Matches,
+} from 'class-validator'; // Import validation decorators
+import { SLUG_PATTERN } from 'src/utils/slug-utils';
 
 export class CreateCategoryDto {
   /**
@@ -30,6 +40,50 @@ export class CreateCategoryDto {
   @MaxLength(255, { message: 'Description must not exceed 255 characters.' }) // Example max length
   readonly description?: string;
 
+  /**
+   * URL slug. Generated from the name when omitted.
+   * @example 'e-commerce'
+   */
+  @ApiProperty({
+    description:
+      'Unique URL slug (lowercase letters, digits and dashes). Generated from the name when omitted',
+    example: 'e-commerce',
+    required: false,
+  })
+  @IsOptional()
+  @Matches(SLUG_PATTERN, {
+    message: 'Slug must contain only lowercase letters, digits and dashes.',
+  })
+  @MaxLength(60, { message: 'Slug must not exceed 60 characters.' })
+  readonly slug?: string;
+
+  /**
+   * Parent category. Omit for a top-level category.
+   */
+  @ApiProperty({
+    description: 'UUID of the parent category; omit for a top-level category',
+    format: 'uuid',
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID('all', { message: 'Parent ID must be a valid UUID.' })
+  readonly parentId?: string;
+
+  /**
+   * Position among its siblings (ascending).
+   * @example 0
+   */
+  @ApiProperty({
+    description: 'Position among its siblings, ascending',
+    example: 0,
+    required: false,
+    default: 0,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Position must be an integer.' })
+  @Min(0, { message: 'Position must not be negative.' })
+  readonly position?: number;
+
   // Note: We explicitly DO NOT include 'id', 'createdAt', 'updatedAt', or relation fields like 'users'.
   // The client should only provide the necessary data to create the resource.
 }
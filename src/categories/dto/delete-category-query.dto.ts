@@ -0,0 +1,16 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsUUID } from 'class-validator';
+
+/**
+ * Query parameters of DELETE /categories/:id.
+ */
+export class DeleteCategoryQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Category that receives the projects of the deleted one. Required when the category still has projects',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  reassignTo?: string;
+}
@@ -0,0 +1,18 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+/**
+ * Result of moving a category to the trash.
+ */
+export class DeleteCategoryResponseDto {
+  @ApiProperty({ example: 'Category moved to the trash' })
+  message: string;
+
+  @ApiProperty({
+    description: 'Number of projects moved to `reassignedTo`',
+    example: 3,
+  })
+  movedProjects: number;
+
+  @ApiPropertyOptional({ nullable: true, format: 'uuid' })
+  reassignedTo: string | null;
+}
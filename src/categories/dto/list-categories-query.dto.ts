@@ -0,0 +1,24 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsOptional } from 'class-validator';
+import { PaginationQueryDto } from 'src/common/dto/pagination-query.dto';
+
+export const CATEGORY_SORT_FIELDS = [
+  'id',
+  'name',
+  'slug',
+  'position',
+  'parentId',
+  'createdAt',
+  'updatedAt',
+] as const;
+export type CategorySortField = (typeof CATEGORY_SORT_FIELDS)[number];
+
+/**
+ * Query parameters of GET /categories.
+ */
+export class ListCategoriesQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ enum: CATEGORY_SORT_FIELDS, default: 'createdAt' })
+  @IsOptional()
+  @IsIn(CATEGORY_SORT_FIELDS)
+  sortBy?: CategorySortField;
+}
@@ -1,5 +1,15 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsNotEmpty, IsOptional, MaxLength } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  MaxLength,
+  IsUUID,
+  IsInt,
+  Min,
+  Matches,
+} from 'class-validator';
+import { SLUG_PATTERN } from 'src/utils/slug-utils';
 
 export class UpdateCategoryDto {
   /**
@@ -31,4 +41,48 @@ export class UpdateCategoryDto {
   @IsString({ message: 'Description must be a string.' })
   @MaxLength(255, { message: 'Description must not exceed 255 characters.' })
   readonly description?: string;
+
+  /**
+   * A new URL slug. Not changed when only the name changes, so URLs stay stable.
+   * @example 'e-commerce'
+   */
+  @ApiProperty({
+    description: 'A new unique URL slug (lowercase letters, digits and dashes)',
+    example: 'e-commerce',
+    required: false,
+  })
+  @IsOptional()
+  @Matches(SLUG_PATTERN, {
+    message: 'Slug must contain only lowercase letters, digits and dashes.',
+  })
+  @MaxLength(60, { message: 'Slug must not exceed 60 characters.' })
+  readonly slug?: string;
+
+  /**
+   * The new parent category, or null to make it a top-level category.
+   */
+  @ApiProperty({
+    description:
+      'UUID of the new parent category, or null to make it a top-level category',
+    format: 'uuid',
+    nullable: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID('all', { message: 'Parent ID must be a valid UUID.' })
+  readonly parentId?: string | null;
+
+  /**
+   * The new position among its siblings (ascending).
+   * @example 1
+   */
+  @ApiProperty({
+    description: 'Position among its siblings, ascending',
+    example: 1,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Position must be an integer.' })
+  @Min(0, { message: 'Position must not be negative.' })
+  readonly position?: number;
 }
@@ -0,0 +1,45 @@
+import { Logger } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from 'src/app.module';
+import { ImageVariantsService } from 'src/projects/image-variants.service';
+
+/**
+ * Generates the resized variants of project images that have none, e.g.
+ * images uploaded before variants existed.
+ *
+ *   npm run images:backfill-variants
+ *   npm run images:backfill-variants -- --project=<uuid> --force
+ *
+ * `--project` limits the run to one project; `--force` regenerates the
+ * variants of every image. Exits with 1 if any image failed.
+ */
+async function backfillImageVariants() {
+  const args = process.argv.slice(2);
+  const projectId = args
+    .find((arg) => arg.startsWith('--project='))
+    ?.slice('--project='.length);
+  const force = args.includes('--force');
+
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['log', 'warn', 'error'],
+  });
+  try {
+    const { processed, failed } = await app
+      .get(ImageVariantsService)
+      .generateMissing({ projectId, force });
+    new Logger('BackfillImageVariants').log(
+      `Generated the variants of ${processed} image(s), ${failed} failed.`,
+    );
+    process.exitCode = failed ? 1 : 0;
+  } finally {
+    await app.close();
+  }
+}
+
+backfillImageVariants().catch((err: Error) => {
+  new Logger('BackfillImageVariants').error(
+    'Image variant backfill failed',
+    err.stack,
+  );
+  process.exit(1);
+});
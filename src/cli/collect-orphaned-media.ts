@@ -0,0 +1,55 @@
+import { Logger } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { AppModule } from 'src/app.module';
+import { MediaGcService } from 'src/storage/media-gc.service';
+
+/**
+ * Lists stored media files that no database row references, and deletes
+ * them with `--delete`.
+ *
+ *   npm run media:gc
+ *   npm run media:gc -- --delete --min-age-hours=48
+ *
+ * Files modified less than `--min-age-hours` (24) ago are kept. Orphans and
+ * dangling references are printed one per line. Exits with 1 if a delete failed.
+ */
+async function collectOrphanedMedia() {
+  const args = process.argv.slice(2);
+  const minAgeHours = args
+    .find((arg) => arg.startsWith('--min-age-hours='))
+    ?.slice('--min-age-hours='.length);
+  const dryRun = !args.includes('--delete');
+
+  const app = await NestFactory.createApplicationContext(AppModule, {
+    logger: ['log', 'warn', 'error'],
+  });
+  const logger = new Logger('CollectOrphanedMedia');
+  try {
+    const report = await app.get(MediaGcService).collect({
+      dryRun,
+      minAgeHours: minAgeHours === undefined ? undefined : Number(minAgeHours),
+    });
+    for (const orphan of report.orphans) {
+      logger.log(`Orphan: ${orphan.key} (${orphan.size} bytes)`);
+    }
+    for (const reference of report.danglingReferences) {
+      logger.warn(
+        `Dangling: ${reference.key} (${reference.source} ${reference.id})`,
+      );
+    }
+    if (dryRun && report.orphans.length) {
+      logger.log('Dry run: run again with --delete to delete the orphans.');
+    }
+    process.exitCode = report.failed.length ? 1 : 0;
+  } finally {
+    await app.close();
+  }
+}
+
+collectOrphanedMedia().catch((err: Error) => {
+  new Logger('CollectOrphanedMedia').error(
+    'Orphaned media collection failed',
+    err.stack,
+  );
+  process.exit(1);
+});
@@ -0,0 +1,39 @@
+import { Type } from '@nestjs/common';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+
+// Envelope returned by every paginated list endpoint
+export interface Paginated<T> {
+  items: T[];
+  total: number;
+  nextCursor: string | null;
+}
+
+/**
+ * Swagger schema of a page of `itemType`, e.g.
+ * `@ApiResponse({ type: PaginatedResponseDto(ProjectResponseDto) })`.
+ */
+export function PaginatedResponseDto<T>(itemType: Type<T>): Type<Paginated<T>> {
+  class PaginatedResponse implements Paginated<T> {
+    @ApiProperty({ type: () => [itemType] })
+    items: T[];
+
+    @ApiProperty({
+      description: 'Number of items matching the filters',
+      example: 42,
+    })
+    total: number;
+
+    @ApiPropertyOptional({
+      type: String,
+      nullable: true,
+      description:
+        'Pass as `cursor` to fetch the next page; null on the last page',
+    })
+    nextCursor: string | null;
+  }
+  // Swagger names schemas after their class
+  Object.defineProperty(PaginatedResponse, 'name', {
+    value: `Paginated${itemType.name}`,
+  });
+  return PaginatedResponse;
+}
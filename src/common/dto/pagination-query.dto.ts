@@ -0,0 +1,66 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export enum SortOrder {
+  ASC = 'asc',
+  DESC = 'desc',
+}
+
+/**
+ * Query parameters shared by every paginated list endpoint.
+ * Pages are addressed either by `offset` or by `cursor` (the `nextCursor` of
+ * the previous page). List DTOs extend this class to restrict `sortBy` to
+ * their own columns and to add filters.
+ */
+export class PaginationQueryDto {
+  @ApiPropertyOptional({
+    description: 'Maximum number of items to return',
+    default: DEFAULT_PAGE_SIZE,
+    minimum: 1,
+    maximum: MAX_PAGE_SIZE,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(MAX_PAGE_SIZE)
+  limit?: number;
+
+  @ApiPropertyOptional({
+    description: 'Number of items to skip (offset pagination)',
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  offset?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'ID of the last item of the previous page (cursor pagination). Cannot be combined with `offset`.',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID()
+  cursor?: string;
+
+  @ApiPropertyOptional({ description: 'Column to sort by' })
+  @IsOptional()
+  @IsString()
+  sortBy?: string;
+
+  @ApiPropertyOptional({ enum: SortOrder, default: SortOrder.DESC })
+  @IsOptional()
+  @IsEnum(SortOrder)
+  sortOrder?: SortOrder;
+}
@@ -0,0 +1,21 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsOptional } from 'class-validator';
+import { PaginationQueryDto } from './pagination-query.dto';
+
+export const TRASH_SORT_FIELDS = [
+  'deletedAt',
+  'createdAt',
+  'updatedAt',
+] as const;
+export type TrashSortField = (typeof TRASH_SORT_FIELDS)[number] | 'id';
+
+/**
+ * Query parameters of the GET .../trash endpoints, shared by every
+ * soft-deletable resource.
+ */
+export class TrashQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ enum: TRASH_SORT_FIELDS, default: 'deletedAt' })
+  @IsOptional()
+  @IsIn(TRASH_SORT_FIELDS)
+  sortBy?: TrashSortField;
+}
@@ -1,60 +1,49 @@
 import { PipeTransform, Injectable, BadRequestException } from '@nestjs/common';
+import { UploadPurpose } from '@prisma/client';
 import type { Express } from 'express';
+import {
+  assertFileMatchesPolicy,
+  inMemoryFile,
+} from 'src/uploads/upload-policies';
 
+type UploadedFiles =
+  | Express.Multer.File
+  | Record<string, Express.Multer.File[]>
+  | undefined;
+
+/**
+ * Checks uploaded files against the upload policy of their field, e.g.
+ * `new FileValidationPipe(PROJECT_FILE_FIELDS)`. Works on the file of
+ * `@UploadedFile()` as well as on the fields of `@UploadedFiles()`.
+ */
 @Injectable()
 export class FileValidationPipe implements PipeTransform {
-  constructor(
-    private readonly options: {
-      maxImageSize?: number;
-      maxVideoSize?: number;
-      allowedImageTypes?: string[];
-      allowedVideoTypes?: string[];
-    } = {},
-  ) {
-    this.options = {
-      maxImageSize: 8 * 1024 * 1024,
-      maxVideoSize: 100 * 1024 * 1024,
-      allowedImageTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/webp'],
-      allowedVideoTypes: ['video/mp4', 'video/webm', 'video/quicktime'],
-      ...options,
-    };
-  }
+  constructor(private readonly fields: Record<string, UploadPurpose>) {}
 
-  transform(files: {
-    images?: Express.Multer.File[];
-    video?: Express.Multer.File[];
-  }) {
-    if (!files) return { images: [], video: undefined };
-
-    // Validate images
-    if (files.images) {
-      files.images.forEach((image) => {
-        if (!this.options.allowedImageTypes?.includes(image.mimetype)) {
-          throw new BadRequestException(
-            `Invalid image type: ${image.mimetype}`,
-          );
-        }
-        if (image.size > (this.options.maxImageSize ?? 8 * 1024 * 1024)) {
-          throw new BadRequestException(
-            `Image ${image.originalname} exceeds size limit`,
-          );
-        }
-      });
+  async transform(files: UploadedFiles): Promise<UploadedFiles> {
+    if (!files) {
+      return files;
     }
+    const list = isFile(files) ? [files] : Object.values(files).flat();
 
-    // Validate video
-    if (files.video?.[0]) {
-      const video = files.video[0];
-      if (!this.options.allowedVideoTypes?.includes(video.mimetype)) {
-        throw new BadRequestException(`Invalid video type: ${video.mimetype}`);
-      }
-      if (video.size > (this.options.maxVideoSize ?? 100 * 1024 * 1024)) {
+    for (const file of list) {
+      const purpose = this.fields[file.fieldname];
+      if (!purpose) {
         throw new BadRequestException(
-          `Video ${video.originalname} exceeds size limit`,
+          `Unexpected file field: ${file.fieldname}`,
         );
       }
+      await assertFileMatchesPolicy(
+        inMemoryFile(file.buffer, file.originalname, file.mimetype),
+        purpose,
+      );
     }
-
     return files;
   }
 }
+
+function isFile(
+  files: Express.Multer.File | Record<string, Express.Multer.File[]>,
+): files is Express.Multer.File {
+  return typeof files.fieldname === 'string';
+}
@@ -6,9 +6,18 @@ import {
   PutObjectCommand,
   GetObjectCommand,
   DeleteObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  ListPartsCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  S3ServiceException,
 } from '@aws-sdk/client-s3';
 import { v4 as uuidv4 } from 'uuid';
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { Readable } from 'stream';
 
 @Injectable()
 export class S3Service {
@@ -32,12 +41,27 @@ export class S3Service {
   async uploadFileToS3(
     file: Express.Multer.File,
     key: string,
+  ): Promise<string> {
+    return this.uploadBufferToS3(file.buffer, key, file.mimetype);
+  }
+
+  /**
+   * Upload content generated by the server (e.g. a resized image) to S3.
+   * @param body - The file content
+   * @param key - The S3 object key
+   * @param contentType - The MIME type of the content
+   * @returns The S3 key
+   */
+  async uploadBufferToS3(
+    body: Buffer,
+    key: string,
+    contentType: string,
   ): Promise<string> {
     const command = new PutObjectCommand({
       Bucket: this.bucketName,
       Key: key,
-      Body: file.buffer,
-      ContentType: file.mimetype,
+      Body: body,
+      ContentType: contentType,
     });
 
     try {
@@ -45,16 +69,361 @@ export class S3Service {
       // const url = await this.getPresignedUrl(key);
       return key;
     } catch (error) {
-      throw new Error(`S3 Upload Failed: ${error.message}`);
+      throw new Error(
+        `S3 Upload Failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Download the content of an object.
+   * @param key - The S3 object key
+   * @returns The file content
+   */
+  async downloadFile(key: string): Promise<Buffer> {
+    try {
+      const response = await this.s3Client.send(
+        new GetObjectCommand({ Bucket: this.bucketName, Key: key }),
+      );
+      return Buffer.from(await response.Body!.transformToByteArray());
+    } catch (error) {
+      throw new Error(
+        `Failed to download file ${key} from S3: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Download a byte range of an object.
+   * @param key - The S3 object key
+   * @param start - Offset of the first byte
+   * @param end - Offset after the last byte
+   * @returns The bytes of the range
+   */
+  async downloadFileRange(
+    key: string,
+    start: number,
+    end: number,
+  ): Promise<Buffer> {
+    if (end <= start) {
+      return Buffer.alloc(0);
+    }
+    try {
+      const response = await this.s3Client.send(
+        new GetObjectCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          Range: `bytes=${start}-${end - 1}`, // inclusive
+        }),
+      );
+      return Buffer.from(await response.Body!.transformToByteArray());
+    } catch (error) {
+      throw new Error(
+        `Failed to download bytes ${start}-${end - 1} of ${key} from S3: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Open an object for reading without buffering it.
+   * @param key - The S3 object key
+   * @returns The content stream
+   */
+  async getFileStream(key: string): Promise<Readable> {
+    try {
+      const response = await this.s3Client.send(
+        new GetObjectCommand({ Bucket: this.bucketName, Key: key }),
+      );
+      return response.Body as Readable;
+    } catch (error) {
+      throw new Error(
+        `Failed to read file ${key} from S3: ${error instanceof Error ? error.message : String(error)}`,
+      );
     }
   }
 
-  async getPresignedUrl(key: string) {
+  async getPresignedUrl(key: string, expiresIn = 3600) {
     const command = new GetObjectCommand({
       Bucket: this.bucketName,
       Key: key,
     });
-    return getSignedUrl(this.s3Client, command, { expiresIn: 3600 }); // 1-hour expiry
+    return getSignedUrl(this.s3Client, command, { expiresIn }); // 1-hour expiry by default
+  }
+
+  /**
+   * Create a presigned URL that lets a client upload a file straight to S3
+   * with a PUT request. The content type and length are part of the
+   * signature, so the request must send the same values.
+   * @param key - The S3 object key to write
+   * @param contentType - The MIME type the client will send
+   * @param contentLength - The size in bytes the client will send
+   * @param expiresIn - Validity of the URL in seconds
+   * @returns The presigned URL
+   */
+  async getPresignedUploadUrl(
+    key: string,
+    contentType: string,
+    contentLength: number,
+    expiresIn: number,
+  ): Promise<string> {
+    const command = new PutObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      ContentType: contentType,
+      ContentLength: contentLength,
+    });
+    return getSignedUrl(this.s3Client, command, {
+      expiresIn,
+      signableHeaders: new Set(['content-type', 'content-length']),
+    });
+  }
+
+  /**
+   * Start a multipart upload; the object only exists once it is completed.
+   * @param key - The S3 object key to write
+   * @param contentType - The MIME type of the whole file
+   * @returns The S3 UploadId of the multipart upload
+   */
+  async createMultipartUpload(
+    key: string,
+    contentType: string,
+  ): Promise<string> {
+    try {
+      const response = await this.s3Client.send(
+        new CreateMultipartUploadCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          ContentType: contentType,
+        }),
+      );
+      return response.UploadId!;
+    } catch (error) {
+      throw new Error(
+        `Failed to start multipart upload of ${key}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Create a presigned URL to PUT one part of a multipart upload. The
+   * content length is part of the signature.
+   * @param key - The S3 object key
+   * @param uploadId - The S3 UploadId of the multipart upload
+   * @param partNumber - The part number, from 1
+   * @param contentLength - The size in bytes of the part
+   * @param expiresIn - Validity of the URL in seconds
+   * @returns The presigned URL
+   */
+  async getPresignedPartUrl(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    contentLength: number,
+    expiresIn: number,
+  ): Promise<string> {
+    const command = new UploadPartCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+      ContentLength: contentLength,
+    });
+    return getSignedUrl(this.s3Client, command, {
+      expiresIn,
+      signableHeaders: new Set(['content-length']),
+    });
+  }
+
+  /**
+   * List the parts of a multipart upload that S3 has received.
+   * @param key - The S3 object key
+   * @param uploadId - The S3 UploadId of the multipart upload
+   * @returns The parts, by part number
+   */
+  async listParts(
+    key: string,
+    uploadId: string,
+  ): Promise<{ partNumber: number; size: number; etag: string }[]> {
+    const parts: { partNumber: number; size: number; etag: string }[] = [];
+    let marker: string | undefined;
+    try {
+      do {
+        const response = await this.s3Client.send(
+          new ListPartsCommand({
+            Bucket: this.bucketName,
+            Key: key,
+            UploadId: uploadId,
+            PartNumberMarker: marker,
+          }),
+        );
+        for (const part of response.Parts ?? []) {
+          parts.push({
+            partNumber: part.PartNumber!,
+            size: part.Size!,
+            etag: part.ETag!,
+          });
+        }
+        marker = response.IsTruncated
+          ? response.NextPartNumberMarker
+          : undefined;
+      } while (marker);
+      return parts;
+    } catch (error) {
+      throw new Error(
+        `Failed to list the parts of ${key} in S3: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Assemble the parts of a multipart upload into the object.
+   * @param key - The S3 object key
+   * @param uploadId - The S3 UploadId of the multipart upload
+   * @param parts - Every part, in order
+   */
+  async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: { partNumber: number; etag: string }[],
+  ): Promise<void> {
+    try {
+      await this.s3Client.send(
+        new CompleteMultipartUploadCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          UploadId: uploadId,
+          MultipartUpload: {
+            Parts: parts.map(({ partNumber, etag }) => ({
+              PartNumber: partNumber,
+              ETag: etag,
+            })),
+          },
+        }),
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to complete multipart upload of ${key}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Abort a multipart upload and free its parts. Uploads S3 no longer knows
+   * are ignored.
+   * @param key - The S3 object key
+   * @param uploadId - The S3 UploadId of the multipart upload
+   */
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    try {
+      await this.s3Client.send(
+        new AbortMultipartUploadCommand({
+          Bucket: this.bucketName,
+          Key: key,
+          UploadId: uploadId,
+        }),
+      );
+    } catch (error) {
+      if (
+        error instanceof S3ServiceException &&
+        error.$metadata.httpStatusCode === 404
+      ) {
+        return;
+      }
+      throw new Error(
+        `Failed to abort multipart upload of ${key}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Read the size and content type of an object.
+   * @param key - The S3 object key
+   * @returns null if the object is not found
+   */
+  async getFileInfo(
+    key: string,
+  ): Promise<{ size: number; contentType?: string } | null> {
+    try {
+      const response = await this.s3Client.send(
+        new HeadObjectCommand({ Bucket: this.bucketName, Key: key }),
+      );
+      return {
+        size: response.ContentLength ?? 0,
+        contentType: response.ContentType,
+      };
+    } catch (error) {
+      if (
+        error instanceof S3ServiceException &&
+        error.$metadata.httpStatusCode === 404
+      ) {
+        return null;
+      }
+      throw new Error(
+        `Failed to check file ${key} in S3: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * List the objects whose key starts with a prefix.
+   * @param prefix - The key prefix, e.g. `projects/`
+   * @returns The key, size and last modification date of each object
+   */
+  async listFiles(
+    prefix: string,
+  ): Promise<{ key: string; size: number; lastModified: Date }[]> {
+    const files: { key: string; size: number; lastModified: Date }[] = [];
+    let continuationToken: string | undefined;
+    try {
+      do {
+        const response = await this.s3Client.send(
+          new ListObjectsV2Command({
+            Bucket: this.bucketName,
+            Prefix: prefix,
+            ContinuationToken: continuationToken,
+          }),
+        );
+        for (const object of response.Contents ?? []) {
+          files.push({
+            key: object.Key!,
+            size: object.Size ?? 0,
+            lastModified: object.LastModified ?? new Date(0),
+          });
+        }
+        continuationToken = response.IsTruncated
+          ? response.NextContinuationToken
+          : undefined;
+      } while (continuationToken);
+      return files;
+    } catch (error) {
+      throw new Error(
+        `Failed to list files under ${prefix} in S3: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Check whether an object still exists in the bucket.
+   * @param key - The S3 object key
+   * @returns false if the object is not found, true otherwise
+   */
+  async fileExists(key: string): Promise<boolean> {
+    try {
+      await this.s3Client.send(
+        new HeadObjectCommand({ Bucket: this.bucketName, Key: key }),
+      );
+      return true;
+    } catch (error) {
+      if (
+        error instanceof S3ServiceException &&
+        error.$metadata.httpStatusCode === 404
+      ) {
+        return false;
+      }
+      throw new Error(
+        `Failed to check file ${key} in S3: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
   }
 
   /**
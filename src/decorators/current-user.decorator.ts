@@ -0,0 +1,25 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+
+// User attached to the request by JwtStrategy.validate()
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+  // Session the access token belongs to (absent on login)
+  sessionId?: string;
+}
+
+/**
+ * Injects the authenticated user, or one of its properties:
+ * `@CurrentUser() user` or `@CurrentUser('id') userId`.
+ */
+export const CurrentUser = createParamDecorator(
+  (
+    property: keyof AuthenticatedUser | undefined,
+    context: ExecutionContext,
+  ) => {
+    const request = context
+      .switchToHttp()
+      .getRequest<{ user: AuthenticatedUser }>();
+    return property ? request.user?.[property] : request.user;
+  },
+);
@@ -0,0 +1,20 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const RATE_LIMIT_KEY = 'rateLimit';
+
+// What a rate limit counts requests by. 'user' falls back to the IP address
+// on routes where no user is authenticated.
+export type RateLimitKeyBy = 'ip' | 'user' | 'ip-user';
+
+export interface RateLimitOptions {
+  limit: number; // requests allowed per window
+  ttl: number; // window length in seconds
+  keyBy?: RateLimitKeyBy; // defaults to 'ip'
+}
+
+export const RateLimit = (options: RateLimitOptions) =>
+  SetMetadata(RATE_LIMIT_KEY, options);
+
+// Excludes a route (or controller) from rate limiting, including the default limit
+export const SKIP_RATE_LIMIT_KEY = 'skipRateLimit';
+export const SkipRateLimit = () => SetMetadata(SKIP_RATE_LIMIT_KEY, true);
@@ -1,14 +1,19 @@
-import { NestFactory } from '@nestjs/core';
+import { NestFactory, Reflector } from '@nestjs/core';
 import { AppModule } from './app.module';
 
 // New
 import { ConfigService } from '@nestjs/config';
-import { Logger, ValidationPipe } from '@nestjs/common'; // Import Logger and ValidationPipe
+import {
+  ClassSerializerInterceptor,
+  Logger,
+  ValidationPipe,
+} from '@nestjs/common'; // Import Logger and ValidationPipe
 import helmet from 'helmet'; // Import helmet
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
+import { NestExpressApplication } from '@nestjs/platform-express';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
 
   // --- Security ---
   // Apply basic security headers using Helmet
@@ -20,6 +25,14 @@ async function bootstrap() {
   const port = configService.get<number>('PORT') || 4000;
   const nodeEnv = configService.get<string>('NODE_ENV', 'development');
 
+  // --- Proxy ---
+  // Behind a reverse proxy, trust that many hops of X-Forwarded-For so req.ip
+  // is the client IP (rate limiting and login throttling are keyed by it)
+  const trustProxyHops = Number(configService.get<string>('TRUST_PROXY', '0'));
+  if (trustProxyHops > 0) {
+    app.set('trust proxy', trustProxyHops);
+  }
+
   // --- API Prefix ---
   // Set a global prefix for all routes (e.g., /api/v1/users)
   const globalPrefix = 'api';
@@ -50,6 +63,11 @@ async function bootstrap() {
     }),
   );
 
+  // --- Serialization ---
+  // Response DTOs whitelist their fields with @Expose(), so anything else
+  // (password hashes, tokens, 2FA secrets) is stripped before it is sent
+  app.useGlobalInterceptors(new ClassSerializerInterceptor(app.get(Reflector)));
+
   // --- Swagger (OpenAPI) Setup ---
   // Only setup Swagger in development environment for security and performance reasons
   if (nodeEnv === 'development') {
@@ -0,0 +1,13 @@
+// Permissions checked by @RequirePermissions() across the API.
+// They are seeded by the migrations ("add_permission_model" and later) and can be
+// assigned to roles through /api/roles/:id/permissions.
+export const PermissionNames = {
+  PROJECTS_WRITE: 'projects:write',
+  PROJECTS_PUBLISH: 'projects:publish',
+  CATEGORIES_WRITE: 'categories:write',
+  TECHNOLOGIES_WRITE: 'technologies:write',
+  QUOTES_READ: 'quotes:read',
+  QUOTES_WRITE: 'quotes:write',
+  USERS_READ: 'users:read',
+  USERS_WRITE: 'users:write',
+};
@@ -0,0 +1,41 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  MaxLength,
+  Matches,
+} from 'class-validator';
+
+export class CreatePermissionDto {
+  /**
+   * The name of the permission in `resource:action` form. Must be unique.
+   * @example 'projects:write'
+   */
+  @ApiProperty({
+    description: 'The unique name of the permission (resource:action)',
+    example: 'projects:write',
+    maxLength: 50,
+  })
+  @IsString({ message: 'Name must be a string.' })
+  @IsNotEmpty({ message: 'Name should not be empty.' })
+  @MaxLength(50, { message: 'Name must not exceed 50 characters.' })
+  @Matches(/^[a-z][a-z0-9-]*:[a-z][a-z0-9-]*$/, {
+    message: "Name must follow the 'resource:action' format.",
+  })
+  readonly name: string;
+
+  /**
+   * An optional description for the permission.
+   * @example 'Create, update and delete projects'
+   */
+  @ApiProperty({
+    description: 'An optional description for the permission',
+    example: 'Create, update and delete projects',
+    required: false,
+  })
+  @IsString({ message: 'Description must be a string.' })
+  @IsOptional()
+  @MaxLength(255, { message: 'Description must not exceed 255 characters.' })
+  readonly description?: string;
+}
@@ -0,0 +1,36 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Exclude, Expose } from 'class-transformer';
+import { Permission } from '@prisma/client';
+
+/**
+ * Permission as returned by the API.
+ */
+@Exclude()
+export class PermissionResponseDto {
+  @Expose()
+  @ApiProperty({ format: 'uuid' })
+  id: string;
+
+  @Expose()
+  @ApiProperty({ example: 'projects:write' })
+  name: string;
+
+  @Expose()
+  @ApiPropertyOptional({
+    example: 'Create, update and delete projects',
+    nullable: true,
+  })
+  description: string | null;
+
+  @Expose()
+  @ApiProperty()
+  createdAt: Date;
+
+  @Expose()
+  @ApiProperty()
+  updatedAt: Date;
+
+  constructor(permission: Permission) {
+    Object.assign(this, permission);
+  }
+}
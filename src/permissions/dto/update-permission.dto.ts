@@ -0,0 +1,43 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  MaxLength,
+  Matches,
+} from 'class-validator';
+
+export class UpdatePermissionDto {
+  /**
+   * The updated name of the permission. Must be unique.
+   * @example 'projects:publish'
+   */
+  @ApiProperty({
+    description: 'The updated name of the permission (resource:action)',
+    example: 'projects:publish',
+    maxLength: 50,
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Name must be a string.' })
+  @IsNotEmpty({ message: 'Name should not be empty.' })
+  @MaxLength(50, { message: 'Name must not exceed 50 characters.' })
+  @Matches(/^[a-z][a-z0-9-]*:[a-z][a-z0-9-]*$/, {
+    message: "Name must follow the 'resource:action' format.",
+  })
+  readonly name?: string;
+
+  /**
+   * An updated description for the permission.
+   * @example 'Publish and archive projects'
+   */
+  @ApiProperty({
+    description: 'An updated description for the permission',
+    example: 'Publish and archive projects',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: 'Description must be a string.' })
+  @MaxLength(255, { message: 'Description must not exceed 255 characters.' })
+  readonly description?: string;
+}
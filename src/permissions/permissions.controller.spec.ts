@@ -0,0 +1,57 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PermissionsController } from './permissions.controller';
+import { PermissionsService } from './permissions.service';
+import { PermissionResponseDto } from './dto/permission-response.dto';
+
+describe('PermissionsController', () => {
+  let controller: PermissionsController;
+  const permissionsService = {
+    create: jest.fn(),
+    findAll: jest.fn(),
+    remove: jest.fn(),
+  };
+  const permission = {
+    id: 'permission',
+    name: 'projects:write',
+    description: null,
+    createdAt: new Date('2025-06-01T12:00:00Z'),
+    updatedAt: new Date('2025-06-01T12:00:00Z'),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [PermissionsController],
+      providers: [
+        { provide: PermissionsService, useValue: permissionsService },
+      ],
+    }).compile();
+
+    controller = module.get<PermissionsController>(PermissionsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('returns permissions as response DTOs', async () => {
+    permissionsService.create.mockResolvedValue(permission);
+    permissionsService.findAll.mockResolvedValue([permission]);
+
+    const created = await controller.create({ name: 'projects:write' });
+    const [listed] = await controller.findAll();
+
+    expect(created).toBeInstanceOf(PermissionResponseDto);
+    expect(created).toEqual(permission);
+    expect(listed).toBeInstanceOf(PermissionResponseDto);
+    expect(permissionsService.create).toHaveBeenCalledWith({
+      name: 'projects:write',
+    });
+  });
+
+  it('deletes through the service', async () => {
+    await controller.remove('permission');
+
+    expect(permissionsService.remove).toHaveBeenCalledWith('permission');
+  });
+});
@@ -0,0 +1,156 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBody,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { PermissionsService } from './permissions.service';
+import { CreatePermissionDto } from './dto/create-permission.dto';
+import { UpdatePermissionDto } from './dto/update-permission.dto';
+import { PermissionResponseDto } from './dto/permission-response.dto';
+import { Roles } from 'src/decorators/roles.decorator';
+import { RoleNames } from 'src/roles/constants';
+
+@ApiTags('permissions')
+@ApiBearerAuth()
+@Roles(RoleNames.ADMIN) // Managing the permission catalog is admin-only
+@Controller('permissions')
+export class PermissionsController {
+  constructor(private readonly permissionsService: PermissionsService) {}
+
+  /**
+   * Creates a new permission.
+   */
+  @Post()
+  @ApiOperation({ summary: 'Create a new permission' })
+  @ApiBody({ type: CreatePermissionDto })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'The permission has been successfully created.',
+    type: PermissionResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Permission name already exists.',
+  })
+  async create(
+    @Body() createPermissionDto: CreatePermissionDto,
+  ): Promise<PermissionResponseDto> {
+    return new PermissionResponseDto(
+      await this.permissionsService.create(createPermissionDto),
+    );
+  }
+
+  /**
+   * Retrieves all permissions.
+   */
+  @Get()
+  @ApiOperation({ summary: 'Get all permissions' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Returns all permissions.',
+    type: [PermissionResponseDto],
+  })
+  async findAll(): Promise<PermissionResponseDto[]> {
+    const permissions = await this.permissionsService.findAll();
+    return permissions.map(
+      (permission) => new PermissionResponseDto(permission),
+    );
+  }
+
+  /**
+   * Retrieves a specific permission by its ID.
+   */
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a permission by ID' })
+  @ApiParam({
+    name: 'id',
+    description: 'The UUID of the permission to retrieve',
+    type: String,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Returns the specified permission.',
+    type: PermissionResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Permission not found.',
+  })
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<PermissionResponseDto> {
+    return new PermissionResponseDto(await this.permissionsService.findOne(id));
+  }
+
+  /**
+   * Updates a specific permission by its ID.
+   */
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a permission by ID' })
+  @ApiParam({
+    name: 'id',
+    description: 'The UUID of the permission to update',
+    type: String,
+  })
+  @ApiBody({ type: UpdatePermissionDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The permission has been successfully updated.',
+    type: PermissionResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Permission not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Permission name already exists.',
+  })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updatePermissionDto: UpdatePermissionDto,
+  ): Promise<PermissionResponseDto> {
+    return new PermissionResponseDto(
+      await this.permissionsService.update(id, updatePermissionDto),
+    );
+  }
+
+  /**
+   * Deletes a specific permission by its ID.
+   * Returns HTTP 204 No Content on successful deletion.
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a permission by ID' })
+  @ApiParam({
+    name: 'id',
+    description: 'The UUID of the permission to delete',
+    type: String,
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'The permission has been successfully deleted.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Permission not found.',
+  })
+  async remove(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    await this.permissionsService.remove(id);
+  }
+}
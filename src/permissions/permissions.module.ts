@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PermissionsService } from './permissions.service';
+import { PermissionsController } from './permissions.controller';
+import { PrismaModule } from 'src/prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [PermissionsController],
+  providers: [PermissionsService],
+  exports: [PermissionsService],
+})
+export class PermissionsModule {}
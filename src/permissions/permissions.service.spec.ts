@@ -0,0 +1,74 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { PermissionsService } from './permissions.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+
+const knownError = (code: string) =>
+  new Prisma.PrismaClientKnownRequestError('Request failed', {
+    code,
+    clientVersion: Prisma.prismaVersion.client,
+  });
+
+describe('PermissionsService', () => {
+  let service: PermissionsService;
+  const prismaService = {
+    permission: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PermissionsService,
+        { provide: PrismaService, useValue: prismaService },
+      ],
+    }).compile();
+
+    service = module.get<PermissionsService>(PermissionsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('reports a name already in use on create and update', async () => {
+    prismaService.permission.create.mockRejectedValue(knownError('P2002'));
+    prismaService.permission.update.mockRejectedValue(knownError('P2002'));
+
+    await expect(service.create({ name: 'projects:write' })).rejects.toThrow(
+      new ConflictException(
+        "Permission with name 'projects:write' already exists",
+      ),
+    );
+    await expect(
+      service.update('id', { name: 'projects:write' }),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('reports unknown permissions', async () => {
+    prismaService.permission.findUnique.mockResolvedValue(null);
+    prismaService.permission.update.mockRejectedValue(knownError('P2025'));
+    prismaService.permission.delete.mockRejectedValue(knownError('P2025'));
+
+    await expect(service.findOne('id')).rejects.toThrow(NotFoundException);
+    await expect(service.update('id', {})).rejects.toThrow(NotFoundException);
+    await expect(service.remove('id')).rejects.toThrow(NotFoundException);
+  });
+
+  it('lists permissions by name', async () => {
+    prismaService.permission.findMany.mockResolvedValue([]);
+
+    await service.findAll();
+
+    expect(prismaService.permission.findMany).toHaveBeenCalledWith({
+      orderBy: { name: 'asc' },
+    });
+  });
+});
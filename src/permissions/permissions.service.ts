@@ -0,0 +1,155 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  InternalServerErrorException,
+  Logger,
+} from '@nestjs/common';
+import { CreatePermissionDto } from './dto/create-permission.dto';
+import { UpdatePermissionDto } from './dto/update-permission.dto';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { Prisma, Permission } from '@prisma/client';
+
+@Injectable()
+export class PermissionsService {
+  constructor(private prismaService: PrismaService) {}
+
+  private readonly logger = new Logger(PermissionsService.name);
+
+  /**
+   * Creates a new permission.
+   * @param createPermissionDto - Data for the new permission.
+   * @returns The created Permission object.
+   * @throws ConflictException if a permission with the same name already exists (P2002).
+   * @throws InternalServerErrorException for other database errors.
+   */
+  async create(createPermissionDto: CreatePermissionDto): Promise<Permission> {
+    try {
+      return await this.prismaService.permission.create({
+        data: createPermissionDto,
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        this.logger.warn(
+          `Attempted to create permission with existing name: ${createPermissionDto.name}`,
+        );
+        throw new ConflictException(
+          `Permission with name '${createPermissionDto.name}' already exists`,
+        );
+      }
+      this.logger.error(
+        'Failed to create permission',
+        error instanceof Error ? error.stack : undefined,
+      );
+      throw new InternalServerErrorException('Could not create permission.');
+    }
+  }
+
+  /**
+   * Retrieves all permissions ordered by name.
+   * @returns An array of Permission objects.
+   */
+  async findAll(): Promise<Permission[]> {
+    try {
+      return await this.prismaService.permission.findMany({
+        orderBy: { name: 'asc' },
+      });
+    } catch (error) {
+      this.logger.error(
+        'Failed to fetch all permissions',
+        error instanceof Error ? error.stack : undefined,
+      );
+      throw new InternalServerErrorException('Could not retrieve permissions.');
+    }
+  }
+
+  /**
+   * Retrieves a single permission by its ID.
+   * @param id - The UUID string of the permission to find.
+   * @returns The found Permission object.
+   * @throws NotFoundException if no permission with the given ID is found.
+   */
+  async findOne(id: string): Promise<Permission> {
+    const permissionFound = await this.prismaService.permission.findUnique({
+      where: { id },
+    });
+
+    if (!permissionFound) {
+      this.logger.warn(`Permission with ID "${id}" not found.`);
+      throw new NotFoundException(`Permission with ID "${id}" not found`);
+    }
+    return permissionFound;
+  }
+
+  /**
+   * Updates an existing permission by its ID.
+   * @param id - The UUID string of the permission to update.
+   * @param updatePermissionDto - Data to update the permission with.
+   * @returns The updated Permission object.
+   * @throws NotFoundException if the permission is not found (P2025).
+   * @throws ConflictException if the new name is already in use (P2002).
+   * @throws InternalServerErrorException for other errors.
+   */
+  async update(
+    id: string,
+    updatePermissionDto: UpdatePermissionDto,
+  ): Promise<Permission> {
+    try {
+      return await this.prismaService.permission.update({
+        where: { id },
+        data: updatePermissionDto,
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError) {
+        if (error.code === 'P2025') {
+          this.logger.warn(
+            `Attempted to update non-existent permission with ID: ${id}`,
+          );
+          throw new NotFoundException(`Permission with ID "${id}" not found`);
+        }
+        if (error.code === 'P2002') {
+          throw new ConflictException(
+            `Cannot update permission. The name '${updatePermissionDto.name}' is already in use.`,
+          );
+        }
+      }
+      this.logger.error(
+        `Failed to update permission with ID: ${id}`,
+        error instanceof Error ? error.stack : undefined,
+      );
+      throw new InternalServerErrorException('Could not update permission.');
+    }
+  }
+
+  /**
+   * Deletes a permission by its ID. Role assignments are removed with it.
+   * @param id - The UUID string of the permission to delete.
+   * @throws NotFoundException if the permission is not found (P2025).
+   * @throws InternalServerErrorException for other errors.
+   */
+  async remove(id: string): Promise<void> {
+    try {
+      await this.prismaService.permission.delete({
+        where: { id },
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2025'
+      ) {
+        this.logger.warn(
+          `Attempted to delete non-existent permission with ID: ${id}`,
+        );
+        throw new NotFoundException(`Permission with ID "${id}" not found`);
+      }
+      this.logger.error(
+        `Failed to delete permission with ID: ${id}`,
+        error instanceof Error ? error.stack : undefined,
+      );
+      throw new InternalServerErrorException('Could not delete permission.');
+    }
+  }
+}
@@ -13,6 +13,7 @@ import {
   IsEnum,
   IsUrl, // Use IsUrl if images/video are expected to be URLs
 } from 'class-validator';
+import { Transform } from 'class-transformer';
 
 export enum ProjectStatus {
   INIT = 'INIT',
@@ -42,7 +43,8 @@ export class CreateProjectDto {
   description?: string;
 
   @ApiProperty({
-    description: 'List of technologies used in the project',
+    description:
+      'Names of the technologies used in the project. Matched against the catalog names and aliases, ignoring case; unknown names are added to the catalog',
     example: ['NestJS', 'React', 'TypeScript', 'Prisma', 'PostgreSQL'],
     type: [String],
     required: true,
@@ -124,6 +126,28 @@ export class CreateProjectDto {
   @IsNotEmpty({ message: 'Category ID cannot be empty.' })
   categoryId: string;
 
+  @ApiPropertyOptional({
+    description:
+      'Ids of finished uploads (POST /uploads, purpose PROJECT_IMAGE) to add to the gallery after the uploaded image files. In multipart forms, a comma-separated list',
+    type: [String],
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.split(',').filter(Boolean) : value,
+  )
+  @IsArray()
+  @IsUUID('4', { each: true, message: 'Upload ids must be valid UUIDs.' })
+  imageUploadIds?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Id of a finished upload (POST /uploads, purpose PROJECT_VIDEO) to use instead of a video file',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'Upload id must be a valid UUID.' })
+  videoUploadId?: string;
+
   /*
    * Note: 'status' is not included here because it has a default value ('PENDING')
    * defined in the Prisma schema. It will be set automatically upon creation.
@@ -0,0 +1,36 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsInt, IsOptional, Min } from 'class-validator';
+import { PaginationQueryDto } from 'src/common/dto/pagination-query.dto';
+
+export const PROJECT_REVISION_SORT_FIELDS = ['version', 'createdAt'] as const;
+export type ProjectRevisionSortField =
+  | (typeof PROJECT_REVISION_SORT_FIELDS)[number]
+  | 'id';
+
+/**
+ * Query parameters of GET /projects/:id/revisions.
+ */
+export class ListProjectRevisionsQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({
+    enum: PROJECT_REVISION_SORT_FIELDS,
+    default: 'version',
+  })
+  @IsOptional()
+  @IsIn(PROJECT_REVISION_SORT_FIELDS)
+  sortBy?: ProjectRevisionSortField;
+}
+
+/**
+ * Query parameters of GET /projects/:id/revisions/diff.
+ */
+export class DiffProjectRevisionsQueryDto {
+  @ApiProperty({ description: 'Version to compare from', example: 1 })
+  @IsInt()
+  @Min(1)
+  from: number;
+
+  @ApiProperty({ description: 'Version to compare to', example: 2 })
+  @IsInt()
+  @Min(1)
+  to: number;
+}
@@ -0,0 +1,105 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { PublicationStatus } from '@prisma/client';
+import { Type } from 'class-transformer';
+import {
+  IsDate,
+  IsEnum,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Min,
+} from 'class-validator';
+import { PaginationQueryDto } from 'src/common/dto/pagination-query.dto';
+import { ProjectStatus } from './create-project.dto';
+
+// Free text, media keys and trash bookkeeping are deliberately not sortable
+export const PROJECT_SORT_FIELDS = [
+  'id',
+  'name',
+  'weeksWorked',
+  'price',
+  'status',
+  'completionDate',
+  'publicationStatus',
+  'publishedAt',
+  'categoryId',
+  'createdAt',
+  'updatedAt',
+] as const;
+export type ProjectSortField = (typeof PROJECT_SORT_FIELDS)[number];
+
+/**
+ * Query parameters of GET /projects.
+ */
+export class ListProjectsQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ enum: PROJECT_SORT_FIELDS, default: 'createdAt' })
+  @IsOptional()
+  @IsIn(PROJECT_SORT_FIELDS)
+  sortBy?: ProjectSortField;
+
+  @ApiPropertyOptional({ description: 'Only projects of this category' })
+  @IsOptional()
+  @IsUUID()
+  categoryId?: string;
+
+  @ApiPropertyOptional({ enum: ProjectStatus })
+  @IsOptional()
+  @IsEnum(ProjectStatus)
+  status?: ProjectStatus;
+
+  @ApiPropertyOptional({
+    enum: PublicationStatus,
+    description:
+      'Staff only: filter by publication state. Visitors only ever get published projects',
+  })
+  @IsOptional()
+  @IsEnum(PublicationStatus)
+  publicationStatus?: PublicationStatus;
+
+  @ApiPropertyOptional({
+    description:
+      'Only projects using this technology, by name or alias, ignoring case',
+    example: 'NestJS',
+  })
+  @IsOptional()
+  @IsString()
+  technology?: string;
+
+  @ApiPropertyOptional({
+    description: 'Minimum price (inclusive)',
+    example: 500,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minPrice?: number;
+
+  @ApiPropertyOptional({
+    description: 'Maximum price (inclusive)',
+    example: 5000,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxPrice?: number;
+
+  @ApiPropertyOptional({
+    description: 'Completed on or after this date',
+    example: '2024-01-01',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  completedFrom?: Date;
+
+  @ApiPropertyOptional({
+    description: 'Completed on or before this date',
+    example: '2024-12-31',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  completedTo?: Date;
+}
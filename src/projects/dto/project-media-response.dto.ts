@@ -0,0 +1,141 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Exclude, Expose } from 'class-transformer';
+import {
+  ImageVariantFormat,
+  ImageVariantSize,
+  ProjectMedia,
+  ProjectMediaVariant,
+} from '@prisma/client';
+import { LocalizedTextDto } from './update-project-media.dto';
+import { ProjectMediaWithUrls } from 'src/projects/project-relations';
+
+/**
+ * Resized copy of a gallery image.
+ */
+@Exclude()
+export class ProjectMediaVariantResponseDto {
+  @Expose()
+  @ApiProperty({ enum: ImageVariantSize })
+  size: ImageVariantSize;
+
+  @Expose()
+  @ApiProperty({ enum: ImageVariantFormat })
+  format: ImageVariantFormat;
+
+  @Expose()
+  @ApiProperty({ description: 'S3 key of the variant' })
+  key: string;
+
+  @Expose()
+  @ApiProperty({ example: 768 })
+  width: number;
+
+  @Expose()
+  @ApiProperty({ example: 432 })
+  height: number;
+
+  @Expose()
+  @ApiProperty({ description: 'File size in bytes', example: 48213 })
+  bytes: number;
+
+  constructor(variant: ProjectMediaVariant) {
+    Object.assign(this, variant);
+  }
+}
+
+/**
+ * A `<source>` of a `<picture>` element.
+ */
+export class ImageSourceDto {
+  @ApiProperty({ example: 'image/avif' })
+  type: string;
+
+  @ApiProperty({
+    description: 'Presigned variant URLs with their widths',
+    example: 'https://.../thumbnail.avif 320w, https://.../medium.avif 768w',
+  })
+  srcset: string;
+}
+
+/**
+ * Image of a project gallery.
+ */
+@Exclude()
+export class ProjectMediaResponseDto {
+  @Expose()
+  @ApiProperty({ format: 'uuid' })
+  id: string;
+
+  @Expose()
+  @ApiProperty({ description: 'S3 key of the image' })
+  key: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Order in the gallery, from 0', example: 0 })
+  position: number;
+
+  @Expose()
+  @ApiProperty({ description: 'Whether this is the cover image' })
+  isCover: boolean;
+
+  @Expose()
+  @ApiProperty({ type: () => LocalizedTextDto })
+  altText: LocalizedTextDto;
+
+  @Expose()
+  @ApiPropertyOptional({ nullable: true })
+  caption: string | null;
+
+  @Expose()
+  @ApiPropertyOptional({ nullable: true, example: 1920 })
+  width: number | null;
+
+  @Expose()
+  @ApiPropertyOptional({ nullable: true, example: 1080 })
+  height: number | null;
+
+  @Expose()
+  @ApiPropertyOptional({ type: () => [ProjectMediaVariantResponseDto] })
+  variants?: ProjectMediaVariantResponseDto[];
+
+  constructor(media: ProjectMedia & { variants?: ProjectMediaVariant[] }) {
+    Object.assign(this, media);
+    this.altText = media.altText as LocalizedTextDto;
+    this.variants = media.variants?.map(
+      (variant) => new ProjectMediaVariantResponseDto(variant),
+    );
+  }
+}
+
+/**
+ * Gallery image with temporary presigned URLs, ready for a `<picture>`
+ * element.
+ */
+@Exclude()
+export class ProjectMediaWithUrlResponseDto extends ProjectMediaResponseDto {
+  @Expose()
+  @ApiProperty({ description: 'Presigned URL of the original image' })
+  url: string;
+
+  @Expose()
+  @ApiProperty({
+    type: () => [ImageSourceDto],
+    description:
+      'One srcset per format, preferred format first; empty if the image has no variants yet',
+  })
+  sources: ImageSourceDto[];
+
+  @Expose()
+  @ApiPropertyOptional({
+    nullable: true,
+    description: 'Presigned URL of the WebP thumbnail',
+  })
+  thumbnailUrl: string | null;
+
+  constructor(media: ProjectMediaWithUrls) {
+    super(media);
+    this.url = media.url;
+    this.sources = media.sources;
+    this.thumbnailUrl = media.thumbnailUrl;
+  }
+}
@@ -0,0 +1,193 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Exclude, Expose } from 'class-transformer';
+import {
+  Category,
+  Project,
+  ProjectMedia,
+  ProjectStatus,
+  PublicationStatus,
+  Technology,
+} from '@prisma/client';
+import { CategoryResponseDto } from 'src/categories/dto/category-response.dto';
+import { TechnologyResponseDto } from 'src/technologies/dto/technology-response.dto';
+import {
+  ProjectMediaResponseDto,
+  ProjectMediaWithUrlResponseDto,
+} from './project-media-response.dto';
+import { ProjectMediaWithUrls } from 'src/projects/project-relations';
+
+type ProjectWithRelations = Project & {
+  category?: Category | null;
+  technologies?: Technology[];
+  media?: ProjectMedia[];
+};
+
+/**
+ * Project as returned by the API. `category`, `technologies` and `media` are
+ * only present when loaded.
+ */
+@Exclude()
+export class ProjectResponseDto {
+  @Expose()
+  @ApiProperty({ format: 'uuid' })
+  id: string;
+
+  @Expose()
+  @ApiProperty({ example: 'Awesome Portfolio Website' })
+  name: string;
+
+  @Expose()
+  @ApiPropertyOptional({ nullable: true })
+  description: string | null;
+
+  @Expose()
+  @ApiPropertyOptional({ type: () => [TechnologyResponseDto] })
+  technologies?: TechnologyResponseDto[];
+
+  @Expose()
+  @ApiProperty({ example: 8 })
+  weeksWorked: number;
+
+  @Expose()
+  @ApiProperty({
+    description: 'Decimal price serialized as a string to keep its precision',
+    example: '1500.00',
+  })
+  price: string;
+
+  @Expose()
+  @ApiPropertyOptional({
+    type: () => [ProjectMediaResponseDto],
+    description: 'Image gallery, in display order',
+  })
+  media?: ProjectMediaResponseDto[];
+
+  @Expose()
+  @ApiProperty({ description: 'S3 key of the video' })
+  video: string;
+
+  @Expose()
+  @ApiProperty({ enum: ProjectStatus })
+  status: ProjectStatus;
+
+  @Expose()
+  @ApiPropertyOptional({ nullable: true })
+  completionDate: Date | null;
+
+  @Expose()
+  @ApiProperty({ enum: PublicationStatus })
+  publicationStatus: PublicationStatus;
+
+  @Expose()
+  @ApiPropertyOptional({
+    nullable: true,
+    description: 'When the project went (or goes) public',
+  })
+  publishedAt: Date | null;
+
+  @Expose()
+  @ApiProperty({ format: 'uuid' })
+  categoryId: string;
+
+  @Expose()
+  @ApiPropertyOptional({ type: () => CategoryResponseDto })
+  category?: CategoryResponseDto;
+
+  @Expose()
+  @ApiPropertyOptional({
+    nullable: true,
+    description:
+      'When the item was moved to the trash; null if it is not trashed',
+  })
+  deletedAt: Date | null;
+
+  @Expose()
+  @ApiProperty()
+  createdAt: Date;
+
+  @Expose()
+  @ApiProperty()
+  updatedAt: Date;
+
+  constructor(project: ProjectWithRelations) {
+    Object.assign(this, project);
+    this.price = project.price.toFixed(2);
+    this.category = project.category
+      ? new CategoryResponseDto(project.category)
+      : undefined;
+    this.technologies = project.technologies?.map(
+      (technology) => new TechnologyResponseDto(technology),
+    );
+    this.media = project.media?.map(
+      (media) => new ProjectMediaResponseDto(media),
+    );
+  }
+}
+
+/**
+ * Project with temporary presigned URLs for its media.
+ */
+@Exclude()
+export class ProjectWithMediaResponseDto extends ProjectResponseDto {
+  @Expose()
+  @ApiProperty({
+    type: () => [ProjectMediaWithUrlResponseDto],
+    description: 'Image gallery, in display order, with presigned URLs',
+  })
+  media: ProjectMediaWithUrlResponseDto[];
+
+  @Expose()
+  @ApiProperty({
+    type: [String],
+    description: 'Presigned image URLs, in gallery order',
+  })
+  imageUrls: string[];
+
+  @Expose()
+  @ApiPropertyOptional({ nullable: true, description: 'Presigned video URL' })
+  videoUrl: string | null;
+
+  constructor(
+    project: Omit<ProjectWithRelations, 'media'> & {
+      media: ProjectMediaWithUrls[];
+      imageUrls: string[];
+      videoUrl: string | null;
+    },
+  ) {
+    super(project);
+    this.media = project.media.map(
+      (media) => new ProjectMediaWithUrlResponseDto(media),
+    );
+    this.imageUrls = project.imageUrls;
+    this.videoUrl = project.videoUrl;
+  }
+}
+
+/**
+ * Project matched by a full-text search.
+ */
+@Exclude()
+export class ProjectSearchResultDto extends ProjectResponseDto {
+  @Expose()
+  @ApiProperty({ description: 'Relevance, higher is better', example: 0.42 })
+  rank: number;
+
+  @Expose()
+  @ApiProperty({
+    description:
+      'HTML-escaped excerpt of the name and description with the matches wrapped in <mark>',
+    example: 'An <mark>ecommerce</mark> store built with <mark>React</mark>',
+  })
+  highlight: string;
+
+  constructor(
+    project: ProjectWithRelations & {
+      rank: number;
+      highlight: string;
+    },
+  ) {
+    super(project);
+    this.rank = project.rank;
+    this.highlight = project.highlight;
+  }
+}
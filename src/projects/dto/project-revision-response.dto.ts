@@ -0,0 +1,198 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Exclude, Expose } from 'class-transformer';
+import {
+  Category,
+  Project,
+  ProjectRevision,
+  ProjectStatus,
+  Technology,
+  User,
+} from '@prisma/client';
+import { ProjectResponseDto } from './project-response.dto';
+
+type RevisionAuthor = Pick<User, 'id' | 'email' | 'name' | 'lastName'>;
+
+/**
+ * User who made a change, as shown in the revision history.
+ */
+@Exclude()
+export class RevisionAuthorDto {
+  @Expose()
+  @ApiProperty({ format: 'uuid' })
+  id: string;
+
+  @Expose()
+  @ApiProperty({ example: 'user@example.com' })
+  email: string;
+
+  @Expose()
+  @ApiProperty({ example: 'John' })
+  name: string;
+
+  @Expose()
+  @ApiProperty({ example: 'Doe' })
+  lastName: string;
+
+  constructor(author: RevisionAuthor) {
+    Object.assign(this, author);
+  }
+}
+
+/**
+ * Snapshot of a project's content at a given version.
+ */
+@Exclude()
+export class ProjectRevisionResponseDto {
+  @Expose()
+  @ApiProperty({ format: 'uuid' })
+  id: string;
+
+  @Expose()
+  @ApiProperty({ format: 'uuid' })
+  projectId: string;
+
+  @Expose()
+  @ApiProperty({ example: 3 })
+  version: number;
+
+  @Expose()
+  @ApiProperty()
+  name: string;
+
+  @Expose()
+  @ApiPropertyOptional({ nullable: true })
+  description: string | null;
+
+  @Expose()
+  @ApiProperty({
+    type: [String],
+    description: 'Names of the technologies at the time',
+  })
+  technologies: string[];
+
+  @Expose()
+  @ApiProperty()
+  weeksWorked: number;
+
+  @Expose()
+  @ApiProperty({ example: '1500.00' })
+  price: string;
+
+  @Expose()
+  @ApiProperty({ type: [String], description: 'S3 keys of the images' })
+  images: string[];
+
+  @Expose()
+  @ApiProperty({ description: 'S3 key of the video' })
+  video: string;
+
+  @Expose()
+  @ApiProperty({ enum: ProjectStatus })
+  status: ProjectStatus;
+
+  @Expose()
+  @ApiPropertyOptional({ nullable: true })
+  completionDate: Date | null;
+
+  @Expose()
+  @ApiProperty({ format: 'uuid' })
+  categoryId: string;
+
+  @Expose()
+  @ApiPropertyOptional({ nullable: true, format: 'uuid' })
+  authorId: string | null;
+
+  @Expose()
+  @ApiPropertyOptional({ type: () => RevisionAuthorDto, nullable: true })
+  author?: RevisionAuthorDto | null;
+
+  @Expose()
+  @ApiPropertyOptional({
+    nullable: true,
+    description: 'Version this revision was restored from',
+  })
+  restoredFromVersion: number | null;
+
+  @Expose()
+  @ApiProperty()
+  createdAt: Date;
+
+  constructor(revision: ProjectRevision & { author?: RevisionAuthor | null }) {
+    Object.assign(this, revision);
+    this.price = revision.price.toFixed(2);
+    this.author = revision.author
+      ? new RevisionAuthorDto(revision.author)
+      : revision.author;
+  }
+}
+
+/**
+ * A field that differs between two revisions.
+ */
+export class ProjectRevisionChangeDto {
+  @ApiProperty({ example: 'description' })
+  field: string;
+
+  @ApiPropertyOptional({ nullable: true, description: 'Value in `from`' })
+  from: unknown;
+
+  @ApiPropertyOptional({ nullable: true, description: 'Value in `to`' })
+  to: unknown;
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'List fields only: entries present in `to` but not in `from`',
+  })
+  added?: string[];
+
+  @ApiPropertyOptional({
+    type: [String],
+    description: 'List fields only: entries present in `from` but not in `to`',
+  })
+  removed?: string[];
+}
+
+/**
+ * Field-by-field comparison of two revisions of a project.
+ */
+export class ProjectRevisionDiffDto {
+  @ApiProperty({ example: 1 })
+  from: number;
+
+  @ApiProperty({ example: 2 })
+  to: number;
+
+  @ApiProperty({ type: [ProjectRevisionChangeDto] })
+  changes: ProjectRevisionChangeDto[];
+}
+
+/**
+ * Project after restoring a revision.
+ */
+@Exclude()
+export class RestoredProjectResponseDto extends ProjectResponseDto {
+  @Expose()
+  @ApiProperty({ description: 'Revision created by the restore' })
+  revision: ProjectRevisionResponseDto;
+
+  @Expose()
+  @ApiProperty({
+    type: [String],
+    description:
+      'Media keys of the restored revision that no longer exist in S3 and were skipped',
+  })
+  missingMedia: string[];
+
+  constructor(
+    project: Project & {
+      category?: Category | null;
+      technologies?: Technology[];
+      revision: ProjectRevision;
+      missingMedia: string[];
+    },
+  ) {
+    super(project);
+    this.revision = new ProjectRevisionResponseDto(project.revision);
+    this.missingMedia = project.missingMedia;
+  }
+}
@@ -0,0 +1,42 @@
+import { ApiProperty, ApiPropertyOptional, PickType } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { PaginationQueryDto } from 'src/common/dto/pagination-query.dto';
+
+// PostgreSQL text search configurations the search vector is built with
+export enum SearchLanguage {
+  SPANISH = 'spanish',
+  ENGLISH = 'english',
+}
+
+/**
+ * Query parameters of GET /projects/search. Results are ordered by relevance,
+ * so they are paged with `offset` only.
+ */
+export class SearchProjectsQueryDto extends PickType(PaginationQueryDto, [
+  'limit',
+  'offset',
+] as const) {
+  @ApiProperty({
+    description:
+      'Search terms. Supports "quoted phrases", OR and -excluded words',
+    example: 'react ecommerce',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Search query cannot be empty.' })
+  @MaxLength(200)
+  q: string;
+
+  @ApiPropertyOptional({
+    enum: SearchLanguage,
+    description: 'Stemming language. Both are used when omitted',
+  })
+  @IsOptional()
+  @IsEnum(SearchLanguage)
+  language?: SearchLanguage;
+}
@@ -0,0 +1,88 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+/**
+ * Text in each language of the site. An empty string removes a translation.
+ */
+export class LocalizedTextDto {
+  @ApiPropertyOptional({ example: 'Home page of the online store' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(250)
+  en?: string;
+
+  @ApiPropertyOptional({ example: 'Página de inicio de la tienda online' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(250)
+  es?: string;
+}
+
+/**
+ * Body of PATCH /projects/:id/media/:mediaId. Only the given fields change.
+ */
+export class UpdateProjectMediaDto {
+  @ApiPropertyOptional({
+    type: () => LocalizedTextDto,
+    description:
+      'Alternative text per language, merged into the current translations',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => LocalizedTextDto)
+  altText?: LocalizedTextDto;
+
+  @ApiPropertyOptional({
+    nullable: true,
+    maxLength: 300,
+    description: 'Caption shown under the image; null removes it',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(300)
+  caption?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Width in pixels, for formats it cannot be read from',
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  width?: number;
+
+  @ApiPropertyOptional({
+    description: 'Height in pixels, for formats it cannot be read from',
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  height?: number;
+}
+
+/**
+ * Body of PATCH /projects/:id/media/order.
+ */
+export class ReorderProjectMediaDto {
+  @ApiProperty({
+    description: 'IDs of all the images of the project, in their new order',
+    type: [String],
+    format: 'uuid',
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsUUID('all', { each: true })
+  mediaIds: string[];
+}
@@ -13,7 +13,7 @@ import {
   IsDate,
   IsUrl, // Consider using IsUrl if images/video must be URLs
 } from 'class-validator';
-import { Type } from 'class-transformer';
+import { Transform, Type } from 'class-transformer';
 import { ProjectStatus } from './create-project.dto';
 
 export class UpdateProjectDto {
@@ -36,7 +36,8 @@ export class UpdateProjectDto {
   description?: string;
 
   @ApiPropertyOptional({
-    description: 'Updated list of technologies used in the project',
+    description:
+      'Updated names of the technologies used in the project, resolved against the catalog like on creation',
     example: [
       'NestJS',
       'React',
@@ -95,6 +96,28 @@ export class UpdateProjectDto {
   @IsString() // Or use IsUrl() if it must be a URL
   video?: string; */
 
+  @ApiPropertyOptional({
+    description:
+      'Ids of finished uploads (POST /uploads, purpose PROJECT_IMAGE) to add to the gallery after the uploaded image files. In multipart forms, a comma-separated list',
+    type: [String],
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string' ? value.split(',').filter(Boolean) : value,
+  )
+  @IsArray()
+  @IsUUID('4', { each: true, message: 'Upload ids must be valid UUIDs.' })
+  imageUploadIds?: string[];
+
+  @ApiPropertyOptional({
+    description:
+      'Id of a finished upload (POST /uploads, purpose PROJECT_VIDEO) replacing the video',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'Upload id must be a valid UUID.' })
+  videoUploadId?: string;
+
   // Additional properties for handling existing media during updates
   @IsOptional()
   @IsArray()
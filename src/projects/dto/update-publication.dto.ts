@@ -0,0 +1,24 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PublicationStatus } from '@prisma/client';
+import { Type } from 'class-transformer';
+import { IsDate, IsEnum, IsOptional } from 'class-validator';
+
+export class UpdatePublicationDto {
+  @ApiProperty({
+    description: 'New publication state of the project',
+    enum: PublicationStatus,
+    example: PublicationStatus.PUBLISHED,
+  })
+  @IsEnum(PublicationStatus)
+  status: PublicationStatus;
+
+  @ApiPropertyOptional({
+    description:
+      'Only with PUBLISHED: when the project goes public. A future date schedules it; defaults to now',
+    example: '2025-06-01T09:00:00.000Z',
+  })
+  @IsOptional()
+  @Type(() => Date) // Transform incoming value to a Date object
+  @IsDate()
+  publishedAt?: Date;
+}
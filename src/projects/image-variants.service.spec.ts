@@ -0,0 +1,172 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  ImageVariantFormat,
+  ImageVariantSize,
+  ProjectMediaVariant,
+} from '@prisma/client';
+import * as sharp from 'sharp';
+import { ImageVariantsService } from './image-variants.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { STORAGE_DRIVER } from 'src/storage/storage-driver.interface';
+
+const image = (width: number, height: number, orientation?: number) =>
+  sharp({ create: { width, height, channels: 3, background: '#336699' } })
+    .withMetadata(orientation ? { orientation } : {})
+    .jpeg()
+    .toBuffer();
+
+describe('ImageVariantsService', () => {
+  let service: ImageVariantsService;
+  const prismaService = {
+    $transaction: jest.fn(),
+    projectMedia: { findMany: jest.fn() },
+    projectMediaVariant: { deleteMany: jest.fn(), createMany: jest.fn() },
+  };
+  const storageDriver = {
+    put: jest.fn(),
+    get: jest.fn(),
+    getSignedUrl: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    storageDriver.put.mockImplementation((key: string) => Promise.resolve(key));
+    storageDriver.getSignedUrl.mockImplementation((key: string) =>
+      Promise.resolve(`https://cdn/${key}`),
+    );
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImageVariantsService,
+        { provide: PrismaService, useValue: prismaService },
+        { provide: STORAGE_DRIVER, useValue: storageDriver },
+      ],
+    }).compile();
+
+    service = module.get<ImageVariantsService>(ImageVariantsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('generate', () => {
+    it('makes every narrower size in AVIF and WebP, never enlarging', async () => {
+      const variants = await service.generate(
+        'projects/images/123-photo.jpg',
+        await image(1000, 500),
+      );
+
+      expect(
+        variants.map(({ size, format, width, height }) => ({
+          size,
+          format,
+          width,
+          height,
+        })),
+      ).toEqual([
+        { size: 'THUMBNAIL', format: 'AVIF', width: 320, height: 160 },
+        { size: 'THUMBNAIL', format: 'WEBP', width: 320, height: 160 },
+        { size: 'MEDIUM', format: 'AVIF', width: 768, height: 384 },
+        { size: 'MEDIUM', format: 'WEBP', width: 768, height: 384 },
+      ]);
+      expect(storageDriver.put).toHaveBeenCalledWith(
+        'projects/images/variants/123-photo/medium.webp',
+        expect.any(Buffer) as Buffer,
+        'image/webp',
+      );
+    });
+
+    it('sizes rotated images by their displayed width', async () => {
+      const variants = await service.generate(
+        'projects/images/portrait.jpg',
+        await image(1000, 600, 6),
+      );
+
+      expect(variants.map(({ size }) => size)).toEqual([
+        'THUMBNAIL',
+        'THUMBNAIL',
+      ]);
+      expect(variants[0]).toMatchObject({ width: 320, height: 533 });
+    });
+
+    it('always makes a thumbnail, even of small images', async () => {
+      const variants = await service.generate(
+        'projects/images/icon.jpg',
+        await image(200, 100),
+      );
+
+      expect(variants).toHaveLength(2);
+      expect(variants[0]).toMatchObject({ size: 'THUMBNAIL', width: 200 });
+    });
+  });
+
+  describe('generateMissing', () => {
+    it('counts failures and goes on with the other images', async () => {
+      prismaService.projectMedia.findMany
+        .mockResolvedValueOnce([
+          { id: 'broken', key: 'projects/images/broken.jpg' },
+          { id: 'ok', key: 'projects/images/ok.jpg' },
+        ])
+        .mockResolvedValueOnce([]);
+      storageDriver.get
+        .mockResolvedValueOnce(Buffer.from('not an image'))
+        .mockResolvedValueOnce(await image(400, 300));
+
+      await expect(
+        service.generateMissing({ projectId: 'project' }),
+      ).resolves.toEqual({ processed: 1, failed: 1 });
+      expect(prismaService.projectMedia.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { projectId: 'project', variants: { none: {} } },
+        }),
+      );
+      expect(prismaService.projectMediaVariant.deleteMany).toHaveBeenCalledWith(
+        { where: { mediaId: 'ok' } },
+      );
+    });
+  });
+
+  describe('getUrls', () => {
+    const variant = (
+      size: ImageVariantSize,
+      format: ImageVariantFormat,
+      width: number,
+    ) =>
+      ({
+        size,
+        format,
+        width,
+        key: `v/${size}-${width}.${format}`.toLowerCase(),
+      }) as ProjectMediaVariant;
+
+    it('builds one srcset per format, preferred format first', async () => {
+      const urls = await service.getUrls([
+        variant('MEDIUM', 'WEBP', 768),
+        variant('THUMBNAIL', 'WEBP', 320),
+        variant('THUMBNAIL', 'AVIF', 320),
+      ]);
+
+      expect(urls).toEqual({
+        sources: [
+          {
+            type: 'image/avif',
+            srcset: 'https://cdn/v/thumbnail-320.avif 320w',
+          },
+          {
+            type: 'image/webp',
+            srcset:
+              'https://cdn/v/thumbnail-320.webp 320w, https://cdn/v/medium-768.webp 768w',
+          },
+        ],
+        thumbnailUrl: 'https://cdn/v/thumbnail-320.webp',
+      });
+    });
+
+    it('has no sources for images without variants', async () => {
+      await expect(service.getUrls([])).resolves.toEqual({
+        sources: [],
+        thumbnailUrl: null,
+      });
+    });
+  });
+});
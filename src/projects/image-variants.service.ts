@@ -0,0 +1,232 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import {
+  ImageVariantFormat,
+  ImageVariantSize,
+  Prisma,
+  ProjectMediaVariant,
+} from '@prisma/client';
+import * as sharp from 'sharp';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  STORAGE_DRIVER,
+  StorageDriver,
+} from 'src/storage/storage-driver.interface';
+
+// Target width of each size, in pixels. Heights follow the aspect ratio
+const IMAGE_VARIANT_SIZES: { size: ImageVariantSize; width: number }[] = [
+  { size: ImageVariantSize.THUMBNAIL, width: 320 },
+  { size: ImageVariantSize.MEDIUM, width: 768 },
+  { size: ImageVariantSize.LARGE, width: 1280 },
+];
+
+// Listed in order of preference: browsers take the first <source> they support
+const IMAGE_VARIANT_FORMATS: {
+  format: ImageVariantFormat;
+  extension: keyof sharp.FormatEnum;
+  contentType: string;
+  quality: number;
+}[] = [
+  {
+    format: ImageVariantFormat.AVIF,
+    extension: 'avif',
+    contentType: 'image/avif',
+    quality: 50,
+  },
+  {
+    format: ImageVariantFormat.WEBP,
+    extension: 'webp',
+    contentType: 'image/webp',
+    quality: 80,
+  },
+];
+
+const BACKFILL_BATCH_SIZE = 20;
+
+export type ImageVariantData = Omit<
+  Prisma.ProjectMediaVariantCreateManyMediaInput,
+  'id' | 'createdAt'
+>;
+
+// A <source> of a <picture> element
+export interface ImageSource {
+  type: string;
+  srcset: string;
+}
+
+export interface ImageVariantUrls {
+  sources: ImageSource[];
+  thumbnailUrl: string | null;
+}
+
+export interface ImageVariantBackfillResult {
+  processed: number;
+  failed: number;
+}
+
+/**
+ * Generates resized WebP and AVIF copies of gallery images for responsive
+ * `srcset`s. Variants are stored next to the original under derived keys:
+ * `projects/images/123-photo.jpg` gets `projects/images/variants/123-photo/medium.webp`.
+ */
+@Injectable()
+export class ImageVariantsService {
+  private readonly logger = new Logger(ImageVariantsService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    @Inject(STORAGE_DRIVER) private readonly storageDriver: StorageDriver,
+  ) {}
+
+  /**
+   * Resizes an image to every size narrower than the original (the
+   * thumbnail is always made), encodes each one in every format and uploads
+   * the results to storage. Images are never enlarged.
+   *
+   * @param key - Storage key of the original image.
+   * @param image - Content of the original image.
+   * @returns The variants, ready to be stored with the image.
+   * @throws {Error} If the image can't be decoded or an upload fails.
+   */
+  async generate(key: string, image: Buffer): Promise<ImageVariantData[]> {
+    const metadata = await sharp(image).metadata();
+    // EXIF orientations 5 to 8 are rotated by 90 degrees
+    const originalWidth =
+      (metadata.orientation ?? 1) >= 5 ? metadata.height : metadata.width;
+
+    const variants: ImageVariantData[] = [];
+    for (const { size, width } of IMAGE_VARIANT_SIZES) {
+      if (size !== ImageVariantSize.THUMBNAIL && width >= originalWidth) {
+        continue;
+      }
+      for (const encoding of IMAGE_VARIANT_FORMATS) {
+        const { data, info } = await sharp(image)
+          .rotate()
+          .resize({ width, withoutEnlargement: true })
+          .toFormat(encoding.extension, { quality: encoding.quality })
+          .toBuffer({ resolveWithObject: true });
+
+        const variantKey = this.toVariantKey(key, size, encoding.extension);
+        await this.storageDriver.put(variantKey, data, encoding.contentType);
+        variants.push({
+          size,
+          format: encoding.format,
+          key: variantKey,
+          width: info.width,
+          height: info.height,
+          bytes: info.size,
+        });
+      }
+    }
+    return variants;
+  }
+
+  /**
+   * Generates the variants of the gallery images that have none, e.g. images
+   * uploaded before variants existed or brought back by a revision restore.
+   * Failures are logged and counted; the other images are still processed.
+   *
+   * @param options.projectId - Only process the images of this project.
+   * @param options.force - Regenerate the variants of every image.
+   * @returns The number of images processed and of images that failed.
+   */
+  async generateMissing(
+    options: { projectId?: string; force?: boolean } = {},
+  ): Promise<ImageVariantBackfillResult> {
+    const where: Prisma.ProjectMediaWhereInput = {
+      projectId: options.projectId,
+      variants: options.force ? undefined : { none: {} },
+    };
+    const result: ImageVariantBackfillResult = { processed: 0, failed: 0 };
+
+    let cursor: string | undefined;
+    for (;;) {
+      const batch = await this.prismaService.projectMedia.findMany({
+        where,
+        orderBy: { id: 'asc' },
+        take: BACKFILL_BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      });
+      if (!batch.length) {
+        return result;
+      }
+      cursor = batch[batch.length - 1].id;
+
+      for (const media of batch) {
+        try {
+          const variants = await this.generate(
+            media.key,
+            await this.storageDriver.get(media.key),
+          );
+          await this.prismaService.$transaction([
+            this.prismaService.projectMediaVariant.deleteMany({
+              where: { mediaId: media.id },
+            }),
+            this.prismaService.projectMediaVariant.createMany({
+              data: variants.map((variant) => ({
+                ...variant,
+                mediaId: media.id,
+              })),
+            }),
+          ]);
+          result.processed++;
+        } catch (error) {
+          result.failed++;
+          this.logger.error(
+            `Failed to generate the variants of ${media.key}: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Builds the `srcset` of each format from signed variant URLs.
+   *
+   * @param variants - The variants of one image.
+   * @returns One source per format, preferred format first, and the URL of
+   * the WebP thumbnail (null when the image has no variants).
+   */
+  async getUrls(variants: ProjectMediaVariant[]): Promise<ImageVariantUrls> {
+    const sorted = [...variants].sort((a, b) => a.width - b.width);
+    const urls = new Map(
+      await Promise.all(
+        sorted.map(
+          async (variant) =>
+            [
+              variant,
+              await this.storageDriver.getSignedUrl(variant.key),
+            ] as const,
+        ),
+      ),
+    );
+
+    const sources = IMAGE_VARIANT_FORMATS.map(({ format, contentType }) => ({
+      type: contentType,
+      srcset: sorted
+        .filter((variant) => variant.format === format)
+        .map((variant) => `${urls.get(variant)} ${variant.width}w`)
+        .join(', '),
+    })).filter((source) => source.srcset);
+
+    const thumbnail = sorted.find(
+      (variant) =>
+        variant.size === ImageVariantSize.THUMBNAIL &&
+        variant.format === ImageVariantFormat.WEBP,
+    );
+    return {
+      sources,
+      thumbnailUrl: thumbnail ? urls.get(thumbnail)! : null,
+    };
+  }
+
+  private toVariantKey(
+    key: string,
+    size: ImageVariantSize,
+    extension: string,
+  ): string {
+    const separator = key.lastIndexOf('/');
+    const directory = key.slice(0, separator + 1);
+    const name = key.slice(separator + 1).replace(/\.[^.]*$/, '');
+    return `${directory}variants/${name}/${size.toLowerCase()}.${extension}`;
+  }
+}
@@ -0,0 +1,59 @@
+import { Prisma } from '@prisma/client';
+import { ImageDimensions } from 'src/utils/image-dimensions-utils';
+import { ImageVariantData } from './image-variants.service';
+
+// An image of the gallery as written by a project create, update or restore
+export interface GalleryImage {
+  key: string;
+  dimensions?: ImageDimensions | null;
+  variants?: ImageVariantData[]; // only for new keys
+}
+
+/**
+ * Makes the gallery of a project match `images`, in that order: rows of
+ * keys no longer listed are deleted, the others keep their metadata and get
+ * their new position, and new keys get a row. If the cover was removed, the
+ * first image becomes the cover. S3 files are left to the caller.
+ * Meant to run in the transaction of the project write.
+ *
+ * @param tx - Transaction client (or PrismaService outside a transaction).
+ * @param projectId - The UUID string of the project.
+ * @param images - The keys of the gallery, in order.
+ */
+export async function syncGallery(
+  tx: Prisma.TransactionClient,
+  projectId: string,
+  images: GalleryImage[],
+): Promise<void> {
+  const current = await tx.projectMedia.findMany({ where: { projectId } });
+  const keys = images.map((image) => image.key);
+  await tx.projectMedia.deleteMany({
+    where: { projectId, key: { notIn: keys } },
+  });
+
+  const kept = current.filter((media) => keys.includes(media.key));
+  let hasCover = kept.some((media) => media.isCover);
+  for (const [position, image] of images.entries()) {
+    const existing = kept.find((media) => media.key === image.key);
+    const isCover = !hasCover && position === 0;
+    hasCover ||= isCover;
+    if (existing) {
+      await tx.projectMedia.update({
+        where: { id: existing.id },
+        data: { position, ...(isCover ? { isCover } : {}) },
+      });
+    } else {
+      await tx.projectMedia.create({
+        data: {
+          projectId,
+          key: image.key,
+          position,
+          isCover,
+          width: image.dimensions?.width,
+          height: image.dimensions?.height,
+          variants: { create: image.variants ?? [] },
+        },
+      });
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ProjectMediaService } from './project-media.service';
+import { ProjectRevisionsService } from './project-revisions.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { DatabaseErrorService } from 'src/common/services/database-error.service';
+
+describe('ProjectMediaService', () => {
+  let service: ProjectMediaService;
+  const prismaService = {
+    $transaction: jest.fn(),
+    project: { findFirst: jest.fn(), findUniqueOrThrow: jest.fn() },
+    projectMedia: { update: jest.fn(), updateMany: jest.fn() },
+  };
+  const projectRevisionsService = { record: jest.fn() };
+
+  const media = (id: string, overrides: object = {}) => ({
+    id,
+    projectId: 'project',
+    key: `projects/images/${id}.png`,
+    position: 0,
+    isCover: false,
+    altText: {},
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prismaService.$transaction.mockImplementation((operations: unknown) =>
+      typeof operations === 'function'
+        ? (operations as (tx: typeof prismaService) => unknown)(prismaService)
+        : Promise.all(operations as unknown[]),
+    );
+    prismaService.project.findFirst.mockResolvedValue({
+      id: 'project',
+      media: [media('a'), media('b'), media('c')],
+    });
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProjectMediaService,
+        DatabaseErrorService,
+        { provide: PrismaService, useValue: prismaService },
+        { provide: ProjectRevisionsService, useValue: projectRevisionsService },
+      ],
+    }).compile();
+
+    service = module.get<ProjectMediaService>(ProjectMediaService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('reorder', () => {
+    it('stores the new positions and records a revision', async () => {
+      const project = { id: 'project' };
+      prismaService.project.findUniqueOrThrow.mockResolvedValue(project);
+
+      await service.reorder('project', ['c', 'a', 'b'], 'author');
+
+      expect(prismaService.projectMedia.update.mock.calls).toEqual([
+        [{ where: { id: 'c' }, data: { position: 0 } }],
+        [{ where: { id: 'a' }, data: { position: 1 } }],
+        [{ where: { id: 'b' }, data: { position: 2 } }],
+      ]);
+      expect(projectRevisionsService.record).toHaveBeenCalledWith(
+        prismaService,
+        project,
+        'author',
+      );
+    });
+
+    it.each([
+      ['a missing image', ['a', 'b']],
+      ['a duplicate', ['a', 'b', 'b']],
+      ['an image of another project', ['a', 'b', 'x']],
+    ])('rejects a list with %s', async (_case, mediaIds) => {
+      await expect(
+        service.reorder('project', mediaIds, 'author'),
+      ).rejects.toThrow(BadRequestException);
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('rejects trashed or unknown projects', async () => {
+      prismaService.project.findFirst.mockResolvedValue(null);
+
+      await expect(service.reorder('project', [], 'author')).rejects.toThrow(
+        new NotFoundException('Project with ID project not found'),
+      );
+      expect(prismaService.project.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'project', deletedAt: null },
+        }),
+      );
+    });
+  });
+
+  describe('setCover', () => {
+    it('moves the cover flag to the chosen image', async () => {
+      await service.setCover('project', 'b');
+
+      expect(prismaService.projectMedia.updateMany).toHaveBeenCalledWith({
+        where: { projectId: 'project', isCover: true },
+        data: { isCover: false },
+      });
+      expect(prismaService.projectMedia.update).toHaveBeenCalledWith({
+        where: { id: 'b' },
+        data: { isCover: true },
+      });
+    });
+
+    it('rejects images of other projects', async () => {
+      await expect(service.setCover('project', 'x')).rejects.toThrow(
+        new NotFoundException('Image x of project with ID project not found'),
+      );
+    });
+  });
+
+  describe('updateMetadata', () => {
+    it('merges translations and drops the emptied ones', async () => {
+      prismaService.project.findFirst.mockResolvedValue({
+        id: 'project',
+        media: [media('a', { altText: { en: 'A chart', fr: 'Un graphique' } })],
+      });
+
+      await service.updateMetadata('project', 'a', {
+        altText: { fr: '', de: 'Ein Diagramm' },
+        caption: 'Q3',
+      } as never);
+
+      expect(prismaService.projectMedia.update).toHaveBeenCalledWith({
+        where: { id: 'a' },
+        data: {
+          caption: 'Q3',
+          altText: { en: 'A chart', de: 'Ein Diagramm' },
+        },
+      });
+    });
+
+    it('leaves the alternative text alone when not given', async () => {
+      await service.updateMetadata('project', 'a', { width: 800 } as never);
+
+      expect(prismaService.projectMedia.update).toHaveBeenCalledWith({
+        where: { id: 'a' },
+        data: { width: 800, altText: undefined },
+      });
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ProjectMedia } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { DatabaseErrorService } from 'src/common/services/database-error.service';
+import { ProjectRevisionsService } from './project-revisions.service';
+import { PROJECT_INCLUDE } from './project-relations';
+import {
+  LocalizedTextDto,
+  UpdateProjectMediaDto,
+} from './dto/update-project-media.dto';
+
+@Injectable()
+export class ProjectMediaService {
+  private readonly logger = new Logger(ProjectMediaService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly dbErrorService: DatabaseErrorService,
+    private readonly projectRevisionsService: ProjectRevisionsService,
+  ) {}
+
+  /**
+   * Puts the images of a project in a new order and records the result as a
+   * new revision.
+   *
+   * @param projectId - The UUID string of the project.
+   * @param mediaIds - The IDs of all the images of the project, in order.
+   * @param authorId - The user making the change.
+   * @returns A Promise resolving to the reordered gallery.
+   * @throws {NotFoundException} If the project doesn't exist.
+   * @throws {BadRequestException} If `mediaIds` isn't exactly the project's images.
+   */
+  async reorder(
+    projectId: string,
+    mediaIds: string[],
+    authorId: string,
+  ): Promise<ProjectMedia[]> {
+    const gallery = await this.findGallery(projectId);
+    const galleryIds = gallery.map((media) => media.id);
+    if (
+      new Set(mediaIds).size !== mediaIds.length ||
+      mediaIds.length !== galleryIds.length ||
+      mediaIds.some((mediaId) => !galleryIds.includes(mediaId))
+    ) {
+      throw new BadRequestException(
+        'mediaIds must list every image of the project exactly once.',
+      );
+    }
+
+    try {
+      await this.prismaService.$transaction(async (tx) => {
+        for (const [position, mediaId] of mediaIds.entries()) {
+          await tx.projectMedia.update({
+            where: { id: mediaId },
+            data: { position },
+          });
+        }
+        const project = await tx.project.findUniqueOrThrow({
+          where: { id: projectId },
+          include: PROJECT_INCLUDE,
+        });
+        await this.projectRevisionsService.record(tx, project, authorId);
+      });
+    } catch (error) {
+      this.dbErrorService.handleDatabaseError(
+        error,
+        `Failed to reorder the images of project with ID ${projectId}`,
+      );
+    }
+    return this.findGallery(projectId);
+  }
+
+  /**
+   * Makes an image the cover of its project.
+   *
+   * @param projectId - The UUID string of the project.
+   * @param mediaId - The UUID string of the image.
+   * @returns A Promise resolving to the gallery.
+   * @throws {NotFoundException} If the project or the image doesn't exist.
+   */
+  async setCover(projectId: string, mediaId: string): Promise<ProjectMedia[]> {
+    await this.findOne(projectId, mediaId);
+    try {
+      await this.prismaService.$transaction([
+        this.prismaService.projectMedia.updateMany({
+          where: { projectId, isCover: true },
+          data: { isCover: false },
+        }),
+        this.prismaService.projectMedia.update({
+          where: { id: mediaId },
+          data: { isCover: true },
+        }),
+      ]);
+    } catch (error) {
+      this.dbErrorService.handleDatabaseError(
+        error,
+        `Failed to set the cover of project with ID ${projectId}`,
+      );
+    }
+    this.logger.log(
+      `Image ${mediaId} is now the cover of project ${projectId}.`,
+    );
+    return this.findGallery(projectId);
+  }
+
+  /**
+   * Edits the alternative text, caption or dimensions of an image.
+   * Translations not included in `altText` are kept.
+   *
+   * @param projectId - The UUID string of the project.
+   * @param mediaId - The UUID string of the image.
+   * @param updateProjectMediaDto - The fields to change.
+   * @returns A Promise resolving to the updated image.
+   * @throws {NotFoundException} If the project or the image doesn't exist.
+   */
+  async updateMetadata(
+    projectId: string,
+    mediaId: string,
+    updateProjectMediaDto: UpdateProjectMediaDto,
+  ): Promise<ProjectMedia> {
+    const media = await this.findOne(projectId, mediaId);
+    const { altText, ...fields } = updateProjectMediaDto;
+
+    try {
+      return await this.prismaService.projectMedia.update({
+        where: { id: mediaId },
+        data: {
+          ...fields,
+          altText: altText
+            ? this.mergeTranslations(media.altText as LocalizedTextDto, altText)
+            : undefined,
+        },
+      });
+    } catch (error) {
+      this.dbErrorService.handleDatabaseError(
+        error,
+        `Failed to update image ${mediaId} of project with ID ${projectId}`,
+      );
+    }
+  }
+
+  // Empty strings remove a translation
+  private mergeTranslations(
+    current: LocalizedTextDto,
+    changes: LocalizedTextDto,
+  ): Record<string, string> {
+    const merged: Record<string, string> = { ...current, ...changes };
+    return Object.fromEntries(
+      Object.entries(merged).filter(([, text]) => text && text.trim()),
+    );
+  }
+
+  private async findGallery(projectId: string): Promise<ProjectMedia[]> {
+    const project = await this.prismaService.project.findFirst({
+      where: { id: projectId, deletedAt: null },
+      include: { media: PROJECT_INCLUDE.media },
+    });
+    if (!project) {
+      throw new NotFoundException(`Project with ID ${projectId} not found`);
+    }
+    return project.media;
+  }
+
+  private async findOne(
+    projectId: string,
+    mediaId: string,
+  ): Promise<ProjectMedia> {
+    const gallery = await this.findGallery(projectId);
+    const media = gallery.find((item) => item.id === mediaId);
+    if (!media) {
+      throw new NotFoundException(
+        `Image ${mediaId} of project with ID ${projectId} not found`,
+      );
+    }
+    return media;
+  }
+}
@@ -0,0 +1,17 @@
+import { Prisma } from '@prisma/client';
+import { ImageVariantUrls } from './image-variants.service';
+
+// Relations loaded with a project for the API responses and its revisions
+export const PROJECT_INCLUDE = {
+  category: true,
+  technologies: true,
+  media: { orderBy: { position: 'asc' }, include: { variants: true } },
+} satisfies Prisma.ProjectInclude;
+
+export type ProjectWithRelations = Prisma.ProjectGetPayload<{
+  include: typeof PROJECT_INCLUDE;
+}>;
+
+// Gallery image with presigned URLs for the original and its variants
+export type ProjectMediaWithUrls = ProjectWithRelations['media'][number] &
+  ImageVariantUrls & { url: string };
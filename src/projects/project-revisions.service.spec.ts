@@ -0,0 +1,233 @@
+import { ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { ProjectRevisionsService } from './project-revisions.service';
+import { ImageVariantsService } from './image-variants.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { DatabaseErrorService } from 'src/common/services/database-error.service';
+import { TechnologiesService } from 'src/technologies/technologies.service';
+import { STORAGE_DRIVER } from 'src/storage/storage-driver.interface';
+
+const uniqueViolation = (target: string[]) =>
+  new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+    code: 'P2002',
+    clientVersion: Prisma.prismaVersion.client,
+    meta: { target },
+  });
+
+describe('ProjectRevisionsService', () => {
+  let service: ProjectRevisionsService;
+  const prismaService = {
+    $queryRaw: jest.fn(),
+    $transaction: jest.fn(),
+    project: {
+      count: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      update: jest.fn(),
+    },
+    projectMedia: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      update: jest.fn(),
+      create: jest.fn(),
+    },
+    projectRevision: {
+      aggregate: jest.fn(),
+      create: jest.fn(),
+      findUnique: jest.fn(),
+    },
+  };
+  const storageDriver = { head: jest.fn() };
+  const technologiesService = { resolve: jest.fn() };
+  const imageVariantsService = { generateMissing: jest.fn() };
+
+  const project = {
+    id: 'project',
+    name: 'Portfolio',
+    description: null,
+    weeksWorked: 4,
+    price: new Prisma.Decimal(1500),
+    video: 'projects/videos/v2.mp4',
+    status: 'COMPLETED',
+    completionDate: null,
+    categoryId: 'category',
+    technologies: [{ id: 'nest', name: 'NestJS' }],
+    media: [{ key: 'projects/images/b.png' }],
+  };
+  const revision = (version: number, overrides: object = {}) => ({
+    id: `revision-${version}`,
+    projectId: 'project',
+    version,
+    name: 'Portfolio',
+    description: null,
+    technologies: ['NestJS'],
+    weeksWorked: 4,
+    price: new Prisma.Decimal(1500),
+    images: ['projects/images/a.png'],
+    video: 'projects/videos/v1.mp4',
+    status: 'COMPLETED',
+    completionDate: null,
+    categoryId: 'category',
+    author: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prismaService.$transaction.mockImplementation(
+      (callback: (tx: typeof prismaService) => unknown) =>
+        callback(prismaService),
+    );
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ProjectRevisionsService,
+        DatabaseErrorService,
+        { provide: PrismaService, useValue: prismaService },
+        { provide: STORAGE_DRIVER, useValue: storageDriver },
+        { provide: TechnologiesService, useValue: technologiesService },
+        { provide: ImageVariantsService, useValue: imageVariantsService },
+      ],
+    }).compile();
+
+    service = module.get<ProjectRevisionsService>(ProjectRevisionsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('record', () => {
+    it('locks the project before numbering the next revision', async () => {
+      prismaService.projectRevision.aggregate.mockResolvedValue({
+        _max: { version: 2 },
+      });
+
+      await service.record(
+        prismaService as unknown as Prisma.TransactionClient,
+        project as never,
+        'author',
+      );
+
+      const [[sql]] = prismaService.$queryRaw.mock.calls as [
+        [TemplateStringsArray],
+      ];
+      expect(sql.join('?')).toContain('FOR UPDATE');
+      expect(prismaService.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+        prismaService.projectRevision.aggregate.mock.invocationCallOrder[0],
+      );
+      expect(prismaService.projectRevision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          projectId: 'project',
+          version: 3,
+          technologies: ['NestJS'],
+          images: ['projects/images/b.png'],
+          authorId: 'author',
+        }) as object,
+      });
+    });
+
+    it('starts at version 1', async () => {
+      prismaService.projectRevision.aggregate.mockResolvedValue({
+        _max: { version: null },
+      });
+
+      await service.record(
+        prismaService as unknown as Prisma.TransactionClient,
+        project as never,
+      );
+
+      expect(prismaService.projectRevision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ version: 1 }) as object,
+      });
+    });
+  });
+
+  describe('diff', () => {
+    it('reports changed fields with added and removed list entries', async () => {
+      prismaService.projectRevision.findUnique
+        .mockResolvedValueOnce(revision(1))
+        .mockResolvedValueOnce(
+          revision(2, {
+            technologies: ['NestJS', 'Prisma'],
+            price: new Prisma.Decimal(2000),
+          }),
+        );
+
+      const { changes } = await service.diff('project', 1, 2);
+
+      expect(changes).toEqual([
+        {
+          field: 'technologies',
+          from: ['NestJS'],
+          to: ['NestJS', 'Prisma'],
+          added: ['Prisma'],
+          removed: [],
+        },
+        { field: 'price', from: '1500.00', to: '2000.00' },
+      ]);
+    });
+  });
+
+  describe('restore', () => {
+    beforeEach(() => {
+      prismaService.project.count.mockResolvedValue(1);
+      prismaService.projectRevision.findUnique.mockResolvedValue(revision(1));
+      prismaService.project.findUniqueOrThrow.mockResolvedValue(project);
+      prismaService.projectMedia.findMany.mockResolvedValue([]);
+      technologiesService.resolve.mockResolvedValue([{ id: 'nest' }]);
+      imageVariantsService.generateMissing.mockResolvedValue({ processed: 0 });
+    });
+
+    it('keeps the current video when the revision video is gone', async () => {
+      storageDriver.head.mockImplementation((key: string) =>
+        Promise.resolve(key.endsWith('v1.mp4') ? null : { key }),
+      );
+      prismaService.project.update.mockResolvedValue(project);
+      prismaService.projectRevision.aggregate.mockResolvedValue({
+        _max: { version: 2 },
+      });
+      prismaService.projectRevision.create.mockResolvedValue(revision(3));
+
+      const restored = await service.restore('project', 1, 'author');
+
+      expect(restored.missingMedia).toEqual(['projects/videos/v1.mp4']);
+      expect(prismaService.project.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            video: 'projects/videos/v2.mp4',
+          }) as object,
+        }),
+      );
+      expect(prismaService.projectRevision.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          version: 3,
+          restoredFromVersion: 1,
+        }) as object,
+      });
+    });
+
+    it('reports a version collision apart from a name conflict', async () => {
+      storageDriver.head.mockResolvedValue({});
+      prismaService.project.update.mockResolvedValue(project);
+      prismaService.projectRevision.aggregate.mockResolvedValue({
+        _max: { version: 2 },
+      });
+      prismaService.projectRevision.create.mockRejectedValue(
+        uniqueViolation(['projectId', 'version']),
+      );
+
+      await expect(service.restore('project', 1, 'author')).rejects.toThrow(
+        'was changed while restoring revision 1',
+      );
+    });
+
+    it('reports a name taken by another project', async () => {
+      storageDriver.head.mockResolvedValue({});
+      prismaService.project.update.mockRejectedValue(uniqueViolation(['name']));
+
+      await expect(service.restore('project', 1, 'author')).rejects.toThrow(
+        new ConflictException('Project with name Portfolio already exists'),
+      );
+    });
+  });
+});
@@ -0,0 +1,389 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  Prisma,
+  Project,
+  ProjectMedia,
+  ProjectRevision,
+  Technology,
+  User,
+} from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  STORAGE_DRIVER,
+  StorageDriver,
+} from 'src/storage/storage-driver.interface';
+import { DatabaseErrorService } from 'src/common/services/database-error.service';
+import { TechnologiesService } from 'src/technologies/technologies.service';
+import { PROJECT_INCLUDE, ProjectWithRelations } from './project-relations';
+import { syncGallery } from './project-gallery';
+import { ImageVariantsService } from './image-variants.service';
+import { Paginated } from 'src/common/dto/paginated-response.dto';
+import { buildPaginationArgs, toPaginated } from 'src/utils/pagination-utils';
+import {
+  ListProjectRevisionsQueryDto,
+  ProjectRevisionSortField,
+} from './dto/list-project-revisions-query.dto';
+
+// Project fields copied into each revision, in the order they are diffed
+const REVISION_FIELDS = [
+  'name',
+  'description',
+  'technologies',
+  'weeksWorked',
+  'price',
+  'images',
+  'video',
+  'status',
+  'completionDate',
+  'categoryId',
+] as const;
+
+type RevisionField = (typeof REVISION_FIELDS)[number];
+// Technologies and images are relations of the project, snapshotted as
+// technology names and image keys
+type ProjectColumn = Exclude<RevisionField, 'technologies' | 'images'>;
+
+const AUTHOR_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  lastName: true,
+} satisfies Prisma.UserSelect;
+
+export type ProjectRevisionWithAuthor = ProjectRevision & {
+  author: Pick<User, 'id' | 'email' | 'name' | 'lastName'> | null;
+};
+
+export interface ProjectRevisionChange {
+  field: RevisionField;
+  from: unknown;
+  to: unknown;
+  added?: string[];
+  removed?: string[];
+}
+
+export interface ProjectRevisionDiff {
+  from: number;
+  to: number;
+  changes: ProjectRevisionChange[];
+}
+
+export type RestoredProject = ProjectWithRelations & {
+  revision: ProjectRevision;
+  missingMedia: string[];
+};
+
+@Injectable()
+export class ProjectRevisionsService {
+  private readonly logger = new Logger(ProjectRevisionsService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    @Inject(STORAGE_DRIVER) private readonly storageDriver: StorageDriver,
+    private readonly dbErrorService: DatabaseErrorService,
+    private readonly technologiesService: TechnologiesService,
+    private readonly imageVariantsService: ImageVariantsService,
+  ) {}
+
+  /**
+   * Stores the current content of a project as its next revision.
+   * Meant to run in the same transaction as the write it records: the project
+   * row stays locked until that transaction ends, so concurrent writers of the
+   * same project number their revisions one after the other.
+   *
+   * @param tx - Transaction client (or PrismaService outside a transaction).
+   * @param project - The project as just written, with its technologies and
+   * its images in gallery order.
+   * @param authorId - The user who made the change, if known.
+   * @param restoredFromVersion - Version the content was restored from, if any.
+   * @returns The created revision.
+   */
+  async record(
+    tx: Prisma.TransactionClient,
+    project: Project & { technologies: Technology[]; media: ProjectMedia[] },
+    authorId?: string | null,
+    restoredFromVersion?: number,
+  ): Promise<ProjectRevision> {
+    await tx.$queryRaw`SELECT "id" FROM "Project" WHERE "id" = ${project.id} FOR UPDATE`;
+    const {
+      _max: { version: lastVersion },
+    } = await tx.projectRevision.aggregate({
+      where: { projectId: project.id },
+      _max: { version: true },
+    });
+
+    return tx.projectRevision.create({
+      data: {
+        ...this.pickProjectColumns(project),
+        technologies: project.technologies.map((technology) => technology.name),
+        images: project.media.map((media) => media.key),
+        projectId: project.id,
+        version: (lastVersion ?? 0) + 1,
+        authorId,
+        restoredFromVersion,
+      },
+    });
+  }
+
+  /**
+   * Retrieves a page of the revisions of a project, newest first by default.
+   *
+   * @param projectId - The UUID string of the project.
+   * @param query - Pagination and sorting.
+   * @returns A Promise resolving to the page of revisions with their authors.
+   * @throws {NotFoundException} If the project doesn't exist.
+   * @throws {InternalServerErrorException} If a database error occurs during fetching.
+   */
+  async findAll(
+    projectId: string,
+    query: ListProjectRevisionsQueryDto,
+  ): Promise<Paginated<ProjectRevisionWithAuthor>> {
+    await this.assertProjectExists(projectId);
+    const where: Prisma.ProjectRevisionWhereInput = { projectId };
+
+    try {
+      const [rows, total] = await this.prismaService.$transaction([
+        this.prismaService.projectRevision.findMany({
+          where,
+          include: { author: { select: AUTHOR_SELECT } },
+          ...buildPaginationArgs<ProjectRevisionSortField>(query, 'version'),
+        }),
+        this.prismaService.projectRevision.count({ where }),
+      ]);
+      return toPaginated(rows, total, query);
+    } catch (error) {
+      this.dbErrorService.handleDatabaseError(
+        error,
+        `Failed to fetch revisions of project with ID ${projectId}`,
+      );
+    }
+  }
+
+  /**
+   * Retrieves one revision of a project by its version number.
+   *
+   * @param projectId - The UUID string of the project.
+   * @param version - The version number.
+   * @returns A Promise resolving to the revision with its author.
+   * @throws {NotFoundException} If the project has no such version.
+   */
+  async findOne(
+    projectId: string,
+    version: number,
+  ): Promise<ProjectRevisionWithAuthor> {
+    const revision = await this.prismaService.projectRevision.findUnique({
+      where: { projectId_version: { projectId, version } },
+      include: { author: { select: AUTHOR_SELECT } },
+    });
+    if (!revision) {
+      throw new NotFoundException(
+        `Revision ${version} of project with ID ${projectId} not found`,
+      );
+    }
+    return revision;
+  }
+
+  /**
+   * Compares two revisions of a project field by field. Only the fields that
+   * differ are returned; list fields also report the added and removed entries.
+   *
+   * @param projectId - The UUID string of the project.
+   * @param from - Version to compare from.
+   * @param to - Version to compare to.
+   * @returns A Promise resolving to the list of changed fields.
+   * @throws {NotFoundException} If either version doesn't exist.
+   */
+  async diff(
+    projectId: string,
+    from: number,
+    to: number,
+  ): Promise<ProjectRevisionDiff> {
+    const [fromRevision, toRevision] = await Promise.all([
+      this.findOne(projectId, from),
+      this.findOne(projectId, to),
+    ]);
+
+    const changes: ProjectRevisionChange[] = [];
+    for (const field of REVISION_FIELDS) {
+      const fromValue = this.toComparable(fromRevision[field]);
+      const toValue = this.toComparable(toRevision[field]);
+      if (JSON.stringify(fromValue) === JSON.stringify(toValue)) {
+        continue;
+      }
+
+      const change: ProjectRevisionChange = {
+        field,
+        from: fromValue,
+        to: toValue,
+      };
+      if (Array.isArray(fromValue) && Array.isArray(toValue)) {
+        change.added = toValue.filter((entry) => !fromValue.includes(entry));
+        change.removed = fromValue.filter((entry) => !toValue.includes(entry));
+      }
+      changes.push(change);
+    }
+
+    return { from, to, changes };
+  }
+
+  /**
+   * Puts the content of an earlier revision back on the project and records
+   * the result as a new revision. Media keys of the revision that no longer
+   * exist in storage are skipped: the current video is kept if the old one is gone.
+   * Media the restore drops are left in storage so newer revisions stay restorable.
+   * Images still in the gallery keep their alt text, caption and cover flag.
+   * Technology names are resolved against the catalog again, so names merged
+   * into another technology since then restore as that technology.
+   *
+   * @param projectId - The UUID string of the project.
+   * @param version - The version to restore.
+   * @param authorId - The user restoring the revision.
+   * @returns A Promise resolving to the updated project, the new revision and
+   * the media keys that could not be restored.
+   * @throws {NotFoundException} If the project or the version doesn't exist.
+   * @throws {ConflictException} If another project now uses the revision's name,
+   * or another revision was recorded with the same version meanwhile.
+   * @throws {InternalServerErrorException} If a database or storage error occurs.
+   */
+  async restore(
+    projectId: string,
+    version: number,
+    authorId: string,
+  ): Promise<RestoredProject> {
+    await this.assertProjectExists(projectId);
+    const revision = await this.findOne(projectId, version);
+    const current = await this.prismaService.project.findUniqueOrThrow({
+      where: { id: projectId },
+    });
+
+    const missingMedia = await this.findMissingMedia([
+      ...revision.images,
+      revision.video,
+    ]);
+    const images = revision.images.filter(
+      (imageKey) => !missingMedia.includes(imageKey),
+    );
+    const video = missingMedia.includes(revision.video)
+      ? current.video
+      : revision.video;
+
+    try {
+      const [project, newRevision] = await this.prismaService.$transaction(
+        async (tx) => {
+          const technologies = await this.technologiesService.resolve(
+            revision.technologies,
+            tx,
+          );
+          await syncGallery(
+            tx,
+            projectId,
+            images.map((key) => ({ key })),
+          );
+          const updatedProject = await tx.project.update({
+            where: { id: projectId },
+            data: {
+              ...this.pickProjectColumns(revision),
+              video,
+              technologies: { set: technologies.map(({ id }) => ({ id })) },
+            },
+            include: PROJECT_INCLUDE,
+          });
+          const restoredRevision = await this.record(
+            tx,
+            updatedProject,
+            authorId,
+            version,
+          );
+          return [updatedProject, restoredRevision] as const;
+        },
+      );
+
+      this.logger.log(
+        `Project ${projectId} restored to revision ${version} as revision ${newRevision.version}` +
+          (missingMedia.length
+            ? ` (missing media: ${missingMedia.join(', ')})`
+            : ''),
+      );
+      // Images removed since that revision come back without variants
+      const { processed } = await this.imageVariantsService.generateMissing({
+        projectId,
+      });
+      if (processed) {
+        return {
+          ...(await this.prismaService.project.findUniqueOrThrow({
+            where: { id: projectId },
+            include: PROJECT_INCLUDE,
+          })),
+          revision: newRevision,
+          missingMedia,
+        };
+      }
+      return { ...project, revision: newRevision, missingMedia };
+    } catch (error) {
+      if (this.isVersionConflict(error)) {
+        throw new ConflictException(
+          `Project with ID ${projectId} was changed while restoring revision ${version}, try again`,
+        );
+      }
+      this.dbErrorService.handleUniqueConstraintError(
+        error,
+        'Project',
+        'name',
+        revision.name,
+      );
+    }
+  }
+
+  // A revision number taken by another write, as opposed to a name conflict
+  private isVersionConflict(error: unknown): boolean {
+    return (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === 'P2002' &&
+      ((error.meta?.target as string[] | undefined) ?? []).includes('version')
+    );
+  }
+
+  private pickProjectColumns(
+    source: Pick<Project, ProjectColumn>,
+  ): Pick<Project, ProjectColumn> {
+    return Object.fromEntries(
+      REVISION_FIELDS.filter(
+        (field) => field !== 'technologies' && field !== 'images',
+      ).map((field) => [field, source[field]]),
+    ) as Pick<Project, ProjectColumn>;
+  }
+
+  // Decimals and dates are compared (and reported) as strings
+  private toComparable(value: unknown): unknown {
+    if (value instanceof Prisma.Decimal) {
+      return value.toFixed(2);
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    return value ?? null;
+  }
+
+  private async findMissingMedia(keys: string[]): Promise<string[]> {
+    const uniqueKeys = [...new Set(keys.filter(Boolean))];
+    const files = await Promise.all(
+      uniqueKeys.map((key) => this.storageDriver.head(key)),
+    );
+    return uniqueKeys.filter((_, index) => !files[index]);
+  }
+
+  private async assertProjectExists(projectId: string): Promise<void> {
+    const count = await this.prismaService.project.count({
+      where: { id: projectId, deletedAt: null },
+    });
+    if (count === 0) {
+      throw new NotFoundException(`Project with ID ${projectId} not found`);
+    }
+  }
+}
@@ -0,0 +1,7 @@
+import { Prisma, PublicationStatus } from '@prisma/client';
+
+// Projects visible to the public: published, and not scheduled for later
+export const publishedProjectsWhere = (): Prisma.ProjectWhereInput => ({
+  publicationStatus: PublicationStatus.PUBLISHED,
+  publishedAt: { lte: new Date() },
+});
@@ -12,6 +12,10 @@ import {
   ParseUUIDPipe,
   HttpStatus,
   HttpCode, // Import ParseUUIDPipe for ID validation
+  Query,
+  Req,
+  ForbiddenException,
+  ParseIntPipe,
 } from '@nestjs/common';
 import {
   AnyFilesInterceptor,
@@ -28,38 +32,82 @@ import {
 import { ProjectsService } from './projects.service';
 import { CreateProjectDto } from './dto/create-project.dto';
 import { UpdateProjectDto } from './dto/update-project.dto';
+import {
+  ProjectResponseDto,
+  ProjectSearchResultDto,
+  ProjectWithMediaResponseDto,
+} from './dto/project-response.dto';
+import { ListProjectsQueryDto } from './dto/list-projects-query.dto';
+import { SearchProjectsQueryDto } from './dto/search-projects-query.dto';
+import { UpdatePublicationDto } from './dto/update-publication.dto';
+import {
+  DiffProjectRevisionsQueryDto,
+  ListProjectRevisionsQueryDto,
+} from './dto/list-project-revisions-query.dto';
+import {
+  ProjectRevisionDiffDto,
+  ProjectRevisionResponseDto,
+  RestoredProjectResponseDto,
+} from './dto/project-revision-response.dto';
+import { ProjectRevisionsService } from './project-revisions.service';
+import { ProjectMediaService } from './project-media.service';
+import {
+  ReorderProjectMediaDto,
+  UpdateProjectMediaDto,
+} from './dto/update-project-media.dto';
+import { ProjectMediaResponseDto } from './dto/project-media-response.dto';
+import {
+  Paginated,
+  PaginatedResponseDto,
+} from 'src/common/dto/paginated-response.dto';
 
 import { Express } from 'express'; // Import Express namespace for Multer types
-import { Project } from '@prisma/client';
 import { Public } from 'src/decorators/public.decorator';
-
-// --- Define your limits and allowed types ---
-const MAX_IMAGE_SIZE_MB = 10; // Example: 10MB limit for images
-const MAX_VIDEO_SIZE_MB = 40; // Example: 40MB limit for video
-const ALLOWED_IMAGE_TYPES = /image\/(jpg|jpeg|png|gif|webp)$/; // Regex for allowed image mimetypes
-const ALLOWED_VIDEO_TYPES = /video\/(mp4|mov|avi|wmv|mkv)$/; // Regex for allowed video mimetypes
-
-// Helper function to convert MB to bytes
-const mbToBytes = (mb: number) => mb * 1024 * 1024;
+import { RequirePermissions } from 'src/decorators/require-permissions.decorator';
+import { PermissionNames } from 'src/permissions/constants';
+import { Roles } from 'src/decorators/roles.decorator';
+import { RoleNames } from 'src/roles/constants';
+import { TrashQueryDto } from 'src/common/dto/trash-query.dto';
+import {
+  AccessControlService,
+  RequestWithRole,
+} from 'src/auth/access-control.service';
+import { PublicationStatus } from '@prisma/client';
+import { CurrentUser } from 'src/decorators/current-user.decorator';
+import { FileValidationPipe } from 'src/common/pipes/file-validation.pipe';
+import { PROJECT_FILE_FIELDS } from 'src/uploads/upload-policies';
 
 @ApiTags('projects') // Group endpoints under the 'projects' tag in Swagger UI
 @Controller('projects')
 export class ProjectsController {
-  constructor(private readonly projectsService: ProjectsService) {}
+  constructor(
+    private readonly projectsService: ProjectsService,
+    private readonly accessControlService: AccessControlService,
+    private readonly projectRevisionsService: ProjectRevisionsService,
+    private readonly projectMediaService: ProjectMediaService,
+  ) {}
 
+  @RequirePermissions(PermissionNames.PROJECTS_WRITE)
   @Post()
   @HttpCode(HttpStatus.CREATED) // Set default success code to 201
   @ApiOperation({ summary: 'Create a new project' }) // Swagger operation summary
-  @ApiConsumes('multipart/form-data') // Specify content type for Swagger
+  @ApiConsumes('multipart/form-data', 'application/json') // Specify content type for Swagger
   @ApiBody({
-    description: 'Project data and files (images, video)',
+    description:
+      'Project data and files (images, video). Files already sent to S3 through POST /uploads are referenced with imageUploadIds and videoUploadId instead.',
     type: Object, // Links to DTO, but Swagger needs manual description for files
   })
   @ApiResponse({
     status: 201,
-    description: 'Project created successfully.' /* type: Project */,
+    description: 'Project created successfully.',
+    type: ProjectResponseDto,
   }) // Define success response
   @ApiResponse({ status: 400, description: 'Bad Request - Validation failed.' }) // Define error response
+  @ApiResponse({
+    status: 415,
+    description:
+      'A file is not of an allowed type or not of the type it was sent as.',
+  })
   @UseInterceptors(
     FileFieldsInterceptor(
       // Use FileFieldsInterceptor for multiple file fields
@@ -91,63 +139,31 @@ export class ProjectsController {
   )
   async create(
     // Access files uploaded via the interceptor
-    @UploadedFiles()
+    @UploadedFiles(new FileValidationPipe(PROJECT_FILE_FIELDS))
     files: { images?: Express.Multer.File[]; video?: Express.Multer.File[] },
     // Access text fields, automatically validated and transformed by ValidationPipe
     @Body() createProjectDto: CreateProjectDto,
-  ): Promise<Project> {
-    // 1. Validate Images
-    if (files.images && files.images.length > 0) {
-      for (const image of files.images) {
-        // Check image type
-        if (!ALLOWED_IMAGE_TYPES.test(image.mimetype)) {
-          throw new BadRequestException(
-            `Invalid image type: ${image.originalname}. Allowed types: jpg, jpeg, png, gif, webp.`,
-          );
-        }
-        // Check image size
-        if (image.size > mbToBytes(MAX_IMAGE_SIZE_MB)) {
-          // Use 413 Payload Too Large for size errors
-          throw new BadRequestException( // Or PayloadTooLargeException
-            `Image file too large: ${image.originalname}. Max size: ${MAX_IMAGE_SIZE_MB}MB.`,
-          );
-        }
-      }
-    }
-
-    // 2. Validate Video
-    if (files.video && files.video.length > 0) {
-      const video = files.video[0]; // Since maxCount is 1
-
-      // Check video type
-      if (!ALLOWED_VIDEO_TYPES.test(video.mimetype)) {
-        throw new BadRequestException(
-          `Invalid video type: ${video.originalname}. Allowed types: mp4, mov, avi, wmv, mkv.`,
-        );
-      }
-      // Check video size
-      if (video.size > mbToBytes(MAX_VIDEO_SIZE_MB)) {
-        // Use 413 Payload Too Large for size errors
-        throw new BadRequestException( // Or PayloadTooLargeException
-          `Video file too large: ${video.originalname}. Max size: ${MAX_VIDEO_SIZE_MB}MB.`,
-        );
-      }
-    }
-
-    const images = files?.images;
+    @CurrentUser('id') userId: string,
+  ): Promise<ProjectResponseDto> {
+    const images = files?.images ?? [];
     const video = files?.video?.[0];
 
-    if (!images || images.length < 5) {
+    // Image files and images uploaded straight to S3
+    const imageCount =
+      images.length + (createProjectDto.imageUploadIds?.length ?? 0);
+    if (imageCount < 5) {
       throw new BadRequestException('At least 5 images are required');
     }
 
     // Max count check is technically handled by FileFieldsInterceptor, but doesn't hurt to double-check
-    if (images.length > 12) {
+    if (imageCount > 12) {
       throw new BadRequestException(`No more than 12 images are allowed.`);
     }
 
-    if (!video) {
-      throw new BadRequestException('Exactly 1 video file is required.');
+    if (!video === !createProjectDto.videoUploadId) {
+      throw new BadRequestException(
+        'Exactly 1 video is required, as a file or as videoUploadId.',
+      );
     }
 
     // Manually map technologies if it comes as a stringified array from form-data
@@ -192,19 +208,131 @@ export class ProjectsController {
       createProjectDto.weeksWorked = parsedWeeks;
     }
 
-    return this.projectsService.create(createProjectDto, images, video);
+    return new ProjectResponseDto(
+      await this.projectsService.create(
+        createProjectDto,
+        images,
+        video,
+        userId,
+      ),
+    );
   }
 
   @Public()
   @Get()
-  @ApiOperation({ summary: 'Get all projects' })
+  @ApiOperation({
+    summary: 'List projects with pagination, filters and sorting',
+  })
   @ApiResponse({
     status: HttpStatus.OK,
-    description: 'Return List of all projects.',
-    type: 'object',
+    description:
+      'Returns a page of projects matching the filters. Visitors only see published projects.',
+    type: PaginatedResponseDto(ProjectResponseDto),
   })
-  findAll(): Promise<Project[]> {
-    return this.projectsService.findAll();
+  async findAll(
+    @Query() query: ListProjectsQueryDto,
+    @Req() request: RequestWithRole,
+  ): Promise<Paginated<ProjectResponseDto>> {
+    const canPreview = await this.canPreview(request);
+    if (!canPreview) {
+      // The publication filter is only meaningful for staff
+      query.publicationStatus = undefined;
+    }
+    const page = await this.projectsService.findAll(query, !canPreview);
+    return {
+      ...page,
+      items: page.items.map((project) => new ProjectResponseDto(project)),
+    };
+  }
+
+  @Public()
+  @Get('search')
+  @ApiOperation({
+    summary: 'Full-text search of projects (English and Spanish stemming)',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description:
+      'Projects ordered by relevance, with highlighted snippets of the matches.',
+    type: PaginatedResponseDto(ProjectSearchResultDto),
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Missing or invalid search query.',
+  })
+  async search(
+    @Query() query: SearchProjectsQueryDto,
+    @Req() request: RequestWithRole,
+  ): Promise<Paginated<ProjectSearchResultDto>> {
+    const page = await this.projectsService.search(
+      query,
+      !(await this.canPreview(request)),
+    );
+    return {
+      ...page,
+      items: page.items.map((result) => new ProjectSearchResultDto(result)),
+    };
+  }
+
+  @RequirePermissions(PermissionNames.PROJECTS_WRITE)
+  @Get('trash')
+  @ApiOperation({ summary: 'List the projects in the trash' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'A page of trashed projects, most recently deleted first.',
+    type: PaginatedResponseDto(ProjectResponseDto),
+  })
+  async findTrashed(
+    @Query() query: TrashQueryDto,
+  ): Promise<Paginated<ProjectResponseDto>> {
+    const page = await this.projectsService.findTrashed(query);
+    return {
+      ...page,
+      items: page.items.map((project) => new ProjectResponseDto(project)),
+    };
+  }
+
+  @RequirePermissions(PermissionNames.PROJECTS_WRITE)
+  @Post('trash/:id/restore')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Restore a project from the trash' })
+  @ApiParam({ name: 'id', description: 'UUID of the project', type: String })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The restored project.',
+    type: ProjectResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Project not found in the trash.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The category of the project is in the trash.',
+  })
+  async restore(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<ProjectResponseDto> {
+    return new ProjectResponseDto(await this.projectsService.restore(id));
+  }
+
+  @Roles(RoleNames.ADMIN)
+  @Delete('trash/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Permanently delete a trashed project and its media (admin only)',
+  })
+  @ApiParam({ name: 'id', description: 'UUID of the project', type: String })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Project permanently deleted.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Project not found in the trash.',
+  })
+  async purge(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    await this.projectsService.purge(id);
   }
 
   @Public()
@@ -213,16 +341,21 @@ export class ProjectsController {
   @ApiParam({ name: 'id', description: 'UUID of the project', type: String })
   @ApiResponse({
     status: HttpStatus.OK,
-    description: 'The project details.' /* type: ProjectEntity */,
-    type: Object,
+    description: 'The project details.',
+    type: ProjectResponseDto,
   })
   @ApiResponse({
     status: HttpStatus.NOT_FOUND,
     description: 'Project not found.',
   })
   @ApiResponse({ status: 400, description: 'Invalid UUID format.' }) // For ParseUUIDPipe
-  findOne(@Param('id', ParseUUIDPipe) id: string): Promise<Project> {
-    return this.projectsService.findOne(id);
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() request: RequestWithRole,
+  ): Promise<ProjectResponseDto> {
+    return new ProjectResponseDto(
+      await this.projectsService.findOne(id, !(await this.canPreview(request))),
+    );
   }
 
   @Public()
@@ -234,18 +367,87 @@ export class ProjectsController {
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Project details with presigned URLs for images and video.',
+    type: ProjectWithMediaResponseDto,
   })
   @ApiResponse({
     status: HttpStatus.NOT_FOUND,
     description: 'Project not found.',
   })
   @ApiResponse({ status: 400, description: 'Invalid UUID format.' })
-  getWithPresignedUrls(
+  async getWithPresignedUrls(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() request: RequestWithRole,
+  ): Promise<ProjectWithMediaResponseDto> {
+    return new ProjectWithMediaResponseDto(
+      await this.projectsService.getProjectWithPresignedUrls(
+        id,
+        !(await this.canPreview(request)),
+      ),
+    );
+  }
+
+  @RequirePermissions(PermissionNames.PROJECTS_WRITE)
+  @Patch(':id/publication')
+  @ApiOperation({
+    summary:
+      'Change the publication state of a project (draft, in review, published, archived)',
+  })
+  @ApiParam({ name: 'id', description: 'UUID of the project', type: String })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Publication state updated.',
+    type: ProjectResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'publishedAt given for a state other than PUBLISHED.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description:
+      'Publishing or archiving requires the projects:publish permission.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Project not found.',
+  })
+  async updatePublication(
     @Param('id', ParseUUIDPipe) id: string,
-  ): Promise<Project> {
-    return this.projectsService.getProjectWithPresignedUrls(id);
+    @Body() updatePublicationDto: UpdatePublicationDto,
+    @Req() request: RequestWithRole,
+  ): Promise<ProjectResponseDto> {
+    // Editors can move drafts to review; going live (or leaving it) is for publishers
+    const project = await this.projectsService.findOne(id);
+    const touchesPublicState = [
+      project.publicationStatus,
+      updatePublicationDto.status,
+    ].some(
+      (status) =>
+        status === PublicationStatus.PUBLISHED ||
+        status === PublicationStatus.ARCHIVED,
+    );
+    if (touchesPublicState) {
+      const role = await this.accessControlService.getRole(request);
+      if (
+        !this.accessControlService.hasPermissions(role, [
+          PermissionNames.PROJECTS_PUBLISH,
+        ])
+      ) {
+        throw new ForbiddenException({
+          error: 'Forbidden',
+          message: 'You do not have permission to publish or archive projects.',
+          requiredPermissions: [PermissionNames.PROJECTS_PUBLISH],
+          statusCode: 403,
+        });
+      }
+    }
+
+    return new ProjectResponseDto(
+      await this.projectsService.updatePublication(id, updatePublicationDto),
+    );
   }
 
+  @RequirePermissions(PermissionNames.PROJECTS_WRITE)
   @Patch(':id')
   @ApiOperation({ summary: 'Update a project by ID' })
   @ApiParam({
@@ -253,11 +455,12 @@ export class ProjectsController {
     description: 'UUID of the project to update',
     type: String,
   })
-  @ApiConsumes('multipart/form-data')
+  @ApiConsumes('multipart/form-data', 'application/json')
   @ApiBody({ type: UpdateProjectDto })
   @ApiResponse({
     status: HttpStatus.OK,
-    description: 'Project successfully updated.' /* type: ProjectEntity */,
+    description: 'Project successfully updated.',
+    type: ProjectResponseDto,
   })
   @ApiResponse({
     status: HttpStatus.NOT_FOUND,
@@ -268,6 +471,11 @@ export class ProjectsController {
     description:
       'Bad Request (e.g., validation error, invalid format for existing media).',
   })
+  @ApiResponse({
+    status: HttpStatus.UNSUPPORTED_MEDIA_TYPE,
+    description:
+      'A file is not of an allowed type or not of the type it was sent as.',
+  })
   @UseInterceptors(
     FileFieldsInterceptor([
       { name: 'images', maxCount: 12 }, // Matches FormData key 'images'
@@ -276,48 +484,11 @@ export class ProjectsController {
   )
   async update(
     @Param('id', ParseUUIDPipe) id: string,
-    @UploadedFiles()
+    @UploadedFiles(new FileValidationPipe(PROJECT_FILE_FIELDS))
     files: { images?: Express.Multer.File[]; video?: Express.Multer.File[] },
     @Body() updateProjectDto: UpdateProjectDto, // Use Update DTO
-  ): Promise<Project | undefined> {
-    // 1. Validate Images
-    if (files.images && files.images.length > 0) {
-      for (const image of files.images) {
-        // Check image type
-        if (!ALLOWED_IMAGE_TYPES.test(image.mimetype)) {
-          throw new BadRequestException(
-            `Invalid image type: ${image.originalname}. Allowed types: jpg, jpeg, png, gif, webp.`,
-          );
-        }
-        // Check image size
-        if (image.size > mbToBytes(MAX_IMAGE_SIZE_MB)) {
-          // Use 413 Payload Too Large for size errors
-          throw new BadRequestException( // Or PayloadTooLargeException
-            `Image file too large: ${image.originalname}. Max size: ${MAX_IMAGE_SIZE_MB}MB.`,
-          );
-        }
-      }
-    }
-
-    // 2. Validate Video
-    if (files.video && files.video.length > 0) {
-      const video = files.video[0]; // Since maxCount is 1
-
-      // Check video type
-      if (!ALLOWED_VIDEO_TYPES.test(video.mimetype)) {
-        throw new BadRequestException(
-          `Invalid video type: ${video.originalname}. Allowed types: mp4, mov, avi, wmv, mkv.`,
-        );
-      }
-      // Check video size
-      if (video.size > mbToBytes(MAX_VIDEO_SIZE_MB)) {
-        // Use 413 Payload Too Large for size errors
-        throw new BadRequestException( // Or PayloadTooLargeException
-          `Video file too large: ${video.originalname}. Max size: ${MAX_VIDEO_SIZE_MB}MB.`,
-        );
-      }
-    }
-
+    @CurrentUser('id') userId: string,
+  ): Promise<ProjectResponseDto | undefined> {
     const images = files?.images;
     const video = files?.video?.[0];
 
@@ -356,25 +527,19 @@ export class ProjectsController {
       }
     }
 
+    // The image count is checked by the service, which knows the current gallery
     if (
-      (!images && !updateProjectDto.existingImages) ||
-      (images?.length ?? 0) + (updateProjectDto.existingImages?.length ?? 0) < 5
+      !video &&
+      !updateProjectDto.existingVideo &&
+      !updateProjectDto.videoUploadId
     ) {
-      throw new BadRequestException('At least 5 images are required');
-    }
-
-    // Max count check is technically handled by FileFieldsInterceptor, but doesn't hurt to double-check
-    if (
-      (!images && !updateProjectDto.existingImages) ||
-      (images?.length ?? 0) + (updateProjectDto.existingImages?.length ?? 0) >
-        12
-    ) {
-      throw new BadRequestException(`No more than 12 images are allowed.`);
-    }
-
-    if (!video && !updateProjectDto.existingVideo) {
       throw new BadRequestException('Exactly 1 video file is required.');
     }
+    if (video && updateProjectDto.videoUploadId) {
+      throw new BadRequestException(
+        'Send either a video file or videoUploadId, not both.',
+      );
+    }
 
     // Parse technologies (expecting JSON stringified array or comma-separated string)
     if (
@@ -421,12 +586,221 @@ export class ProjectsController {
       updateProjectDto.weeksWorked = parsedWeeks;
     }
 
-    return this.projectsService.update(id, updateProjectDto, images, video);
+    const project = await this.projectsService.update(
+      id,
+      updateProjectDto,
+      images,
+      video,
+      userId,
+    );
+    return project ? new ProjectResponseDto(project) : undefined;
+  }
+
+  @RequirePermissions(PermissionNames.PROJECTS_WRITE)
+  @Get(':id/revisions')
+  @ApiOperation({ summary: 'List the revision history of a project' })
+  @ApiParam({ name: 'id', description: 'UUID of the project', type: String })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'A page of revisions, newest first by default.',
+    type: PaginatedResponseDto(ProjectRevisionResponseDto),
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Project not found.',
+  })
+  async findRevisions(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: ListProjectRevisionsQueryDto,
+  ): Promise<Paginated<ProjectRevisionResponseDto>> {
+    const page = await this.projectRevisionsService.findAll(id, query);
+    return {
+      ...page,
+      items: page.items.map(
+        (revision) => new ProjectRevisionResponseDto(revision),
+      ),
+    };
   }
 
+  @RequirePermissions(PermissionNames.PROJECTS_WRITE)
+  @Get(':id/revisions/diff')
+  @ApiOperation({
+    summary: 'Compare two revisions of a project field by field',
+  })
+  @ApiParam({ name: 'id', description: 'UUID of the project', type: String })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The fields that differ between the two revisions.',
+    type: ProjectRevisionDiffDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Project or revision not found.',
+  })
+  diffRevisions(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: DiffProjectRevisionsQueryDto,
+  ): Promise<ProjectRevisionDiffDto> {
+    return this.projectRevisionsService.diff(id, query.from, query.to);
+  }
+
+  @RequirePermissions(PermissionNames.PROJECTS_WRITE)
+  @Get(':id/revisions/:version')
+  @ApiOperation({ summary: 'Get one revision of a project' })
+  @ApiParam({ name: 'id', description: 'UUID of the project', type: String })
+  @ApiParam({ name: 'version', description: 'Version number', type: Number })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The revision.',
+    type: ProjectRevisionResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Project or revision not found.',
+  })
+  async findRevision(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('version', ParseIntPipe) version: number,
+  ): Promise<ProjectRevisionResponseDto> {
+    return new ProjectRevisionResponseDto(
+      await this.projectRevisionsService.findOne(id, version),
+    );
+  }
+
+  @RequirePermissions(PermissionNames.PROJECTS_WRITE)
+  @Post(':id/revisions/:version/restore')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Restore an earlier revision of a project',
+    description:
+      'Media of the revision that no longer exist in S3 are skipped and listed in `missingMedia`.',
+  })
+  @ApiParam({ name: 'id', description: 'UUID of the project', type: String })
+  @ApiParam({
+    name: 'version',
+    description: 'Version to restore',
+    type: Number,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The restored project and the revision the restore created.',
+    type: RestoredProjectResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Project or revision not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: "Another project now uses the revision's name.",
+  })
+  async restoreRevision(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('version', ParseIntPipe) version: number,
+    @CurrentUser('id') userId: string,
+  ): Promise<RestoredProjectResponseDto> {
+    return new RestoredProjectResponseDto(
+      await this.projectRevisionsService.restore(id, version, userId),
+    );
+  }
+
+  @RequirePermissions(PermissionNames.PROJECTS_WRITE)
+  @Patch(':id/media/order')
+  @ApiOperation({
+    summary: 'Reorder the images of a project',
+    description:
+      'Lists every image of the project once, in the new order. Records a new revision.',
+  })
+  @ApiParam({ name: 'id', description: 'UUID of the project', type: String })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The gallery in its new order.',
+    type: [ProjectMediaResponseDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'mediaIds is not exactly the list of images of the project.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Project not found.',
+  })
+  async reorderMedia(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() reorderProjectMediaDto: ReorderProjectMediaDto,
+    @CurrentUser('id') userId: string,
+  ): Promise<ProjectMediaResponseDto[]> {
+    const gallery = await this.projectMediaService.reorder(
+      id,
+      reorderProjectMediaDto.mediaIds,
+      userId,
+    );
+    return gallery.map((media) => new ProjectMediaResponseDto(media));
+  }
+
+  @RequirePermissions(PermissionNames.PROJECTS_WRITE)
+  @Post(':id/media/:mediaId/cover')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Make an image the cover of its project' })
+  @ApiParam({ name: 'id', description: 'UUID of the project', type: String })
+  @ApiParam({ name: 'mediaId', description: 'UUID of the image', type: String })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The gallery with its new cover.',
+    type: [ProjectMediaResponseDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Project or image not found.',
+  })
+  async setCoverMedia(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('mediaId', ParseUUIDPipe) mediaId: string,
+  ): Promise<ProjectMediaResponseDto[]> {
+    const gallery = await this.projectMediaService.setCover(id, mediaId);
+    return gallery.map((media) => new ProjectMediaResponseDto(media));
+  }
+
+  @RequirePermissions(PermissionNames.PROJECTS_WRITE)
+  @Patch(':id/media/:mediaId')
+  @ApiOperation({
+    summary: 'Edit the alt text, caption or dimensions of an image',
+    description:
+      'Translations missing from `altText` are kept; an empty string removes one.',
+  })
+  @ApiParam({ name: 'id', description: 'UUID of the project', type: String })
+  @ApiParam({ name: 'mediaId', description: 'UUID of the image', type: String })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The updated image.',
+    type: ProjectMediaResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Project or image not found.',
+  })
+  async updateMedia(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('mediaId', ParseUUIDPipe) mediaId: string,
+    @Body() updateProjectMediaDto: UpdateProjectMediaDto,
+  ): Promise<ProjectMediaResponseDto> {
+    return new ProjectMediaResponseDto(
+      await this.projectMediaService.updateMetadata(
+        id,
+        mediaId,
+        updateProjectMediaDto,
+      ),
+    );
+  }
+
+  @RequirePermissions(PermissionNames.PROJECTS_WRITE)
   @Delete(':id')
   @HttpCode(HttpStatus.NO_CONTENT)
-  @ApiOperation({ summary: 'Delete a project by ID' })
+  @ApiOperation({
+    summary: 'Move a project to the trash',
+    description:
+      'The project and its media are kept until they are purged from the trash.',
+  })
   @ApiParam({
     name: 'id',
     description: 'UUID of the project to delete',
@@ -434,7 +808,7 @@ export class ProjectsController {
   })
   @ApiResponse({
     status: HttpStatus.NO_CONTENT,
-    description: 'Project successfully deleted.',
+    description: 'Project moved to the trash.',
   })
   @ApiResponse({
     status: HttpStatus.NOT_FOUND,
@@ -449,4 +823,12 @@ export class ProjectsController {
   ): Promise<{ success: boolean; message: string }> {
     return this.projectsService.remove(id);
   }
+
+  // Staff (anyone allowed to edit projects) can preview unpublished projects
+  private async canPreview(request: RequestWithRole): Promise<boolean> {
+    const role = await this.accessControlService.getRole(request);
+    return this.accessControlService.hasPermissions(role, [
+      PermissionNames.PROJECTS_WRITE,
+    ]);
+  }
 }
@@ -1,23 +1,34 @@
 import { Module } from '@nestjs/common';
 import { ProjectsService } from './projects.service';
 import { ProjectsController } from './projects.controller';
+import { ProjectRevisionsService } from './project-revisions.service';
+import { ProjectMediaService } from './project-media.service';
+import { ImageVariantsService } from './image-variants.service';
 import { DatabaseErrorService } from 'src/common/services/database-error.service';
 import { PrismaModule } from 'src/prisma/prisma.module';
-import { S3Service } from 'src/common/services/aws-s3.service';
-import { JwtAuthGuard } from 'src/auth/jwt-auth.guard';
-import { APP_GUARD } from '@nestjs/core';
+import { CategoriesModule } from 'src/categories/categories.module';
+import { TechnologiesModule } from 'src/technologies/technologies.module';
+import { UploadsModule } from 'src/uploads/uploads.module';
+import { StorageModule } from 'src/storage/storage.module';
+import { AccessControlService } from 'src/auth/access-control.service';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [
+    PrismaModule,
+    CategoriesModule,
+    TechnologiesModule,
+    UploadsModule,
+    StorageModule,
+  ],
   controllers: [ProjectsController],
   providers: [
     ProjectsService,
-    S3Service,
+    ProjectRevisionsService,
+    ProjectMediaService,
+    ImageVariantsService,
     DatabaseErrorService,
-    {
-      provide: APP_GUARD, // para proteger las rutas de los productos
-      useClass: JwtAuthGuard, // pero parece que no es necesario
-    },
+    AccessControlService,
   ],
+  exports: [ProjectsService],
 })
 export class ProjectsModule {}
@@ -1,12 +1,96 @@
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma, PublicationStatus } from '@prisma/client';
 import { ProjectsService } from './projects.service';
+import { ProjectRevisionsService } from './project-revisions.service';
+import { ImageVariantsService } from './image-variants.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { DatabaseErrorService } from 'src/common/services/database-error.service';
+import { CategoriesService } from 'src/categories/categories.service';
+import { TechnologiesService } from 'src/technologies/technologies.service';
+import { UploadsService } from 'src/uploads/uploads.service';
+import { STORAGE_DRIVER } from 'src/storage/storage-driver.interface';
+import { SearchLanguage } from './dto/search-projects-query.dto';
+import { SortOrder } from 'src/common/dto/pagination-query.dto';
+import { technologyNameWhere } from 'src/utils/technology-name-utils';
 
 describe('ProjectsService', () => {
   let service: ProjectsService;
+  const prismaService = {
+    $transaction: jest.fn(),
+    $queryRaw: jest.fn(),
+    project: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      update: jest.fn(),
+    },
+    projectMedia: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      update: jest.fn(),
+      create: jest.fn(),
+    },
+  };
+  const storageDriver = {
+    put: jest.fn(),
+    getKeyFromUrl: jest.fn(),
+  };
+  const uploadsService = { findCompleted: jest.fn(), consume: jest.fn() };
+  const technologiesService = { resolve: jest.fn() };
+  const projectRevisionsService = { record: jest.fn() };
+  const imageVariantsService = { generate: jest.fn() };
+  const categoriesService = { findSubtreeIds: jest.fn() };
+
+  const media = (key: string, overrides: object = {}) => ({
+    id: key,
+    key,
+    position: 0,
+    isCover: false,
+    altText: {},
+    caption: null,
+    ...overrides,
+  });
+  const project = {
+    id: 'project',
+    name: 'Portfolio',
+    video: 'projects/videos/demo.mp4',
+    categoryId: 'category',
+    media: ['a', 'b', 'c', 'd', 'e', 'f'].map((name) =>
+      media(`projects/images/${name}.png`, { isCover: name === 'a' }),
+    ),
+  };
+  const imageUrls = project.media.map(({ key }) => `https://cdn/${key}`);
 
   beforeEach(async () => {
+    jest.resetAllMocks();
+    prismaService.$transaction.mockImplementation(
+      (arg: unknown[] | ((tx: typeof prismaService) => unknown)) =>
+        Array.isArray(arg) ? Promise.all(arg) : arg(prismaService),
+    );
+    prismaService.project.findFirst.mockResolvedValue(project);
+    prismaService.project.update.mockResolvedValue(project);
+    prismaService.projectMedia.findMany.mockResolvedValue(project.media);
+    uploadsService.findCompleted.mockResolvedValue([]);
+    storageDriver.getKeyFromUrl.mockImplementation((url: string) =>
+      url.replace('https://cdn/', ''),
+    );
     const module: TestingModule = await Test.createTestingModule({
-      providers: [ProjectsService],
+      providers: [
+        ProjectsService,
+        DatabaseErrorService,
+        { provide: PrismaService, useValue: prismaService },
+        { provide: STORAGE_DRIVER, useValue: storageDriver },
+        { provide: ProjectRevisionsService, useValue: projectRevisionsService },
+        { provide: CategoriesService, useValue: categoriesService },
+        { provide: TechnologiesService, useValue: technologiesService },
+        { provide: ImageVariantsService, useValue: imageVariantsService },
+        { provide: UploadsService, useValue: uploadsService },
+      ],
     }).compile();
 
     service = module.get<ProjectsService>(ProjectsService);
@@ -15,4 +99,392 @@ describe('ProjectsService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('findAll', () => {
+    beforeEach(() => {
+      prismaService.project.findMany.mockResolvedValue([]);
+      prismaService.project.count.mockResolvedValue(0);
+    });
+
+    it('combines the filters of the query', async () => {
+      categoriesService.findSubtreeIds.mockResolvedValue(['web', 'web-shop']);
+      const completedFrom = new Date('2024-01-01');
+
+      await service.findAll(
+        {
+          categoryId: 'web',
+          technology: 'NestJS',
+          minPrice: 500,
+          completedFrom,
+          sortBy: 'price',
+          sortOrder: SortOrder.ASC,
+        },
+        false,
+      );
+
+      const where = expect.objectContaining({
+        deletedAt: null,
+        AND: [],
+        categoryId: { in: ['web', 'web-shop'] },
+        technologies: { some: technologyNameWhere('NestJS') },
+        price: { gte: 500, lte: undefined },
+        completionDate: { gte: completedFrom, lte: undefined },
+      }) as object;
+      expect(prismaService.project.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where,
+          orderBy: [{ price: SortOrder.ASC }, { id: SortOrder.ASC }],
+        }),
+      );
+      expect(prismaService.project.count).toHaveBeenCalledWith({ where });
+    });
+
+    it('leaves out the filters that are not set', async () => {
+      await service.findAll({}, false);
+
+      const [[{ where }]] = prismaService.project.findMany.mock.calls as [
+        [{ where: Record<string, unknown> }],
+      ];
+      expect(where).toEqual({
+        deletedAt: null,
+        AND: [],
+        publicationStatus: undefined,
+        categoryId: undefined,
+        status: undefined,
+        technologies: undefined,
+        price: undefined,
+        completionDate: undefined,
+      });
+      expect(categoriesService.findSubtreeIds).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('publication', () => {
+    const NOW = new Date('2025-06-01T12:00:00Z');
+    const published = {
+      publicationStatus: PublicationStatus.PUBLISHED,
+      publishedAt: { lte: NOW },
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: NOW });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('hides drafts and scheduled projects from the public', async () => {
+      prismaService.project.findFirst.mockResolvedValue(null);
+
+      await expect(service.findOne('project', true)).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(prismaService.project.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'project', deletedAt: null, ...published },
+        }),
+      );
+    });
+
+    it('lists only visible projects unless staff asks for all of them', async () => {
+      prismaService.project.findMany.mockResolvedValue([]);
+      prismaService.project.count.mockResolvedValue(0);
+
+      await service.findAll({});
+      await service.findAll({}, false);
+
+      const [[publicList], [staffList]] = prismaService.project.findMany.mock
+        .calls as [
+        [{ where: { AND: unknown[] } }],
+        [{ where: { AND: unknown[] } }],
+      ];
+      expect(publicList.where.AND).toEqual([published]);
+      expect(staffList.where.AND).toEqual([]);
+    });
+
+    it('publishes right away by default', async () => {
+      await service.updatePublication('project', {
+        status: PublicationStatus.PUBLISHED,
+      });
+
+      expect(prismaService.project.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            publicationStatus: PublicationStatus.PUBLISHED,
+            publishedAt: NOW,
+          },
+        }),
+      );
+    });
+
+    it('schedules the project for a future publication date', async () => {
+      const publishedAt = new Date('2025-07-01T09:00:00Z');
+
+      await service.updatePublication('project', {
+        status: PublicationStatus.PUBLISHED,
+        publishedAt,
+      });
+
+      expect(prismaService.project.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { publicationStatus: PublicationStatus.PUBLISHED, publishedAt },
+        }),
+      );
+    });
+
+    it('keeps the publication date when archiving and clears it for drafts', async () => {
+      const publishedAt = new Date('2025-01-01T00:00:00Z');
+      prismaService.project.findFirst.mockResolvedValue({
+        ...project,
+        publicationStatus: PublicationStatus.PUBLISHED,
+        publishedAt,
+      });
+
+      await service.updatePublication('project', {
+        status: PublicationStatus.ARCHIVED,
+      });
+      await service.updatePublication('project', {
+        status: PublicationStatus.DRAFT,
+      });
+
+      const updates = prismaService.project.update.mock.calls.map(
+        ([{ data }]: [{ data: unknown }]) => data,
+      );
+      expect(updates).toEqual([
+        { publicationStatus: PublicationStatus.ARCHIVED, publishedAt },
+        { publicationStatus: PublicationStatus.DRAFT, publishedAt: null },
+      ]);
+    });
+
+    it('refuses a publication date for other states', async () => {
+      await expect(
+        service.updatePublication('project', {
+          status: PublicationStatus.IN_REVIEW,
+          publishedAt: NOW,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prismaService.project.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('search', () => {
+    // Rebuilds the statement of each $queryRaw call, nested fragments included
+    const queries = () =>
+      prismaService.$queryRaw.mock.calls.map(
+        ([strings, ...values]: [TemplateStringsArray, ...unknown[]]) =>
+          Prisma.sql(strings, ...values),
+      );
+    const matchesOf = (...ids: string[]) =>
+      ids.map((id, index) => ({
+        id,
+        rank: 1 / (index + 1),
+        highlight: `\u0002${id}\u0003`,
+      }));
+
+    beforeEach(() => {
+      prismaService.$queryRaw
+        .mockResolvedValueOnce(matchesOf('b', 'a'))
+        .mockResolvedValueOnce([{ total: 2 }]);
+      prismaService.project.findMany.mockResolvedValue([
+        { id: 'a', name: 'A' },
+        { id: 'b', name: 'B' },
+      ]);
+    });
+
+    it('keeps the relevance order of the matches', async () => {
+      const result = await service.search({ q: 'react' } as never);
+
+      expect(result).toEqual({
+        items: [
+          { id: 'b', name: 'B', rank: 1, highlight: '<mark>b</mark>' },
+          { id: 'a', name: 'A', rank: 0.5, highlight: '<mark>a</mark>' },
+        ],
+        total: 2,
+        nextCursor: null,
+      });
+      expect(queries()[0].sql).toContain('ORDER BY "rank" DESC');
+    });
+
+    it('escapes the project text around the highlighted matches', async () => {
+      prismaService.$queryRaw.mockReset();
+      prismaService.$queryRaw
+        .mockResolvedValueOnce([
+          {
+            id: 'a',
+            rank: 1,
+            highlight: `\u0002React\u0003 <img src=x onerror="alert('x')"> & co`,
+          },
+        ])
+        .mockResolvedValueOnce([{ total: 1 }]);
+
+      const { items } = await service.search({ q: 'react' } as never);
+
+      expect(items[0].highlight).toBe(
+        '<mark>React</mark> &lt;img src=x onerror=&quot;alert(&#39;x&#39;)&quot;&gt; &amp; co',
+      );
+    });
+
+    it('restricts the public search to published projects', async () => {
+      await service.search({ q: 'react' } as never);
+
+      for (const query of queries()) {
+        expect(query.sql).toContain(`p."publicationStatus" = 'PUBLISHED'`);
+        expect(query.sql).toContain('p."deletedAt" IS NULL');
+      }
+    });
+
+    it('searches every publication status for the admin', async () => {
+      await service.search({ q: 'react' } as never, false);
+
+      for (const query of queries()) {
+        expect(query.sql).not.toContain('publicationStatus');
+      }
+    });
+
+    it('stems with both languages unless one is requested', async () => {
+      await service.search({ q: 'react' } as never);
+      expect(queries()[1].values).toEqual([
+        SearchLanguage.SPANISH,
+        'react',
+        SearchLanguage.ENGLISH,
+        'react',
+      ]);
+
+      prismaService.$queryRaw.mockClear();
+      prismaService.$queryRaw
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ total: 0 }]);
+      await service.search({
+        q: 'react',
+        language: SearchLanguage.ENGLISH,
+        limit: 5,
+        offset: 10,
+      } as never);
+      expect(queries()[1].values).toEqual([SearchLanguage.ENGLISH, 'react']);
+      expect(queries()[0].values.slice(-2)).toEqual([5, 10]);
+    });
+  });
+
+  describe('restore', () => {
+    const trashed = {
+      ...project,
+      deletedAt: new Date(),
+      category: { id: 'category', deletedAt: null as Date | null },
+    };
+
+    it('takes the project out of the trash', async () => {
+      prismaService.project.findFirst.mockResolvedValue(trashed);
+
+      await service.restore('project');
+
+      expect(prismaService.project.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'project' },
+          data: { deletedAt: null },
+        }),
+      );
+    });
+
+    it('refuses to restore a project whose category is in the trash', async () => {
+      prismaService.project.findFirst.mockResolvedValue({
+        ...trashed,
+        category: { ...trashed.category, deletedAt: new Date() },
+      });
+
+      await expect(service.restore('project')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(prismaService.project.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('writes only project columns and relations', async () => {
+      technologiesService.resolve.mockResolvedValue([{ id: 'nest' }]);
+
+      await service.update(
+        'project',
+        {
+          name: 'Portfolio v2',
+          weeksWorked: '6',
+          categoryId: 'other-category',
+          technologies: ['NestJS'],
+          existingImages: imageUrls,
+          existingVideo: 'https://cdn/projects/videos/demo.mp4',
+          imageUploadIds: [],
+        } as never,
+        [],
+        undefined,
+        'author',
+      );
+
+      expect(prismaService.project.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'project' },
+          data: {
+            name: 'Portfolio v2',
+            weeksWorked: 6,
+            category: { connect: { id: 'other-category' } },
+            technologies: { set: [{ id: 'nest' }] },
+          },
+        }),
+      );
+      expect(projectRevisionsService.record).toHaveBeenCalledWith(
+        prismaService,
+        project,
+        'author',
+      );
+    });
+
+    it('keeps the gallery when existingImages is absent', async () => {
+      await service.update('project', { name: 'Portfolio v2' } as never);
+
+      expect(prismaService.projectMedia.deleteMany).not.toHaveBeenCalled();
+      expect(prismaService.projectMedia.create).not.toHaveBeenCalled();
+      expect(prismaService.project.update).toHaveBeenCalled();
+    });
+
+    it('drops the images left out of existingImages', async () => {
+      await service.update('project', {
+        existingImages: [...imageUrls.slice(1), 'https://cdn/unknown.png'],
+      } as never);
+
+      expect(prismaService.projectMedia.deleteMany).toHaveBeenCalledWith({
+        where: {
+          projectId: 'project',
+          key: { notIn: project.media.slice(1).map(({ key }) => key) },
+        },
+      });
+    });
+
+    it('counts the current gallery when only new images are sent', async () => {
+      uploadsService.findCompleted.mockImplementation((ids: string[]) =>
+        ids.map((id) => ({ id, key: `projects/images/${id}.png` })),
+      );
+
+      await expect(
+        service.update('project', {
+          imageUploadIds: Array.from({ length: 7 }, (_, i) => `upload-${i}`),
+        } as never),
+      ).rejects.toThrow('No more than 12 images are allowed.');
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('refuses a gallery left with fewer than 5 images', async () => {
+      await expect(
+        service.update('project', {
+          existingImages: imageUrls.slice(0, 4),
+        } as never),
+      ).rejects.toThrow('At least 5 images are required');
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('refuses to remove the video without a replacement', async () => {
+      await expect(
+        service.update('project', { existingVideo: null } as never),
+      ).rejects.toThrow(BadRequestException);
+      expect(prismaService.project.update).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,11 +1,93 @@
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
 import { CreateProjectDto } from './dto/create-project.dto';
 import { UpdateProjectDto } from './dto/update-project.dto';
+import {
+  ListProjectsQueryDto,
+  ProjectSortField,
+} from './dto/list-projects-query.dto';
+import {
+  SearchLanguage,
+  SearchProjectsQueryDto,
+} from './dto/search-projects-query.dto';
+import { UpdatePublicationDto } from './dto/update-publication.dto';
+import { ProjectRevisionsService } from './project-revisions.service';
+import { publishedProjectsWhere } from './project-visibility';
+import {
+  PROJECT_INCLUDE,
+  ProjectMediaWithUrls,
+  ProjectWithRelations,
+} from './project-relations';
+import {
+  ImageVariantData,
+  ImageVariantsService,
+} from './image-variants.service';
+import { GalleryImage, syncGallery } from './project-gallery';
+import { CategoriesService } from 'src/categories/categories.service';
+import { TechnologiesService } from 'src/technologies/technologies.service';
+import { technologyNameWhere } from 'src/utils/technology-name-utils';
 import { PrismaService } from 'src/prisma/prisma.service';
-import { Project } from '@prisma/client';
-import { S3Service } from 'src/common/services/aws-s3.service';
+import { UploadsService } from 'src/uploads/uploads.service';
+import {
+  Category,
+  Prisma,
+  Project,
+  PublicationStatus,
+  Technology,
+  Upload,
+  UploadPurpose,
+} from '@prisma/client';
+import {
+  STORAGE_DRIVER,
+  StorageDriver,
+} from 'src/storage/storage-driver.interface';
 import { DatabaseErrorService } from 'src/common/services/database-error.service';
 import { sanitizeFilename } from 'src/utils/sanitize-filenames-utils';
+import { readImageDimensions } from 'src/utils/image-dimensions-utils';
+import { buildPaginationArgs, toPaginated } from 'src/utils/pagination-utils';
+import { Paginated } from 'src/common/dto/paginated-response.dto';
+import { DEFAULT_PAGE_SIZE } from 'src/common/dto/pagination-query.dto';
+import { TrashQueryDto, TrashSortField } from 'src/common/dto/trash-query.dto';
+
+export type ProjectSearchResult = Project & {
+  category: Category;
+  technologies: Technology[];
+  rank: number;
+  highlight: string;
+};
+
+// ts_headline wraps the matches in these control characters, which are
+// stripped from the text first, and toHighlight turns them into <mark> once
+// the rest of the snippet is escaped
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+const HEADLINE_OPTIONS = `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MaxFragments=2, MaxWords=35, MinWords=15`;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+/**
+ * Turns a ts_headline snippet into HTML: the project text is escaped and only
+ * the matches are wrapped in <mark>.
+ */
+function toHighlight(headline: string): string {
+  return headline
+    .replace(/[&<>"']/g, (char) => HTML_ESCAPES[char])
+    .replaceAll(MATCH_START, '<mark>')
+    .replaceAll(MATCH_END, '</mark>');
+}
 
 @Injectable()
 export class ProjectsService {
@@ -13,64 +95,136 @@ export class ProjectsService {
 
   constructor(
     private readonly prismaService: PrismaService,
-    private readonly s3Service: S3Service,
+    @Inject(STORAGE_DRIVER) private readonly storageDriver: StorageDriver,
     private readonly dbErrorService: DatabaseErrorService,
+    private readonly projectRevisionsService: ProjectRevisionsService,
+    private readonly categoriesService: CategoriesService,
+    private readonly technologiesService: TechnologiesService,
+    private readonly imageVariantsService: ImageVariantsService,
+    private readonly uploadsService: UploadsService,
   ) {}
 
   /**
-   * Creates a new project, uploads associated images and video to S3,
-   * and saves the project details (including S3 keys) to the database.
+   * Creates a new project, uploads associated images and video to storage,
+   * and saves the project details (including storage keys) to the database.
+   * Images and the video can also come from finished upload intents
+   * (`imageUploadIds`, `videoUploadId`), whose files are already in S3.
    *
    * @param createProjectDto - Data Transfer Object containing project details (name, description, etc.).
    * @param images - An array of image files (Express.Multer.File) to be uploaded.
-   * @param video - A single video file (Express.Multer.File) to be uploaded.
+   * @param video - A single video file (Express.Multer.File) to be uploaded, unless `videoUploadId` is given.
+   * @param authorId - The user creating the project, recorded in its first revision.
    * @returns A Promise resolving to the newly created Project object.
+   * @throws {BadRequestException} If an upload intent can't be used (missing, used or incomplete).
    * @throws {InternalServerErrorException} If there's an issue during file upload or database operation.
-   * @throws {BadRequestException} If a unique constraint (e.g., project name) is violated.
+   * @throws {ConflictException} If a unique constraint (e.g., project name) is violated.
    */
   async create(
     createProjectDto: CreateProjectDto,
     images: Express.Multer.File[],
-    video: Express.Multer.File,
+    video: Express.Multer.File | undefined,
+    authorId?: string,
   ): Promise<Project> {
+    const {
+      technologies,
+      imageUploadIds = [],
+      videoUploadId,
+      ...projectFields
+    } = createProjectDto;
+    // Files the client sent straight to S3
+    const imageUploads = await this.uploadsService.findCompleted(
+      imageUploadIds,
+      UploadPurpose.PROJECT_IMAGE,
+      authorId,
+    );
+    const [videoUpload] = await this.uploadsService.findCompleted(
+      videoUploadId ? [videoUploadId] : [],
+      UploadPurpose.PROJECT_VIDEO,
+      authorId,
+    );
+
     try {
       // --- Sanitize filenames before generating keys ---
       const sanitizedImageFilenames = images.map((image) =>
         sanitizeFilename(image.originalname),
       );
-      const sanitizedVideoFilename = sanitizeFilename(video.originalname);
 
-      // Generate S3 keys using sanitized filenames
+      // Generate storage keys using sanitized filenames
       const imageKeys = sanitizedImageFilenames.map(
         (safeName) => `projects/images/${Date.now()}-${safeName}`,
       );
-      const videoKey = `projects/videos/${Date.now()}-${sanitizedVideoFilename}`;
 
-      // Upload images to S3 using the generated keys
+      // Upload images to storage using the generated keys
       await Promise.all(
         images.map((image, index) =>
-          this.s3Service.uploadFileToS3(image, imageKeys[index]),
+          this.storageDriver.put(
+            imageKeys[index],
+            image.buffer,
+            image.mimetype,
+          ),
         ),
       );
-
-      // Upload video to S3
-      await this.s3Service.uploadFileToS3(video, videoKey);
+      const gallery: GalleryImage[] = [
+        ...(await this.describeImages(
+          images.map((image, index) => ({
+            key: imageKeys[index],
+            buffer: image.buffer,
+          })),
+        )),
+        ...(await this.describeUploadedImages(imageUploads)),
+      ];
+
+      // Upload video to storage
+      let videoKey = videoUpload?.key;
+      if (!videoKey) {
+        videoKey = `projects/videos/${Date.now()}-${sanitizeFilename(video!.originalname)}`;
+        await this.storageDriver.put(videoKey, video!.buffer, video!.mimetype);
+      }
 
       // Convert weeksWorked to integer
       const projectData = {
-        ...createProjectDto,
+        ...projectFields,
         weeksWorked: createProjectDto.weeksWorked
           ? parseInt(createProjectDto.weeksWorked.toString(), 10)
           : 0,
-        // Store only the S3 keys, not the presigned URLs
-        images: imageKeys,
         video: videoKey,
       };
 
-      return await this.prismaService.project.create({
-        data: projectData,
+      return await this.prismaService.$transaction(async (tx) => {
+        const catalogTechnologies = await this.technologiesService.resolve(
+          technologies,
+          tx,
+        );
+        await this.uploadsService.consume(tx, [
+          ...imageUploadIds,
+          ...(videoUploadId ? [videoUploadId] : []),
+        ]);
+        const project = await tx.project.create({
+          data: {
+            ...projectData,
+            technologies: {
+              connect: catalogTechnologies.map(({ id }) => ({ id })),
+            },
+            // Store only the storage keys, not the signed URLs. The first image is the cover
+            media: {
+              create: gallery.map((image, position) => ({
+                key: image.key,
+                position,
+                isCover: position === 0,
+                ...image.dimensions,
+                variants: { create: image.variants ?? [] },
+              })),
+            },
+          },
+          include: PROJECT_INCLUDE,
+        });
+        await this.projectRevisionsService.record(tx, project, authorId);
+        return project;
       });
     } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
       this.dbErrorService.handleUniqueConstraintError(
         error,
         'Project',
@@ -81,16 +235,51 @@ export class ProjectsService {
   }
 
   /**
-   * Retrieves all projects from the database, including their associated category details.
+   * Retrieves a page of projects, including their associated category details.
    *
-   * @returns A Promise resolving to an array of Project objects.
+   * @param query - Pagination, sorting and filters (category, status, technology,
+   * price range, completion date range and publication state). The category
+   * filter also matches the projects of its subcategories.
+   * @param publishedOnly - Restrict the list to projects visible to the public.
+   * @returns A Promise resolving to the page of projects, the total number of
+   * matching projects and the cursor of the next page.
    * @throws {InternalServerErrorException} If a database error occurs during fetching.
    */
-  async findAll(): Promise<Project[]> {
+  async findAll(
+    query: ListProjectsQueryDto,
+    publishedOnly = true,
+  ): Promise<Paginated<Project>> {
+    const where: Prisma.ProjectWhereInput = {
+      deletedAt: null,
+      AND: publishedOnly ? [publishedProjectsWhere()] : [],
+      publicationStatus: query.publicationStatus,
+      categoryId: query.categoryId
+        ? { in: await this.categoriesService.findSubtreeIds(query.categoryId) }
+        : undefined,
+      status: query.status,
+      technologies: query.technology
+        ? { some: technologyNameWhere(query.technology) }
+        : undefined,
+      price:
+        query.minPrice !== undefined || query.maxPrice !== undefined
+          ? { gte: query.minPrice, lte: query.maxPrice }
+          : undefined,
+      completionDate:
+        query.completedFrom || query.completedTo
+          ? { gte: query.completedFrom, lte: query.completedTo }
+          : undefined,
+    };
+
     try {
-      return await this.prismaService.project.findMany({
-        include: { category: true },
-      });
+      const [rows, total] = await this.prismaService.$transaction([
+        this.prismaService.project.findMany({
+          where,
+          include: PROJECT_INCLUDE,
+          ...buildPaginationArgs<ProjectSortField>(query, 'createdAt'),
+        }),
+        this.prismaService.project.count({ where }),
+      ]);
+      return toPaginated(rows, total, query);
     } catch (error) {
       this.dbErrorService.handleDatabaseError(
         error,
@@ -99,19 +288,109 @@ export class ProjectsService {
     }
   }
 
+  /**
+   * Full-text search over the name, description, technologies and category
+   * name of the projects, using the trigger-maintained `searchVector` column.
+   *
+   * @param query - Search terms, optional stemming language, limit and offset.
+   * @param publishedOnly - Restrict the results to projects visible to the public.
+   * @returns A Promise resolving to the page of projects ordered by relevance,
+   * each with its `rank` and an HTML-escaped `highlight` snippet, and the total number of matches.
+   * @throws {InternalServerErrorException} If a database error occurs during the search.
+   */
+  async search(
+    query: SearchProjectsQueryDto,
+    publishedOnly = true,
+  ): Promise<Paginated<ProjectSearchResult>> {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+    const languages = query.language
+      ? [query.language]
+      : [SearchLanguage.SPANISH, SearchLanguage.ENGLISH];
+    const tsQuery = Prisma.join(
+      languages.map(
+        (language) =>
+          Prisma.sql`websearch_to_tsquery(${language}::regconfig, ${query.q})`,
+      ),
+      ' || ',
+    );
+    // Highlight with the language whose stemming matches the text
+    const highlightConfig = query.language
+      ? Prisma.sql`${query.language}::regconfig`
+      : Prisma.sql`CASE WHEN to_tsvector('spanish', d.document) @@ websearch_to_tsquery('spanish', ${query.q})
+          THEN 'spanish'::regconfig ELSE 'english'::regconfig END`;
+    const visibility = publishedOnly
+      ? Prisma.sql`AND p."publicationStatus" = 'PUBLISHED' AND p."publishedAt" <= now()`
+      : Prisma.empty;
+
+    try {
+      const [matches, [{ total }]] = await this.prismaService.$transaction([
+        this.prismaService.$queryRaw<
+          { id: string; rank: number; highlight: string }[]
+        >`
+          SELECT p."id",
+                 ts_rank_cd(p."searchVector", q.query) AS "rank",
+                 ts_headline(h.config, d.document,
+                             websearch_to_tsquery(h.config, ${query.q}),
+                             ${HEADLINE_OPTIONS}) AS "highlight"
+          FROM "Project" p
+          CROSS JOIN (SELECT ${tsQuery} AS query) q
+          CROSS JOIN LATERAL (SELECT translate(concat_ws(' - ', p."name", p."description"),
+                                               ${MATCH_START + MATCH_END}, '') AS document) d
+          CROSS JOIN LATERAL (SELECT ${highlightConfig} AS config) h
+          WHERE p."searchVector" @@ q.query AND p."deletedAt" IS NULL ${visibility}
+          ORDER BY "rank" DESC, p."id"
+          LIMIT ${limit} OFFSET ${query.offset ?? 0}`,
+        this.prismaService.$queryRaw<{ total: number }[]>`
+          SELECT count(*)::int AS "total"
+          FROM "Project" p
+          WHERE p."searchVector" @@ (${tsQuery}) AND p."deletedAt" IS NULL ${visibility}`,
+      ]);
+
+      const projects = await this.prismaService.project.findMany({
+        where: { id: { in: matches.map((match) => match.id) } },
+        include: PROJECT_INCLUDE,
+      });
+      const projectsById = new Map(
+        projects.map((project) => [project.id, project]),
+      );
+      const items = matches.flatMap((match) => {
+        const project = projectsById.get(match.id);
+        return project
+          ? [{ ...project, ...match, highlight: toHighlight(match.highlight) }]
+          : [];
+      });
+
+      // Ranked results are paged by offset, there is no cursor
+      return { items, total, nextCursor: null };
+    } catch (error) {
+      this.dbErrorService.handleDatabaseError(
+        error,
+        'Failed to search projects',
+      );
+    }
+  }
+
   /**
    * Retrieves a single project by its unique ID, including its associated category.
    *
    * @param id - The UUID string of the project to find.
+   * @param publishedOnly - Treat projects not visible to the public as missing.
    * @returns A Promise resolving to the found Project object.
    * @throws {NotFoundException} If no project with the specified ID exists.
    * @throws {InternalServerErrorException} If a database error occurs during fetching.
    */
-  async findOne(id: string): Promise<Project> {
+  async findOne(
+    id: string,
+    publishedOnly = false,
+  ): Promise<ProjectWithRelations> {
     try {
-      const projectFound = await this.prismaService.project.findUnique({
-        where: { id },
-        include: { category: true },
+      const projectFound = await this.prismaService.project.findFirst({
+        where: {
+          id,
+          deletedAt: null,
+          ...(publishedOnly ? publishedProjectsWhere() : {}),
+        },
+        include: PROJECT_INCLUDE,
       });
       if (!projectFound) {
         throw new NotFoundException(`Project with ID ${id} not found`);
@@ -129,50 +408,128 @@ export class ProjectsService {
   }
 
   /**
-   * Retrieves a single project by ID and enhances it with pre-signed S3 URLs
+   * Retrieves a single project by ID and enhances it with signed URLs
    * for its associated images and video, allowing temporary public access.
    *
    * @param id - The UUID string of the project.
+   * @param publishedOnly - Treat projects not visible to the public as missing.
    * @returns A Promise resolving to an object containing the project data
-   * along with `imageUrls` (array of strings) and `videoUrl` (string or null).
+   * with a `url`, variant `sources` and a `thumbnailUrl` on each gallery
+   * image, along with `imageUrls` (array of
+   * strings, in gallery order) and `videoUrl` (string or null).
    * @throws {NotFoundException} If the project with the specified ID doesn't exist.
    * @throws {InternalServerErrorException} If there's an error fetching the project or generating URLs.
    */
-  async getProjectWithPresignedUrls(id: string): Promise<any> {
-    const project = await this.findOne(id);
+  async getProjectWithPresignedUrls(
+    id: string,
+    publishedOnly = false,
+  ): Promise<
+    ProjectWithRelations & {
+      media: ProjectMediaWithUrls[];
+      imageUrls: string[];
+      videoUrl: string | null;
+    }
+  > {
+    const project = await this.findOne(id, publishedOnly);
 
     // Generate presigned URLs for images
     const imageUrls = await Promise.all(
-      project.images.map((imageKey) =>
-        this.s3Service.getPresignedUrl(imageKey),
-      ),
+      project.media.map((media) => this.storageDriver.getSignedUrl(media.key)),
     );
 
     // Generate presigned URL for video
     const videoUrl = project.video
-      ? await this.s3Service.getPresignedUrl(project.video)
+      ? await this.storageDriver.getSignedUrl(project.video)
       : null;
 
+    // srcsets of the resized variants
+    const variantUrls = await Promise.all(
+      project.media.map((media) =>
+        this.imageVariantsService.getUrls(media.variants),
+      ),
+    );
+
     return {
       ...project,
+      media: project.media.map((media, index) => ({
+        ...media,
+        ...variantUrls[index],
+        url: imageUrls[index],
+      })),
       imageUrls,
       videoUrl,
     };
   }
 
+  /**
+   * Moves a project through the publication workflow (draft, in review,
+   * published, archived). Publishing with a future `publishedAt` schedules
+   * the project: it stays hidden from the public until that date.
+   *
+   * @param id - The UUID string of the project.
+   * @param updatePublicationDto - The new state and, for PUBLISHED, the publication date.
+   * @returns A Promise resolving to the updated Project object.
+   * @throws {BadRequestException} If `publishedAt` is given for a state other than PUBLISHED.
+   * @throws {NotFoundException} If the project with the specified ID doesn't exist.
+   * @throws {InternalServerErrorException} If a database error occurs during the update.
+   */
+  async updatePublication(
+    id: string,
+    updatePublicationDto: UpdatePublicationDto,
+  ): Promise<Project> {
+    const { status, publishedAt } = updatePublicationDto;
+    if (publishedAt && status !== PublicationStatus.PUBLISHED) {
+      throw new BadRequestException(
+        'publishedAt can only be set when publishing a project.',
+      );
+    }
+    const project = await this.findOne(id);
+
+    // Archiving keeps the original publication date, drafts have none
+    let newPublishedAt: Date | null = null;
+    if (status === PublicationStatus.PUBLISHED) {
+      newPublishedAt = publishedAt ?? new Date();
+    } else if (status === PublicationStatus.ARCHIVED) {
+      newPublishedAt = project.publishedAt;
+    }
+
+    try {
+      const updatedProject = await this.prismaService.project.update({
+        where: { id },
+        data: { publicationStatus: status, publishedAt: newPublishedAt },
+        include: PROJECT_INCLUDE,
+      });
+      this.logger.log(
+        `Project ${id} moved from ${project.publicationStatus} to ${status}.`,
+      );
+      return updatedProject;
+    } catch (error) {
+      this.dbErrorService.handleDatabaseError(
+        error,
+        `Failed to update publication of project with ID ${id}`,
+      );
+    }
+  }
+
   /**
    * Updates an existing project by its ID. Handles updating text fields,
-   * replacing/adding/removing images, and replacing/removing the video in S3 and the database.
+   * replacing/adding/removing images, and replacing/removing the video in storage and the database.
+   * Replaced and removed media stay in storage: older revisions still point at
+   * them, and media GC deletes them once nothing does.
    *
    * @param id - The UUID string of the project to update.
    * @param updateProjectDto - DTO containing the fields to update. Includes optional
-   * `existingImages` (array of keys/URLs to keep) and
-   * `existingVideo` (key/URL to keep or null to remove).
+   * `existingImages` (array of keys/URLs to keep, the whole gallery is kept if absent) and
+   * `existingVideo` (key/URL to keep or null to remove), and the ids of
+   * finished upload intents to add as images (`imageUploadIds`) or to
+   * replace the video (`videoUploadId`).
    * @param imageFiles - Optional array of new image files (Express.Multer.File) to upload.
    * @param videoFile - Optional new video file (Express.Multer.File) to upload.
+   * @param authorId - The user making the change, recorded in the new revision.
    * @returns A Promise resolving to the updated Project object.
    * @throws {NotFoundException} If the project with the specified ID doesn't exist.
-   * @throws {BadRequestException} If `existingImages` has an invalid format.
+   * @throws {BadRequestException} If `existingImages` has an invalid format, the gallery would end up
+   * with fewer than 5 or more than 12 images, or an upload intent can't be used.
    * @throws {InternalServerErrorException} If there's an error during file operations or database update.
    */
   async update(
@@ -180,62 +537,80 @@ export class ProjectsService {
     updateProjectDto: UpdateProjectDto,
     imageFiles?: Express.Multer.File[],
     videoFile?: Express.Multer.File,
+    authorId?: string,
   ): Promise<Project | undefined> {
     try {
       const project = await this.findOne(id); // Ensure project exists
-      const updateData: any = { ...updateProjectDto };
+      const {
+        imageUploadIds = [],
+        videoUploadId,
+        existingImages,
+        existingVideo,
+        technologies,
+        categoryId,
+        weeksWorked,
+        ...projectFields
+      } = updateProjectDto;
+      const updateData: Prisma.ProjectUpdateInput = {
+        ...projectFields,
+        category: categoryId ? { connect: { id: categoryId } } : undefined,
+        weeksWorked:
+          weeksWorked !== undefined
+            ? parseInt(weeksWorked.toString(), 10)
+            : undefined,
+      };
+
+      // Files the client sent straight to S3
+      const imageUploads = await this.uploadsService.findCompleted(
+        imageUploadIds,
+        UploadPurpose.PROJECT_IMAGE,
+        authorId,
+      );
+      const [videoUpload] = await this.uploadsService.findCompleted(
+        videoUploadId ? [videoUploadId] : [],
+        UploadPurpose.PROJECT_VIDEO,
+        authorId,
+      );
 
       // --- Image Handling ---
-      let imagesToKeep: string[] = [];
-      const imagesToDelete: string[] = [];
-      const currentImageKeys = project.images || [];
+      // Without existingImages the current gallery is kept as is
+      const currentImageKeys = project.media.map((media) => media.key);
+      const imagesToKeep: string[] =
+        existingImages === undefined ? [...currentImageKeys] : [];
 
       // Step 1: Process existing images
-      if (
-        updateData.existingImages &&
-        Array.isArray(updateData.existingImages)
-      ) {
-        // Extract S3 keys from presigned URLs
-        // const existingImageKeys = updateData.//existingImages.map(extractS3Key);
-        const existingImageKeys = updateData.existingImages.map((imageKey) => {
-          return this.s3Service.extractKeyFromUrl(imageKey);
+      if (existingImages && Array.isArray(existingImages)) {
+        // Extract storage keys from signed URLs
+        const existingImageKeys = existingImages.map((imageKey) => {
+          return this.storageDriver.getKeyFromUrl(imageKey);
         });
         this.logger.debug('Existing image keys:', existingImageKeys);
 
-        // Find images to keep and delete
-        project.images.forEach((imageKey) => {
-          if (existingImageKeys.includes(imageKey)) {
-            imagesToKeep.push(imageKey);
-          } else {
-            imagesToDelete.push(imageKey);
-          }
-        });
-      } else {
-        // If no existingImages provided, delete all existing images
-        imagesToDelete.push(...project.images);
+        // Images left out are dropped from the gallery (not from storage)
+        imagesToKeep.push(
+          ...currentImageKeys.filter((imageKey) =>
+            existingImageKeys.includes(imageKey),
+          ),
+        );
       }
 
       this.logger.debug(`Images to keep: ${imagesToKeep.join(', ')}`);
-      this.logger.debug(`Images to delete: ${imagesToDelete.join(', ')}`);
 
-      // Delete images marked for removal directly using the key
-      await Promise.all(
-        imagesToDelete.map(async (imageKey) => {
-          try {
-            this.logger.log(`Deleting image with key: ${imageKey}`);
-            await this.s3Service.deleteFileByKey(imageKey); // Use the key directly
-          } catch (error) {
-            // Log error but potentially continue? Or should failure stop the update?
-            this.logger.error(
-              `Failed to delete image ${imageKey} from S3:`,
-              error.stack,
-            );
-          }
-        }),
-      );
+      // Kept images, image files and images uploaded straight to S3
+      const newImageCount = (imageFiles?.length ?? 0) + imageUploads.length;
+      const syncImages = existingImages !== undefined || newImageCount > 0;
+      if (syncImages) {
+        const imageCount = imagesToKeep.length + newImageCount;
+        if (imageCount < 5) {
+          throw new BadRequestException('At least 5 images are required');
+        }
+        if (imageCount > 12) {
+          throw new BadRequestException(`No more than 12 images are allowed.`);
+        }
+      }
 
       // Upload new images
-      const newImageKeys: string[] = [];
+      const newImages: GalleryImage[] = [];
       if (imageFiles && imageFiles.length > 0) {
         const uploadPromises = imageFiles.map(async (image) => {
           // *** Apply sanitization to new image filenames ***
@@ -243,81 +618,89 @@ export class ProjectsService {
           const imageKey = `projects/images/${Date.now()}-${sanitizedImageFilename}`;
           this.logger.debug(`Uploading new image with key: ${imageKey}`);
 
-          // uploadFileToS3 now returns the key
-          return await this.s3Service.uploadFileToS3(image, imageKey);
+          // put returns the key
+          return {
+            key: await this.storageDriver.put(
+              imageKey,
+              image.buffer,
+              image.mimetype,
+            ),
+            buffer: image.buffer,
+          };
         });
-        newImageKeys.push(...(await Promise.all(uploadPromises)));
+        newImages.push(
+          ...(await this.describeImages(await Promise.all(uploadPromises))),
+        );
       }
+      newImages.push(...(await this.describeUploadedImages(imageUploads)));
 
-      // Combine kept and new image keys
-      updateData.images = [...imagesToKeep, ...newImageKeys];
-      // Clean up DTO field if it exists
-      if ('existingImages' in updateProjectDto)
-        delete updateData.existingImages;
+      // Kept images stay in gallery order, new ones go last
+      const gallery: GalleryImage[] = [
+        ...imagesToKeep.map((key) => ({ key })),
+        ...newImages,
+      ];
 
       // --- Video Handling ---
-      if (videoFile) {
-        const sanitizedVideoFilename = sanitizeFilename(videoFile.originalname);
-
-        const videoKey = `projects/videos/${Date.now()}-${sanitizedVideoFilename}`;
-        // Upload new video
-        await this.s3Service.uploadFileToS3(videoFile, videoKey);
-        updateData.video = videoKey;
-
-        // Delete old video if it exists, using its key
-        if (project.video) {
-          try {
-            this.logger.log(`Deleting old video with key: ${project.video}`);
-            await this.s3Service.deleteFileByKey(project.video); // Use the key directly
-          } catch (error) {
-            this.logger.error(
-              `Failed to delete old video ${project.video} from S3:`,
-              error.stack,
-            );
-          }
-        }
-      } else if (updateProjectDto.existingVideo === null) {
-        // Check DTO if video should be removed
-        // If DTO explicitly asks to remove video, delete it
-        if (project.video) {
-          try {
-            this.logger.log(
-              `Deleting video explicitly via DTO (null): ${project.video}`,
-            );
-            await this.s3Service.deleteFileByKey(project.video); // Use the key directly
-            updateData.video = null; // Set DB field to null
-          } catch (error) {
-            this.logger.error(
-              `Failed to delete video ${project.video} from S3:`,
-              error.stack,
-            );
-          }
+      if (videoUpload || videoFile) {
+        if (videoUpload) {
+          // Already in S3
+          updateData.video = videoUpload.key;
+        } else {
+          const sanitizedVideoFilename = sanitizeFilename(
+            videoFile!.originalname,
+          );
+
+          const videoKey = `projects/videos/${Date.now()}-${sanitizedVideoFilename}`;
+          // Upload new video
+          await this.storageDriver.put(
+            videoKey,
+            videoFile!.buffer,
+            videoFile!.mimetype,
+          );
+          updateData.video = videoKey;
         }
-      }
-      // Clean up DTO field if it exists
-      if ('existingVideo' in updateProjectDto) delete updateData.existingVideo;
-
-      // --- Other fields ---
-      if (updateProjectDto.weeksWorked !== undefined) {
-        updateData.weeksWorked = parseInt(
-          updateProjectDto.weeksWorked.toString(),
-          10,
+      } else if (existingVideo === null) {
+        // The video column is required: it can be replaced, not removed
+        throw new BadRequestException(
+          'A project needs a video: send a new one to replace it.',
         );
       }
-
       this.logger.debug('Final update data for Prisma:', updateData);
 
-      // Update the project in the database
-      const updatedProject = await this.prismaService.project.update({
-        where: { id },
-        data: updateData,
-      });
+      // Update the project in the database and keep a snapshot of the result
+      const updatedProject = await this.prismaService.$transaction(
+        async (tx) => {
+          if (technologies !== undefined) {
+            const catalogTechnologies = await this.technologiesService.resolve(
+              technologies,
+              tx,
+            );
+            updateData.technologies = {
+              set: catalogTechnologies.map(({ id }) => ({ id })),
+            };
+          }
+          await this.uploadsService.consume(tx, [
+            ...imageUploadIds,
+            ...(videoUploadId ? [videoUploadId] : []),
+          ]);
+          if (syncImages) {
+            await syncGallery(tx, id, gallery);
+          }
+          const project = await tx.project.update({
+            where: { id },
+            data: updateData,
+            include: PROJECT_INCLUDE,
+          });
+          await this.projectRevisionsService.record(tx, project, authorId);
+          return project;
+        },
+      );
 
       return updatedProject;
     } catch (error) {
       this.logger.error(`Failed to update project ${id}:`, error.stack);
-      // Handle specific errors (e.g., NotFoundException, Prisma errors) or rethrow
-      if (error instanceof NotFoundException) {
+      // Handle specific errors (e.g., NotFoundException, unusable uploads, Prisma errors) or rethrow
+      if (error instanceof HttpException) {
         throw error;
       }
       // Use dbErrorService or throw a generic error
@@ -332,83 +715,192 @@ export class ProjectsService {
   }
 
   /**
-   * Deletes a project by its ID. Also attempts to delete associated images and video
-   * from S3. Deletion from the database occurs even if S3 deletion fails partially or fully.
+   * Moves a project to the trash. It disappears from every listing but keeps
+   * its stored media until it is purged, manually or after the retention period.
    *
    * @param id - The UUID string of the project to delete.
    * @returns A Promise resolving to an object indicating success status and a message.
-   * @throws {NotFoundException} If the project with the specified ID doesn't exist.
-   * @throws {InternalServerErrorException} If a database error occurs during deletion. S3 errors are logged but don't prevent DB deletion attempt.
+   * @throws {NotFoundException} If the project with the specified ID doesn't exist or is already trashed.
+   * @throws {InternalServerErrorException} If a database error occurs.
    */
   async remove(id: string): Promise<{ success: boolean; message: string }> {
-    let project: Project | null = null;
+    await this.findOne(id);
     try {
-      // First, get the project to access its image and video keys
-      project = await this.findOne(id); // This throws NotFoundException if not found
-
-      const deletePromises: Promise<void>[] = [];
-
-      // Add image deletion promises
-      if (project.images && Array.isArray(project.images)) {
-        project.images.forEach((imageKey) => {
-          if (imageKey) {
-            // Check if key is not null/empty
-            this.logger.log(`Scheduling deletion for image key: ${imageKey}`);
-            deletePromises.push(this.s3Service.deleteFileByKey(imageKey)); // Use the key directly
-          }
-        });
-      }
-
-      // Add video deletion promise
-      if (project.video) {
-        this.logger.log(`Scheduling deletion for video key: ${project.video}`);
-        deletePromises.push(this.s3Service.deleteFileByKey(project.video)); // Use the key directly
-      }
-
-      // Execute all S3 deletions concurrently
-      const results = await Promise.allSettled(deletePromises);
-
-      // Log any S3 deletion failures
-      results.forEach((result, index) => {
-        if (result.status === 'rejected') {
-          // Determine which key failed based on the order/index (less reliable)
-          // Or modify deleteFileByKey to return the key on success/failure
-          this.logger.error(
-            `Failed S3 deletion during remove operation: ${result.reason}`,
-          );
-          // Decide if DB deletion should proceed even if S3 fails
-        }
-      });
-
-      // Now delete the project from the database
-      await this.prismaService.project.delete({
+      await this.prismaService.project.update({
         where: { id },
+        data: { deletedAt: new Date() },
       });
-
+      this.logger.log(`Project ${id} moved to the trash.`);
       return {
         success: true,
-        message: `Project with ID ${id} and its associated S3 files (attempted deletion) successfully deleted from DB.`,
+        message: `Project with ID ${id} moved to the trash.`,
       };
     } catch (error) {
-      // Log the error context
-      this.logger.error(
-        `Failed to remove project ${id}. Project data at time of error: ${JSON.stringify(project)}`,
-        error.stack,
+      this.dbErrorService.handleDatabaseError(
+        error,
+        `Failed to delete project with ID ${id}`,
       );
+    }
+  }
 
-      if (error instanceof NotFoundException) {
-        throw error; // Re-throw NotFoundException as it's a valid client error
-      }
-      // Handle other errors (S3 errors from deleteFileByKey if rethrown, Prisma errors)
+  /**
+   * Retrieves a page of trashed projects, most recently deleted first by default.
+   *
+   * @param query - Pagination and sorting.
+   * @returns A Promise resolving to the page of trashed projects.
+   * @throws {InternalServerErrorException} If a database error occurs during fetching.
+   */
+  async findTrashed(query: TrashQueryDto): Promise<Paginated<Project>> {
+    const where: Prisma.ProjectWhereInput = { deletedAt: { not: null } };
+    try {
+      const [rows, total] = await this.prismaService.$transaction([
+        this.prismaService.project.findMany({
+          where,
+          include: PROJECT_INCLUDE,
+          ...buildPaginationArgs<TrashSortField>(query, 'deletedAt'),
+        }),
+        this.prismaService.project.count({ where }),
+      ]);
+      return toPaginated(rows, total, query);
+    } catch (error) {
       this.dbErrorService.handleDatabaseError(
         error,
-        `Failed to delete project with ID ${id}`, // This might hide specific S3 errors
+        'Failed to fetch trashed projects',
+      );
+    }
+  }
+
+  /**
+   * Takes a project out of the trash.
+   *
+   * @param id - The UUID string of the trashed project.
+   * @returns A Promise resolving to the restored Project object.
+   * @throws {NotFoundException} If the project is not in the trash.
+   * @throws {ConflictException} If its category is in the trash.
+   */
+  async restore(id: string): Promise<Project> {
+    const trashed = await this.findTrashedOne(id);
+    if (trashed.category.deletedAt) {
+      throw new ConflictException(
+        `The category of project with ID "${id}" is in the trash. Restore it first.`,
+      );
+    }
+    const project = await this.prismaService.project.update({
+      where: { id },
+      data: { deletedAt: null },
+      include: PROJECT_INCLUDE,
+    });
+    this.logger.log(`Project ${id} restored from the trash.`);
+    return project;
+  }
+
+  /**
+   * Permanently deletes a trashed project and its stored media. Storage errors are
+   * logged but don't prevent the database deletion.
+   *
+   * @param id - The UUID string of the trashed project.
+   * @throws {NotFoundException} If the project is not in the trash.
+   * @throws {InternalServerErrorException} If a database error occurs during deletion.
+   */
+  async purge(id: string): Promise<void> {
+    const project = await this.findTrashedOne(id);
+    try {
+      await this.prismaService.project.delete({ where: { id } });
+    } catch (error) {
+      this.dbErrorService.handleDatabaseError(
+        error,
+        `Failed to purge project with ID ${id}`,
       );
-      // Consider returning a more specific error response
-      return {
-        success: false,
-        message: `Failed to delete project with ID ${id}. Error: ${error.message}`,
-      };
     }
+    await this.deleteMedia(project);
+    this.logger.log(`Project ${id} permanently deleted.`);
+  }
+
+  /**
+   * Permanently deletes the projects trashed before a given date.
+   *
+   * @param trashedBefore - Projects trashed before this date are purged.
+   * @returns A Promise resolving to the number of purged projects.
+   */
+  async purgeExpired(trashedBefore: Date): Promise<number> {
+    const expired = await this.prismaService.project.findMany({
+      where: { deletedAt: { lt: trashedBefore } },
+      select: { id: true },
+    });
+    for (const { id } of expired) {
+      await this.purge(id);
+    }
+    return expired.length;
+  }
+
+  private async findTrashedOne(id: string): Promise<ProjectWithRelations> {
+    const project = await this.prismaService.project.findFirst({
+      where: { id, deletedAt: { not: null } },
+      include: PROJECT_INCLUDE,
+    });
+    if (!project) {
+      throw new NotFoundException(`Project with ID ${id} not found in trash`);
+    }
+    return project;
+  }
+
+  // Dimensions and resized variants of new gallery images, one image at a
+  // time. A variant failure leaves the image without variants until the
+  // backfill runs
+  private async describeImages(
+    images: { key: string; buffer: Buffer }[],
+  ): Promise<GalleryImage[]> {
+    const gallery: GalleryImage[] = [];
+    for (const { key, buffer } of images) {
+      let variants: ImageVariantData[] = [];
+      try {
+        variants = await this.imageVariantsService.generate(key, buffer);
+      } catch (error) {
+        this.logger.warn(
+          `Failed to generate the variants of ${key}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+      gallery.push({ key, dimensions: readImageDimensions(buffer), variants });
+    }
+    return gallery;
+  }
+
+  // Images uploaded straight to S3 are downloaded one at a time to be read
+  private async describeUploadedImages(
+    uploads: Upload[],
+  ): Promise<GalleryImage[]> {
+    const gallery: GalleryImage[] = [];
+    for (const upload of uploads) {
+      gallery.push(
+        ...(await this.describeImages([
+          {
+            key: upload.key,
+            buffer: await this.storageDriver.get(upload.key),
+          },
+        ])),
+      );
+    }
+    return gallery;
+  }
+
+  // Deletes the images, their variants and the video of a project from storage, logging failures
+  private async deleteMedia(project: ProjectWithRelations): Promise<void> {
+    const keys = [
+      ...project.media.flatMap((media) => [
+        media.key,
+        ...media.variants.map((variant) => variant.key),
+      ]),
+      project.video,
+    ].filter(Boolean);
+    const results = await Promise.allSettled(
+      keys.map((key) => this.storageDriver.delete(key)),
+    );
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        this.logger.error(
+          `Failed to delete ${keys[index]} of project ${project.id} from storage: ${result.reason}`,
+        );
+      }
+    });
   }
 }
@@ -1,4 +1,4 @@
-import { ApiProperty } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import {
   IsString,
   IsEmail,
@@ -6,6 +6,8 @@ import {
   MaxLength,
   IsPhoneNumber,
   IsEnum, // Consider using a more specific validator if needed
+  IsOptional,
+  IsUUID,
 } from 'class-validator';
 
 // Define the enum locally or import it if your setup allows
@@ -102,6 +104,15 @@ export class CreateQuoteRequestDto {
   })
   status: QuoteStatus;
 
+  @ApiPropertyOptional({
+    description:
+      'Id of a finished upload (POST /uploads, purpose QUOTE_REQUIREMENTS) to use instead of the requirements_file field',
+    format: 'uuid',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'Upload id must be a valid UUID.' })
+  requirementsUploadId?: string;
+
   /**
    * Optional: A path or identifier for an uploaded requirements file.
    * Based on the schema `requirementsFile String`, this is required.
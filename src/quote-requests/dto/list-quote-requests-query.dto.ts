@@ -0,0 +1,39 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { QuoteStatus } from '@prisma/client';
+import { IsEmail, IsEnum, IsIn, IsOptional } from 'class-validator';
+import { PaginationQueryDto } from 'src/common/dto/pagination-query.dto';
+
+// Message bodies, phone numbers and attachments are deliberately not sortable
+export const QUOTE_REQUEST_SORT_FIELDS = [
+  'id',
+  'name',
+  'email',
+  'subject',
+  'status',
+  'createdAt',
+  'updatedAt',
+] as const;
+export type QuoteRequestSortField = (typeof QUOTE_REQUEST_SORT_FIELDS)[number];
+
+/**
+ * Query parameters of GET /quote-requests.
+ */
+export class ListQuoteRequestsQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({
+    enum: QUOTE_REQUEST_SORT_FIELDS,
+    default: 'createdAt',
+  })
+  @IsOptional()
+  @IsIn(QUOTE_REQUEST_SORT_FIELDS)
+  sortBy?: QuoteRequestSortField;
+
+  @ApiPropertyOptional({ enum: QuoteStatus })
+  @IsOptional()
+  @IsEnum(QuoteStatus)
+  status?: QuoteStatus;
+
+  @ApiPropertyOptional({ description: 'Only requests sent from this email' })
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+}
@@ -0,0 +1,61 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Exclude, Expose } from 'class-transformer';
+import { QuoteRequest, QuoteStatus } from '@prisma/client';
+
+/**
+ * Quote request as returned by the API.
+ */
+@Exclude()
+export class QuoteRequestResponseDto {
+  @Expose()
+  @ApiProperty({ format: 'uuid' })
+  id: string;
+
+  @Expose()
+  @ApiProperty({ example: 'Jane Doe' })
+  name: string;
+
+  @Expose()
+  @ApiProperty({ example: 'jane@example.com' })
+  email: string;
+
+  @Expose()
+  @ApiProperty()
+  subject: string;
+
+  @Expose()
+  @ApiProperty()
+  message: string;
+
+  @Expose()
+  @ApiProperty()
+  phone: string;
+
+  @Expose()
+  @ApiProperty({ description: 'S3 key of the uploaded requirements file' })
+  requirementsFile: string;
+
+  @Expose()
+  @ApiProperty({ enum: QuoteStatus })
+  status: QuoteStatus;
+
+  @Expose()
+  @ApiPropertyOptional({
+    nullable: true,
+    description:
+      'When the item was moved to the trash; null if it is not trashed',
+  })
+  deletedAt: Date | null;
+
+  @Expose()
+  @ApiProperty()
+  createdAt: Date;
+
+  @Expose()
+  @ApiProperty()
+  updatedAt: Date;
+
+  constructor(quoteRequest: QuoteRequest) {
+    Object.assign(this, quoteRequest);
+  }
+}
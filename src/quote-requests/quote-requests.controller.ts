@@ -8,14 +8,12 @@ import {
   Delete,
   UseInterceptors,
   UploadedFile,
-  ParseFilePipe,
-  MaxFileSizeValidator,
-  FileTypeValidator,
   ParseUUIDPipe,
   HttpCode,
   HttpStatus,
   Logger,
   BadRequestException,
+  Query,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -28,25 +26,29 @@ import {
 import { QuoteRequestsService } from './quote-requests.service';
 import { CreateQuoteRequestDto } from './dto/create-quote-request.dto';
 import { UpdateQuoteRequestDto } from './dto/update-quote-request.dto';
+import { QuoteRequestResponseDto } from './dto/quote-request-response.dto';
+import { ListQuoteRequestsQueryDto } from './dto/list-quote-requests-query.dto';
+import {
+  Paginated,
+  PaginatedResponseDto,
+} from 'src/common/dto/paginated-response.dto';
 import { FileInterceptor } from '@nestjs/platform-express';
-import { QuoteRequest } from '@prisma/client'; // Assuming this can be used for response types
 import { Express } from 'express';
 import { Public } from 'src/decorators/public.decorator';
+import { RateLimit } from 'src/decorators/rate-limit.decorator';
+import { RequirePermissions } from 'src/decorators/require-permissions.decorator';
+import { PermissionNames } from 'src/permissions/constants';
+import { Roles } from 'src/decorators/roles.decorator';
+import { RoleNames } from 'src/roles/constants';
+import { TrashQueryDto } from 'src/common/dto/trash-query.dto';
+import { FileValidationPipe } from 'src/common/pipes/file-validation.pipe';
+import {
+  QUOTE_REQUEST_FILE_FIELDS,
+  UPLOAD_POLICIES,
+} from 'src/uploads/upload-policies';
 
-// Define file validation constants
-const MAX_FILE_SIZE_MB = 50;
-const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
-// Define allowed MIME types directly
-const ALLOWED_MIME_TYPES = [
-  'application/pdf', // PDF
-  'application/msword', // DOC
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document', // DOCX
-];
-
-// Define a helper type or DTO for Swagger response documentation if Prisma types aren't directly compatible
-// For example:
-// class QuoteRequestResponseDto implements QuoteRequest { ... }
-// Then use QuoteRequestResponseDto in @ApiResponse
+const MAX_FILE_SIZE_MB =
+  UPLOAD_POLICIES.QUOTE_REQUIREMENTS.maxSizeBytes / (1024 * 1024);
 
 @ApiTags('Quote Requests') // Group endpoints under 'Quote Requests' tag in Swagger UI
 @Controller('quote-requests')
@@ -58,18 +60,20 @@ export class QuoteRequestsController {
   /**
    * Handles the creation of a new quote request, including file upload.
    * @param createQuoteRequestDto - DTO containing the quote request data.
-   * @param file - The uploaded requirements file.
+   * @param file - The uploaded requirements file, unless `requirementsUploadId`
+   * references a file sent through `POST /uploads`.
    * @returns The newly created QuoteRequest entity.
    */
   @Public()
+  @RateLimit({ limit: 5, ttl: 600 }) // sends emails and uploads files
   @Post()
   @UseInterceptors(FileInterceptor('requirements_file'))
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({ summary: 'Create a new quote request' })
-  @ApiConsumes('multipart/form-data') // Specify content type for file upload
+  @ApiConsumes('multipart/form-data', 'application/json') // Specify content type for file upload
   @ApiBody({
     description:
-      'Quote request data and the requirements file (PDF, DOC, DOCX).',
+      'Quote request data and either the requirements file (PDF, DOC, DOCX) or the `requirementsUploadId` of a file sent through `POST /uploads`.',
     // Schema combining DTO and file field for Swagger UI
     schema: {
       type: 'object',
@@ -83,7 +87,7 @@ export class QuoteRequestsController {
           description: `Requirements document (Max ${MAX_FILE_SIZE_MB}MB, Allowed types: PDF, DOC, DOCX)`,
         },
       },
-      required: ['requirements_file'], // Add other required DTO fields here
+      // requirements_file is required unless requirementsUploadId is sent
     },
     // Link the DTO for validation and potential schema generation by plugins
     type: CreateQuoteRequestDto,
@@ -91,7 +95,7 @@ export class QuoteRequestsController {
   @ApiResponse({
     status: HttpStatus.CREATED,
     description: 'The quote request has been successfully created.',
-    type: CreateQuoteRequestDto, // Replace with a DTO or class representing the response structure
+    type: QuoteRequestResponseDto,
   })
   @ApiResponse({
     status: HttpStatus.BAD_REQUEST,
@@ -99,52 +103,140 @@ export class QuoteRequestsController {
   })
   @ApiResponse({
     status: HttpStatus.UNSUPPORTED_MEDIA_TYPE, // More specific error for file type issues
-    description: 'Invalid file type provided.',
+    description:
+      'Invalid file type provided, or the file content does not match its declared type.',
   })
   async create(
     @Body() createQuoteRequestDto: CreateQuoteRequestDto,
-    @UploadedFile(
-      new ParseFilePipe({
-        validators: [
-          new MaxFileSizeValidator({ maxSize: MAX_FILE_SIZE_BYTES }),
-          // Use the MIME types for validation instead of the regex
-          new FileTypeValidator({
-            fileType: new RegExp(`(${ALLOWED_MIME_TYPES.join('|')})`),
-          }),
-        ],
-        fileIsRequired: true,
-        // Optional: Add errorHttpStatusCode for file validation failures
-        errorHttpStatusCode: HttpStatus.UNSUPPORTED_MEDIA_TYPE,
-      }),
-    )
-    file: Express.Multer.File,
-  ): Promise<QuoteRequest> {
+    @UploadedFile(new FileValidationPipe(QUOTE_REQUEST_FILE_FIELDS))
+    file: Express.Multer.File | undefined,
+  ): Promise<QuoteRequestResponseDto> {
     this.logger.log(
       `Received request to create quote request: ${createQuoteRequestDto.subject}`,
     );
 
-    if (!file) {
-      throw new BadRequestException('Exactly 1 file is required.');
+    if (!file === !createQuoteRequestDto.requirementsUploadId) {
+      throw new BadRequestException(
+        'Exactly 1 file is required: send requirements_file or requirementsUploadId.',
+      );
     }
 
-    return this.quoteRequestsService.create(createQuoteRequestDto, file);
+    return new QuoteRequestResponseDto(
+      await this.quoteRequestsService.create(createQuoteRequestDto, file),
+    );
   }
 
   /**
-   * Retrieves all quote requests.
-   * @returns An array of QuoteRequest entities.
+   * Retrieves a page of quote requests.
+   * @returns The page, the total count and the next cursor.
    */
+  @RequirePermissions(PermissionNames.QUOTES_READ)
   @Get()
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Retrieve all quote requests' })
+  @ApiOperation({ summary: 'List quote requests with pagination and filters' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Successfully retrieved a page of quote requests.',
+    type: PaginatedResponseDto(QuoteRequestResponseDto),
+  })
+  async findAll(
+    @Query() query: ListQuoteRequestsQueryDto,
+  ): Promise<Paginated<QuoteRequestResponseDto>> {
+    this.logger.log('Received request to list quote requests');
+    const page = await this.quoteRequestsService.findAll(query);
+    return {
+      ...page,
+      items: page.items.map(
+        (quoteRequest) => new QuoteRequestResponseDto(quoteRequest),
+      ),
+    };
+  }
+
+  /**
+   * Retrieves a page of trashed quote requests.
+   * @returns The page, the total count and the next cursor.
+   */
+  @RequirePermissions(PermissionNames.QUOTES_READ)
+  @Get('trash')
+  @ApiOperation({ summary: 'List the quote requests in the trash' })
   @ApiResponse({
     status: HttpStatus.OK,
-    description: 'Successfully retrieved all quote requests.',
-    type: [CreateQuoteRequestDto], // Replace with a DTO or class representing the response structure
+    description:
+      'A page of trashed quote requests, most recently deleted first.',
+    type: PaginatedResponseDto(QuoteRequestResponseDto),
   })
-  async findAll(): Promise<QuoteRequest[]> {
-    this.logger.log('Received request to find all quote requests');
-    return this.quoteRequestsService.findAll();
+  async findTrashed(
+    @Query() query: TrashQueryDto,
+  ): Promise<Paginated<QuoteRequestResponseDto>> {
+    const page = await this.quoteRequestsService.findTrashed(query);
+    return {
+      ...page,
+      items: page.items.map(
+        (quoteRequest) => new QuoteRequestResponseDto(quoteRequest),
+      ),
+    };
+  }
+
+  /**
+   * Takes a quote request out of the trash.
+   * @param id - The UUID of the trashed quote request.
+   * @returns The restored QuoteRequest entity.
+   */
+  @RequirePermissions(PermissionNames.QUOTES_WRITE)
+  @Post('trash/:id/restore')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Restore a quote request from the trash' })
+  @ApiParam({
+    name: 'id',
+    description: 'UUID of the trashed quote request',
+    type: String,
+    format: 'uuid',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The restored quote request.',
+    type: QuoteRequestResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Quote request not found in the trash.',
+  })
+  async restore(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<QuoteRequestResponseDto> {
+    return new QuoteRequestResponseDto(
+      await this.quoteRequestsService.restore(id),
+    );
+  }
+
+  /**
+   * Permanently deletes a trashed quote request and its file. Admin only.
+   * @param id - The UUID of the trashed quote request.
+   */
+  @Roles(RoleNames.ADMIN)
+  @Delete('trash/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary:
+      'Permanently delete a trashed quote request and its file (admin only)',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'UUID of the trashed quote request',
+    type: String,
+    format: 'uuid',
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'The quote request has been permanently deleted.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Quote request not found in the trash.',
+  })
+  async purge(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    this.logger.log(`Received request to purge quote request with ID: ${id}`);
+    await this.quoteRequestsService.purge(id);
   }
 
   /**
@@ -152,6 +244,7 @@ export class QuoteRequestsController {
    * @param id - The UUID of the quote request to retrieve.
    * @returns The found QuoteRequest entity.
    */
+  @RequirePermissions(PermissionNames.QUOTES_READ)
   @Get(':id')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Retrieve a specific quote request by ID' })
@@ -165,7 +258,7 @@ export class QuoteRequestsController {
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Successfully retrieved the quote request.',
-    type: CreateQuoteRequestDto, // Replace with a DTO or class representing the response structure
+    type: QuoteRequestResponseDto,
   })
   @ApiResponse({
     status: HttpStatus.NOT_FOUND,
@@ -175,9 +268,13 @@ export class QuoteRequestsController {
     status: HttpStatus.BAD_REQUEST,
     description: 'Invalid UUID format.',
   })
-  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<QuoteRequest> {
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<QuoteRequestResponseDto> {
     this.logger.log(`Received request to find quote request with ID: ${id}`);
-    return this.quoteRequestsService.findOne(id);
+    return new QuoteRequestResponseDto(
+      await this.quoteRequestsService.findOne(id),
+    );
   }
 
   /**
@@ -187,6 +284,7 @@ export class QuoteRequestsController {
    * @param file - The optional new requirements file.
    * @returns The updated QuoteRequest entity.
    */
+  @RequirePermissions(PermissionNames.QUOTES_WRITE)
   @Patch(':id')
   @UseInterceptors(FileInterceptor('requirements_file'))
   @HttpCode(HttpStatus.OK)
@@ -198,10 +296,10 @@ export class QuoteRequestsController {
     type: String,
     format: 'uuid',
   })
-  @ApiConsumes('multipart/form-data') // Also needed for optional file upload
+  @ApiConsumes('multipart/form-data', 'application/json') // Also needed for optional file upload
   @ApiBody({
     description:
-      'Optional quote request data fields to update and an optional new requirements file (PDF, DOC, DOCX).',
+      'Optional quote request data fields to update and an optional new requirements file (PDF, DOC, DOCX), or the `requirementsUploadId` of a file sent through `POST /uploads`.',
     // Schema combining DTO and optional file field
     schema: {
       type: 'object',
@@ -222,7 +320,7 @@ export class QuoteRequestsController {
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Successfully updated the quote request.',
-    type: UpdateQuoteRequestDto, // Adjust if using a specific Response DTO
+    type: QuoteRequestResponseDto,
   })
   @ApiResponse({
     status: HttpStatus.NOT_FOUND,
@@ -233,42 +331,42 @@ export class QuoteRequestsController {
     description:
       'Invalid input data, file validation failed, or invalid UUID format.',
   })
+  @ApiResponse({
+    status: HttpStatus.UNSUPPORTED_MEDIA_TYPE,
+    description:
+      'Invalid file type provided, or the file content does not match its declared type.',
+  })
   async update(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() updateQuoteRequestDto: UpdateQuoteRequestDto,
-    @UploadedFile(
-      new ParseFilePipe({
-        validators: [
-          new MaxFileSizeValidator({ maxSize: MAX_FILE_SIZE_BYTES }),
-          // Use the MIME types for validation instead of the regex
-          new FileTypeValidator({
-            fileType: new RegExp(`(${ALLOWED_MIME_TYPES.join('|')})`),
-          }),
-        ],
-        fileIsRequired: false,
-        // Optional: Add errorHttpStatusCode for file validation failures
-        errorHttpStatusCode: HttpStatus.UNSUPPORTED_MEDIA_TYPE,
-      }),
-    )
+    @UploadedFile(new FileValidationPipe(QUOTE_REQUEST_FILE_FIELDS))
     file?: Express.Multer.File, // Optional file
-  ): Promise<QuoteRequest> {
+  ): Promise<QuoteRequestResponseDto> {
     this.logger.log(`Received request to update quote request with ID: ${id}`);
+    if (file && updateQuoteRequestDto.requirementsUploadId) {
+      throw new BadRequestException(
+        'Send either requirements_file or requirementsUploadId, not both.',
+      );
+    }
     if (file) {
       this.logger.log(`Update includes new file: ${file.originalname}`);
     } else {
       this.logger.log(`Update does not include a new file.`);
     }
-    return this.quoteRequestsService.update(id, updateQuoteRequestDto, file);
+    return new QuoteRequestResponseDto(
+      await this.quoteRequestsService.update(id, updateQuoteRequestDto, file),
+    );
   }
 
   /**
-   * Deletes a quote request by its ID.
+   * Moves a quote request to the trash.
    * @param id - The UUID of the quote request to delete.
    * @returns void - No content returned on successful deletion.
    */
+  @RequirePermissions(PermissionNames.QUOTES_WRITE)
   @Delete(':id')
   @HttpCode(HttpStatus.NO_CONTENT)
-  @ApiOperation({ summary: 'Delete a quote request by ID' })
+  @ApiOperation({ summary: 'Move a quote request to the trash' })
   @ApiParam({
     name: 'id',
     required: true,
@@ -278,7 +376,7 @@ export class QuoteRequestsController {
   })
   @ApiResponse({
     status: HttpStatus.NO_CONTENT,
-    description: 'Successfully deleted the quote request.',
+    description: 'The quote request has been moved to the trash.',
   })
   @ApiResponse({
     status: HttpStatus.NOT_FOUND,
@@ -4,15 +4,28 @@ import {
   NotFoundException,
   InternalServerErrorException,
   BadRequestException, // Import BadRequestException
+  HttpException,
+  Inject,
 } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config'; // Import ConfigService
 import { CreateQuoteRequestDto } from './dto/create-quote-request.dto';
 import { UpdateQuoteRequestDto } from './dto/update-quote-request.dto';
+import {
+  ListQuoteRequestsQueryDto,
+  QuoteRequestSortField,
+} from './dto/list-quote-requests-query.dto';
 import { PrismaService } from '../prisma/prisma.service';
-import { Prisma, QuoteRequest } from '@prisma/client'; // Import Prisma namespace
+import { Prisma, QuoteRequest, UploadPurpose } from '@prisma/client'; // Import Prisma namespace
 import { DatabaseErrorService } from 'src/common/services/database-error.service'; // Assuming this handles Prisma errors
-import { S3Service } from 'src/common/services/aws-s3.service';
+import {
+  STORAGE_DRIVER,
+  StorageDriver,
+} from 'src/storage/storage-driver.interface';
+import { Paginated } from 'src/common/dto/paginated-response.dto';
+import { buildPaginationArgs, toPaginated } from 'src/utils/pagination-utils';
+import { TrashQueryDto, TrashSortField } from 'src/common/dto/trash-query.dto';
 import { MailService } from 'src/mail/mail.service';
+import { UploadsService } from 'src/uploads/uploads.service';
 // Assuming these templates return HTML strings
 import { quoteRequestEMailTemplate } from 'src/mail/templates/quote-request-email';
 import { Express } from 'express'; // Explicit import for Express
@@ -25,9 +38,10 @@ export class QuoteRequestsService {
   constructor(
     private readonly prismaService: PrismaService,
     private readonly dbErrorService: DatabaseErrorService, // Keep if it provides valuable abstraction
-    private readonly s3Service: S3Service,
+    @Inject(STORAGE_DRIVER) private readonly storageDriver: StorageDriver,
     private readonly mailService: MailService,
     private readonly configService: ConfigService, // Inject ConfigService
+    private readonly uploadsService: UploadsService,
   ) {
     // Retrieve sensitive info like email from config service
     this.emailContact = this.configService.get<string>('MAIL_CONTACT') ?? '';
@@ -39,38 +53,55 @@ export class QuoteRequestsService {
   }
 
   /**
-   * Creates a new quote request, uploads the file to S3, saves data to DB, and sends an email notification.
+   * Creates a new quote request, uploads the file to storage, saves data to DB, and sends an email notification.
    * @param createQuoteRequestDto - Data for the new quote request.
-   * @param file - The requirements file to upload.
+   * @param file - The requirements file to upload, unless the DTO references an upload.
    * @returns The created QuoteRequest entity.
-   * @throws InternalServerErrorException if S3 upload or email sending fails.
+   * @throws BadRequestException if the referenced upload is unknown, used or incomplete.
+   * @throws InternalServerErrorException if storage upload or email sending fails.
    * @throws Specific exceptions from DatabaseErrorService for DB errors.
    */
   async create(
     createQuoteRequestDto: CreateQuoteRequestDto,
-    file: Express.Multer.File,
+    file: Express.Multer.File | undefined,
   ): Promise<QuoteRequest> {
+    const { requirementsUploadId, ...quoteRequestFields } =
+      createQuoteRequestDto;
+    // File the client sent straight to S3
+    const [requirementsUpload] = await this.uploadsService.findCompleted(
+      requirementsUploadId ? [requirementsUploadId] : [],
+      UploadPurpose.QUOTE_REQUIREMENTS,
+    );
+
     let requirementsFileKey: string | undefined = undefined;
     let presignedUrl: string | undefined = undefined;
 
     try {
       // 1. Handle File Upload (if provided)
-      if (file) {
-        // Sanitize filename to prevent issues with special characters in S3 keys or URLs
+      if (requirementsUpload) {
+        requirementsFileKey = requirementsUpload.key;
+        presignedUrl =
+          await this.storageDriver.getSignedUrl(requirementsFileKey);
+      } else if (file) {
+        // Sanitize filename to prevent issues with special characters in storage keys or URLs
         const safeFileName = file.originalname
           .replace(/[^a-zA-Z0-9_.\-]/g, '_') // Allow letters, numbers, underscore, dot, hyphen
           .replace(/ /g, '_'); // Replace spaces with underscores
         requirementsFileKey = `quote_requests/files/${Date.now()}-${safeFileName}`; // Use plural 'quote_requests' for consistency
 
         this.logger.log(
-          `Uploading file to S3 with key: ${requirementsFileKey}`,
+          `Uploading file to storage with key: ${requirementsFileKey}`,
+        );
+        await this.storageDriver.put(
+          requirementsFileKey,
+          file.buffer,
+          file.mimetype,
         );
-        await this.s3Service.uploadFileToS3(file, requirementsFileKey);
         this.logger.log(`File uploaded successfully.`);
 
-        // Generate presigned URL for the email link (expires based on S3Service config)
+        // Generate a signed URL for the email link (valid for an hour)
         presignedUrl =
-          await this.s3Service.getPresignedUrl(requirementsFileKey);
+          await this.storageDriver.getSignedUrl(requirementsFileKey);
         this.logger.log(`Generated presigned URL for email.`);
       } else {
         // This case should ideally be prevented by the controller's ParseFilePipe(fileIsRequired: true)
@@ -85,7 +116,7 @@ export class QuoteRequestsService {
       // 2. Prepare Data for Database
       // Ensure requirementsFile is stored correctly (key or null/empty string)
       const quoteRequestData = {
-        ...createQuoteRequestDto,
+        ...quoteRequestFields,
         requirementsFile: requirementsFileKey || '', // Ensure it is always a string
       };
 
@@ -93,9 +124,15 @@ export class QuoteRequestsService {
       this.logger.log(
         `Creating quote request record in database for subject: ${quoteRequestData.subject}`,
       );
-      const newQuoteRequest = await this.prismaService.quoteRequest.create({
-        data: quoteRequestData,
-      });
+      const newQuoteRequest = await this.prismaService.$transaction(
+        async (tx) => {
+          await this.uploadsService.consume(
+            tx,
+            requirementsUpload ? [requirementsUpload.id] : [],
+          );
+          return tx.quoteRequest.create({ data: quoteRequestData });
+        },
+      );
       this.logger.log(
         `Quote request created successfully with ID: ${newQuoteRequest.id}`,
       );
@@ -132,21 +169,24 @@ export class QuoteRequestsService {
         error.stack,
       );
 
-      // Attempt to clean up S3 file if DB save or email failed after upload
+      // Attempt to clean up stored file if DB save or email failed after upload.
+      // Files of upload intents are kept so that the request can be retried
       if (
+        file &&
+        !requirementsUpload &&
         requirementsFileKey &&
         !(error instanceof Prisma.PrismaClientKnownRequestError)
       ) {
         // Avoid deletion if it's a DB constraint error where the record might exist
         this.logger.warn(
-          `Attempting to clean up S3 file due to error: ${requirementsFileKey}`,
+          `Attempting to clean up stored file due to error: ${requirementsFileKey}`,
         );
-        await this.s3Service
-          .deleteFileByKey(requirementsFileKey)
-          .catch((s3DeleteError) => {
+        await this.storageDriver
+          .delete(requirementsFileKey)
+          .catch((deleteError) => {
             this.logger.error(
-              `Failed to clean up S3 file ${requirementsFileKey}:`,
-              s3DeleteError.stack,
+              `Failed to clean up stored file ${requirementsFileKey}:`,
+              deleteError.stack,
             );
           });
       }
@@ -155,8 +195,12 @@ export class QuoteRequestsService {
       if (error instanceof Prisma.PrismaClientKnownRequestError) {
         this.dbErrorService.handleDatabaseError(error, 'create quote request'); // Let dbErrorService handle specific Prisma errors
       }
+      // e.g. the upload was used by another request meanwhile
+      if (error instanceof HttpException) {
+        throw error;
+      }
 
-      // Throw a generic server error for other unexpected issues (like S3 upload failure)
+      // Throw a generic server error for other unexpected issues (like storage upload failure)
       throw new InternalServerErrorException(
         `An unexpected error occurred while creating the quote request.`,
       );
@@ -164,16 +208,30 @@ export class QuoteRequestsService {
   }
 
   /**
-   * Retrieves all quote requests from the database.
-   * @returns An array of QuoteRequest entities.
+   * Retrieves a page of quote requests.
+   * @param query - Pagination, sorting and filters (status, email).
+   * @returns The page of quote requests, the total count and the next cursor.
    * @throws InternalServerErrorException if database fetch fails.
    */
-  async findAll(): Promise<QuoteRequest[]> {
+  async findAll(
+    query: ListQuoteRequestsQueryDto,
+  ): Promise<Paginated<QuoteRequest>> {
+    const where: Prisma.QuoteRequestWhereInput = {
+      deletedAt: null,
+      status: query.status,
+      email: query.email,
+    };
     try {
-      this.logger.log('Fetching all quote requests from database.');
-      const quoteRequests = await this.prismaService.quoteRequest.findMany();
-      this.logger.log(`Found ${quoteRequests.length} quote requests.`);
-      return quoteRequests;
+      this.logger.log('Fetching quote requests from database.');
+      const [rows, total] = await this.prismaService.$transaction([
+        this.prismaService.quoteRequest.findMany({
+          where,
+          ...buildPaginationArgs<QuoteRequestSortField>(query, 'createdAt'),
+        }),
+        this.prismaService.quoteRequest.count({ where }),
+      ]);
+      this.logger.log(`Found ${total} quote requests.`);
+      return toPaginated(rows, total, query);
     } catch (error) {
       this.logger.error('Failed to fetch all quote requests:', error.stack);
       // Use dbErrorService or throw a standard NestJS exception
@@ -198,8 +256,8 @@ export class QuoteRequestsService {
     this.logger.log(`Fetching quote request with ID: ${id}`);
     let quoteRequest: QuoteRequest | null;
     try {
-      quoteRequest = await this.prismaService.quoteRequest.findUnique({
-        where: { id },
+      quoteRequest = await this.prismaService.quoteRequest.findFirst({
+        where: { id, deletedAt: null },
       });
     } catch (error) {
       this.logger.error(
@@ -225,13 +283,15 @@ export class QuoteRequestsService {
   }
 
   /**
-   * Updates an existing quote request. Handles optional file replacement in S3.
+   * Updates an existing quote request. Handles optional file replacement in storage.
    * @param id - The UUID of the quote request to update.
    * @param updateQuoteRequestDto - DTO containing the fields to update.
    * @param file - Optional new requirements file to replace the existing one.
+   * `requirementsUploadId` can reference an already uploaded file instead.
    * @returns The updated QuoteRequest entity.
    * @throws NotFoundException if the quote request doesn't exist.
-   * @throws InternalServerErrorException for S3 or DB errors during update.
+   * @throws BadRequestException if the referenced upload is unknown, used or incomplete.
+   * @throws InternalServerErrorException for storage or DB errors during update.
    */
   async update(
     id: string,
@@ -242,6 +302,13 @@ export class QuoteRequestsService {
 
     // 1. Verify the quote request exists
     const existingQuoteRequest = await this.findOne(id); // Leverages existing findOne logic including NotFoundException
+    const { requirementsUploadId, ...quoteRequestFields } =
+      updateQuoteRequestDto;
+    // File the client sent straight to S3
+    const [requirementsUpload] = await this.uploadsService.findCompleted(
+      requirementsUploadId ? [requirementsUploadId] : [],
+      UploadPurpose.QUOTE_REQUIREMENTS,
+    );
 
     let newRequirementsFileKey: string | undefined | null =
       existingQuoteRequest.requirementsFile; // Default to existing key or null
@@ -249,35 +316,44 @@ export class QuoteRequestsService {
 
     try {
       // 2. Handle File Replacement (if a new file is provided)
-      if (file) {
-        this.logger.log(
-          `New file provided: ${file.originalname}. Uploading to S3.`,
-        );
-        // Sanitize and generate new key
-        const safeFileName = file.originalname
-          .replace(/[^a-zA-Z0-9_.\-]/g, '_')
-          .replace(/ /g, '_');
-        newRequirementsFileKey = `quote_requests/files/${Date.now()}-${safeFileName}`;
-
-        // Upload the new file
-        await this.s3Service.uploadFileToS3(file, newRequirementsFileKey);
-        this.logger.log(
-          `New file uploaded successfully with key: ${newRequirementsFileKey}`,
-        );
+      if (requirementsUpload || file) {
+        if (requirementsUpload) {
+          // Already in S3
+          newRequirementsFileKey = requirementsUpload.key;
+        } else {
+          this.logger.log(
+            `New file provided: ${file!.originalname}. Uploading to storage.`,
+          );
+          // Sanitize and generate new key
+          const safeFileName = file!.originalname
+            .replace(/[^a-zA-Z0-9_.\-]/g, '_')
+            .replace(/ /g, '_');
+          newRequirementsFileKey = `quote_requests/files/${Date.now()}-${safeFileName}`;
+
+          // Upload the new file
+          await this.storageDriver.put(
+            newRequirementsFileKey,
+            file!.buffer,
+            file!.mimetype,
+          );
+          this.logger.log(
+            `New file uploaded successfully with key: ${newRequirementsFileKey}`,
+          );
+        }
 
         // If upload is successful and an old file existed, delete the old one
         if (oldRequirementsFileKey) {
           this.logger.log(
-            `Deleting old file from S3: ${oldRequirementsFileKey}`,
+            `Deleting old file from storage: ${oldRequirementsFileKey}`,
           );
           // Use await but catch errors specifically for deletion
-          await this.s3Service
-            .deleteFileByKey(oldRequirementsFileKey)
-            .catch((s3DeleteError) => {
+          await this.storageDriver
+            .delete(oldRequirementsFileKey)
+            .catch((deleteError) => {
               // Log failure to delete old file, but don't necessarily fail the update
               this.logger.error(
-                `Failed to delete old S3 file ${oldRequirementsFileKey} during update for quote request ${id}:`,
-                s3DeleteError.stack,
+                `Failed to delete old stored file ${oldRequirementsFileKey} during update for quote request ${id}:`,
+                deleteError.stack,
               );
             });
         }
@@ -290,7 +366,7 @@ export class QuoteRequestsService {
       // 3. Prepare Update Data for Database
       // Use Partial<Prisma.QuoteRequestUpdateInput> for better type safety
       const updateData: Prisma.QuoteRequestUpdateInput = {
-        ...updateQuoteRequestDto,
+        ...quoteRequestFields,
         requirementsFile: newRequirementsFileKey, // Update file key (could be new key, old key, or null)
       };
 
@@ -298,31 +374,36 @@ export class QuoteRequestsService {
       this.logger.log(
         `Updating quote request record in database for ID: ${id}`,
       );
-      const updatedQuoteRequest = await this.prismaService.quoteRequest.update({
-        where: { id },
-        data: updateData,
-      });
+      const updatedQuoteRequest = await this.prismaService.$transaction(
+        async (tx) => {
+          await this.uploadsService.consume(
+            tx,
+            requirementsUpload ? [requirementsUpload.id] : [],
+          );
+          return tx.quoteRequest.update({ where: { id }, data: updateData });
+        },
+      );
       this.logger.log(`Quote request ${id} updated successfully.`);
 
       return updatedQuoteRequest;
     } catch (error) {
       this.logger.error(`Failed to update quote request ${id}:`, error.stack);
 
-      // Attempt to clean up newly uploaded S3 file if DB update failed
+      // Attempt to clean up newly stored file if DB update failed
       if (
         file &&
         newRequirementsFileKey &&
         error instanceof Prisma.PrismaClientKnownRequestError
       ) {
         this.logger.warn(
-          `Attempting to clean up newly uploaded S3 file due to DB update error: ${newRequirementsFileKey}`,
+          `Attempting to clean up newly stored file due to DB update error: ${newRequirementsFileKey}`,
         );
-        await this.s3Service
-          .deleteFileByKey(newRequirementsFileKey)
-          .catch((s3DeleteError) => {
+        await this.storageDriver
+          .delete(newRequirementsFileKey)
+          .catch((deleteError) => {
             this.logger.error(
-              `Failed to clean up newly uploaded S3 file ${newRequirementsFileKey}:`,
-              s3DeleteError.stack,
+              `Failed to clean up newly stored file ${newRequirementsFileKey}:`,
+              deleteError.stack,
             );
           });
       }
@@ -333,12 +414,13 @@ export class QuoteRequestsService {
           error,
           `update quote request ${id}`,
         );
-      } else if (error instanceof NotFoundException) {
+      } else if (error instanceof HttpException) {
         // Re-throw NotFoundException if findOne failed (shouldn't happen if findOne is called first, but good practice)
+        // and ConflictException if the upload was used meanwhile
         throw error;
       }
 
-      // Throw generic error for other issues (like S3 upload failure before DB step)
+      // Throw generic error for other issues (like storage upload failure before DB step)
       throw new InternalServerErrorException(
         `An unexpected error occurred while updating quote request ${id}.`,
       );
@@ -346,72 +428,129 @@ export class QuoteRequestsService {
   }
 
   /**
-   * Deletes a quote request and its associated file from S3.
+   * Moves a quote request to the trash. Its file stays in storage until the
+   * request is purged, manually or after the retention period.
    * @param id - The UUID of the quote request to delete.
-   * @returns Promise<void> - Resolves when deletion is complete.
-   * @throws NotFoundException if the quote request doesn't exist.
-   * @throws InternalServerErrorException for S3 or DB errors during deletion.
+   * @returns Promise<void> - Resolves when the request is trashed.
+   * @throws NotFoundException if the quote request doesn't exist or is already trashed.
+   * @throws InternalServerErrorException for DB errors.
    */
   async remove(id: string): Promise<void> {
     this.logger.log(`Attempting to remove quote request with ID: ${id}`);
-
-    // 1. Verify the quote request exists and get its data
-    const quoteRequestToDelete = await this.findOne(id); // Ensures it exists, throws NotFoundException otherwise
-    const fileKeyToDelete = quoteRequestToDelete.requirementsFile;
+    await this.findOne(id); // Ensures it exists, throws NotFoundException otherwise
 
     try {
-      // 2. Delete from Database first (or S3 first, depending on atomicity preference)
-      // Deleting DB first means if S3 fails, we might have an orphan file.
-      // Deleting S3 first means if DB fails, the record remains but points to a deleted file.
-      // Let's delete DB first as it's often the primary source of truth.
-      this.logger.log(
-        `Deleting quote request record from database for ID: ${id}`,
-      );
-      await this.prismaService.quoteRequest.delete({
+      await this.prismaService.quoteRequest.update({
         where: { id },
+        data: { deletedAt: new Date() },
       });
-      this.logger.log(
-        `Quote request record ${id} deleted successfully from database.`,
+      this.logger.log(`Quote request ${id} moved to the trash.`);
+    } catch (error) {
+      this.logger.error(`Failed to remove quote request ${id}:`, error.stack);
+      this.dbErrorService.handleDatabaseError(
+        error,
+        `delete quote request ${id}`,
       );
+    }
+  }
 
-      // 3. Delete File from S3 (if it exists)
-      if (fileKeyToDelete) {
-        this.logger.log(`Attempting to delete S3 file: ${fileKeyToDelete}`);
-        try {
-          await this.s3Service.deleteFileByKey(fileKeyToDelete);
-          this.logger.log(`S3 file ${fileKeyToDelete} deleted successfully.`);
-        } catch (s3Error) {
-          // Log the S3 deletion error but consider the overall operation successful
-          // as the primary record (DB) is deleted. Adjust if S3 deletion failure is critical.
-          this.logger.error(
-            `Failed to delete S3 file ${fileKeyToDelete} for already deleted quote request ${id}:`,
-            s3Error.stack,
-          );
-          // Potentially add to a cleanup queue or monitoring system
-        }
-      } else {
-        this.logger.log(`No associated S3 file found for quote request ${id}.`);
-      }
+  /**
+   * Retrieves a page of trashed quote requests.
+   * @param query - Pagination and sorting.
+   * @returns The page of trashed quote requests, the total count and the next cursor.
+   * @throws InternalServerErrorException if database fetch fails.
+   */
+  async findTrashed(query: TrashQueryDto): Promise<Paginated<QuoteRequest>> {
+    const where: Prisma.QuoteRequestWhereInput = { deletedAt: { not: null } };
+    try {
+      const [rows, total] = await this.prismaService.$transaction([
+        this.prismaService.quoteRequest.findMany({
+          where,
+          ...buildPaginationArgs<TrashSortField>(query, 'deletedAt'),
+        }),
+        this.prismaService.quoteRequest.count({ where }),
+      ]);
+      return toPaginated(rows, total, query);
+    } catch (error) {
+      this.dbErrorService.handleDatabaseError(
+        error,
+        'fetch trashed quote requests',
+      );
+    }
+  }
 
-      // No explicit return needed for void
+  /**
+   * Takes a quote request out of the trash.
+   * @param id - The UUID of the trashed quote request.
+   * @returns The restored QuoteRequest entity.
+   * @throws NotFoundException if the quote request is not in the trash.
+   */
+  async restore(id: string): Promise<QuoteRequest> {
+    await this.findTrashedOne(id);
+    const quoteRequest = await this.prismaService.quoteRequest.update({
+      where: { id },
+      data: { deletedAt: null },
+    });
+    this.logger.log(`Quote request ${id} restored from the trash.`);
+    return quoteRequest;
+  }
+
+  /**
+   * Permanently deletes a trashed quote request and its file from storage.
+   * A storage failure is logged but doesn't prevent the database deletion.
+   * @param id - The UUID of the trashed quote request.
+   * @throws NotFoundException if the quote request is not in the trash.
+   * @throws InternalServerErrorException for DB errors.
+   */
+  async purge(id: string): Promise<void> {
+    const quoteRequest = await this.findTrashedOne(id);
+    try {
+      await this.prismaService.quoteRequest.delete({ where: { id } });
     } catch (error) {
-      this.logger.error(`Failed to remove quote request ${id}:`, error.stack);
+      this.dbErrorService.handleDatabaseError(
+        error,
+        `purge quote request ${id}`,
+      );
+    }
 
-      // Handle Prisma specific errors (though delete might throw P2025 handled by findOne)
-      if (error instanceof Prisma.PrismaClientKnownRequestError) {
-        this.dbErrorService.handleDatabaseError(
-          error,
-          `delete quote request ${id}`,
-        );
-      } else if (error instanceof NotFoundException) {
-        // Re-throw NotFoundException from findOne
-        throw error;
-      }
+    if (quoteRequest.requirementsFile) {
+      await this.storageDriver
+        .delete(quoteRequest.requirementsFile)
+        .catch((deleteError) => {
+          this.logger.error(
+            `Failed to delete stored file ${quoteRequest.requirementsFile} for purged quote request ${id}:`,
+            deleteError.stack,
+          );
+        });
+    }
+    this.logger.log(`Quote request ${id} permanently deleted.`);
+  }
 
-      // Throw generic error for other unexpected issues
-      throw new InternalServerErrorException(
-        `An unexpected error occurred while removing quote request ${id}.`,
+  /**
+   * Permanently deletes the quote requests trashed before a given date.
+   * @param trashedBefore - Quote requests trashed before this date are purged.
+   * @returns The number of purged quote requests.
+   */
+  async purgeExpired(trashedBefore: Date): Promise<number> {
+    const expired = await this.prismaService.quoteRequest.findMany({
+      where: { deletedAt: { lt: trashedBefore } },
+      select: { id: true },
+    });
+    for (const { id } of expired) {
+      await this.purge(id);
+    }
+    return expired.length;
+  }
+
+  private async findTrashedOne(id: string): Promise<QuoteRequest> {
+    const quoteRequest = await this.prismaService.quoteRequest.findFirst({
+      where: { id, deletedAt: { not: null } },
+    });
+    if (!quoteRequest) {
+      throw new NotFoundException(
+        `Quote request with ID ${id} not found in trash`,
       );
     }
+    return quoteRequest;
   }
 }
@@ -0,0 +1,41 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { RateLimitHit, RateLimitStore } from './rate-limit-store.interface';
+
+const CLEANUP_INTERVAL_MS = 60 * 1000;
+
+@Injectable()
+export class MemoryRateLimitStore implements RateLimitStore, OnModuleDestroy {
+  private readonly windows = new Map<string, RateLimitHit>();
+  private readonly cleanupTimer: NodeJS.Timeout;
+
+  constructor() {
+    // Drop expired windows so the map does not grow with every IP seen
+    this.cleanupTimer = setInterval(() => this.cleanup(), CLEANUP_INTERVAL_MS);
+    this.cleanupTimer.unref();
+  }
+
+  increment(key: string, ttlMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    const current = this.windows.get(key);
+    if (!current || current.resetAt <= now) {
+      const hit = { totalHits: 1, resetAt: now + ttlMs };
+      this.windows.set(key, hit);
+      return Promise.resolve({ ...hit });
+    }
+    current.totalHits += 1;
+    return Promise.resolve({ ...current });
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.cleanupTimer);
+  }
+
+  private cleanup() {
+    const now = Date.now();
+    for (const [key, hit] of this.windows) {
+      if (hit.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,18 @@
+export const RATE_LIMIT_STORE = 'RATE_LIMIT_STORE';
+
+export interface RateLimitHit {
+  totalHits: number; // requests counted in the current window, this one included
+  resetAt: number; // epoch milliseconds when the window ends
+}
+
+/**
+ * Storage for rate-limit counters. The in-memory store only works for a single
+ * instance; a shared store (e.g. Redis) can be bound to RATE_LIMIT_STORE instead.
+ */
+export interface RateLimitStore {
+  /**
+   * Counts a request for the key in a fixed window of `ttlMs`, starting the
+   * window if there is none.
+   */
+  increment(key: string, ttlMs: number): Promise<RateLimitHit>;
+}
@@ -0,0 +1,136 @@
+import { ExecutionContext, HttpException, HttpStatus } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { Test, TestingModule } from '@nestjs/testing';
+import { RateLimitGuard } from './rate-limit.guard';
+import { MemoryRateLimitStore } from './memory-rate-limit.store';
+import { RATE_LIMIT_STORE } from './rate-limit-store.interface';
+import { RateLimit, SkipRateLimit } from 'src/decorators/rate-limit.decorator';
+
+class TestController {
+  @RateLimit({ limit: 2, ttl: 60 })
+  login() {}
+
+  @RateLimit({ limit: 2, ttl: 60, keyBy: 'user' })
+  upload() {}
+
+  @SkipRateLimit()
+  health() {}
+}
+
+describe('RateLimitGuard', () => {
+  let guard: RateLimitGuard;
+  let store: MemoryRateLimitStore;
+  let headers: Record<string, unknown>;
+
+  const contextFor = (
+    handler: keyof TestController,
+    request: { ip?: string; user?: { id: string } } = { ip: '203.0.113.1' },
+  ) =>
+    ({
+      getHandler: () => TestController.prototype[handler],
+      getClass: () => TestController,
+      switchToHttp: () => ({
+        getRequest: () => ({ method: 'POST', url: `/${handler}`, ...request }),
+        getResponse: () => ({
+          setHeader: (name: string, value: unknown) => (headers[name] = value),
+        }),
+      }),
+    }) as unknown as ExecutionContext;
+
+  const rejection = (handler: keyof TestController) =>
+    guard
+      .canActivate(contextFor(handler))
+      .then(() => undefined)
+      .catch((error: HttpException) => error);
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2025-06-01T12:00:00Z') });
+    headers = {};
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RateLimitGuard,
+        Reflector,
+        MemoryRateLimitStore,
+        { provide: RATE_LIMIT_STORE, useExisting: MemoryRateLimitStore },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (_key: string, defaultValue: unknown) => defaultValue,
+          },
+        },
+      ],
+    }).compile();
+
+    guard = module.get<RateLimitGuard>(RateLimitGuard);
+    store = module.get<MemoryRateLimitStore>(MemoryRateLimitStore);
+  });
+
+  afterEach(() => {
+    store.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  it('allows requests up to the limit and reports what is left', async () => {
+    await expect(guard.canActivate(contextFor('login'))).resolves.toBe(true);
+    expect(headers['X-RateLimit-Remaining']).toBe(1);
+    await expect(guard.canActivate(contextFor('login'))).resolves.toBe(true);
+    expect(headers).toMatchObject({
+      'X-RateLimit-Limit': 2,
+      'X-RateLimit-Remaining': 0,
+      'X-RateLimit-Reset': 60,
+    });
+  });
+
+  it('rejects requests over the limit with Retry-After until the window ends', async () => {
+    await guard.canActivate(contextFor('login'));
+    await guard.canActivate(contextFor('login'));
+    jest.advanceTimersByTime(20_000);
+
+    const error = await rejection('login');
+
+    expect(error).toBeInstanceOf(HttpException);
+    expect(error?.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+    expect(error?.getResponse()).toMatchObject({ retryAfter: 40 });
+    expect(headers['Retry-After']).toBe(40);
+  });
+
+  it('starts a new window once the previous one ends', async () => {
+    await guard.canActivate(contextFor('login'));
+    await guard.canActivate(contextFor('login'));
+    jest.advanceTimersByTime(60_000);
+
+    await expect(guard.canActivate(contextFor('login'))).resolves.toBe(true);
+    expect(headers['X-RateLimit-Remaining']).toBe(1);
+  });
+
+  it('counts each route and client separately', async () => {
+    await guard.canActivate(contextFor('login'));
+    await guard.canActivate(contextFor('login'));
+
+    await expect(
+      guard.canActivate(contextFor('login', { ip: '198.51.100.7' })),
+    ).resolves.toBe(true);
+    await expect(guard.canActivate(contextFor('upload'))).resolves.toBe(true);
+  });
+
+  it('counts by user when the policy says so', async () => {
+    const alice = { ip: '203.0.113.1', user: { id: 'alice' } };
+    await guard.canActivate(contextFor('upload', alice));
+    await guard.canActivate(contextFor('upload', alice));
+
+    await expect(
+      guard.canActivate(contextFor('upload', { ...alice, ip: '198.51.100.7' })),
+    ).rejects.toThrow(HttpException);
+    await expect(
+      guard.canActivate(contextFor('upload', { user: { id: 'bob' } })),
+    ).resolves.toBe(true);
+  });
+
+  it('skips routes marked with @SkipRateLimit()', async () => {
+    for (let i = 0; i < 150; i++) {
+      await guard.canActivate(contextFor('health'));
+    }
+    expect(headers).toEqual({});
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Reflector } from '@nestjs/core';
+import { Request, Response } from 'express';
+import {
+  RATE_LIMIT_KEY,
+  RateLimitOptions,
+  SKIP_RATE_LIMIT_KEY,
+} from 'src/decorators/rate-limit.decorator';
+import { RATE_LIMIT_STORE, RateLimitStore } from './rate-limit-store.interface';
+
+interface RequestWithOptionalUser extends Request {
+  user?: { id: string };
+}
+
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  private readonly logger = new Logger(RateLimitGuard.name);
+  // Applied to every route without @RateLimit()
+  private readonly defaultOptions: RateLimitOptions;
+
+  constructor(
+    private reflector: Reflector,
+    private configService: ConfigService,
+    @Inject(RATE_LIMIT_STORE) private store: RateLimitStore,
+  ) {
+    this.defaultOptions = {
+      limit: Number(this.configService.get('RATE_LIMIT_DEFAULT_LIMIT', 100)),
+      ttl: Number(this.configService.get('RATE_LIMIT_DEFAULT_TTL', 60)),
+      keyBy: 'ip',
+    };
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    if (
+      this.reflector.getAllAndOverride<boolean>(SKIP_RATE_LIMIT_KEY, targets)
+    ) {
+      return true;
+    }
+    const options =
+      this.reflector.getAllAndOverride<RateLimitOptions>(
+        RATE_LIMIT_KEY,
+        targets,
+      ) ?? this.defaultOptions;
+    if (!options.limit || !options.ttl) {
+      return true; // a limit of 0 disables the policy
+    }
+
+    const http = context.switchToHttp();
+    const request = http.getRequest<RequestWithOptionalUser>();
+    const response = http.getResponse<Response>();
+
+    // Each route has its own counters
+    const route = `${context.getClass().name}.${context.getHandler().name}`;
+    const key = `${route}:${this.getIdentity(request, options)}`;
+    const { totalHits, resetAt } = await this.store.increment(
+      key,
+      options.ttl * 1000,
+    );
+
+    const resetSeconds = Math.max(Math.ceil((resetAt - Date.now()) / 1000), 1);
+    response.setHeader('X-RateLimit-Limit', options.limit);
+    response.setHeader(
+      'X-RateLimit-Remaining',
+      Math.max(options.limit - totalHits, 0),
+    );
+    response.setHeader('X-RateLimit-Reset', resetSeconds);
+
+    if (totalHits > options.limit) {
+      this.logger.warn(
+        `Rate limit exceeded on ${request.method} ${request.url} by ${key}`,
+      );
+      response.setHeader('Retry-After', resetSeconds);
+      throw new HttpException(
+        {
+          error: 'Too Many Requests',
+          message: 'Too many requests. Please try again later.',
+          retryAfter: resetSeconds,
+          statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        },
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+
+    return true;
+  }
+
+  private getIdentity(
+    request: RequestWithOptionalUser,
+    options: RateLimitOptions,
+  ): string {
+    const ip = `ip:${request.ip ?? 'unknown'}`;
+    const userId = request.user?.id;
+    switch (options.keyBy) {
+      case 'user':
+        return userId ? `user:${userId}` : ip;
+      case 'ip-user':
+        return userId ? `${ip}|user:${userId}` : ip;
+      default:
+        return ip;
+    }
+  }
+}
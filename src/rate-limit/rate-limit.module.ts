@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
+import { RATE_LIMIT_STORE } from './rate-limit-store.interface';
+import { MemoryRateLimitStore } from './memory-rate-limit.store';
+import { RateLimitGuard } from './rate-limit.guard';
+
+@Module({
+  providers: [
+    {
+      // Swap for a shared store when running several instances
+      provide: RATE_LIMIT_STORE,
+      useClass: MemoryRateLimitStore,
+    },
+    {
+      provide: APP_GUARD, // runs after the auth guards of AppModule, so req.user is already set
+      useClass: RateLimitGuard,
+    },
+  ],
+  exports: [RATE_LIMIT_STORE],
+})
+export class RateLimitModule {}
@@ -0,0 +1,7 @@
+// Names of the roles the API knows about. Role names are matched
+// case-insensitively against the `name` column of the Role table.
+export const RoleNames = {
+  ADMIN: 'admin',
+  EDITOR: 'editor',
+  USER: 'user',
+};
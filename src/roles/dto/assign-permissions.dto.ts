@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayUnique, IsArray, IsUUID } from 'class-validator';
+
+export class AssignPermissionsDto {
+  /**
+   * IDs of the permissions to assign to the role.
+   * @example ['f47ac10b-58cc-4372-a567-0e02b2c3d479']
+   */
+  @ApiProperty({
+    description: 'UUIDs of the permissions to assign to the role',
+    example: ['f47ac10b-58cc-4372-a567-0e02b2c3d479'],
+    type: [String],
+  })
+  @IsArray({ message: 'permissionIds must be an array.' })
+  @ArrayUnique({ message: 'permissionIds must not contain duplicates.' })
+  @IsUUID('4', {
+    each: true,
+    message: 'Each permission ID must be a valid UUID.',
+  })
+  readonly permissionIds: string[];
+}
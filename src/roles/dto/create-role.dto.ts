@@ -1,5 +1,11 @@
 import { ApiProperty } from '@nestjs/swagger'; // Optional: For Swagger documentation
-import { IsString, IsNotEmpty, IsOptional, MaxLength } from 'class-validator'; // Import validation decorators
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  MaxLength,
+  IsBoolean,
+} from 'class-validator'; // Import validation decorators
 
 export class CreateRoleDto {
   /**
@@ -30,6 +36,21 @@ export class CreateRoleDto {
   @MaxLength(255, { message: 'Description must not exceed 255 characters.' }) // Example max length
   readonly description?: string;
 
+  /**
+   * Whether users with this role must use two-factor authentication.
+   * @example true
+   */
+  @ApiProperty({
+    description:
+      'Whether users with this role must enable two-factor authentication to log in',
+    example: true,
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'requireTwoFactor must be a boolean.' })
+  readonly requireTwoFactor?: boolean;
+
   // Note: We explicitly DO NOT include 'id', 'createdAt', 'updatedAt', or relation fields like 'users'.
   // The client should only provide the necessary data to create the resource.
 }
@@ -0,0 +1,47 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Exclude, Expose } from 'class-transformer';
+import { Permission, Role } from '@prisma/client';
+import { PermissionResponseDto } from 'src/permissions/dto/permission-response.dto';
+
+/**
+ * Role as returned by the API. `permissions` is only present when loaded.
+ */
+@Exclude()
+export class RoleResponseDto {
+  @Expose()
+  @ApiProperty({ format: 'uuid' })
+  id: string;
+
+  @Expose()
+  @ApiProperty({ example: 'admin' })
+  name: string;
+
+  @Expose()
+  @ApiPropertyOptional({ nullable: true })
+  description: string | null;
+
+  @Expose()
+  @ApiProperty({ example: false })
+  requireTwoFactor: boolean;
+
+  @Expose()
+  @ApiPropertyOptional({ type: () => [PermissionResponseDto] })
+  permissions?: PermissionResponseDto[];
+
+  @Expose()
+  @ApiProperty()
+  createdAt: Date;
+
+  @Expose()
+  @ApiProperty()
+  updatedAt: Date;
+
+  constructor(role: Role & { permissions?: Permission[] }) {
+    Object.assign(this, role);
+    if (role.permissions) {
+      this.permissions = role.permissions.map(
+        (permission) => new PermissionResponseDto(permission),
+      );
+    }
+  }
+}
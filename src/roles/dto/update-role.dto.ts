@@ -1,5 +1,11 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsNotEmpty, IsOptional, MaxLength } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  MaxLength,
+  IsBoolean,
+} from 'class-validator';
 
 export class UpdateRoleDto {
   /**
@@ -31,4 +37,19 @@ export class UpdateRoleDto {
   @IsString({ message: 'Description must be a string.' })
   @MaxLength(255, { message: 'Description must not exceed 255 characters.' })
   readonly description?: string;
+
+  /**
+   * Whether users with this role must use two-factor authentication.
+   * @example true
+   */
+  @ApiProperty({
+    description:
+      'Whether users with this role must enable two-factor authentication to log in',
+    example: true,
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: 'requireTwoFactor must be a boolean.' })
+  readonly requireTwoFactor?: boolean;
 }
@@ -4,6 +4,7 @@ import {
   Post,
   Body,
   Patch,
+  Put,
   Param,
   Delete,
   ParseUUIDPipe, // Use ParseIntPipe if your ID is numeric in Prisma schema
@@ -15,8 +16,8 @@ import {
 import { RolesService } from './roles.service';
 import { CreateRoleDto } from './dto/create-role.dto';
 import { UpdateRoleDto } from './dto/update-role.dto';
-// Import the Role type generated by Prisma
-import { Role } from '@prisma/client';
+import { AssignPermissionsDto } from './dto/assign-permissions.dto';
+import { RoleResponseDto } from './dto/role-response.dto';
 import {
   ApiTags,
   ApiOperation,
@@ -25,6 +26,9 @@ import {
   ApiBody,
 } from '@nestjs/swagger'; // Optional: For API documentation
 import { Public } from 'src/decorators/public.decorator';
+import { Roles } from 'src/decorators/roles.decorator';
+import { RoleNames } from './constants';
+import { PermissionResponseDto } from 'src/permissions/dto/permission-response.dto';
 
 @ApiTags('roles') // Optional: Group endpoints in Swagger UI
 @Controller('roles')
@@ -36,7 +40,7 @@ export class RolesController {
    * Creates a new role.
    * Applies validation pipe to the incoming body.
    */
-  @Public()
+  @Roles(RoleNames.ADMIN)
   @Post()
   /* @UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true })) // Validate DTO  */
   @ApiOperation({ summary: 'Create a new role' }) // Optional: Swagger description
@@ -44,8 +48,8 @@ export class RolesController {
   @ApiResponse({
     status: HttpStatus.CREATED,
     description: 'The role has been successfully created.',
-    type: Object,
-  }) // Use a DTO class for Swagger type, or 'object' if no DTO is available
+    type: RoleResponseDto,
+  })
   @ApiResponse({
     status: HttpStatus.BAD_REQUEST,
     description: 'Invalid input data.',
@@ -54,9 +58,9 @@ export class RolesController {
     status: HttpStatus.CONFLICT,
     description: 'Role name already exists.',
   })
-  async create(@Body() createRoleDto: CreateRoleDto): Promise<Role> {
+  async create(@Body() createRoleDto: CreateRoleDto): Promise<RoleResponseDto> {
     // Delegate creation logic to the service
-    return this.rolesService.create(createRoleDto);
+    return new RoleResponseDto(await this.rolesService.create(createRoleDto));
   }
 
   /**
@@ -68,11 +72,12 @@ export class RolesController {
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Returns all roles.',
-    type: Object,
-  }) // Use Prisma type if swagger plugin configured
-  async findAll(): Promise<Role[]> {
+    type: [RoleResponseDto],
+  })
+  async findAll(): Promise<RoleResponseDto[]> {
     // Delegate fetching logic to the service
-    return this.rolesService.findAll();
+    const roles = await this.rolesService.findAll();
+    return roles.map((role) => new RoleResponseDto(role));
   }
 
   /**
@@ -89,16 +94,16 @@ export class RolesController {
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Returns the specified role.',
-    type: 'object',
-  }) // Use Prisma type if swagger plugin configured
+    type: RoleResponseDto,
+  })
   @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Role not found.' })
   async findOne(
     // Use ParseUUIDPipe (or ParseIntPipe) to validate and potentially transform the ID
     @Param('id', ParseUUIDPipe) id: string,
-  ): Promise<Role> {
+  ): Promise<RoleResponseDto> {
     // Service handles the NotFoundException
     const role = await this.rolesService.findOne(id);
-    return role;
+    return new RoleResponseDto(role);
     // Note: The redundant check `if (!role) { throw new NotFoundException(...) }` is removed
     // because the service already throws NotFoundException if the role isn't found.
   }
@@ -108,6 +113,7 @@ export class RolesController {
    * Applies validation pipe to the incoming body.
    * Uses ParseUUIDPipe for the ID.
    */
+  @Roles(RoleNames.ADMIN)
   @Patch(':id')
   @UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true })) // Validate DTO
   @ApiOperation({ summary: 'Update a role by ID' }) // Optional: Swagger
@@ -120,8 +126,8 @@ export class RolesController {
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'The role has been successfully updated.',
-    type: Object,
-  }) // Use Prisma type if swagger plugin configured
+    type: RoleResponseDto,
+  })
   @ApiResponse({
     status: HttpStatus.BAD_REQUEST,
     description: 'Invalid input data.',
@@ -134,9 +140,11 @@ export class RolesController {
   async update(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() updateRoleDto: UpdateRoleDto,
-  ): Promise<Role> {
+  ): Promise<RoleResponseDto> {
     // Delegate update logic to the service. The service handles 'not found' and 'conflict'.
-    return this.rolesService.update(id, updateRoleDto);
+    return new RoleResponseDto(
+      await this.rolesService.update(id, updateRoleDto),
+    );
   }
 
   /**
@@ -144,6 +152,7 @@ export class RolesController {
    * Uses ParseUUIDPipe for the ID.
    * Returns HTTP 204 No Content on successful deletion.
    */
+  @Roles(RoleNames.ADMIN)
   @Delete(':id')
   @HttpCode(HttpStatus.NO_CONTENT) // Set standard HTTP status for successful deletion
   @ApiOperation({ summary: 'Delete a role by ID' }) // Optional: Swagger
@@ -162,4 +171,117 @@ export class RolesController {
     await this.rolesService.remove(id);
     // No content is returned on success
   }
+
+  // --- Role permissions ---
+
+  /**
+   * Lists the permissions assigned to a role.
+   */
+  @Roles(RoleNames.ADMIN)
+  @Get(':id/permissions')
+  @ApiOperation({ summary: 'Get the permissions assigned to a role' })
+  @ApiParam({ name: 'id', description: 'The UUID of the role', type: String })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Returns the permissions of the role.',
+    type: [PermissionResponseDto],
+  })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'Role not found.' })
+  async findPermissions(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<PermissionResponseDto[]> {
+    const permissions = await this.rolesService.findPermissions(id);
+    return permissions.map(
+      (permission) => new PermissionResponseDto(permission),
+    );
+  }
+
+  /**
+   * Adds permissions to a role without removing the existing ones.
+   */
+  @Roles(RoleNames.ADMIN)
+  @Post(':id/permissions')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Add permissions to a role' })
+  @ApiParam({ name: 'id', description: 'The UUID of the role', type: String })
+  @ApiBody({ type: AssignPermissionsDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Returns the permissions of the role after the change.',
+    type: [PermissionResponseDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Role or permission not found.',
+  })
+  async addPermissions(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() assignPermissionsDto: AssignPermissionsDto,
+  ): Promise<PermissionResponseDto[]> {
+    const permissions = await this.rolesService.addPermissions(
+      id,
+      assignPermissionsDto.permissionIds,
+    );
+    return permissions.map(
+      (permission) => new PermissionResponseDto(permission),
+    );
+  }
+
+  /**
+   * Replaces the whole set of permissions of a role.
+   */
+  @Roles(RoleNames.ADMIN)
+  @Put(':id/permissions')
+  @ApiOperation({ summary: 'Replace the permissions of a role' })
+  @ApiParam({ name: 'id', description: 'The UUID of the role', type: String })
+  @ApiBody({ type: AssignPermissionsDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Returns the permissions of the role after the change.',
+    type: [PermissionResponseDto],
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Role or permission not found.',
+  })
+  async setPermissions(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() assignPermissionsDto: AssignPermissionsDto,
+  ): Promise<PermissionResponseDto[]> {
+    const permissions = await this.rolesService.setPermissions(
+      id,
+      assignPermissionsDto.permissionIds,
+    );
+    return permissions.map(
+      (permission) => new PermissionResponseDto(permission),
+    );
+  }
+
+  /**
+   * Removes a single permission from a role.
+   */
+  @Roles(RoleNames.ADMIN)
+  @Delete(':id/permissions/:permissionId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remove a permission from a role' })
+  @ApiParam({ name: 'id', description: 'The UUID of the role', type: String })
+  @ApiParam({
+    name: 'permissionId',
+    description: 'The UUID of the permission to remove',
+    type: String,
+  })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'The permission has been removed from the role.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Role not found or permission not assigned to it.',
+  })
+  async removePermission(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('permissionId', ParseUUIDPipe) permissionId: string,
+  ): Promise<void> {
+    await this.rolesService.removePermission(id, permissionId);
+  }
 }
@@ -9,7 +9,7 @@ import { CreateRoleDto } from './dto/create-role.dto';
 import { UpdateRoleDto } from './dto/update-role.dto';
 import { PrismaService } from 'src/prisma/prisma.service'; // Assuming PrismaService path
 // Import Prisma error codes and generated types
-import { Prisma, Role } from '@prisma/client';
+import { Prisma, Permission, Role } from '@prisma/client';
 
 @Injectable()
 export class RolesService {
@@ -75,6 +75,7 @@ export class RolesService {
   async findOne(id: string): Promise<Role> {
     const roleFound = await this.prismaService.role.findUnique({
       where: { id },
+      include: { permissions: true },
     });
 
     if (!roleFound) {
@@ -164,4 +165,122 @@ export class RolesService {
       throw new InternalServerErrorException('Could not delete role.');
     }
   }
+
+  /**
+   * Retrieves the permissions assigned to a role.
+   * @param id - The UUID string of the role.
+   * @returns The role's permissions ordered by name.
+   * @throws NotFoundException if the role is not found.
+   */
+  async findPermissions(id: string): Promise<Permission[]> {
+    const role = await this.prismaService.role.findUnique({
+      where: { id },
+      include: { permissions: { orderBy: { name: 'asc' } } },
+    });
+
+    if (!role) {
+      throw new NotFoundException(`Role with ID "${id}" not found`);
+    }
+    return role.permissions;
+  }
+
+  /**
+   * Assigns permissions to a role, keeping the ones it already has.
+   * @param id - The UUID string of the role.
+   * @param permissionIds - IDs of the permissions to add.
+   * @returns The role's permissions after the change.
+   * @throws NotFoundException if the role or any permission is not found.
+   */
+  async addPermissions(
+    id: string,
+    permissionIds: string[],
+  ): Promise<Permission[]> {
+    await this.assertPermissionsExist(permissionIds);
+    await this.updatePermissions(id, {
+      connect: permissionIds.map((permissionId) => ({ id: permissionId })),
+    });
+    return this.findPermissions(id);
+  }
+
+  /**
+   * Replaces the full set of permissions of a role.
+   * @param id - The UUID string of the role.
+   * @param permissionIds - IDs of the permissions the role should have.
+   * @returns The role's permissions after the change.
+   * @throws NotFoundException if the role or any permission is not found.
+   */
+  async setPermissions(
+    id: string,
+    permissionIds: string[],
+  ): Promise<Permission[]> {
+    await this.assertPermissionsExist(permissionIds);
+    await this.updatePermissions(id, {
+      set: permissionIds.map((permissionId) => ({ id: permissionId })),
+    });
+    return this.findPermissions(id);
+  }
+
+  /**
+   * Removes a single permission from a role.
+   * @param id - The UUID string of the role.
+   * @param permissionId - The UUID string of the permission to remove.
+   * @throws NotFoundException if the role does not have that permission.
+   */
+  async removePermission(id: string, permissionId: string): Promise<void> {
+    const permissions = await this.findPermissions(id);
+    if (!permissions.some((permission) => permission.id === permissionId)) {
+      throw new NotFoundException(
+        `Permission with ID "${permissionId}" is not assigned to role "${id}"`,
+      );
+    }
+    await this.updatePermissions(id, {
+      disconnect: { id: permissionId },
+    });
+  }
+
+  /**
+   * Throws NotFoundException if any of the given permission IDs does not exist.
+   */
+  private async assertPermissionsExist(permissionIds: string[]): Promise<void> {
+    const found = await this.prismaService.permission.findMany({
+      where: { id: { in: permissionIds } },
+      select: { id: true },
+    });
+    if (found.length !== permissionIds.length) {
+      const foundIds = new Set(found.map((permission) => permission.id));
+      const missing = permissionIds.filter((pid) => !foundIds.has(pid));
+      throw new NotFoundException(
+        `Permissions not found: ${missing.join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Applies a relation update to the role's permissions.
+   */
+  private async updatePermissions(
+    id: string,
+    permissions: Prisma.PermissionUpdateManyWithoutRolesNestedInput,
+  ): Promise<void> {
+    try {
+      await this.prismaService.role.update({
+        where: { id },
+        data: { permissions },
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2025'
+      ) {
+        throw new NotFoundException(`Role with ID "${id}" not found`);
+      }
+      this.logger.error(
+        `Failed to update permissions of role with ID: ${id}`,
+        error instanceof Error ? error.stack : undefined,
+      );
+      throw new InternalServerErrorException(
+        'Could not update role permissions.',
+      );
+    }
+  }
 }
@@ -0,0 +1,100 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Exclude, Expose } from 'class-transformer';
+import { StoredFile } from '../storage-driver.interface';
+import { DanglingReference, MediaGcReport } from '../media-gc.service';
+
+@Exclude()
+export class OrphanedFileDto {
+  @Expose()
+  @ApiProperty({ example: 'projects/images/1718000000000-old.jpg' })
+  key: string;
+
+  @Expose()
+  @ApiProperty({ description: 'Size in bytes', example: 482133 })
+  size: number;
+
+  @Expose()
+  @ApiProperty()
+  lastModified: Date;
+
+  constructor(file: StoredFile) {
+    Object.assign(this, file);
+  }
+}
+
+@Exclude()
+export class DanglingReferenceDto {
+  @Expose()
+  @ApiProperty({ example: 'projects/videos/1718000000000-demo.mp4' })
+  key: string;
+
+  @Expose()
+  @ApiProperty({
+    enum: [
+      'ProjectMedia',
+      'ProjectMediaVariant',
+      'Project.video',
+      'QuoteRequest.requirementsFile',
+    ],
+    description: 'Table (and column) holding the key',
+  })
+  source: DanglingReference['source'];
+
+  @Expose()
+  @ApiProperty({ format: 'uuid', description: 'Id of the row' })
+  id: string;
+
+  constructor(reference: DanglingReference) {
+    Object.assign(this, reference);
+  }
+}
+
+/**
+ * Result of an orphaned media collection.
+ */
+@Exclude()
+export class MediaGcReportDto {
+  @Expose()
+  @ApiProperty({ description: 'Whether orphans were only reported' })
+  dryRun: boolean;
+
+  @Expose()
+  @ApiProperty({
+    description: 'Files found under projects/ and quote_requests/',
+  })
+  scannedFiles: number;
+
+  @Expose()
+  @ApiProperty({ type: [OrphanedFileDto] })
+  orphans: OrphanedFileDto[];
+
+  @Expose()
+  @ApiProperty({ description: 'Total size of the orphans in bytes' })
+  orphanBytes: number;
+
+  @Expose()
+  @ApiProperty({ type: [String], description: 'Keys of the deleted orphans' })
+  deleted: string[];
+
+  @Expose()
+  @ApiProperty({
+    type: [String],
+    description: 'Keys of the orphans that could not be deleted',
+  })
+  failed: string[];
+
+  @Expose()
+  @ApiProperty({
+    type: [DanglingReferenceDto],
+    description: 'Database keys whose file is missing; left unchanged',
+  })
+  danglingReferences: DanglingReferenceDto[];
+
+  constructor(report: MediaGcReport) {
+    Object.assign(this, report);
+    this.orphans = report.orphans.map((file) => new OrphanedFileDto(file));
+    this.danglingReferences = report.danglingReferences.map(
+      (reference) => new DanglingReferenceDto(reference),
+    );
+  }
+}
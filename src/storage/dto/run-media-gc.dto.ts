@@ -0,0 +1,25 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsInt, IsOptional, Min } from 'class-validator';
+
+/**
+ * Data Transfer Object for running the orphaned media collector.
+ */
+export class RunMediaGcDto {
+  @ApiPropertyOptional({
+    description: 'Only report orphans and dangling references',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  readonly dryRun?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Files modified more recently are never treated as orphans, as their row may still be being written',
+    default: 24,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0, { message: 'minAgeHours must not be negative.' })
+  readonly minAgeHours?: number;
+}
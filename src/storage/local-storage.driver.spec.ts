@@ -0,0 +1,141 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LocalStorageDriver } from './local-storage.driver';
+
+// Splits a signed download URL into what the storage controller receives
+function parseSignedUrl(url: string) {
+  const { pathname, searchParams } = new URL(url);
+  return {
+    key: decodeURIComponent(pathname.replace('/api/storage/', '')),
+    expires: searchParams.get('expires') ?? '',
+    signature: searchParams.get('signature') ?? '',
+  };
+}
+
+describe('LocalStorageDriver', () => {
+  let driver: LocalStorageDriver;
+  let rootDir: string;
+  let config: Record<string, string>;
+
+  const createDriver = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LocalStorageDriver,
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+    return module.get<LocalStorageDriver>(LocalStorageDriver);
+  };
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(join(tmpdir(), 'local-storage-'));
+    config = {
+      STORAGE_LOCAL_DIR: rootDir,
+      STORAGE_PUBLIC_URL: 'http://localhost:4000/api',
+      STORAGE_SIGNING_SECRET: 'signing-secret',
+    };
+    driver = await createDriver();
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should be defined', () => {
+    expect(driver).toBeDefined();
+  });
+
+  it('requires a signing secret', async () => {
+    delete config.STORAGE_SIGNING_SECRET;
+
+    await expect(createDriver()).rejects.toThrow('STORAGE_SIGNING_SECRET');
+  });
+
+  describe('verifySignature', () => {
+    const key = 'projects/images/cover photo.png';
+
+    it('accepts the URLs it signed', async () => {
+      const url = parseSignedUrl(await driver.getSignedUrl(key));
+
+      expect(url.key).toBe(key);
+      expect(driver.verifySignature(url.key, url.expires, url.signature)).toBe(
+        true,
+      );
+    });
+
+    it('rejects a signature made for another key', async () => {
+      const { expires, signature } = parseSignedUrl(
+        await driver.getSignedUrl(key),
+      );
+
+      expect(
+        driver.verifySignature('projects/images/other.png', expires, signature),
+      ).toBe(false);
+    });
+
+    it('rejects a changed expiry or signature', async () => {
+      const { expires, signature } = parseSignedUrl(
+        await driver.getSignedUrl(key),
+      );
+
+      expect(
+        driver.verifySignature(key, String(Number(expires) + 60), signature),
+      ).toBe(false);
+      expect(driver.verifySignature(key, expires, `${signature}x`)).toBe(false);
+      expect(driver.verifySignature(key, 'soon', signature)).toBe(false);
+    });
+
+    it('rejects expired URLs', async () => {
+      const { expires, signature } = parseSignedUrl(
+        await driver.getSignedUrl(key, 60),
+      );
+      jest.useFakeTimers({ now: Date.now() + 61_000 });
+
+      expect(driver.verifySignature(key, expires, signature)).toBe(false);
+    });
+
+    it('rejects URLs signed with another secret', async () => {
+      const url = parseSignedUrl(await driver.getSignedUrl(key));
+      config.STORAGE_SIGNING_SECRET = 'rotated-secret';
+      const rotated = await createDriver();
+
+      expect(rotated.verifySignature(url.key, url.expires, url.signature)).toBe(
+        false,
+      );
+    });
+  });
+
+  it('stores files with their content type', async () => {
+    await driver.put(
+      'quotes/brief.pdf',
+      Buffer.from('%PDF-1.7'),
+      'application/pdf',
+    );
+
+    await expect(driver.head('quotes/brief.pdf')).resolves.toEqual({
+      size: 8,
+      contentType: 'application/pdf',
+    });
+    await expect(driver.get('quotes/brief.pdf')).resolves.toEqual(
+      Buffer.from('%PDF-1.7'),
+    );
+    await driver.delete('quotes/brief.pdf');
+    await expect(driver.head('quotes/brief.pdf')).resolves.toBeNull();
+  });
+
+  it('refuses keys outside its root', async () => {
+    await expect(driver.get('../secrets.txt')).rejects.toThrow(
+      'Invalid storage key',
+    );
+    await expect(driver.head('.meta/quotes/brief.pdf.json')).rejects.toThrow(
+      'Invalid storage key',
+    );
+  });
+});
@@ -0,0 +1,216 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { createReadStream } from 'fs';
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import { dirname, join, resolve, sep } from 'path';
+import { Readable } from 'stream';
+import {
+  StorageDriver,
+  StoredFile,
+  StoredFileInfo,
+} from './storage-driver.interface';
+
+// Content types are kept in JSON files under this directory of the root
+const METADATA_DIR = '.meta';
+
+/**
+ * Files on the local disk, under `STORAGE_LOCAL_DIR`, for development and
+ * tests. Download URLs point to `GET /storage/<key>` on this API and are
+ * signed with `STORAGE_SIGNING_SECRET` (HMAC-SHA256 of the key and expiry).
+ */
+@Injectable()
+export class LocalStorageDriver implements StorageDriver {
+  private readonly logger = new Logger(LocalStorageDriver.name);
+  private readonly rootDir: string;
+  private readonly baseUrl: string;
+  private readonly signingSecret: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.rootDir = resolve(
+      this.configService.get<string>('STORAGE_LOCAL_DIR') || 'storage',
+    );
+    const port = this.configService.get<string>('PORT') || '4000';
+    this.baseUrl = (
+      this.configService.get<string>('STORAGE_PUBLIC_URL') ||
+      `http://localhost:${port}/api`
+    ).replace(/\/+$/, '');
+
+    const signingSecret = this.configService.get<string>(
+      'STORAGE_SIGNING_SECRET',
+    );
+    if (!signingSecret) {
+      throw new Error(
+        'STORAGE_SIGNING_SECRET must be configured to use the local storage driver',
+      );
+    }
+    this.signingSecret = signingSecret;
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<string> {
+    const path = this.resolvePath(key);
+    const metadataPath = this.resolvePath(key, true);
+    try {
+      await mkdir(dirname(path), { recursive: true });
+      await mkdir(dirname(metadataPath), { recursive: true });
+      await writeFile(path, body);
+      await writeFile(metadataPath, JSON.stringify({ contentType }));
+      return key;
+    } catch (error) {
+      throw new Error(
+        `Failed to write file ${key}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await readFile(this.resolvePath(key));
+    } catch (error) {
+      throw new Error(
+        `Failed to read file ${key}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  async stream(key: string): Promise<Readable> {
+    // Fails now rather than when the stream is read
+    if (!(await this.head(key))) {
+      throw new Error(`Failed to read file ${key}: not found`);
+    }
+    return createReadStream(this.resolvePath(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    if (!key) {
+      this.logger.warn(`delete called with empty key.`);
+      return;
+    }
+    try {
+      await rm(this.resolvePath(key), { force: true });
+      await rm(this.resolvePath(key, true), { force: true });
+      this.logger.log(`Deleted file: ${key}`);
+    } catch (error) {
+      throw new Error(
+        `Failed to delete file ${key}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  getSignedUrl(key: string, expiresIn = 3600): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + expiresIn;
+    const path = key.split('/').map(encodeURIComponent).join('/');
+    return Promise.resolve(
+      `${this.baseUrl}/storage/${path}?expires=${expires}&signature=${this.sign(key, expires)}`,
+    );
+  }
+
+  getKeyFromUrl(url: string): string {
+    try {
+      const prefix = `${new URL(this.baseUrl).pathname.replace(/\/$/, '')}/storage/`;
+      const { pathname } = new URL(url);
+      return pathname.startsWith(prefix)
+        ? decodeURIComponent(pathname.slice(prefix.length))
+        : '';
+    } catch (error) {
+      this.logger.error(
+        `Failed to extract key from URL: ${url}`,
+        error instanceof Error ? error.stack : undefined,
+      );
+      return '';
+    }
+  }
+
+  async head(key: string): Promise<StoredFileInfo | null> {
+    try {
+      const { size } = await stat(this.resolvePath(key));
+      const metadata = await readFile(this.resolvePath(key, true), 'utf8')
+        .then((content) => JSON.parse(content) as { contentType?: string })
+        .catch(() => ({ contentType: undefined }));
+      return { size, contentType: metadata.contentType };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw new Error(
+        `Failed to check file ${key}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  async list(prefix: string): Promise<StoredFile[]> {
+    // Only the directory of the prefix needs to be walked
+    const directory = prefix.slice(0, prefix.lastIndexOf('/') + 1);
+    const files: StoredFile[] = [];
+    const walk = async (relativeDir: string): Promise<void> => {
+      const entries = await readdir(join(this.rootDir, relativeDir), {
+        withFileTypes: true,
+      }).catch((error: NodeJS.ErrnoException) => {
+        if (error.code === 'ENOENT') {
+          return [];
+        }
+        throw error;
+      });
+      for (const entry of entries) {
+        const key = `${relativeDir}${entry.name}`;
+        if (entry.isDirectory()) {
+          if (key !== METADATA_DIR) {
+            await walk(`${key}/`);
+          }
+        } else if (key.startsWith(prefix)) {
+          const { size, mtime } = await stat(join(this.rootDir, key));
+          files.push({ key, size, lastModified: mtime });
+        }
+      }
+    };
+
+    try {
+      await walk(directory);
+      return files;
+    } catch (error) {
+      throw new Error(
+        `Failed to list files under ${prefix}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Checks a download URL's signature.
+   * @param key - The requested key.
+   * @param expires - The `expires` query parameter (epoch seconds).
+   * @param signature - The `signature` query parameter.
+   * @returns true if the URL was signed for this key and hasn't expired.
+   */
+  verifySignature(key: string, expires: string, signature: string): boolean {
+    const expiresAt = Number(expires);
+    if (!Number.isInteger(expiresAt) || expiresAt * 1000 < Date.now()) {
+      return false;
+    }
+    const expected = Buffer.from(this.sign(key, expiresAt));
+    const received = Buffer.from(signature ?? '');
+    return (
+      expected.length === received.length && timingSafeEqual(expected, received)
+    );
+  }
+
+  private sign(key: string, expires: number): string {
+    return createHmac('sha256', this.signingSecret)
+      .update(`${key}\n${expires}`)
+      .digest('base64url');
+  }
+
+  // Keys are relative paths; anything that would escape the root is refused
+  private resolvePath(key: string, metadata = false): string {
+    const path = metadata
+      ? resolve(this.rootDir, METADATA_DIR, `${key}.json`)
+      : resolve(this.rootDir, key);
+    const base = metadata ? join(this.rootDir, METADATA_DIR) : this.rootDir;
+    if (
+      !path.startsWith(base + sep) ||
+      (!metadata && key.split('/')[0] === METADATA_DIR)
+    ) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+}
@@ -0,0 +1,58 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MediaGcController } from './media-gc.controller';
+import { MediaGcService } from './media-gc.service';
+import {
+  DanglingReferenceDto,
+  MediaGcReportDto,
+  OrphanedFileDto,
+} from './dto/media-gc-report.dto';
+
+describe('MediaGcController', () => {
+  let controller: MediaGcController;
+  const mediaGcService = { collect: jest.fn() };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [MediaGcController],
+      providers: [{ provide: MediaGcService, useValue: mediaGcService }],
+    }).compile();
+
+    controller = module.get<MediaGcController>(MediaGcController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('returns the report with its files as DTOs', async () => {
+    mediaGcService.collect.mockResolvedValue({
+      dryRun: false,
+      scannedFiles: 2,
+      orphans: [
+        {
+          key: 'projects/images/orphan.png',
+          size: 300,
+          lastModified: new Date('2025-06-01T12:00:00Z'),
+        },
+      ],
+      orphanBytes: 300,
+      deleted: ['projects/images/orphan.png'],
+      failed: [],
+      danglingReferences: [
+        { id: 'lost', key: 'projects/images/lost.png', source: 'ProjectMedia' },
+      ],
+    });
+
+    const report = await controller.collect({ dryRun: false });
+
+    expect(mediaGcService.collect).toHaveBeenCalledWith({ dryRun: false });
+    expect(report).toBeInstanceOf(MediaGcReportDto);
+    expect(report.orphans[0]).toBeInstanceOf(OrphanedFileDto);
+    expect(report.danglingReferences[0]).toBeInstanceOf(DanglingReferenceDto);
+    expect(report).toMatchObject({
+      dryRun: false,
+      deleted: ['projects/images/orphan.png'],
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { Body, Controller, HttpCode, HttpStatus, Post } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Roles } from 'src/decorators/roles.decorator';
+import { RoleNames } from 'src/roles/constants';
+import { MediaGcService } from './media-gc.service';
+import { RunMediaGcDto } from './dto/run-media-gc.dto';
+import { MediaGcReportDto } from './dto/media-gc-report.dto';
+
+@ApiTags('storage')
+@Controller('storage/gc')
+export class MediaGcController {
+  constructor(private readonly mediaGcService: MediaGcService) {}
+
+  @Roles(RoleNames.ADMIN)
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Find (and delete) orphaned media files (admin only)',
+    description:
+      'Compares the files under projects/ and quote_requests/ with the keys in the database. Dry run by default; send `dryRun: false` to delete the orphans. Also `npm run media:gc`.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The orphans, the deleted files and the dangling references.',
+    type: MediaGcReportDto,
+  })
+  async collect(
+    @Body() runMediaGcDto: RunMediaGcDto,
+  ): Promise<MediaGcReportDto> {
+    return new MediaGcReportDto(
+      await this.mediaGcService.collect(runMediaGcDto),
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MediaGcService } from './media-gc.service';
+import { STORAGE_DRIVER } from './storage-driver.interface';
+import { PrismaService } from 'src/prisma/prisma.service';
+
+const NOW = new Date('2025-06-30T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('MediaGcService', () => {
+  let service: MediaGcService;
+  const prismaService = {
+    projectMedia: { findMany: jest.fn() },
+    projectMediaVariant: { findMany: jest.fn() },
+    project: { findMany: jest.fn() },
+    quoteRequest: { findMany: jest.fn() },
+    projectRevision: { findMany: jest.fn() },
+    upload: { findMany: jest.fn() },
+  };
+  const storageDriver = { list: jest.fn(), delete: jest.fn() };
+
+  const file = (key: string, ageDays = 7, size = 100) => ({
+    key,
+    size,
+    lastModified: new Date(NOW.getTime() - ageDays * DAY_MS),
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    jest.useFakeTimers({ now: NOW });
+    storageDriver.list.mockImplementation((prefix: string) =>
+      Promise.resolve(
+        prefix === 'projects/'
+          ? [
+              file('projects/images/shown.png'),
+              file('projects/images/variants/shown/thumbnail.webp'),
+              file('projects/videos/shown.mp4'),
+              file('projects/images/in-revision.png'),
+              file('projects/images/pending-upload.png'),
+              file('projects/images/orphan.png', 7, 300),
+              file('projects/images/just-written.png', 0),
+            ]
+          : [
+              file('quote_requests/brief.pdf'),
+              file('quote_requests/orphan.pdf', 2, 200),
+            ],
+      ),
+    );
+    prismaService.projectMedia.findMany.mockResolvedValue([
+      { id: 'media', key: 'projects/images/shown.png' },
+      { id: 'lost', key: 'projects/images/lost.png' },
+    ]);
+    prismaService.projectMediaVariant.findMany.mockResolvedValue([
+      { id: 'variant', key: 'projects/images/variants/shown/thumbnail.webp' },
+    ]);
+    prismaService.project.findMany.mockResolvedValue([
+      { id: 'project', video: 'projects/videos/shown.mp4' },
+      { id: 'without-video', video: null },
+    ]);
+    prismaService.quoteRequest.findMany.mockResolvedValue([
+      { id: 'quote', requirementsFile: 'quote_requests/brief.pdf' },
+    ]);
+    prismaService.projectRevision.findMany.mockResolvedValue([
+      { images: ['projects/images/in-revision.png'], video: null },
+    ]);
+    prismaService.upload.findMany.mockResolvedValue([
+      { key: 'projects/images/pending-upload.png' },
+    ]);
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MediaGcService,
+        { provide: PrismaService, useValue: prismaService },
+        { provide: STORAGE_DRIVER, useValue: storageDriver },
+      ],
+    }).compile();
+
+    service = module.get<MediaGcService>(MediaGcService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('reports unreferenced files older than a day without deleting them by default', async () => {
+    const report = await service.collect();
+
+    expect(report).toEqual({
+      dryRun: true,
+      scannedFiles: 9,
+      orphans: [
+        file('projects/images/orphan.png', 7, 300),
+        file('quote_requests/orphan.pdf', 2, 200),
+      ],
+      orphanBytes: 500,
+      deleted: [],
+      failed: [],
+      danglingReferences: [
+        { id: 'lost', key: 'projects/images/lost.png', source: 'ProjectMedia' },
+      ],
+    });
+    expect(storageDriver.delete).not.toHaveBeenCalled();
+    expect(prismaService.upload.findMany).toHaveBeenCalledWith({
+      where: { consumedAt: null, expiresAt: { gt: NOW } },
+      select: { key: true },
+    });
+  });
+
+  it('honours a custom minimum age', async () => {
+    const report = await service.collect({ minAgeHours: 72 });
+
+    expect(report.orphans.map(({ key }) => key)).toEqual([
+      'projects/images/orphan.png',
+    ]);
+  });
+
+  it('deletes the orphans one by one and reports failures', async () => {
+    storageDriver.delete
+      .mockRejectedValueOnce(new Error('Access denied'))
+      .mockResolvedValueOnce(undefined);
+
+    const report = await service.collect({ dryRun: false });
+
+    expect(storageDriver.delete.mock.calls).toEqual([
+      ['projects/images/orphan.png'],
+      ['quote_requests/orphan.pdf'],
+    ]);
+    expect(report.failed).toEqual(['projects/images/orphan.png']);
+    expect(report.deleted).toEqual(['quote_requests/orphan.pdf']);
+  });
+});
@@ -0,0 +1,188 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from 'src/prisma/prisma.service';
+import {
+  STORAGE_DRIVER,
+  StorageDriver,
+  StoredFile,
+} from './storage-driver.interface';
+
+// Directories holding project media and quote request files
+const MEDIA_PREFIXES = ['projects/', 'quote_requests/'];
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface DanglingReference {
+  key: string;
+  source:
+    | 'ProjectMedia'
+    | 'ProjectMediaVariant'
+    | 'Project.video'
+    | 'QuoteRequest.requirementsFile';
+  id: string; // of the row holding the key
+}
+
+export interface MediaGcOptions {
+  dryRun?: boolean; // only report; the default
+  minAgeHours?: number; // newer files are never orphans; 24 by default
+}
+
+export interface MediaGcReport {
+  dryRun: boolean;
+  scannedFiles: number;
+  orphans: StoredFile[];
+  orphanBytes: number;
+  deleted: string[];
+  failed: string[];
+  danglingReferences: DanglingReference[];
+}
+
+/**
+ * Reconciles stored media with the database. Files under `projects/` and
+ * `quote_requests/` that no row references are orphans, left behind by
+ * deletes that failed or by cascades (e.g. purging a category) that don't
+ * touch storage. Keys of database rows whose file is missing are reported as
+ * dangling references; they are never changed.
+ *
+ * Referenced keys include the media of trashed projects and of revisions (so
+ * they stay restorable) and unused uploads that haven't expired yet.
+ */
+@Injectable()
+export class MediaGcService {
+  private readonly logger = new Logger(MediaGcService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    @Inject(STORAGE_DRIVER) private readonly storageDriver: StorageDriver,
+  ) {}
+
+  /**
+   * Lists the orphans and dangling references, and deletes the orphans
+   * unless it is a dry run. Failed deletes are logged and reported.
+   *
+   * @param options.dryRun - Only report (default true).
+   * @param options.minAgeHours - Files modified more recently are skipped, so
+   * that files being written along with their row are not taken for orphans.
+   * @returns The report.
+   */
+  async collect(options: MediaGcOptions = {}): Promise<MediaGcReport> {
+    const dryRun = options.dryRun ?? true;
+    const minAgeHours = options.minAgeHours ?? 24;
+    const modifiedBefore = new Date(Date.now() - minAgeHours * HOUR_MS);
+
+    const files = (
+      await Promise.all(
+        MEDIA_PREFIXES.map((prefix) => this.storageDriver.list(prefix)),
+      )
+    ).flat();
+    const liveReferences = await this.findLiveReferences();
+    const referencedKeys = new Set([
+      ...liveReferences.map((reference) => reference.key),
+      ...(await this.findRetainedKeys()),
+    ]);
+
+    const orphans = files.filter(
+      (file) =>
+        !referencedKeys.has(file.key) && file.lastModified < modifiedBefore,
+    );
+    const storedKeys = new Set(files.map((file) => file.key));
+    const danglingReferences = liveReferences.filter(
+      (reference) =>
+        MEDIA_PREFIXES.some((prefix) => reference.key.startsWith(prefix)) &&
+        !storedKeys.has(reference.key),
+    );
+
+    const report: MediaGcReport = {
+      dryRun,
+      scannedFiles: files.length,
+      orphans,
+      orphanBytes: orphans.reduce((total, file) => total + file.size, 0),
+      deleted: [],
+      failed: [],
+      danglingReferences,
+    };
+
+    if (!dryRun) {
+      // One at a time to stay clear of storage rate limits
+      for (const orphan of orphans) {
+        try {
+          await this.storageDriver.delete(orphan.key);
+          report.deleted.push(orphan.key);
+        } catch (error) {
+          report.failed.push(orphan.key);
+          this.logger.error(
+            `Failed to delete orphaned file ${orphan.key}: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      }
+    }
+
+    this.logger.log(
+      `Media GC${dryRun ? ' (dry run)' : ''}: ${files.length} file(s) scanned, ` +
+        `${orphans.length} orphan(s) (${report.orphanBytes} bytes), ${report.deleted.length} deleted, ` +
+        `${report.failed.length} failed, ${danglingReferences.length} dangling reference(s).`,
+    );
+    return report;
+  }
+
+  // Keys the current content of projects and quote requests points to
+  private async findLiveReferences(): Promise<DanglingReference[]> {
+    const [media, variants, projects, quoteRequests] = await Promise.all([
+      this.prismaService.projectMedia.findMany({
+        select: { id: true, key: true },
+      }),
+      this.prismaService.projectMediaVariant.findMany({
+        select: { id: true, key: true },
+      }),
+      this.prismaService.project.findMany({
+        select: { id: true, video: true },
+      }),
+      this.prismaService.quoteRequest.findMany({
+        select: { id: true, requirementsFile: true },
+      }),
+    ]);
+
+    return [
+      ...media.map(({ id, key }) => ({
+        id,
+        key,
+        source: 'ProjectMedia' as const,
+      })),
+      ...variants.map(({ id, key }) => ({
+        id,
+        key,
+        source: 'ProjectMediaVariant' as const,
+      })),
+      ...projects
+        .filter((project) => project.video)
+        .map(({ id, video }) => ({
+          id,
+          key: video,
+          source: 'Project.video' as const,
+        })),
+      ...quoteRequests
+        .filter((quoteRequest) => quoteRequest.requirementsFile)
+        .map(({ id, requirementsFile }) => ({
+          id,
+          key: requirementsFile,
+          source: 'QuoteRequest.requirementsFile' as const,
+        })),
+    ];
+  }
+
+  // Keys that must be kept although nothing shows them: media of revisions
+  // and files of uploads that can still be used
+  private async findRetainedKeys(): Promise<string[]> {
+    const [revisions, uploads] = await Promise.all([
+      this.prismaService.projectRevision.findMany({
+        select: { images: true, video: true },
+      }),
+      this.prismaService.upload.findMany({
+        where: { consumedAt: null, expiresAt: { gt: new Date() } },
+        select: { key: true },
+      }),
+    ]);
+    return [
+      ...revisions.flatMap((revision) => [...revision.images, revision.video]),
+      ...uploads.map((upload) => upload.key),
+    ];
+  }
+}
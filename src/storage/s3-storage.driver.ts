@@ -0,0 +1,46 @@
+import { Injectable } from '@nestjs/common';
+import { Readable } from 'stream';
+import { S3Service } from 'src/common/services/aws-s3.service';
+import {
+  StorageDriver,
+  StoredFile,
+  StoredFileInfo,
+} from './storage-driver.interface';
+
+// Files in the AWS_S3_BUCKET_NAME bucket
+@Injectable()
+export class S3StorageDriver implements StorageDriver {
+  constructor(private readonly s3Service: S3Service) {}
+
+  put(key: string, body: Buffer, contentType: string): Promise<string> {
+    return this.s3Service.uploadBufferToS3(body, key, contentType);
+  }
+
+  get(key: string): Promise<Buffer> {
+    return this.s3Service.downloadFile(key);
+  }
+
+  stream(key: string): Promise<Readable> {
+    return this.s3Service.getFileStream(key);
+  }
+
+  delete(key: string): Promise<void> {
+    return this.s3Service.deleteFileByKey(key);
+  }
+
+  getSignedUrl(key: string, expiresIn?: number): Promise<string> {
+    return this.s3Service.getPresignedUrl(key, expiresIn);
+  }
+
+  getKeyFromUrl(url: string): string {
+    return this.s3Service.extractKeyFromUrl(url);
+  }
+
+  head(key: string): Promise<StoredFileInfo | null> {
+    return this.s3Service.getFileInfo(key);
+  }
+
+  list(prefix: string): Promise<StoredFile[]> {
+    return this.s3Service.listFiles(prefix);
+  }
+}
@@ -0,0 +1,45 @@
+import { Readable } from 'stream';
+
+export const STORAGE_DRIVER = 'STORAGE_DRIVER';
+
+export interface StoredFileInfo {
+  size: number; // bytes
+  contentType?: string;
+}
+
+export interface StoredFile {
+  key: string;
+  size: number; // bytes
+  lastModified: Date;
+}
+
+/**
+ * Where uploaded files are kept, addressed by key (e.g.
+ * `projects/images/123-photo.jpg`). `STORAGE_DRIVER` picks the
+ * implementation bound to STORAGE_DRIVER: `s3` (default) or `local`.
+ */
+export interface StorageDriver {
+  /** Writes a file, replacing any file with the same key. Returns the key. */
+  put(key: string, body: Buffer, contentType: string): Promise<string>;
+
+  /** Reads a whole file. Fails if it doesn't exist. */
+  get(key: string): Promise<Buffer>;
+
+  /** Opens a file for reading. Fails if it doesn't exist. */
+  stream(key: string): Promise<Readable>;
+
+  /** Deletes a file; deleting a missing file is not an error. */
+  delete(key: string): Promise<void>;
+
+  /** Returns a temporary URL to download the file, valid `expiresIn` seconds. */
+  getSignedUrl(key: string, expiresIn?: number): Promise<string>;
+
+  /** Returns the key of a URL made by `getSignedUrl`, or '' if it isn't one. */
+  getKeyFromUrl(url: string): string;
+
+  /** Returns the size and type of a file, or null if it doesn't exist. */
+  head(key: string): Promise<StoredFileInfo | null>;
+
+  /** Lists every file whose key starts with `prefix`. */
+  list(prefix: string): Promise<StoredFile[]>;
+}
@@ -0,0 +1,93 @@
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Response } from 'express';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { StorageController } from './storage.controller';
+import { LocalStorageDriver } from './local-storage.driver';
+import { STORAGE_DRIVER } from './storage-driver.interface';
+
+describe('StorageController', () => {
+  let controller: StorageController;
+  let driver: LocalStorageDriver;
+  let rootDir: string;
+  const response = { setHeader: jest.fn() };
+
+  const createController = async (storageDriver: unknown) => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [StorageController],
+      providers: [{ provide: STORAGE_DRIVER, useValue: storageDriver }],
+    }).compile();
+    return module.get<StorageController>(StorageController);
+  };
+
+  const download = async (key: string, signedKey = key) => {
+    const { searchParams } = new URL(await driver.getSignedUrl(signedKey));
+    return controller.download(
+      key.split('/'),
+      searchParams.get('expires') ?? '',
+      searchParams.get('signature') ?? '',
+      response as unknown as Response,
+    );
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    rootDir = await mkdtemp(join(tmpdir(), 'storage-controller-'));
+    const config: Record<string, string> = {
+      STORAGE_LOCAL_DIR: rootDir,
+      STORAGE_SIGNING_SECRET: 'signing-secret',
+    };
+    driver = new LocalStorageDriver({
+      get: (key: string) => config[key],
+    } as unknown as ConfigService);
+    controller = await createController(driver);
+  });
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true });
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('streams a file for a valid signed URL', async () => {
+    await driver.put('projects/images/a.png', Buffer.from('png'), 'image/png');
+
+    const file = await download('projects/images/a.png');
+
+    expect(file.getHeaders()).toMatchObject({
+      type: 'image/png',
+      length: 3,
+    });
+    expect(response.setHeader).toHaveBeenCalledWith(
+      'Cross-Origin-Resource-Policy',
+      'cross-origin',
+    );
+  });
+
+  it('refuses a URL signed for another key', async () => {
+    await driver.put('projects/images/a.png', Buffer.from('png'), 'image/png');
+
+    await expect(
+      download('projects/images/a.png', 'projects/images/b.png'),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('answers 404 for a missing file', async () => {
+    await expect(download('projects/images/missing.png')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+
+  it('answers 404 when files are not served locally', async () => {
+    controller = await createController({ head: jest.fn() });
+
+    await expect(download('projects/images/a.png')).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+});
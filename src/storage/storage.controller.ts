@@ -0,0 +1,65 @@
+import {
+  Controller,
+  ForbiddenException,
+  Get,
+  HttpStatus,
+  Inject,
+  NotFoundException,
+  Param,
+  Query,
+  Res,
+  StreamableFile,
+} from '@nestjs/common';
+import { ApiExcludeController } from '@nestjs/swagger';
+import { Response } from 'express';
+import { Public } from 'src/decorators/public.decorator';
+import { SkipRateLimit } from 'src/decorators/rate-limit.decorator';
+import { STORAGE_DRIVER, StorageDriver } from './storage-driver.interface';
+import { LocalStorageDriver } from './local-storage.driver';
+
+/**
+ * Serves the signed download URLs of the local storage driver. With the S3
+ * driver, URLs point to S3 and every request here is a 404.
+ */
+@ApiExcludeController()
+@Controller('storage')
+export class StorageController {
+  constructor(
+    @Inject(STORAGE_DRIVER) private readonly storageDriver: StorageDriver,
+  ) {}
+
+  // Signed URLs are already limited by the endpoints that hand them out, and
+  // a gallery loads many files at once
+  @Public()
+  @SkipRateLimit()
+  @Get('*key')
+  async download(
+    @Param('key') segments: string[] | string,
+    @Query('expires') expires: string,
+    @Query('signature') signature: string,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<StreamableFile> {
+    if (!(this.storageDriver instanceof LocalStorageDriver)) {
+      throw new NotFoundException();
+    }
+    const key = [segments].flat().join('/');
+    if (!this.storageDriver.verifySignature(key, expires, signature)) {
+      throw new ForbiddenException({
+        error: 'Forbidden',
+        message: 'The download URL is invalid or expired.',
+        statusCode: HttpStatus.FORBIDDEN,
+      });
+    }
+
+    const file = await this.storageDriver.head(key);
+    if (!file) {
+      throw new NotFoundException(`File ${key} not found`);
+    }
+    // Helmet only allows same-origin embedding; the front end is elsewhere
+    response.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    return new StreamableFile(await this.storageDriver.stream(key), {
+      type: file.contentType ?? 'application/octet-stream',
+      length: file.size,
+    });
+  }
+}
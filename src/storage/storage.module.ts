@@ -0,0 +1,41 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { S3Service } from 'src/common/services/aws-s3.service';
+import { STORAGE_DRIVER, StorageDriver } from './storage-driver.interface';
+import { S3StorageDriver } from './s3-storage.driver';
+import { LocalStorageDriver } from './local-storage.driver';
+import { StorageController } from './storage.controller';
+import { MediaGcService } from './media-gc.service';
+import { MediaGcController } from './media-gc.controller';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [StorageController, MediaGcController],
+  providers: [
+    S3Service,
+    {
+      provide: STORAGE_DRIVER,
+      useFactory: (
+        configService: ConfigService,
+        s3Service: S3Service,
+      ): StorageDriver => {
+        const driver = configService.get<string>('STORAGE_DRIVER') || 's3';
+        switch (driver) {
+          case 's3':
+            return new S3StorageDriver(s3Service);
+          case 'local':
+            return new LocalStorageDriver(configService);
+          default:
+            throw new Error(
+              `Unknown STORAGE_DRIVER "${driver}"; use "s3" or "local"`,
+            );
+        }
+      },
+      inject: [ConfigService, S3Service],
+    },
+    MediaGcService,
+  ],
+  exports: [STORAGE_DRIVER],
+})
+export class StorageModule {}
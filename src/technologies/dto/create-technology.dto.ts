@@ -0,0 +1,63 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { TechnologyCategory } from '@prisma/client';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+
+/**
+ * Data Transfer Object for adding a technology to the catalog.
+ */
+export class CreateTechnologyDto {
+  @ApiProperty({
+    description: 'Canonical name, unique regardless of case',
+    example: 'React',
+    maxLength: 50,
+  })
+  @IsString({ message: 'Name must be a string.' })
+  @IsNotEmpty({ message: 'Name should not be empty.' })
+  @MaxLength(50, { message: 'Name must not exceed 50 characters.' })
+  readonly name: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Alternative spellings that resolve to this technology, matched case-insensitively',
+    example: ['ReactJS', 'React.js'],
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20, { message: 'A technology can have at most 20 aliases.' })
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true, message: 'Aliases should not be empty.' })
+  @MaxLength(50, {
+    each: true,
+    message: 'Aliases must not exceed 50 characters.',
+  })
+  readonly aliases?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Icon identifier used by the front end',
+    example: 'react',
+  })
+  @IsOptional()
+  @Matches(/^[a-z0-9-]+$/, {
+    message: 'Icon key must contain only lowercase letters, digits and dashes.',
+  })
+  @MaxLength(50, { message: 'Icon key must not exceed 50 characters.' })
+  readonly iconKey?: string;
+
+  @ApiPropertyOptional({
+    enum: TechnologyCategory,
+    default: TechnologyCategory.OTHER,
+  })
+  @IsOptional()
+  @IsEnum(TechnologyCategory)
+  readonly category?: TechnologyCategory;
+}
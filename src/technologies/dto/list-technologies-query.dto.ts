@@ -0,0 +1,51 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { TechnologyCategory } from '@prisma/client';
+import {
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+
+export const TECHNOLOGY_SORT_FIELDS = ['usageCount', 'name'] as const;
+export type TechnologySortField = (typeof TECHNOLOGY_SORT_FIELDS)[number];
+
+/**
+ * Query parameters of GET /technologies. The catalog is small, so the
+ * whole list is returned at once, as tag clouds need it.
+ */
+export class ListTechnologiesQueryDto {
+  @ApiPropertyOptional({ enum: TechnologyCategory })
+  @IsOptional()
+  @IsEnum(TechnologyCategory)
+  category?: TechnologyCategory;
+
+  @ApiPropertyOptional({
+    description: 'Only technologies whose name contains this text',
+    example: 'react',
+  })
+  @IsOptional()
+  @IsString()
+  q?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only technologies used by at least this many projects',
+    minimum: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  minUsage?: number;
+
+  @ApiPropertyOptional({
+    enum: TECHNOLOGY_SORT_FIELDS,
+    default: 'usageCount',
+    description:
+      '`usageCount` sorts the most used first, `name` alphabetically',
+  })
+  @IsOptional()
+  @IsIn(TECHNOLOGY_SORT_FIELDS)
+  sortBy?: TechnologySortField;
+}
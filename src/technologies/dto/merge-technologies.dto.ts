@@ -0,0 +1,18 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayMinSize, IsArray, IsUUID } from 'class-validator';
+
+/**
+ * Body of POST /technologies/:id/merge.
+ */
+export class MergeTechnologiesDto {
+  @ApiProperty({
+    description:
+      'Duplicates to merge into the technology of the URL. They are deleted and their names become aliases',
+    type: [String],
+    format: 'uuid',
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsUUID('all', { each: true })
+  readonly sourceIds: string[];
+}
@@ -0,0 +1,77 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Exclude, Expose } from 'class-transformer';
+import { Technology, TechnologyCategory } from '@prisma/client';
+
+/**
+ * Technology as returned by the API.
+ */
+@Exclude()
+export class TechnologyResponseDto {
+  @Expose()
+  @ApiProperty({ format: 'uuid' })
+  id: string;
+
+  @Expose()
+  @ApiProperty({ example: 'React' })
+  name: string;
+
+  @Expose()
+  @ApiProperty({ type: [String], example: ['reactjs', 'react.js'] })
+  aliases: string[];
+
+  @Expose()
+  @ApiPropertyOptional({ nullable: true, example: 'react' })
+  iconKey: string | null;
+
+  @Expose()
+  @ApiProperty({ enum: TechnologyCategory })
+  category: TechnologyCategory;
+
+  @Expose()
+  @ApiProperty()
+  createdAt: Date;
+
+  @Expose()
+  @ApiProperty()
+  updatedAt: Date;
+
+  constructor(technology: Technology) {
+    Object.assign(this, technology);
+  }
+}
+
+/**
+ * Technology with the number of published projects using it.
+ */
+@Exclude()
+export class TechnologyUsageResponseDto extends TechnologyResponseDto {
+  @Expose()
+  @ApiProperty({ example: 12 })
+  usageCount: number;
+
+  constructor(technology: Technology & { usageCount: number }) {
+    super(technology);
+    this.usageCount = technology.usageCount;
+  }
+}
+
+/**
+ * Result of merging duplicates into a technology.
+ */
+export class MergeTechnologiesResponseDto {
+  @ApiProperty({ type: () => TechnologyUsageResponseDto })
+  technology: TechnologyUsageResponseDto;
+
+  @ApiProperty({
+    description: 'Names of the technologies merged and deleted',
+    type: [String],
+    example: ['ReactJS'],
+  })
+  mergedNames: string[];
+
+  @ApiProperty({
+    description: 'Number of projects newly linked to the technology',
+    example: 4,
+  })
+  relinkedProjects: number;
+}
@@ -0,0 +1,8 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateTechnologyDto } from './create-technology.dto';
+
+/**
+ * Data Transfer Object for updating a technology. `aliases`, when given,
+ * replaces the whole list.
+ */
+export class UpdateTechnologyDto extends PartialType(CreateTechnologyDto) {}
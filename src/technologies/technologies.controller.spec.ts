@@ -0,0 +1,68 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { TechnologiesController } from './technologies.controller';
+import { TechnologiesService } from './technologies.service';
+import { TechnologyUsageResponseDto } from './dto/technology-response.dto';
+
+describe('TechnologiesController', () => {
+  let controller: TechnologiesController;
+  const technologiesService = {
+    findAll: jest.fn(),
+    merge: jest.fn(),
+    remove: jest.fn(),
+  };
+  const technology = {
+    id: 'react',
+    name: 'React',
+    aliases: ['reactjs'],
+    iconKey: null,
+    category: 'FRONTEND',
+    createdAt: new Date('2025-06-01T12:00:00Z'),
+    updatedAt: new Date('2025-06-01T12:00:00Z'),
+    usageCount: 3,
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [TechnologiesController],
+      providers: [
+        { provide: TechnologiesService, useValue: technologiesService },
+      ],
+    }).compile();
+
+    controller = module.get<TechnologiesController>(TechnologiesController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('returns technologies with their usage counts', async () => {
+    technologiesService.findAll.mockResolvedValue([technology]);
+
+    const [listed] = await controller.findAll({ minUsage: 1 });
+
+    expect(listed).toBeInstanceOf(TechnologyUsageResponseDto);
+    expect(listed).toEqual(technology);
+    expect(technologiesService.findAll).toHaveBeenCalledWith({ minUsage: 1 });
+  });
+
+  it('merges the duplicates given in the body', async () => {
+    technologiesService.merge.mockResolvedValue({
+      technology,
+      mergedNames: ['ReactJS'],
+      relinkedProjects: 2,
+    });
+
+    const result = await controller.merge('react', { sourceIds: ['reactjs'] });
+
+    expect(technologiesService.merge).toHaveBeenCalledWith('react', [
+      'reactjs',
+    ]);
+    expect(result.technology).toBeInstanceOf(TechnologyUsageResponseDto);
+    expect(result).toMatchObject({
+      mergedNames: ['ReactJS'],
+      relinkedProjects: 2,
+    });
+  });
+});
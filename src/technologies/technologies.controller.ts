@@ -0,0 +1,189 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { TechnologiesService } from './technologies.service';
+import { CreateTechnologyDto } from './dto/create-technology.dto';
+import { UpdateTechnologyDto } from './dto/update-technology.dto';
+import { MergeTechnologiesDto } from './dto/merge-technologies.dto';
+import { ListTechnologiesQueryDto } from './dto/list-technologies-query.dto';
+import {
+  MergeTechnologiesResponseDto,
+  TechnologyUsageResponseDto,
+} from './dto/technology-response.dto';
+import { Public } from 'src/decorators/public.decorator';
+import { RequirePermissions } from 'src/decorators/require-permissions.decorator';
+import { PermissionNames } from 'src/permissions/constants';
+
+@ApiTags('technologies')
+@Controller('technologies')
+export class TechnologiesController {
+  constructor(private readonly technologiesService: TechnologiesService) {}
+
+  /**
+   * Lists the technology catalog with usage counts, e.g. for tag clouds.
+   */
+  @Public()
+  @Get()
+  @ApiOperation({
+    summary: 'List technologies with their usage counts',
+    description:
+      '`usageCount` is the number of published projects using the technology. The whole catalog is returned, without pagination.',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The matching technologies.',
+    type: [TechnologyUsageResponseDto],
+  })
+  async findAll(
+    @Query() query: ListTechnologiesQueryDto,
+  ): Promise<TechnologyUsageResponseDto[]> {
+    const technologies = await this.technologiesService.findAll(query);
+    return technologies.map(
+      (technology) => new TechnologyUsageResponseDto(technology),
+    );
+  }
+
+  @RequirePermissions(PermissionNames.TECHNOLOGIES_WRITE)
+  @Post()
+  @ApiOperation({ summary: 'Add a technology to the catalog' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'The technology has been created.',
+    type: TechnologyUsageResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The name or an alias is already used by a technology.',
+  })
+  async create(
+    @Body() createTechnologyDto: CreateTechnologyDto,
+  ): Promise<TechnologyUsageResponseDto> {
+    return new TechnologyUsageResponseDto(
+      await this.technologiesService.create(createTechnologyDto),
+    );
+  }
+
+  /**
+   * Merges duplicates (e.g. "ReactJS" into "React").
+   */
+  @RequirePermissions(PermissionNames.TECHNOLOGIES_WRITE)
+  @Post(':id/merge')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Merge duplicate technologies into this one',
+    description:
+      'Projects of the duplicates are linked to this technology, their names become its aliases and they are deleted.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'The UUID of the technology to keep',
+    type: String,
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The technologies have been merged.',
+    type: MergeTechnologiesResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'The technology is listed among its own duplicates.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'One of the technologies does not exist.',
+  })
+  async merge(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() mergeTechnologiesDto: MergeTechnologiesDto,
+  ): Promise<MergeTechnologiesResponseDto> {
+    const result = await this.technologiesService.merge(
+      id,
+      mergeTechnologiesDto.sourceIds,
+    );
+    return {
+      ...result,
+      technology: new TechnologyUsageResponseDto(result.technology),
+    };
+  }
+
+  @Public()
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a technology by ID' })
+  @ApiParam({ name: 'id', description: 'The UUID of the technology' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    type: TechnologyUsageResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Technology not found.',
+  })
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<TechnologyUsageResponseDto> {
+    return new TechnologyUsageResponseDto(
+      await this.technologiesService.findOne(id),
+    );
+  }
+
+  @RequirePermissions(PermissionNames.TECHNOLOGIES_WRITE)
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a technology' })
+  @ApiParam({ name: 'id', description: 'The UUID of the technology' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'The technology has been updated.',
+    type: TechnologyUsageResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Technology not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The name or an alias is already used by another technology.',
+  })
+  async update(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() updateTechnologyDto: UpdateTechnologyDto,
+  ): Promise<TechnologyUsageResponseDto> {
+    return new TechnologyUsageResponseDto(
+      await this.technologiesService.update(id, updateTechnologyDto),
+    );
+  }
+
+  @RequirePermissions(PermissionNames.TECHNOLOGIES_WRITE)
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Delete an unused technology',
+    description: 'Technologies still used by projects must be merged instead.',
+  })
+  @ApiParam({ name: 'id', description: 'The UUID of the technology' })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'The technology has been deleted.',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Technology not found.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Projects still use the technology.',
+  })
+  async remove(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    await this.technologiesService.remove(id);
+  }
+}
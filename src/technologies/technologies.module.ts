@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TechnologiesService } from './technologies.service';
+import { TechnologiesController } from './technologies.controller';
+import { DatabaseErrorService } from 'src/common/services/database-error.service';
+import { PrismaModule } from 'src/prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [TechnologiesController],
+  providers: [TechnologiesService, DatabaseErrorService],
+  exports: [TechnologiesService],
+})
+export class TechnologiesModule {}
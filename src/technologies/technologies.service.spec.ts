@@ -0,0 +1,242 @@
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { TechnologiesService } from './technologies.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { DatabaseErrorService } from 'src/common/services/database-error.service';
+
+describe('TechnologiesService', () => {
+  let service: TechnologiesService;
+  const prismaService = {
+    $transaction: jest.fn(),
+    project: { count: jest.fn(), findMany: jest.fn() },
+    technology: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+
+  const technology = (name: string, usage = 0, aliases: string[] = []) => ({
+    id: name.toLowerCase(),
+    name,
+    aliases,
+    iconKey: null,
+    category: 'FRONTEND',
+    createdAt: new Date('2025-06-01T12:00:00Z'),
+    updatedAt: new Date('2025-06-01T12:00:00Z'),
+    _count: { projects: usage },
+  });
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prismaService.$transaction.mockImplementation(
+      (callback: (tx: typeof prismaService) => unknown) =>
+        callback(prismaService),
+    );
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TechnologiesService,
+        DatabaseErrorService,
+        { provide: PrismaService, useValue: prismaService },
+      ],
+    }).compile();
+
+    service = module.get<TechnologiesService>(TechnologiesService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('findAll', () => {
+    beforeEach(() => {
+      prismaService.technology.findMany.mockResolvedValue([
+        technology('Angular', 1),
+        technology('NestJS', 5),
+        technology('React', 5),
+        technology('Vue', 0),
+      ]);
+    });
+
+    it('lists the most used first, ties in alphabetical order', async () => {
+      const technologies = await service.findAll({});
+
+      expect(technologies.map(({ name }) => name)).toEqual([
+        'NestJS',
+        'React',
+        'Angular',
+        'Vue',
+      ]);
+      expect(technologies[0]).toMatchObject({ usageCount: 5 });
+      expect(technologies[0]).not.toHaveProperty('_count');
+    });
+
+    it('filters by minimum usage and keeps names in order when asked', async () => {
+      const technologies = await service.findAll({
+        minUsage: 1,
+        sortBy: 'name',
+      });
+
+      expect(technologies.map(({ name }) => name)).toEqual([
+        'Angular',
+        'NestJS',
+        'React',
+      ]);
+    });
+  });
+
+  describe('create', () => {
+    it('normalizes the name and aliases', async () => {
+      prismaService.technology.findMany.mockResolvedValue([]);
+      prismaService.technology.create.mockResolvedValue(
+        technology('Node JS', 0, ['nodejs']),
+      );
+
+      await service.create({
+        name: '  Node   JS ',
+        aliases: ['NodeJS', 'nodejs', ' node js ', ''],
+      } as never);
+
+      expect(prismaService.technology.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            name: 'Node JS',
+            aliases: ['nodejs'],
+          }) as object,
+        }),
+      );
+    });
+
+    it('rejects a name already used as an alias', async () => {
+      prismaService.technology.findMany.mockResolvedValue([{ name: 'React' }]);
+
+      await expect(
+        service.create({ name: 'ReactJS' } as never),
+      ).rejects.toThrow(
+        new ConflictException(
+          'The name or an alias is already used by: React. Merge the technologies instead.',
+        ),
+      );
+      expect(prismaService.technology.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('refuses to delete a technology still used by projects', async () => {
+      prismaService.technology.findUnique.mockResolvedValue(
+        technology('React', 0),
+      );
+      prismaService.project.count.mockResolvedValue(2);
+
+      await expect(service.remove('react')).rejects.toThrow(ConflictException);
+      expect(prismaService.project.count).toHaveBeenCalledWith({
+        where: { technologies: { some: { id: 'react' } } },
+      });
+      expect(prismaService.technology.delete).not.toHaveBeenCalled();
+    });
+
+    it('deletes an unused technology', async () => {
+      prismaService.technology.findUnique.mockResolvedValue(
+        technology('React', 0),
+      );
+      prismaService.project.count.mockResolvedValue(0);
+
+      await service.remove('react');
+
+      expect(prismaService.technology.delete).toHaveBeenCalledWith({
+        where: { id: 'react' },
+      });
+    });
+  });
+
+  describe('merge', () => {
+    it('refuses to merge a technology into itself', async () => {
+      await expect(
+        service.merge('react', ['reactjs', 'react']),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('reports missing duplicates', async () => {
+      prismaService.technology.findUnique.mockResolvedValue(
+        technology('React'),
+      );
+      prismaService.technology.findMany.mockResolvedValue([]);
+
+      await expect(service.merge('react', ['reactjs'])).rejects.toThrow(
+        new NotFoundException('Technologies not found: reactjs'),
+      );
+    });
+
+    it('relinks projects not yet linked and keeps the names as aliases', async () => {
+      prismaService.technology.findUnique
+        .mockResolvedValueOnce(technology('React', 0, ['react.js']))
+        .mockResolvedValueOnce(technology('React', 3, ['react.js', 'reactjs']));
+      prismaService.technology.findMany.mockResolvedValue([
+        {
+          ...technology('ReactJS', 0, ['react js']),
+          projects: [{ id: 'shared' }, { id: 'other' }],
+        },
+      ]);
+      prismaService.project.findMany.mockResolvedValue([{ id: 'shared' }]);
+
+      const result = await service.merge('react', ['reactjs', 'reactjs']);
+
+      expect(prismaService.technology.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['reactjs'] } },
+      });
+      expect(prismaService.technology.update).toHaveBeenCalledWith({
+        where: { id: 'react' },
+        data: {
+          aliases: ['react.js', 'reactjs', 'react js'],
+          projects: { connect: [{ id: 'other' }] },
+        },
+      });
+      expect(result).toMatchObject({
+        mergedNames: ['ReactJS'],
+        relinkedProjects: 1,
+        technology: { id: 'react', usageCount: 3 },
+      });
+    });
+  });
+
+  describe('resolve', () => {
+    it('matches names and aliases, adds unknown names and drops duplicates', async () => {
+      const react = technology('React');
+      prismaService.technology.findFirst.mockImplementation(
+        ({ where }: { where: Prisma.TechnologyWhereInput }) =>
+          Promise.resolve(
+            JSON.stringify(where).includes('react') ? react : null,
+          ),
+      );
+      prismaService.technology.create.mockImplementation(
+        ({ data }: { data: { name: string } }) =>
+          Promise.resolve(technology(data.name)),
+      );
+
+      const technologies = await service.resolve([
+        'React',
+        ' reactjs ',
+        'Deno  Deploy',
+        '  ',
+      ]);
+
+      expect(technologies.map(({ name }) => name)).toEqual([
+        'React',
+        'Deno Deploy',
+      ]);
+      expect(prismaService.technology.create).toHaveBeenCalledTimes(1);
+      expect(prismaService.technology.create).toHaveBeenCalledWith({
+        data: { name: 'Deno Deploy' },
+      });
+    });
+  });
+});
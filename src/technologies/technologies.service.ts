@@ -0,0 +1,365 @@
+import {
+  BadRequestException,
+  ConflictException,
+  HttpException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, Technology } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { DatabaseErrorService } from 'src/common/services/database-error.service';
+import { publishedProjectsWhere } from 'src/projects/project-visibility';
+import {
+  normalizeTechnologyName,
+  technologyNameWhere,
+  toTechnologyAlias,
+} from 'src/utils/technology-name-utils';
+import { CreateTechnologyDto } from './dto/create-technology.dto';
+import { UpdateTechnologyDto } from './dto/update-technology.dto';
+import { ListTechnologiesQueryDto } from './dto/list-technologies-query.dto';
+
+export type TechnologyWithUsage = Technology & { usageCount: number };
+
+export interface TechnologyMergeResult {
+  technology: TechnologyWithUsage;
+  mergedNames: string[];
+  relinkedProjects: number;
+}
+
+// Counts only the projects the public can see
+const usageCountInclude = () =>
+  ({
+    _count: {
+      select: {
+        projects: { where: { deletedAt: null, ...publishedProjectsWhere() } },
+      },
+    },
+  }) satisfies Prisma.TechnologyInclude;
+
+type TechnologyWithCount = Technology & { _count: { projects: number } };
+
+@Injectable()
+export class TechnologiesService {
+  private readonly logger = new Logger(TechnologiesService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly dbErrorService: DatabaseErrorService,
+  ) {}
+
+  /**
+   * Lists the catalog with the number of published projects using each
+   * technology, the most used first by default.
+   *
+   * @param query - Category, name and minimum usage filters, and sorting.
+   * @returns A Promise resolving to the matching technologies.
+   * @throws {InternalServerErrorException} If a database error occurs during fetching.
+   */
+  async findAll(
+    query: ListTechnologiesQueryDto,
+  ): Promise<TechnologyWithUsage[]> {
+    try {
+      const technologies = await this.prismaService.technology.findMany({
+        where: {
+          category: query.category,
+          name: query.q
+            ? { contains: query.q, mode: 'insensitive' }
+            : undefined,
+        },
+        include: usageCountInclude(),
+        orderBy: { name: 'asc' },
+      });
+
+      const withUsage = technologies
+        .map((technology) => this.withUsage(technology))
+        .filter((technology) => technology.usageCount >= (query.minUsage ?? 0));
+      if ((query.sortBy ?? 'usageCount') === 'usageCount') {
+        // Stable sort: ties stay in alphabetical order
+        withUsage.sort((a, b) => b.usageCount - a.usageCount);
+      }
+      return withUsage;
+    } catch (error) {
+      this.dbErrorService.handleDatabaseError(
+        error,
+        'Failed to fetch technologies',
+      );
+    }
+  }
+
+  /**
+   * Retrieves a technology with its usage count.
+   *
+   * @param id - The UUID string of the technology.
+   * @returns A Promise resolving to the technology.
+   * @throws {NotFoundException} If the technology doesn't exist.
+   */
+  async findOne(id: string): Promise<TechnologyWithUsage> {
+    const technology = await this.prismaService.technology.findUnique({
+      where: { id },
+      include: usageCountInclude(),
+    });
+    if (!technology) {
+      throw new NotFoundException(`Technology with ID ${id} not found`);
+    }
+    return this.withUsage(technology);
+  }
+
+  /**
+   * Adds a technology to the catalog.
+   *
+   * @param createTechnologyDto - Name, aliases, icon key and category.
+   * @returns A Promise resolving to the created technology.
+   * @throws {ConflictException} If the name or an alias already belongs to a technology.
+   */
+  async create(
+    createTechnologyDto: CreateTechnologyDto,
+  ): Promise<TechnologyWithUsage> {
+    const name = normalizeTechnologyName(createTechnologyDto.name);
+    const aliases = this.normalizeAliases(
+      name,
+      createTechnologyDto.aliases ?? [],
+    );
+    await this.assertNamesAvailable([name, ...aliases]);
+
+    try {
+      const technology = await this.prismaService.technology.create({
+        data: { ...createTechnologyDto, name, aliases },
+        include: usageCountInclude(),
+      });
+      return this.withUsage(technology);
+    } catch (error) {
+      this.dbErrorService.handleUniqueConstraintError(
+        error,
+        'Technology',
+        'name',
+        name,
+      );
+    }
+  }
+
+  /**
+   * Updates a technology. Renaming it or changing its aliases also refreshes
+   * the search index of the projects using it.
+   *
+   * @param id - The UUID string of the technology.
+   * @param updateTechnologyDto - The fields to change.
+   * @returns A Promise resolving to the updated technology.
+   * @throws {NotFoundException} If the technology doesn't exist.
+   * @throws {ConflictException} If the name or an alias already belongs to another technology.
+   */
+  async update(
+    id: string,
+    updateTechnologyDto: UpdateTechnologyDto,
+  ): Promise<TechnologyWithUsage> {
+    const current = await this.findOne(id);
+    const name = updateTechnologyDto.name
+      ? normalizeTechnologyName(updateTechnologyDto.name)
+      : current.name;
+    const aliases = this.normalizeAliases(
+      name,
+      updateTechnologyDto.aliases ?? current.aliases,
+    );
+    await this.assertNamesAvailable([name, ...aliases], id);
+
+    try {
+      const technology = await this.prismaService.technology.update({
+        where: { id },
+        data: { ...updateTechnologyDto, name, aliases },
+        include: usageCountInclude(),
+      });
+      return this.withUsage(technology);
+    } catch (error) {
+      this.dbErrorService.handleUniqueConstraintError(
+        error,
+        'Technology',
+        'name',
+        name,
+      );
+    }
+  }
+
+  /**
+   * Deletes a technology that no project uses.
+   *
+   * @param id - The UUID string of the technology.
+   * @throws {NotFoundException} If the technology doesn't exist.
+   * @throws {ConflictException} If projects (trashed ones included) still use it.
+   */
+  async remove(id: string): Promise<void> {
+    const technology = await this.findOne(id);
+    const projectCount = await this.prismaService.project.count({
+      where: { technologies: { some: { id } } },
+    });
+    if (projectCount > 0) {
+      throw new ConflictException({
+        error: 'Conflict',
+        message: `Technology "${technology.name}" is still used by ${projectCount} project(s).`,
+        projectCount,
+        resolution: 'Merge it into another technology instead.',
+        statusCode: 409,
+      });
+    }
+    await this.prismaService.technology.delete({ where: { id } });
+    this.logger.log(`Technology ${id} (${technology.name}) deleted.`);
+  }
+
+  /**
+   * Merges duplicates into a technology: their projects are linked to it,
+   * their names and aliases become its aliases, and they are deleted, all in
+   * one transaction. Project revisions keep the names they were saved with.
+   *
+   * @param id - The UUID string of the technology to keep.
+   * @param sourceIds - The UUID strings of the duplicates.
+   * @returns A Promise resolving to the merged technology, the names merged
+   * into it and the number of projects newly linked to it.
+   * @throws {BadRequestException} If the technology is among its own duplicates.
+   * @throws {NotFoundException} If any of the technologies doesn't exist.
+   */
+  async merge(id: string, sourceIds: string[]): Promise<TechnologyMergeResult> {
+    const uniqueSourceIds = [...new Set(sourceIds)];
+    if (uniqueSourceIds.includes(id)) {
+      throw new BadRequestException(
+        'A technology cannot be merged into itself.',
+      );
+    }
+
+    try {
+      const { mergedNames, relinkedProjects } =
+        await this.prismaService.$transaction(async (tx) => {
+          const target = await tx.technology.findUnique({ where: { id } });
+          if (!target) {
+            throw new NotFoundException(`Technology with ID ${id} not found`);
+          }
+          const sources = await tx.technology.findMany({
+            where: { id: { in: uniqueSourceIds } },
+            include: { projects: { select: { id: true } } },
+          });
+          const missingIds = uniqueSourceIds.filter(
+            (sourceId) => !sources.some((source) => source.id === sourceId),
+          );
+          if (missingIds.length) {
+            throw new NotFoundException(
+              `Technologies not found: ${missingIds.join(', ')}`,
+            );
+          }
+
+          const linkedProjects = await tx.project.findMany({
+            where: { technologies: { some: { id } } },
+            select: { id: true },
+          });
+          const linkedIds = new Set(linkedProjects.map(({ id }) => id));
+          const projectIds = [
+            ...new Set(
+              sources.flatMap((source) =>
+                source.projects.map((project) => project.id),
+              ),
+            ),
+          ].filter((projectId) => !linkedIds.has(projectId));
+
+          await tx.technology.deleteMany({
+            where: { id: { in: uniqueSourceIds } },
+          });
+          await tx.technology.update({
+            where: { id },
+            data: {
+              aliases: this.normalizeAliases(target.name, [
+                ...target.aliases,
+                ...sources.flatMap((source) => [
+                  source.name,
+                  ...source.aliases,
+                ]),
+              ]),
+              projects: {
+                connect: projectIds.map((projectId) => ({ id: projectId })),
+              },
+            },
+          });
+
+          return {
+            mergedNames: sources.map((source) => source.name),
+            relinkedProjects: projectIds.length,
+          };
+        });
+
+      this.logger.log(
+        `Merged ${mergedNames.join(', ')} into technology ${id}, ${relinkedProjects} project(s) relinked.`,
+      );
+      return {
+        technology: await this.findOne(id),
+        mergedNames,
+        relinkedProjects,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      this.dbErrorService.handleDatabaseError(
+        error,
+        `Failed to merge technologies into ${id}`,
+      );
+    }
+  }
+
+  /**
+   * Maps names typed by users to catalog entries, matching canonical names
+   * and aliases case-insensitively. Unknown names are added to the catalog.
+   * Meant to run in the transaction of the project write using the result.
+   *
+   * @param names - The technology names of a project.
+   * @param tx - Transaction client (or PrismaService outside a transaction).
+   * @returns The technologies, without duplicates, in the order of `names`.
+   */
+  async resolve(
+    names: string[],
+    tx: Prisma.TransactionClient = this.prismaService,
+  ): Promise<Technology[]> {
+    const technologies = new Map<string, Technology>();
+    for (const rawName of names) {
+      const name = normalizeTechnologyName(rawName);
+      if (!name) {
+        continue;
+      }
+      const technology =
+        (await tx.technology.findFirst({ where: technologyNameWhere(name) })) ??
+        (await tx.technology.create({ data: { name } }));
+      technologies.set(technology.id, technology);
+    }
+    return [...technologies.values()];
+  }
+
+  // Lowercase, without duplicates, empty entries or the canonical name itself
+  private normalizeAliases(name: string, aliases: string[]): string[] {
+    const nameAlias = toTechnologyAlias(name);
+    return [...new Set(aliases.map(toTechnologyAlias))].filter(
+      (alias) => alias && alias !== nameAlias,
+    );
+  }
+
+  private async assertNamesAvailable(
+    names: string[],
+    exceptId?: string,
+  ): Promise<void> {
+    const conflicts = await this.prismaService.technology.findMany({
+      where: {
+        id: exceptId ? { not: exceptId } : undefined,
+        OR: names.map((name) => technologyNameWhere(name)),
+      },
+      select: { name: true },
+    });
+    if (conflicts.length) {
+      throw new ConflictException(
+        `The name or an alias is already used by: ${conflicts
+          .map((conflict) => conflict.name)
+          .join(', ')}. Merge the technologies instead.`,
+      );
+    }
+  }
+
+  private withUsage({
+    _count,
+    ...technology
+  }: TechnologyWithCount): TechnologyWithUsage {
+    return { ...technology, usageCount: _count.projects };
+  }
+}
@@ -0,0 +1,106 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { TrashPurgeService } from './trash-purge.service';
+import { CategoriesService } from 'src/categories/categories.service';
+import { ProjectsService } from 'src/projects/projects.service';
+import { QuoteRequestsService } from 'src/quote-requests/quote-requests.service';
+
+const NOW = new Date('2025-06-30T12:00:00Z');
+
+describe('TrashPurgeService', () => {
+  let service: TrashPurgeService;
+  let config: Record<string, string>;
+  const projectsService = { purgeExpired: jest.fn() };
+  const quoteRequestsService = { purgeExpired: jest.fn() };
+  const categoriesService = { purgeExpired: jest.fn() };
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TrashPurgeService,
+        { provide: ProjectsService, useValue: projectsService },
+        { provide: QuoteRequestsService, useValue: quoteRequestsService },
+        { provide: CategoriesService, useValue: categoriesService },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+    return module.get<TrashPurgeService>(TrashPurgeService);
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    jest.useFakeTimers({ now: NOW });
+    config = { TRASH_RETENTION_DAYS: '10' };
+    projectsService.purgeExpired.mockResolvedValue(2);
+    quoteRequestsService.purgeExpired.mockResolvedValue(1);
+    categoriesService.purgeExpired.mockResolvedValue(0);
+    service = await createService();
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('purges what was trashed before the retention period', async () => {
+    await expect(service.purgeExpired()).resolves.toEqual({
+      projects: 2,
+      quoteRequests: 1,
+      categories: 0,
+    });
+
+    const trashedBefore = new Date('2025-06-20T12:00:00Z');
+    expect(projectsService.purgeExpired).toHaveBeenCalledWith(trashedBefore);
+    expect(quoteRequestsService.purgeExpired).toHaveBeenCalledWith(
+      trashedBefore,
+    );
+    expect(categoriesService.purgeExpired).toHaveBeenCalledWith(trashedBefore);
+  });
+
+  it('purges projects before the categories they emptied', async () => {
+    await service.purgeExpired();
+
+    expect(
+      projectsService.purgeExpired.mock.invocationCallOrder[0],
+    ).toBeLessThan(categoriesService.purgeExpired.mock.invocationCallOrder[0]);
+  });
+
+  it('skips a purge while another one runs', async () => {
+    const first = service.purgeExpired();
+
+    await expect(service.purgeExpired()).resolves.toEqual({
+      projects: 0,
+      quoteRequests: 0,
+      categories: 0,
+    });
+    await first;
+    expect(projectsService.purgeExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs on schedule, every TRASH_PURGE_INTERVAL_MINUTES', async () => {
+    config.TRASH_PURGE_INTERVAL_MINUTES = '5';
+    service = await createService();
+    service.onModuleInit();
+
+    await jest.advanceTimersByTimeAsync(4 * 60 * 1000);
+    expect(projectsService.purgeExpired).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+    expect(projectsService.purgeExpired).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not schedule purges with an interval of 0', async () => {
+    config.TRASH_PURGE_INTERVAL_MINUTES = '0';
+    service = await createService();
+    service.onModuleInit();
+
+    await jest.advanceTimersByTimeAsync(24 * 60 * 60 * 1000);
+    expect(projectsService.purgeExpired).not.toHaveBeenCalled();
+  });
+});
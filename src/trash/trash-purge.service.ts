@@ -0,0 +1,96 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CategoriesService } from 'src/categories/categories.service';
+import { ProjectsService } from 'src/projects/projects.service';
+import { QuoteRequestsService } from 'src/quote-requests/quote-requests.service';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export interface TrashPurgeResult {
+  projects: number;
+  quoteRequests: number;
+  categories: number;
+}
+
+/**
+ * Permanently deletes trashed projects, quote requests and categories (and
+ * their S3 objects) once they have been in the trash longer than
+ * `TRASH_RETENTION_DAYS`. Runs every `TRASH_PURGE_INTERVAL_MINUTES`;
+ * an interval of 0 disables the schedule.
+ */
+@Injectable()
+export class TrashPurgeService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(TrashPurgeService.name);
+  private readonly retentionDays: number;
+  private readonly intervalMinutes: number;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly projectsService: ProjectsService,
+    private readonly quoteRequestsService: QuoteRequestsService,
+    private readonly categoriesService: CategoriesService,
+    private readonly configService: ConfigService,
+  ) {
+    this.retentionDays = this.getNumber('TRASH_RETENTION_DAYS', 30);
+    this.intervalMinutes = this.getNumber('TRASH_PURGE_INTERVAL_MINUTES', 60);
+  }
+
+  onModuleInit() {
+    if (this.intervalMinutes <= 0) {
+      this.logger.log('Scheduled trash purge disabled.');
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.purgeExpired().catch((error: Error) => {
+        this.logger.error(`Scheduled trash purge failed: ${error.message}`);
+      });
+    }, this.intervalMinutes * MINUTE_MS);
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Purges everything trashed before the retention period.
+   * Projects go first so that their emptied categories can be purged too.
+   * @returns The number of purged items of each kind.
+   */
+  async purgeExpired(): Promise<TrashPurgeResult> {
+    if (this.running) {
+      this.logger.warn('Trash purge already running, skipping.');
+      return { projects: 0, quoteRequests: 0, categories: 0 };
+    }
+    this.running = true;
+    try {
+      const trashedBefore = new Date(Date.now() - this.retentionDays * DAY_MS);
+      const result = {
+        projects: await this.projectsService.purgeExpired(trashedBefore),
+        quoteRequests:
+          await this.quoteRequestsService.purgeExpired(trashedBefore),
+        categories: await this.categoriesService.purgeExpired(trashedBefore),
+      };
+      if (result.projects || result.quoteRequests || result.categories) {
+        this.logger.log(
+          `Purged ${result.projects} project(s), ${result.quoteRequests} quote request(s) and ${result.categories} category(ies) trashed before ${trashedBefore.toISOString()}.`,
+        );
+      }
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private getNumber(key: string, defaultValue: number): number {
+    const value = Number(this.configService.get<string>(key));
+    return Number.isFinite(value) && value >= 0 ? value : defaultValue;
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { CategoriesModule } from 'src/categories/categories.module';
+import { ProjectsModule } from 'src/projects/projects.module';
+import { QuoteRequestsModule } from 'src/quote-requests/quote-requests.module';
+import { TrashPurgeService } from './trash-purge.service';
+
+@Module({
+  imports: [ProjectsModule, QuoteRequestsModule, CategoriesModule],
+  providers: [TrashPurgeService],
+})
+export class TrashModule {}
@@ -0,0 +1,44 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { UploadPurpose } from '@prisma/client';
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+/**
+ * Data Transfer Object for requesting a presigned upload URL.
+ */
+export class CreateUploadDto {
+  @ApiProperty({
+    enum: UploadPurpose,
+    description: 'What the file is for; decides the allowed types and size',
+  })
+  @IsEnum(UploadPurpose)
+  readonly purpose: UploadPurpose;
+
+  @ApiProperty({ example: 'home-page.png', maxLength: 255 })
+  @IsString()
+  @IsNotEmpty({ message: 'File name should not be empty.' })
+  @MaxLength(255, { message: 'File name must not exceed 255 characters.' })
+  readonly fileName: string;
+
+  @ApiProperty({
+    description: 'MIME type the upload request will send',
+    example: 'image/png',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Content type should not be empty.' })
+  readonly contentType: string;
+
+  @ApiProperty({
+    description: 'Exact size of the file in bytes',
+    example: 524288,
+  })
+  @IsInt()
+  @Min(1, { message: 'Size must be at least 1 byte.' })
+  readonly size: number;
+}
@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsInt,
+  Min,
+} from 'class-validator';
+
+/**
+ * Data Transfer Object for requesting the URLs of upload parts.
+ */
+export class RequestUploadPartsDto {
+  @ApiProperty({
+    description: 'Numbers of the parts to upload, from 1 to the part count',
+    example: [1, 2, 3],
+    type: [Number],
+  })
+  @IsArray()
+  @ArrayNotEmpty({ message: 'At least one part number is required.' })
+  @ArrayMaxSize(100, { message: 'At most 100 parts can be requested at once.' })
+  @IsInt({ each: true })
+  @Min(1, { each: true, message: 'Part numbers start at 1.' })
+  readonly partNumbers: number[];
+}
@@ -0,0 +1,64 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Exclude, Expose } from 'class-transformer';
+import { Upload, UploadPurpose } from '@prisma/client';
+
+/**
+ * Upload intent: where and how to send the file.
+ */
+@Exclude()
+export class UploadIntentResponseDto {
+  @Expose()
+  @ApiProperty({
+    format: 'uuid',
+    description: 'Id to reference the file with once it is uploaded',
+  })
+  id: string;
+
+  @Expose()
+  @ApiProperty({ enum: UploadPurpose })
+  purpose: UploadPurpose;
+
+  @Expose()
+  @ApiProperty({ description: 'S3 key the file is written to' })
+  key: string;
+
+  @Expose()
+  @ApiProperty({ example: 'home-page.png' })
+  fileName: string;
+
+  @Expose()
+  @ApiProperty({ example: 'image/png' })
+  contentType: string;
+
+  @Expose()
+  @ApiProperty({ example: 524288 })
+  size: number;
+
+  @Expose()
+  @ApiProperty({ description: 'Presigned URL to send the file to' })
+  uploadUrl: string;
+
+  @Expose()
+  @ApiProperty({ example: 'PUT' })
+  method: 'PUT';
+
+  @Expose()
+  @ApiProperty({
+    description: 'Headers the upload request must send as they are',
+    example: { 'Content-Type': 'image/png', 'Content-Length': '524288' },
+  })
+  headers: Record<string, string>;
+
+  @Expose()
+  @ApiProperty({ description: 'The upload URL stops working at this date' })
+  expiresAt: Date;
+
+  constructor(upload: Upload & { uploadUrl: string }) {
+    Object.assign(this, upload);
+    this.method = 'PUT';
+    this.headers = {
+      'Content-Type': upload.contentType,
+      'Content-Length': String(upload.size),
+    };
+  }
+}
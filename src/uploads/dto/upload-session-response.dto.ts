@@ -0,0 +1,140 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Exclude, Expose } from 'class-transformer';
+import { UploadPurpose } from '@prisma/client';
+import {
+  UploadPartUrl,
+  UploadSessionWithUpload,
+  UploadedPart,
+} from '../upload-sessions.service';
+
+/**
+ * Multipart upload session.
+ */
+@Exclude()
+export class UploadSessionResponseDto {
+  @Expose()
+  @ApiProperty({ format: 'uuid' })
+  id: string;
+
+  @Expose()
+  @ApiProperty({
+    format: 'uuid',
+    description: 'Id to reference the file with once the session is completed',
+  })
+  uploadId: string;
+
+  @Expose()
+  @ApiProperty({ enum: UploadPurpose })
+  purpose: UploadPurpose;
+
+  @Expose()
+  @ApiProperty({ description: 'S3 key the file is written to' })
+  key: string;
+
+  @Expose()
+  @ApiProperty({ example: 'demo.mp4' })
+  fileName: string;
+
+  @Expose()
+  @ApiProperty({ example: 'video/mp4' })
+  contentType: string;
+
+  @Expose()
+  @ApiProperty({ example: 31457280 })
+  size: number;
+
+  @Expose()
+  @ApiProperty({
+    description: 'Size of every part but the last one, in bytes',
+    example: 5242880,
+  })
+  partSize: number;
+
+  @Expose()
+  @ApiProperty({ example: 6 })
+  partCount: number;
+
+  @Expose()
+  @ApiProperty({
+    description:
+      'The session is aborted after this date; requesting part URLs pushes it back',
+  })
+  expiresAt: Date;
+
+  @Expose()
+  @ApiPropertyOptional({ nullable: true })
+  completedAt: Date | null;
+
+  @Expose()
+  @ApiPropertyOptional({ nullable: true })
+  abortedAt: Date | null;
+
+  constructor(session: UploadSessionWithUpload) {
+    const { upload, ...fields } = session;
+    Object.assign(this, fields, {
+      purpose: upload.purpose,
+      key: upload.key,
+      fileName: upload.fileName,
+      contentType: upload.contentType,
+      size: upload.size,
+      expiresAt: upload.expiresAt,
+    });
+  }
+}
+
+/**
+ * Where and how to send one part.
+ */
+@Exclude()
+export class UploadPartUrlResponseDto {
+  @Expose()
+  @ApiProperty({ example: 1 })
+  partNumber: number;
+
+  @Expose()
+  @ApiProperty({ description: 'Exact size of the part in bytes' })
+  size: number;
+
+  @Expose()
+  @ApiProperty({ description: 'Presigned URL to send the part to' })
+  uploadUrl: string;
+
+  @Expose()
+  @ApiProperty({ example: 'PUT' })
+  method: 'PUT';
+
+  @Expose()
+  @ApiProperty({
+    description: 'Headers the upload request must send as they are',
+    example: { 'Content-Length': '5242880' },
+  })
+  headers: Record<string, string>;
+
+  constructor(part: UploadPartUrl) {
+    Object.assign(this, part);
+    this.method = 'PUT';
+    this.headers = { 'Content-Length': String(part.size) };
+  }
+}
+
+/**
+ * A part S3 has received.
+ */
+@Exclude()
+export class UploadedPartResponseDto {
+  @Expose()
+  @ApiProperty({ example: 1 })
+  partNumber: number;
+
+  @Expose()
+  @ApiProperty({ example: 5242880 })
+  size: number;
+
+  @Expose()
+  @ApiProperty({ example: '"9b2cf535f27731c974343645a3985328"' })
+  etag: string;
+
+  constructor(part: UploadedPart) {
+    Object.assign(this, part);
+  }
+}
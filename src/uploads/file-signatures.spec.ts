@@ -0,0 +1,221 @@
+import * as sharp from 'sharp';
+import {
+  detectContentType,
+  readVideoDuration,
+  readVideoDurationByRanges,
+} from './file-signatures';
+
+// An ISO media box: 32-bit size, type, content
+function box(type: string, ...content: Buffer[]): Buffer {
+  const body = Buffer.concat(content);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(8 + body.length, 0);
+  header.write(type, 4, 'latin1');
+  return Buffer.concat([header, body]);
+}
+
+// Version 0 movie header with the given time scale and duration
+function mvhd(timeScale: number, duration: number): Buffer {
+  const content = Buffer.alloc(100);
+  content.writeUInt32BE(timeScale, 12);
+  content.writeUInt32BE(duration, 16);
+  return box('mvhd', content);
+}
+
+function mp4(brand: string, movieFirst: boolean, mediaBytes = 1024): Buffer {
+  const ftyp = box('ftyp', Buffer.from(`${brand}\0\0\0\0isom`, 'latin1'));
+  const moov = box('moov', mvhd(1000, 90_500));
+  const mdat = box('mdat', Buffer.alloc(mediaBytes));
+  return Buffer.concat(movieFirst ? [ftyp, moov, mdat] : [ftyp, mdat, moov]);
+}
+
+// RIFF AVI with a main header of 25 fps and 1500 frames (60 s)
+function avi(): Buffer {
+  const avih = Buffer.alloc(56);
+  avih.writeUInt32LE(40_000, 0); // microseconds per frame
+  avih.writeUInt32LE(1500, 16); // total frames
+  const hdrl = Buffer.concat([
+    Buffer.from('hdrl', 'latin1'),
+    Buffer.from('avih', 'latin1'),
+    Buffer.from([56, 0, 0, 0]),
+    avih,
+  ]);
+  const list = Buffer.alloc(8);
+  list.write('LIST', 0, 'latin1');
+  list.writeUInt32LE(hdrl.length, 4);
+  const riff = Buffer.alloc(12);
+  riff.write('RIFF', 0, 'latin1');
+  riff.writeUInt32LE(4 + list.length + hdrl.length, 4);
+  riff.write('AVI ', 8, 'latin1');
+  return Buffer.concat([riff, list, hdrl]);
+}
+
+// ASF header object holding a File Properties object: 125 s less 3 s preroll
+function wmv(): Buffer {
+  const fileProperties = Buffer.alloc(104);
+  Buffer.from('a1dcab8c47a9cf118ee400c00c205365', 'hex').copy(fileProperties);
+  fileProperties.writeBigUInt64LE(104n, 16);
+  fileProperties.writeBigUInt64LE(1_250_000_000n, 64); // 100 ns units
+  fileProperties.writeBigUInt64LE(3000n, 80); // ms
+  const header = Buffer.alloc(30);
+  Buffer.from('3026b2758e66cf11a6d900aa0062ce6c', 'hex').copy(header);
+  header.writeBigUInt64LE(BigInt(30 + fileProperties.length), 16);
+  header.writeUInt32LE(1, 24);
+  return Buffer.concat([header, fileProperties]);
+}
+
+// EBML element with a one-byte size
+function element(id: string, ...content: Buffer[]): Buffer {
+  const body = Buffer.concat(content);
+  return Buffer.concat([
+    Buffer.from(id, 'hex'),
+    Buffer.from([0x80 | body.length]),
+    body,
+  ]);
+}
+
+// Matroska file whose segment has an unknown size, lasting 42.5 s
+function matroska(docType = 'matroska'): Buffer {
+  const duration = Buffer.alloc(4);
+  duration.writeFloatBE(42_500);
+  return Buffer.concat([
+    element('1a45dfa3', element('4282', Buffer.from(docType, 'latin1'))),
+    Buffer.from('1853806701ffffffffffffff', 'hex'),
+    element(
+      '1549a966',
+      element('2ad7b1', Buffer.from('0f4240', 'hex')), // 1 ms ticks
+      element('4489', duration),
+    ),
+  ]);
+}
+
+const image = (format: 'jpeg' | 'png' | 'gif' | 'webp') =>
+  sharp({
+    create: {
+      width: 64,
+      height: 48,
+      channels: 3,
+      background: { r: 200, g: 30, b: 90 },
+    },
+  })
+    .toFormat(format)
+    .toBuffer();
+
+describe('detectContentType', () => {
+  it.each([
+    ['jpeg', 'image/jpeg'],
+    ['png', 'image/png'],
+    ['gif', 'image/gif'],
+    ['webp', 'image/webp'],
+  ] as const)('recognizes %s images', async (format, contentType) => {
+    expect(detectContentType(await image(format))).toBe(contentType);
+  });
+
+  it('recognizes video containers', () => {
+    expect(detectContentType(mp4('isom', true))).toBe('video/mp4');
+    expect(detectContentType(mp4('qt  ', true))).toBe('video/quicktime');
+    expect(detectContentType(box('moov', mvhd(600, 6000)))).toBe(
+      'video/quicktime',
+    );
+    expect(detectContentType(avi())).toBe('video/x-msvideo');
+    expect(detectContentType(wmv())).toBe('video/x-ms-wmv');
+    expect(detectContentType(matroska())).toBe('video/x-matroska');
+    expect(detectContentType(matroska('webm'))).toBe('video/webm');
+  });
+
+  it('tells still images in ISO media containers from videos', () => {
+    expect(
+      detectContentType(box('ftyp', Buffer.from('avif\0\0\0\0mif1'))),
+    ).toBe('image/avif');
+  });
+
+  it('recognizes documents', () => {
+    expect(detectContentType(Buffer.from('%PDF-1.7\n%âãÏÓ\n'))).toBe(
+      'application/pdf',
+    );
+    expect(
+      detectContentType(Buffer.from('d0cf11e0a1b11ae1000000000000', 'hex')),
+    ).toBe('application/msword');
+    const localHeader = Buffer.from('504b0304140000000800', 'hex');
+    expect(
+      detectContentType(
+        Buffer.concat([localHeader, Buffer.from('word/document.xml')]),
+      ),
+    ).toBe(
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    );
+    expect(
+      detectContentType(Buffer.concat([localHeader, Buffer.from('a.txt')])),
+    ).toBe('application/zip');
+  });
+
+  it('ignores the claimed extension of unknown content', () => {
+    expect(detectContentType(Buffer.from('#!/bin/sh\nrm -rf /\n'))).toBe(
+      undefined,
+    );
+    expect(detectContentType(Buffer.alloc(0))).toBe(undefined);
+  });
+});
+
+describe('readVideoDuration', () => {
+  it('reads the movie header of MP4 files, before or after the media', () => {
+    expect(readVideoDuration(mp4('isom', true), 'video/mp4')).toBe(90.5);
+    expect(readVideoDuration(mp4('isom', false), 'video/mp4')).toBe(90.5);
+  });
+
+  it('reads AVI, WMV and Matroska headers', () => {
+    expect(readVideoDuration(avi(), 'video/x-msvideo')).toBe(60);
+    expect(readVideoDuration(wmv(), 'video/x-ms-wmv')).toBe(122);
+    expect(readVideoDuration(matroska(), 'video/x-matroska')).toBe(42.5);
+  });
+
+  it('gives up on truncated headers', () => {
+    expect(
+      readVideoDuration(wmv().subarray(0, 60), 'video/x-ms-wmv'),
+    ).toBeUndefined();
+    expect(
+      readVideoDuration(mp4('isom', false).subarray(0, 1060), 'video/mp4'),
+    ).toBeUndefined();
+    expect(readVideoDuration(avi(), 'video/x-unknown')).toBeUndefined();
+  });
+});
+
+describe('readVideoDurationByRanges', () => {
+  const rangeReader = (file: Buffer) => {
+    const read = jest.fn((start: number, end: number) =>
+      Promise.resolve(file.subarray(start, end)),
+    );
+    const bytesRead = () =>
+      read.mock.calls.reduce((total, [start, end]) => total + end - start, 0);
+    return { read, bytesRead };
+  };
+
+  it('skips the media data of MP4 files to reach the movie header', async () => {
+    const file = mp4('isom', false, 8 * 1024 * 1024);
+    const { read, bytesRead } = rangeReader(file);
+
+    await expect(
+      readVideoDurationByRanges(read, file.length, 'video/mp4'),
+    ).resolves.toBe(90.5);
+    expect(bytesRead()).toBeLessThan(1024);
+  });
+
+  it('reads other containers from their first bytes', async () => {
+    const file = Buffer.concat([matroska(), Buffer.alloc(1024 * 1024)]);
+    const { read, bytesRead } = rangeReader(file);
+
+    await expect(
+      readVideoDurationByRanges(read, file.length, 'video/x-matroska'),
+    ).resolves.toBe(42.5);
+    expect(bytesRead()).toBeLessThan(file.length);
+  });
+
+  it('gives up when no movie header is found', async () => {
+    const file = box('mdat', Buffer.alloc(64));
+    const { read } = rangeReader(file);
+
+    await expect(
+      readVideoDurationByRanges(read, file.length, 'video/mp4'),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,398 @@
+/**
+ * Identifies files by their first bytes ("magic numbers") rather than by the
+ * type the client claims, and reads the duration of videos from their
+ * container headers. Only the formats the upload policies can accept are
+ * recognized; anything else is unknown.
+ */
+
+// Enough for the headers of every recognized format, including the EXIF, ICC
+// and XMP segments JPEG files carry before their size
+export const HEAD_BYTES = 256 * 1024;
+// Larger MP4 movie headers aren't read: their duration counts as unreadable
+const MAX_MOVIE_HEADER_BYTES = 16 * 1024 * 1024;
+// Top-level MP4 boxes skipped while looking for the movie header
+const MAX_TOP_LEVEL_BOXES = 32;
+
+// Reads bytes [start, end) of a file
+export type ByteRangeReader = (start: number, end: number) => Promise<Buffer>;
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const OLE2_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04];
+const EBML_SIGNATURE = [0x1a, 0x45, 0xdf, 0xa3];
+// GUIDs of the ASF header and File Properties objects (WMV)
+const ASF_HEADER_GUID = [
+  0x30, 0x26, 0xb2, 0x75, 0x8e, 0x66, 0xcf, 0x11, 0xa6, 0xd9, 0x00, 0xaa, 0x00,
+  0x62, 0xce, 0x6c,
+];
+const ASF_FILE_PROPERTIES_GUID = [
+  0xa1, 0xdc, 0xab, 0x8c, 0x47, 0xa9, 0xcf, 0x11, 0x8e, 0xe4, 0x00, 0xc0, 0x0c,
+  0x20, 0x53, 0x65,
+];
+// Top-level boxes QuickTime files can start with when they have no `ftyp`
+const QUICKTIME_LEADING_BOXES = ['moov', 'mdat', 'wide', 'free', 'skip'];
+// `ftyp` brands of still images, which share the ISO media container
+const IMAGE_BRANDS: Record<string, string> = {
+  avif: 'image/avif',
+  avis: 'image/avif',
+  heic: 'image/heic',
+  heix: 'image/heic',
+  mif1: 'image/heif',
+};
+
+// Matroska element IDs, with their length marker
+const EBML_HEADER = 0x1a45dfa3;
+const EBML_DOC_TYPE = 0x4282;
+const MATROSKA_SEGMENT = 0x18538067;
+const MATROSKA_INFO = 0x1549a966;
+const MATROSKA_TIMECODE_SCALE = 0x2ad7b1;
+const MATROSKA_DURATION = 0x4489;
+
+interface Range {
+  start: number;
+  end: number;
+}
+
+const hasBytes = (buffer: Buffer, bytes: number[], offset = 0) =>
+  bytes.every((byte, index) => buffer[offset + index] === byte);
+
+const ascii = (buffer: Buffer, start: number, end: number) =>
+  buffer.toString('latin1', start, Math.min(end, buffer.length));
+
+/**
+ * Detects the content type of a file from its bytes.
+ * @param buffer - The file, or at least its beginning. A DOCX is only told
+ * apart from other zip archives if the buffer includes its central directory
+ * (at the end) or a local header of the document.
+ * @returns The content type, or undefined if the format isn't recognized.
+ */
+export function detectContentType(buffer: Buffer): string | undefined {
+  if (hasBytes(buffer, [0xff, 0xd8, 0xff])) {
+    return 'image/jpeg';
+  }
+  if (hasBytes(buffer, PNG_SIGNATURE)) {
+    return 'image/png';
+  }
+  if (['GIF87a', 'GIF89a'].includes(ascii(buffer, 0, 6))) {
+    return 'image/gif';
+  }
+  if (ascii(buffer, 0, 4) === 'RIFF') {
+    const format = ascii(buffer, 8, 12);
+    if (format === 'WEBP') {
+      return 'image/webp';
+    }
+    if (format === 'AVI ') {
+      return 'video/x-msvideo';
+    }
+  }
+  if (ascii(buffer, 4, 8) === 'ftyp') {
+    const brand = ascii(buffer, 8, 12);
+    return (
+      IMAGE_BRANDS[brand] ??
+      (brand === 'qt  ' ? 'video/quicktime' : 'video/mp4')
+    );
+  }
+  if (QUICKTIME_LEADING_BOXES.includes(ascii(buffer, 4, 8))) {
+    return 'video/quicktime';
+  }
+  if (hasBytes(buffer, ASF_HEADER_GUID)) {
+    return 'video/x-ms-wmv';
+  }
+  if (hasBytes(buffer, EBML_SIGNATURE)) {
+    return readEbmlDocType(buffer) === 'webm'
+      ? 'video/webm'
+      : 'video/x-matroska';
+  }
+  if (ascii(buffer, 0, 5) === '%PDF-') {
+    return 'application/pdf';
+  }
+  if (hasBytes(buffer, OLE2_SIGNATURE)) {
+    return 'application/msword';
+  }
+  if (hasBytes(buffer, ZIP_SIGNATURE)) {
+    // A DOCX is a zip archive whose entries (names stored in clear) include the document
+    return buffer.includes('word/document.xml')
+      ? 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+      : 'application/zip';
+  }
+  return undefined;
+}
+
+/**
+ * Reads the duration of a video from its container.
+ * @param buffer - The whole file, or its beginning for formats other than
+ * MP4, whose movie header may be at the end (see `readVideoDurationByRanges`).
+ * @param contentType - The type returned by `detectContentType`.
+ * @returns The duration in seconds, or undefined if it can't be read.
+ */
+export function readVideoDuration(
+  buffer: Buffer,
+  contentType: string,
+): number | undefined {
+  try {
+    switch (contentType) {
+      case 'video/mp4':
+      case 'video/quicktime':
+        return readIsoMediaDuration(buffer);
+      case 'video/x-msvideo':
+        return readAviDuration(buffer);
+      case 'video/x-ms-wmv':
+        return readAsfDuration(buffer);
+      case 'video/x-matroska':
+      case 'video/webm':
+        return readMatroskaDuration(buffer);
+      default:
+        return undefined;
+    }
+  } catch (error) {
+    if (isOutOfBounds(error)) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Reads the duration of a video through ranged reads, without loading all of
+ * it. AVI, WMV and Matroska files describe their duration in their first
+ * bytes; the MP4 movie header may come after the media data, so top-level
+ * boxes are skipped by their sizes until it is found.
+ * @param read - Reads a byte range of the file.
+ * @param size - The file size.
+ * @param contentType - The type returned by `detectContentType`.
+ * @returns The duration in seconds, or undefined if it can't be read.
+ */
+export async function readVideoDurationByRanges(
+  read: ByteRangeReader,
+  size: number,
+  contentType: string,
+): Promise<number | undefined> {
+  if (contentType !== 'video/mp4' && contentType !== 'video/quicktime') {
+    return readVideoDuration(
+      await read(0, Math.min(size, HEAD_BYTES)),
+      contentType,
+    );
+  }
+  const movie = await findTopLevelBox(read, size, 'moov').catch(
+    (error: unknown) => {
+      if (isOutOfBounds(error)) {
+        return undefined;
+      }
+      throw error;
+    },
+  );
+  if (!movie || movie.end - movie.start > MAX_MOVIE_HEADER_BYTES) {
+    return undefined;
+  }
+  // The box alone is a valid container to read the duration from
+  return readVideoDuration(await read(movie.start, movie.end), contentType);
+}
+
+// Returns the whole first top-level box of a type, header included
+async function findTopLevelBox(
+  read: ByteRangeReader,
+  size: number,
+  type: string,
+): Promise<Range | undefined> {
+  let offset = 0;
+  for (
+    let index = 0;
+    index < MAX_TOP_LEVEL_BOXES && offset + 8 <= size;
+    index++
+  ) {
+    const header = await read(offset, Math.min(offset + 16, size));
+    let boxSize = header.readUInt32BE(0);
+    if (boxSize === 1) {
+      boxSize = Number(header.readBigUInt64BE(8));
+    } else if (boxSize === 0) {
+      boxSize = size - offset; // extends to the end of the file
+    }
+    if (boxSize < 8) {
+      return undefined;
+    }
+    if (ascii(header, 4, 8) === type) {
+      return { start: offset, end: Math.min(offset + boxSize, size) };
+    }
+    offset += boxSize;
+  }
+  return undefined;
+}
+
+// Truncated or corrupt headers read past the end of the buffer. Checked by
+// name: Buffer's errors may belong to another realm than this module (jest)
+function isOutOfBounds(error: unknown): boolean {
+  return (error as Error | undefined)?.name === 'RangeError';
+}
+
+// MP4/QuickTime: duration and time scale of the movie header (moov > mvhd)
+function readIsoMediaDuration(buffer: Buffer): number | undefined {
+  const movie = findBox(buffer, { start: 0, end: buffer.length }, 'moov');
+  const header = movie && findBox(buffer, movie, 'mvhd');
+  if (!header) {
+    return undefined;
+  }
+  const version = buffer[header.start];
+  const timeScale =
+    version === 1
+      ? buffer.readUInt32BE(header.start + 20)
+      : buffer.readUInt32BE(header.start + 12);
+  const duration =
+    version === 1
+      ? Number(buffer.readBigUInt64BE(header.start + 24))
+      : buffer.readUInt32BE(header.start + 16);
+  return timeScale ? duration / timeScale : undefined;
+}
+
+// Returns the content of the first box of a type directly within a range
+function findBox(
+  buffer: Buffer,
+  range: Range,
+  type: string,
+): Range | undefined {
+  let offset = range.start;
+  while (offset + 8 <= range.end) {
+    let size = buffer.readUInt32BE(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = range.end - offset; // extends to the end of the file
+    }
+    if (size < headerSize) {
+      return undefined;
+    }
+    if (ascii(buffer, offset + 4, offset + 8) === type) {
+      return {
+        start: offset + headerSize,
+        end: Math.min(offset + size, range.end),
+      };
+    }
+    offset += size;
+  }
+  return undefined;
+}
+
+// AVI: main header (RIFF > LIST hdrl > avih) frame duration times frame count
+function readAviDuration(buffer: Buffer): number | undefined {
+  if (ascii(buffer, 24, 28) !== 'avih') {
+    return undefined;
+  }
+  const microSecondsPerFrame = buffer.readUInt32LE(32);
+  const totalFrames = buffer.readUInt32LE(48);
+  return (microSecondsPerFrame * totalFrames) / 1e6;
+}
+
+// WMV: play duration (100 ns units) less the preroll (ms) of File Properties
+function readAsfDuration(buffer: Buffer): number | undefined {
+  const objectCount = buffer.readUInt32LE(24);
+  let offset = 30;
+  for (let index = 0; index < objectCount; index++) {
+    const size = Number(buffer.readBigUInt64LE(offset + 16));
+    if (hasBytes(buffer, ASF_FILE_PROPERTIES_GUID, offset)) {
+      const playDuration = Number(buffer.readBigUInt64LE(offset + 64));
+      const preroll = Number(buffer.readBigUInt64LE(offset + 80));
+      return Math.max(playDuration / 1e7 - preroll / 1e3, 0);
+    }
+    if (size < 24) {
+      return undefined;
+    }
+    offset += size;
+  }
+  return undefined;
+}
+
+// Matroska/WebM: Segment > Info > Duration, in units of its TimecodeScale (ns)
+function readMatroskaDuration(buffer: Buffer): number | undefined {
+  const segment = findEbmlElement(
+    buffer,
+    { start: 0, end: buffer.length },
+    MATROSKA_SEGMENT,
+  );
+  const info = segment && findEbmlElement(buffer, segment, MATROSKA_INFO);
+  const duration = info && findEbmlElement(buffer, info, MATROSKA_DURATION);
+  if (!duration) {
+    return undefined;
+  }
+  const scale = findEbmlElement(buffer, info, MATROSKA_TIMECODE_SCALE);
+  const timecodeScale = scale ? readUInt(buffer, scale) : 1_000_000;
+  const length = duration.end - duration.start;
+  const ticks =
+    length === 4
+      ? buffer.readFloatBE(duration.start)
+      : length === 8
+        ? buffer.readDoubleBE(duration.start)
+        : undefined;
+  return ticks === undefined ? undefined : (ticks * timecodeScale) / 1e9;
+}
+
+function readEbmlDocType(buffer: Buffer): string | undefined {
+  const header = findEbmlElement(
+    buffer,
+    { start: 0, end: buffer.length },
+    EBML_HEADER,
+  );
+  const docType = header && findEbmlElement(buffer, header, EBML_DOC_TYPE);
+  return docType && ascii(buffer, docType.start, docType.end);
+}
+
+// Returns the data of the first element with an ID directly within a range
+function findEbmlElement(
+  buffer: Buffer,
+  range: Range,
+  id: number,
+): Range | undefined {
+  let offset = range.start;
+  while (offset < range.end) {
+    const elementId = readVint(buffer, offset, true);
+    const size =
+      elementId && readVint(buffer, offset + elementId.length, false);
+    if (!elementId || !size) {
+      return undefined;
+    }
+    const start = offset + elementId.length + size.length;
+    // An unknown size (live streams) extends to the end of the parent
+    const end = size.unknown
+      ? range.end
+      : Math.min(start + size.value, range.end);
+    if (elementId.value === id) {
+      return { start, end };
+    }
+    offset = end;
+  }
+  return undefined;
+}
+
+// EBML variable-length integer; IDs keep their length marker, sizes don't
+function readVint(
+  buffer: Buffer,
+  offset: number,
+  keepMarker: boolean,
+): { value: number; length: number; unknown: boolean } | undefined {
+  const first = buffer[offset];
+  if (!first) {
+    return undefined;
+  }
+  let length = 1;
+  let marker = 0x80;
+  while (!(first & marker)) {
+    marker >>= 1;
+    length++;
+  }
+  let value = keepMarker ? first : first & (marker - 1);
+  let unknown = !keepMarker && value === marker - 1;
+  for (let index = 1; index < length; index++) {
+    const byte = buffer.readUInt8(offset + index);
+    value = value * 256 + byte;
+    unknown = unknown && byte === 0xff;
+  }
+  return { value, length, unknown };
+}
+
+function readUInt(buffer: Buffer, range: Range): number {
+  let value = 0;
+  for (let offset = range.start; offset < range.end; offset++) {
+    value = value * 256 + buffer[offset];
+  }
+  return value;
+}
@@ -0,0 +1,182 @@
+import {
+  BadRequestException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { UploadPurpose } from '@prisma/client';
+import * as sharp from 'sharp';
+import {
+  assertFileMatchesPolicy,
+  inMemoryFile,
+  InspectedFile,
+} from './upload-policies';
+
+const DOCX =
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const jpeg = (width: number, height: number, orientation?: number) =>
+  sharp({
+    create: { width, height, channels: 3, background: '#336699' },
+  })
+    .withMetadata(orientation ? { orientation } : {})
+    .jpeg()
+    .toBuffer();
+
+// Zip archive of stored entries, with its central directory at the end
+function zip(entries: Record<string, Buffer>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const [name, data] of Object.entries(entries)) {
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    const entry = Buffer.concat([local, Buffer.from(name), data]);
+    locals.push(entry);
+    centrals.push(Buffer.concat([central, Buffer.from(name)]));
+    offset += entry.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(centrals.length, 8);
+  end.writeUInt16LE(centrals.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+// Records the ranges read from an in-memory file
+function trackedFile(buffer: Buffer, fileName: string, contentType: string) {
+  const file = inMemoryFile(buffer, fileName, contentType);
+  const read = jest.fn(file.read);
+  const bytesRead = () =>
+    read.mock.calls.reduce((total, [start, end]) => total + end - start, 0);
+  return { file: { ...file, read } as InspectedFile, bytesRead };
+}
+
+describe('assertFileMatchesPolicy', () => {
+  it('accepts an image within the allowed dimensions', async () => {
+    const file = inMemoryFile(await jpeg(1280, 720), 'cover.jpg', 'image/jpg');
+
+    await expect(
+      assertFileMatchesPolicy(file, UploadPurpose.PROJECT_IMAGE),
+    ).resolves.toBeUndefined();
+  });
+
+  it('rejects images too small, once rotated by their EXIF orientation', async () => {
+    const rotated = inMemoryFile(
+      await jpeg(1280, 600, 6),
+      'portrait.jpg',
+      'image/jpeg',
+    );
+
+    await expect(
+      assertFileMatchesPolicy(rotated, UploadPurpose.PROJECT_IMAGE),
+    ).rejects.toThrow('portrait.jpg is 600x1280 pixels');
+  });
+
+  it('reads the size of a large WebP image from its first bytes', async () => {
+    const webp = await sharp({
+      create: { width: 2000, height: 300, channels: 3, background: '#fff' },
+    })
+      .webp()
+      .toBuffer();
+    const padded = Buffer.concat([webp, Buffer.alloc(1024 * 1024)]);
+    const { file, bytesRead } = trackedFile(padded, 'wide.webp', 'image/webp');
+
+    await expect(
+      assertFileMatchesPolicy(file, UploadPurpose.PROJECT_IMAGE),
+    ).rejects.toThrow('wide.webp is 2000x300 pixels');
+    expect(bytesRead()).toBeLessThan(padded.length);
+  });
+
+  it('rejects content that is not what the client claims', async () => {
+    const file = inMemoryFile(await jpeg(1280, 720), 'cover.png', 'image/png');
+
+    await expect(
+      assertFileMatchesPolicy(file, UploadPurpose.PROJECT_IMAGE),
+    ).rejects.toThrow(UnsupportedMediaTypeException);
+  });
+
+  it('rejects types the purpose does not allow', async () => {
+    const file = inMemoryFile(
+      Buffer.from('%PDF-1.7\n'),
+      'brief.pdf',
+      'application/pdf',
+    );
+
+    await expect(
+      assertFileMatchesPolicy(file, UploadPurpose.PROJECT_VIDEO),
+    ).rejects.toThrow(UnsupportedMediaTypeException);
+  });
+
+  it('recognizes a DOCX from the central directory at its end', async () => {
+    const docx = zip({
+      '[Content_Types].xml': Buffer.alloc(300 * 1024, 'x'),
+      'word/document.xml': Buffer.from('<w:document/>'),
+    });
+    const file = inMemoryFile(docx, 'brief.docx', DOCX);
+
+    await expect(
+      assertFileMatchesPolicy(file, UploadPurpose.QUOTE_REQUIREMENTS),
+    ).resolves.toBeUndefined();
+  });
+
+  it('rejects other zip archives sent as DOCX', async () => {
+    const file = inMemoryFile(
+      zip({ 'notes.txt': Buffer.from('hello') }),
+      'brief.docx',
+      DOCX,
+    );
+
+    await expect(
+      assertFileMatchesPolicy(file, UploadPurpose.QUOTE_REQUIREMENTS),
+    ).rejects.toThrow('brief.docx is application/zip');
+  });
+
+  it('rejects videos over the maximum duration', async () => {
+    // AVI main header: 25 fps, 9000 frames (6 minutes)
+    const avi = Buffer.alloc(88);
+    avi.write('RIFF', 0, 'latin1');
+    avi.write('AVI LIST', 8, 'latin1');
+    avi.write('hdrlavih', 20, 'latin1');
+    avi.writeUInt32LE(40_000, 32);
+    avi.writeUInt32LE(9000, 48);
+    const file = inMemoryFile(avi, 'demo.avi', 'video/avi');
+
+    await expect(
+      assertFileMatchesPolicy(file, UploadPurpose.PROJECT_VIDEO),
+    ).rejects.toThrow(
+      new BadRequestException(
+        'demo.avi lasts 360 seconds. Max duration: 300 seconds.',
+      ),
+    );
+  });
+
+  it('rejects files over the size limit without reading them', async () => {
+    const read = jest.fn();
+
+    await expect(
+      assertFileMatchesPolicy(
+        {
+          fileName: 'huge.jpg',
+          contentType: 'image/jpeg',
+          size: 11 * 1024 * 1024,
+          read,
+        },
+        UploadPurpose.PROJECT_IMAGE,
+      ),
+    ).rejects.toThrow(BadRequestException);
+    expect(read).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,295 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotImplementedException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { UploadPurpose } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PermissionNames } from 'src/permissions/constants';
+import {
+  AccessControlService,
+  RequestWithRole,
+} from 'src/auth/access-control.service';
+import { sanitizeFilename } from 'src/utils/sanitize-filenames-utils';
+import {
+  ImageDimensions,
+  readImageDimensions,
+} from 'src/utils/image-dimensions-utils';
+import * as sharp from 'sharp';
+import { CreateUploadDto } from './dto/create-upload.dto';
+import {
+  ByteRangeReader,
+  detectContentType,
+  HEAD_BYTES,
+  readVideoDurationByRanges,
+} from './file-signatures';
+
+const MB = 1024 * 1024;
+
+export interface UploadPolicy {
+  maxSizeBytes: number;
+  contentTypes: string[];
+  keyPrefix: string; // S3 "directory" of the files
+  permission?: string; // required to upload; anyone can if unset
+  image?: {
+    minWidth: number;
+    minHeight: number;
+    maxWidth: number;
+    maxHeight: number;
+  };
+  video?: { maxDurationSeconds: number };
+}
+
+// Applies to direct uploads and to the multipart endpoints alike
+export const UPLOAD_POLICIES: Record<UploadPurpose, UploadPolicy> = {
+  PROJECT_IMAGE: {
+    maxSizeBytes: 10 * MB,
+    contentTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/webp'],
+    keyPrefix: 'projects/images',
+    permission: PermissionNames.PROJECTS_WRITE,
+    image: { minWidth: 640, minHeight: 360, maxWidth: 8000, maxHeight: 8000 },
+  },
+  PROJECT_VIDEO: {
+    maxSizeBytes: 40 * MB,
+    contentTypes: [
+      'video/mp4',
+      'video/quicktime',
+      'video/x-msvideo',
+      'video/x-ms-wmv',
+      'video/x-matroska',
+    ],
+    keyPrefix: 'projects/videos',
+    permission: PermissionNames.PROJECTS_WRITE,
+    video: { maxDurationSeconds: 5 * 60 },
+  },
+  QUOTE_REQUIREMENTS: {
+    maxSizeBytes: 50 * MB,
+    contentTypes: [
+      'application/pdf',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    ],
+    keyPrefix: 'quote_requests/files',
+  },
+};
+
+// Purpose of the files of each multipart field, by endpoint
+export const PROJECT_FILE_FIELDS: Record<string, UploadPurpose> = {
+  images: UploadPurpose.PROJECT_IMAGE,
+  video: UploadPurpose.PROJECT_VIDEO,
+};
+export const QUOTE_REQUEST_FILE_FIELDS: Record<string, UploadPurpose> = {
+  requirements_file: UploadPurpose.QUOTE_REQUIREMENTS,
+};
+
+// Other names clients send for the content types of the policies
+const CONTENT_TYPE_ALIASES: Record<string, string> = {
+  'image/jpg': 'image/jpeg',
+  'image/pjpeg': 'image/jpeg',
+  'video/avi': 'video/x-msvideo',
+  'video/msvideo': 'video/x-msvideo',
+  'video/mkv': 'video/x-matroska',
+  'application/x-pdf': 'application/pdf',
+};
+
+export interface InspectedFile {
+  fileName: string;
+  contentType: string; // as claimed by the client
+  size: number;
+  read: ByteRangeReader; // only the ranges the checks need are read
+}
+
+/**
+ * Wraps a file held in memory, such as a multipart field, for
+ * `assertFileMatchesPolicy`.
+ *
+ * @param buffer - The file's content.
+ * @param fileName - The file's name.
+ * @param contentType - The content type claimed by the client.
+ * @returns The file to inspect.
+ */
+export function inMemoryFile(
+  buffer: Buffer,
+  fileName: string,
+  contentType: string,
+): InspectedFile {
+  return {
+    fileName,
+    contentType,
+    size: buffer.length,
+    read: (start, end) => Promise.resolve(buffer.subarray(start, end)),
+  };
+}
+
+/**
+ * Checks an announced file against the policy of its purpose and picks the
+ * S3 key it will be written to.
+ *
+ * @param createUploadDto - Purpose, file name, content type and size.
+ * @returns The S3 key for the file.
+ * @throws {BadRequestException} If the type or size isn't allowed for the purpose.
+ */
+export function resolveUploadKey(createUploadDto: CreateUploadDto): string {
+  const { purpose, fileName, contentType, size } = createUploadDto;
+  const policy = UPLOAD_POLICIES[purpose];
+  if (!policy.contentTypes.includes(contentType)) {
+    throw new BadRequestException(
+      `Invalid file type: ${contentType}. Allowed types: ${policy.contentTypes.join(', ')}.`,
+    );
+  }
+  if (size > policy.maxSizeBytes) {
+    throw new BadRequestException(
+      `File too large: ${fileName}. Max size: ${policy.maxSizeBytes / MB}MB.`,
+    );
+  }
+
+  // The random part keeps keys unique when names and timestamps collide
+  return `${policy.keyPrefix}/${Date.now()}-${randomUUID().slice(0, 8)}-${sanitizeFilename(fileName)}`;
+}
+
+/**
+ * Checks a received file against the policy of its purpose. The type is
+ * detected from the file's bytes and must match the claimed one; images must
+ * be within the policy's dimensions and videos within its duration. Only the
+ * headers are read (plus the end of zip archives and the movie header of MP4
+ * files), so stored files are never downloaded whole.
+ *
+ * @param file - The file's size, name, claimed content type and byte reader.
+ * @param purpose - What the file is for.
+ * @throws {UnsupportedMediaTypeException} If the content isn't of an allowed
+ * type or isn't what the client claims it is.
+ * @throws {BadRequestException} If the size, dimensions or duration aren't allowed.
+ */
+export async function assertFileMatchesPolicy(
+  file: InspectedFile,
+  purpose: UploadPurpose,
+): Promise<void> {
+  const { fileName, size, read } = file;
+  const policy = UPLOAD_POLICIES[purpose];
+  if (size > policy.maxSizeBytes) {
+    throw new BadRequestException(
+      `File too large: ${fileName}. Max size: ${policy.maxSizeBytes / MB}MB.`,
+    );
+  }
+
+  const head = await read(0, Math.min(size, HEAD_BYTES));
+  let detectedType = detectContentType(head);
+  // A zip archive lists its entries again in the central directory at its end
+  if (detectedType === 'application/zip' && size > head.length) {
+    const tail = await read(Math.max(size - HEAD_BYTES, head.length), size);
+    detectedType = detectContentType(Buffer.concat([head, tail]));
+  }
+  if (!detectedType || !policy.contentTypes.includes(detectedType)) {
+    throw new UnsupportedMediaTypeException(
+      `Invalid file type: ${fileName} is ${detectedType ?? 'not a recognized format'}. Allowed types: ${policy.contentTypes.join(', ')}.`,
+    );
+  }
+  const claimedType =
+    CONTENT_TYPE_ALIASES[file.contentType] ?? file.contentType;
+  if (claimedType !== detectedType) {
+    throw new UnsupportedMediaTypeException(
+      `${fileName} was sent as ${file.contentType} but its content is ${detectedType}.`,
+    );
+  }
+
+  if (policy.image) {
+    const { minWidth, minHeight, maxWidth, maxHeight } = policy.image;
+    const dimensions = await readDisplayedDimensions(head);
+    if (!dimensions) {
+      throw new BadRequestException(`${fileName} is not a readable image.`);
+    }
+    const { width, height } = dimensions;
+    if (
+      width < minWidth ||
+      height < minHeight ||
+      width > maxWidth ||
+      height > maxHeight
+    ) {
+      throw new BadRequestException(
+        `${fileName} is ${width}x${height} pixels. Images must be from ${minWidth}x${minHeight} to ${maxWidth}x${maxHeight}.`,
+      );
+    }
+  }
+
+  if (policy.video) {
+    const { maxDurationSeconds } = policy.video;
+    const duration = await readVideoDurationByRanges(read, size, detectedType);
+    if (duration === undefined) {
+      throw new BadRequestException(
+        `The duration of ${fileName} can't be read.`,
+      );
+    }
+    if (duration > maxDurationSeconds) {
+      throw new BadRequestException(
+        `${fileName} lasts ${Math.round(duration)} seconds. Max duration: ${maxDurationSeconds} seconds.`,
+      );
+    }
+  }
+}
+
+// Size of an image as displayed, from the beginning of its file. sharp reads
+// partial JPEG and PNG files, whose EXIF orientation may swap the sides;
+// GIF and WebP sizes sit in their first bytes
+async function readDisplayedDimensions(
+  head: Buffer,
+): Promise<ImageDimensions | null> {
+  const metadata = await sharp(head)
+    .metadata()
+    .catch(() => null);
+  if (!metadata?.width || !metadata.height) {
+    return readImageDimensions(head);
+  }
+  // EXIF orientations 5 to 8 are rotated by 90 degrees
+  return (metadata.orientation ?? 1) >= 5
+    ? { width: metadata.height, height: metadata.width }
+    : { width: metadata.width, height: metadata.height };
+}
+
+/**
+ * Checks that the requester may upload files for a purpose. Upload routes
+ * are public, so the permission of the purpose is checked here.
+ *
+ * @param accessControlService - Resolves the requester's role.
+ * @param request - The request, with its user if a token was sent.
+ * @param purpose - What the file is for.
+ * @throws {ForbiddenException} If the purpose requires a missing permission.
+ */
+export async function assertCanUpload(
+  accessControlService: AccessControlService,
+  request: RequestWithRole,
+  purpose: UploadPurpose,
+): Promise<void> {
+  const { permission } = UPLOAD_POLICIES[purpose];
+  if (!permission) {
+    return;
+  }
+  const role = await accessControlService.getRole(request);
+  if (!accessControlService.hasPermissions(role, [permission])) {
+    throw new ForbiddenException({
+      error: 'Forbidden',
+      message: `You do not have permission to upload ${purpose} files.`,
+      requiredPermissions: [permission],
+      statusCode: 403,
+    });
+  }
+}
+
+/**
+ * Direct uploads go to S3 through presigned URLs, which only the S3 storage
+ * driver has.
+ *
+ * @param configService - Reads `STORAGE_DRIVER`.
+ * @throws {NotImplementedException} If another storage driver is configured.
+ */
+export function assertDirectUploadsSupported(
+  configService: ConfigService,
+): void {
+  const driver = configService.get<string>('STORAGE_DRIVER') || 's3';
+  if (driver !== 's3') {
+    throw new NotImplementedException(
+      `Direct uploads need the S3 storage driver (STORAGE_DRIVER is "${driver}"). Send the files to the project or quote request endpoints instead.`,
+    );
+  }
+}
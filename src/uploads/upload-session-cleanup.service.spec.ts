@@ -0,0 +1,75 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { UploadSessionCleanupService } from './upload-session-cleanup.service';
+import { UploadSessionsService } from './upload-sessions.service';
+
+const MINUTE_MS = 60 * 1000;
+
+describe('UploadSessionCleanupService', () => {
+  let service: UploadSessionCleanupService;
+  let config: Record<string, string>;
+  const uploadSessionsService = { abortStale: jest.fn() };
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UploadSessionCleanupService,
+        { provide: UploadSessionsService, useValue: uploadSessionsService },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+    return module.get<UploadSessionCleanupService>(UploadSessionCleanupService);
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    jest.useFakeTimers({ now: new Date('2025-06-01T12:00:00Z') });
+    config = {};
+    uploadSessionsService.abortStale.mockResolvedValue(2);
+    service = await createService();
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('aborts the stale sessions', async () => {
+    await expect(service.cleanUp()).resolves.toBe(2);
+  });
+
+  it('skips a cleanup while another one runs', async () => {
+    const first = service.cleanUp();
+
+    await expect(service.cleanUp()).resolves.toBe(0);
+    await first;
+    expect(uploadSessionsService.abortStale).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs hourly by default and keeps running after a failure', async () => {
+    uploadSessionsService.abortStale.mockRejectedValueOnce(new Error('down'));
+    service.onModuleInit();
+
+    await jest.advanceTimersByTimeAsync(59 * MINUTE_MS);
+    expect(uploadSessionsService.abortStale).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(MINUTE_MS);
+    await jest.advanceTimersByTimeAsync(60 * MINUTE_MS);
+    expect(uploadSessionsService.abortStale).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not schedule cleanups with an interval of 0', async () => {
+    config.UPLOAD_SESSION_CLEANUP_INTERVAL_MINUTES = '0';
+    service = await createService();
+    service.onModuleInit();
+
+    await jest.advanceTimersByTimeAsync(24 * 60 * MINUTE_MS);
+    expect(uploadSessionsService.abortStale).not.toHaveBeenCalled();
+  });
+});
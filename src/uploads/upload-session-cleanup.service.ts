@@ -0,0 +1,75 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { UploadSessionsService } from './upload-sessions.service';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Aborts upload sessions that had no activity for `UPLOAD_SESSION_TTL_HOURS`,
+ * so that S3 stops storing (and billing) their parts. Runs every
+ * `UPLOAD_SESSION_CLEANUP_INTERVAL_MINUTES`; an interval of 0 disables it.
+ */
+@Injectable()
+export class UploadSessionCleanupService
+  implements OnModuleInit, OnModuleDestroy
+{
+  private readonly logger = new Logger(UploadSessionCleanupService.name);
+  private readonly intervalMinutes: number;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly uploadSessionsService: UploadSessionsService,
+    private readonly configService: ConfigService,
+  ) {
+    const value = Number(
+      this.configService.get<string>('UPLOAD_SESSION_CLEANUP_INTERVAL_MINUTES'),
+    );
+    this.intervalMinutes = Number.isFinite(value) && value >= 0 ? value : 60;
+  }
+
+  onModuleInit() {
+    if (this.intervalMinutes <= 0) {
+      this.logger.log('Scheduled upload session cleanup disabled.');
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.cleanUp().catch((error: Error) => {
+        this.logger.error(
+          `Scheduled upload session cleanup failed: ${error.message}`,
+        );
+      });
+    }, this.intervalMinutes * MINUTE_MS);
+    this.timer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Aborts the stale sessions.
+   * @returns The number of aborted sessions.
+   */
+  async cleanUp(): Promise<number> {
+    if (this.running) {
+      this.logger.warn('Upload session cleanup already running, skipping.');
+      return 0;
+    }
+    this.running = true;
+    try {
+      const aborted = await this.uploadSessionsService.abortStale();
+      if (aborted) {
+        this.logger.log(`Aborted ${aborted} stale upload session(s).`);
+      }
+      return aborted;
+    } finally {
+      this.running = false;
+    }
+  }
+}
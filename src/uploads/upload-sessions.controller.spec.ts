@@ -0,0 +1,130 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { UploadSessionsController } from './upload-sessions.controller';
+import { UploadSessionsService } from './upload-sessions.service';
+import {
+  UploadPartUrlResponseDto,
+  UploadSessionResponseDto,
+} from './dto/upload-session-response.dto';
+import {
+  AccessControlService,
+  RequestWithRole,
+} from 'src/auth/access-control.service';
+
+describe('UploadSessionsController', () => {
+  let controller: UploadSessionsController;
+  const uploadSessionsService = {
+    create: jest.fn(),
+    getPartUrls: jest.fn(),
+    complete: jest.fn(),
+  };
+  const accessControlService = {
+    getRole: jest.fn(),
+    hasPermissions: jest.fn(),
+  };
+  const request = { user: { id: 'owner' } } as RequestWithRole;
+  const session = {
+    id: 'session',
+    uploadId: 'upload',
+    s3UploadId: 's3-upload',
+    partSize: 5242880,
+    partCount: 1,
+    completedAt: null,
+    abortedAt: null,
+    upload: {
+      id: 'upload',
+      purpose: 'PROJECT_VIDEO',
+      key: 'projects/videos/demo.mp4',
+      fileName: 'demo.mp4',
+      contentType: 'video/mp4',
+      size: 1024,
+      userId: 'owner',
+      expiresAt: new Date('2025-06-02T12:00:00Z'),
+    },
+  };
+  const createUploadDto = {
+    purpose: 'PROJECT_VIDEO',
+    fileName: 'demo.mp4',
+    contentType: 'video/mp4',
+    size: 1024,
+  } as never;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [UploadSessionsController],
+      providers: [
+        { provide: UploadSessionsService, useValue: uploadSessionsService },
+        { provide: AccessControlService, useValue: accessControlService },
+      ],
+    }).compile();
+
+    controller = module.get<UploadSessionsController>(UploadSessionsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('starts sessions for the signed-in user, flattening the upload', async () => {
+    accessControlService.hasPermissions.mockReturnValue(true);
+    uploadSessionsService.create.mockResolvedValue(session);
+
+    const created = await controller.create(createUploadDto, request);
+
+    expect(uploadSessionsService.create).toHaveBeenCalledWith(
+      createUploadDto,
+      'owner',
+    );
+    expect(created).toBeInstanceOf(UploadSessionResponseDto);
+    expect(created).toMatchObject({
+      id: 'session',
+      partCount: 1,
+      fileName: 'demo.mp4',
+      expiresAt: session.upload.expiresAt,
+    });
+  });
+
+  it('requires the upload permission of the purpose', async () => {
+    accessControlService.hasPermissions.mockReturnValue(false);
+
+    await expect(controller.create(createUploadDto, request)).rejects.toThrow(
+      ForbiddenException,
+    );
+    expect(uploadSessionsService.create).not.toHaveBeenCalled();
+  });
+
+  it('returns part URLs with the headers to send', async () => {
+    uploadSessionsService.getPartUrls.mockResolvedValue([
+      { partNumber: 1, size: 1024, uploadUrl: 'https://s3/part-1' },
+    ]);
+
+    const [part] = await controller.getPartUrls(
+      'session',
+      { partNumbers: [1] },
+      request,
+    );
+
+    expect(uploadSessionsService.getPartUrls).toHaveBeenCalledWith(
+      'session',
+      [1],
+      'owner',
+    );
+    expect(part).toBeInstanceOf(UploadPartUrlResponseDto);
+    expect(part).toMatchObject({
+      method: 'PUT',
+      headers: { 'Content-Length': '1024' },
+    });
+  });
+
+  it('completes sessions on behalf of the requesting user', async () => {
+    uploadSessionsService.complete.mockResolvedValue(session);
+
+    await controller.complete('session', {} as RequestWithRole);
+
+    expect(uploadSessionsService.complete).toHaveBeenCalledWith(
+      'session',
+      undefined,
+    );
+  });
+});
@@ -0,0 +1,194 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Req,
+} from '@nestjs/common';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { UploadSessionsService } from './upload-sessions.service';
+import { assertCanUpload } from './upload-policies';
+import { CreateUploadDto } from './dto/create-upload.dto';
+import { RequestUploadPartsDto } from './dto/request-upload-parts.dto';
+import {
+  UploadPartUrlResponseDto,
+  UploadSessionResponseDto,
+  UploadedPartResponseDto,
+} from './dto/upload-session-response.dto';
+import { Public } from 'src/decorators/public.decorator';
+import { RateLimit } from 'src/decorators/rate-limit.decorator';
+import {
+  AccessControlService,
+  RequestWithRole,
+} from 'src/auth/access-control.service';
+
+/**
+ * Resumable uploads: start a session, PUT each part to its presigned URL,
+ * list the received parts to resume after an interruption, then complete
+ * (or abort) the session. Public like `POST /uploads`; a session started by
+ * a signed-in user can only be used by that user.
+ */
+@ApiTags('uploads')
+@Controller('uploads/sessions')
+export class UploadSessionsController {
+  constructor(
+    private readonly uploadSessionsService: UploadSessionsService,
+    private readonly accessControlService: AccessControlService,
+  ) {}
+
+  @Public()
+  @RateLimit({ limit: 30, ttl: 600, keyBy: 'ip-user' })
+  @Post()
+  @ApiOperation({
+    summary: 'Start a resumable (multipart) upload',
+    description:
+      'The file is sent in `partCount` parts of `partSize` bytes (the last one may be smaller).',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'The session.',
+    type: UploadSessionResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'The file type or size is not allowed for this purpose.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Uploading project media requires projects:write.',
+  })
+  async create(
+    @Body() createUploadDto: CreateUploadDto,
+    @Req() request: RequestWithRole,
+  ): Promise<UploadSessionResponseDto> {
+    await assertCanUpload(
+      this.accessControlService,
+      request,
+      createUploadDto.purpose,
+    );
+    return new UploadSessionResponseDto(
+      await this.uploadSessionsService.create(
+        createUploadDto,
+        request.user?.id,
+      ),
+    );
+  }
+
+  @Public()
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an upload session' })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: HttpStatus.OK, type: UploadSessionResponseDto })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Upload session not found.',
+  })
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() request: RequestWithRole,
+  ): Promise<UploadSessionResponseDto> {
+    return new UploadSessionResponseDto(
+      await this.uploadSessionsService.findOne(id, request.user?.id),
+    );
+  }
+
+  @Public()
+  @Post(':id/parts')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get presigned URLs to upload parts',
+    description:
+      'Also keeps the session alive. A part can be requested and sent again if its upload failed.',
+  })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: HttpStatus.OK, type: [UploadPartUrlResponseDto] })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'The session is completed, aborted or expired, or a part number is out of range.',
+  })
+  async getPartUrls(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() requestUploadPartsDto: RequestUploadPartsDto,
+    @Req() request: RequestWithRole,
+  ): Promise<UploadPartUrlResponseDto[]> {
+    const parts = await this.uploadSessionsService.getPartUrls(
+      id,
+      requestUploadPartsDto.partNumbers,
+      request.user?.id,
+    );
+    return parts.map((part) => new UploadPartUrlResponseDto(part));
+  }
+
+  @Public()
+  @Get(':id/parts')
+  @ApiOperation({
+    summary: 'List the parts already received',
+    description: 'Used to resume an interrupted upload with the missing parts.',
+  })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: HttpStatus.OK, type: [UploadedPartResponseDto] })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'The session is completed, aborted or expired.',
+  })
+  async listParts(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() request: RequestWithRole,
+  ): Promise<UploadedPartResponseDto[]> {
+    const parts = await this.uploadSessionsService.listParts(
+      id,
+      request.user?.id,
+    );
+    return parts.map((part) => new UploadedPartResponseDto(part));
+  }
+
+  @Public()
+  @Post(':id/complete')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Assemble the parts into the file',
+    description:
+      'The `uploadId` of the completed session can then be passed to the project or quote request endpoints.',
+  })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({ status: HttpStatus.OK, type: UploadSessionResponseDto })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Parts are missing or have the wrong size, or the session was aborted or expired.',
+  })
+  async complete(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() request: RequestWithRole,
+  ): Promise<UploadSessionResponseDto> {
+    return new UploadSessionResponseDto(
+      await this.uploadSessionsService.complete(id, request.user?.id),
+    );
+  }
+
+  @Public()
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Abort an upload session and discard its parts' })
+  @ApiParam({ name: 'id', format: 'uuid' })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'The session is aborted.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'The session is already completed.',
+  })
+  async abort(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() request: RequestWithRole,
+  ): Promise<void> {
+    await this.uploadSessionsService.abort(id, request.user?.id);
+  }
+}
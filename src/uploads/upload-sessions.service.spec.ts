@@ -0,0 +1,309 @@
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  NotImplementedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { UploadSessionsService } from './upload-sessions.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { S3Service } from 'src/common/services/aws-s3.service';
+import { DatabaseErrorService } from 'src/common/services/database-error.service';
+
+const MB = 1024 * 1024;
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+describe('UploadSessionsService', () => {
+  let service: UploadSessionsService;
+  const prismaService = {
+    upload: { update: jest.fn() },
+    uploadSession: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+  const s3Service = {
+    createMultipartUpload: jest.fn(),
+    getPresignedPartUrl: jest.fn(),
+    listParts: jest.fn(),
+    completeMultipartUpload: jest.fn(),
+    abortMultipartUpload: jest.fn(),
+  };
+  let config: Record<string, string>;
+
+  // A 12 MB video: two 5 MB parts and a last part of 2 MB
+  const session = (overrides: object = {}, upload: object = {}) => ({
+    id: 'session',
+    uploadId: 'upload',
+    s3UploadId: 's3-upload',
+    partSize: 5 * MB,
+    partCount: 3,
+    completedAt: null,
+    abortedAt: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+    upload: {
+      id: 'upload',
+      purpose: 'PROJECT_VIDEO',
+      key: 'projects/videos/demo.mp4',
+      fileName: 'demo.mp4',
+      contentType: 'video/mp4',
+      size: 12 * MB,
+      userId: 'owner',
+      expiresAt: new Date(NOW.getTime() + HOUR_MS),
+      ...upload,
+    },
+    ...overrides,
+  });
+  const parts = (...sizes: number[]) =>
+    sizes.map((size, index) => ({
+      partNumber: index + 1,
+      size,
+      etag: `"etag-${index + 1}"`,
+    }));
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    jest.useFakeTimers({ now: NOW });
+    config = {};
+    prismaService.uploadSession.findUnique.mockResolvedValue(session());
+    s3Service.abortMultipartUpload.mockResolvedValue(undefined);
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UploadSessionsService,
+        DatabaseErrorService,
+        { provide: PrismaService, useValue: prismaService },
+        { provide: S3Service, useValue: s3Service },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<UploadSessionsService>(UploadSessionsService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    const createUploadDto = {
+      purpose: 'PROJECT_VIDEO',
+      fileName: 'demo.mp4',
+      contentType: 'video/mp4',
+      size: 12 * MB,
+    } as never;
+
+    it('starts a multipart upload split in 5 MB parts', async () => {
+      s3Service.createMultipartUpload.mockResolvedValue('s3-upload');
+      prismaService.uploadSession.create.mockResolvedValue(session());
+
+      await service.create(createUploadDto, 'owner');
+
+      expect(s3Service.createMultipartUpload).toHaveBeenCalledWith(
+        expect.stringMatching(/^projects\/videos\/.+-demo\.mp4$/) as string,
+        'video/mp4',
+      );
+      expect(prismaService.uploadSession.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            s3UploadId: 's3-upload',
+            partSize: 5 * MB,
+            partCount: 3,
+            upload: {
+              create: expect.objectContaining({
+                userId: 'owner',
+                expiresAt: new Date(NOW.getTime() + 24 * HOUR_MS),
+              }) as object,
+            },
+          }) as object,
+        }),
+      );
+    });
+
+    it('aborts the multipart upload when the session cannot be saved', async () => {
+      s3Service.createMultipartUpload.mockResolvedValue('s3-upload');
+      prismaService.uploadSession.create.mockRejectedValue(new Error('down'));
+
+      await expect(service.create(createUploadDto)).rejects.toThrow();
+      expect(s3Service.abortMultipartUpload).toHaveBeenCalledWith(
+        expect.stringContaining('demo.mp4') as string,
+        's3-upload',
+      );
+    });
+
+    it('needs the S3 storage driver', async () => {
+      config.STORAGE_DRIVER = 'local';
+
+      await expect(service.create(createUploadDto)).rejects.toThrow(
+        NotImplementedException,
+      );
+      expect(s3Service.createMultipartUpload).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findOne', () => {
+    it('hides the sessions of other users', async () => {
+      await expect(service.findOne('session', 'someone')).rejects.toThrow(
+        new NotFoundException('Upload session with ID session not found'),
+      );
+      await expect(service.findOne('session', 'owner')).resolves.toEqual(
+        session(),
+      );
+    });
+
+    it('lets anyone with the ID use an anonymous session', async () => {
+      prismaService.uploadSession.findUnique.mockResolvedValue(
+        session({}, { userId: null }),
+      );
+
+      await expect(service.findOne('session')).resolves.toBeDefined();
+    });
+  });
+
+  describe('getPartUrls', () => {
+    it('presigns each part with its exact size and keeps the session alive', async () => {
+      s3Service.getPresignedPartUrl.mockImplementation(
+        (_key: string, _uploadId: string, partNumber: number) =>
+          Promise.resolve(`https://s3/part-${partNumber}`),
+      );
+
+      const urls = await service.getPartUrls('session', [3, 1, 3], 'owner');
+
+      expect(urls).toEqual([
+        { partNumber: 3, size: 2 * MB, uploadUrl: 'https://s3/part-3' },
+        { partNumber: 1, size: 5 * MB, uploadUrl: 'https://s3/part-1' },
+      ]);
+      expect(prismaService.upload.update).toHaveBeenCalledWith({
+        where: { id: 'upload' },
+        data: { expiresAt: new Date(NOW.getTime() + 24 * HOUR_MS) },
+      });
+    });
+
+    it('rejects part numbers past the last part', async () => {
+      await expect(
+        service.getPartUrls('session', [2, 4], 'owner'),
+      ).rejects.toThrow(
+        new BadRequestException(
+          'The file has 3 part(s); invalid part number(s): 4.',
+        ),
+      );
+    });
+
+    it('rejects expired sessions', async () => {
+      prismaService.uploadSession.findUnique.mockResolvedValue(
+        session({}, { expiresAt: new Date(NOW.getTime() - 1) }),
+      );
+
+      await expect(
+        service.getPartUrls('session', [1], 'owner'),
+      ).rejects.toThrow('was aborted or expired');
+    });
+  });
+
+  describe('complete', () => {
+    it('assembles the parts once all of them have the expected size', async () => {
+      s3Service.listParts.mockResolvedValue(parts(5 * MB, 5 * MB, 2 * MB));
+      prismaService.uploadSession.update.mockResolvedValue(
+        session({ completedAt: NOW }),
+      );
+
+      await service.complete('session', 'owner');
+
+      expect(s3Service.completeMultipartUpload).toHaveBeenCalledWith(
+        'projects/videos/demo.mp4',
+        's3-upload',
+        parts(5 * MB, 5 * MB, 2 * MB),
+      );
+      expect(prismaService.uploadSession.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: { completedAt: NOW } }),
+      );
+    });
+
+    it('lists every missing or mis-sized part', async () => {
+      s3Service.listParts.mockResolvedValue(parts(5 * MB, 4 * MB));
+
+      await expect(service.complete('session', 'owner')).rejects.toThrow(
+        new BadRequestException(
+          `The upload can't be completed: part 2 has ${4 * MB} bytes instead of ${5 * MB}, part 3 is missing.`,
+        ),
+      );
+      expect(s3Service.completeMultipartUpload).not.toHaveBeenCalled();
+    });
+
+    it('returns a completed session as is', async () => {
+      prismaService.uploadSession.findUnique.mockResolvedValue(
+        session({ completedAt: NOW }),
+      );
+
+      await service.complete('session', 'owner');
+
+      expect(s3Service.listParts).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('abort', () => {
+    it('frees the parts in S3', async () => {
+      await service.abort('session', 'owner');
+
+      expect(s3Service.abortMultipartUpload).toHaveBeenCalledWith(
+        'projects/videos/demo.mp4',
+        's3-upload',
+      );
+      expect(prismaService.uploadSession.update).toHaveBeenCalledWith({
+        where: { id: 'session' },
+        data: { abortedAt: NOW },
+      });
+    });
+
+    it('does nothing for aborted sessions and refuses completed ones', async () => {
+      prismaService.uploadSession.findUnique
+        .mockResolvedValueOnce(session({ abortedAt: NOW }))
+        .mockResolvedValueOnce(session({ completedAt: NOW }));
+
+      await service.abort('session', 'owner');
+      await expect(service.abort('session', 'owner')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(s3Service.abortMultipartUpload).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('abortStale', () => {
+    it('aborts expired open sessions and goes on after a failure', async () => {
+      prismaService.uploadSession.findMany.mockResolvedValue([
+        session({ id: 'failing' }),
+        session({ id: 'stale' }),
+      ]);
+      s3Service.abortMultipartUpload
+        .mockRejectedValueOnce(new Error('S3 unavailable'))
+        .mockResolvedValueOnce(undefined);
+
+      await expect(service.abortStale()).resolves.toBe(1);
+      expect(prismaService.uploadSession.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            completedAt: null,
+            abortedAt: null,
+            upload: { expiresAt: { lt: NOW } },
+          },
+        }),
+      );
+      expect(prismaService.uploadSession.update).toHaveBeenCalledTimes(1);
+      expect(prismaService.uploadSession.update).toHaveBeenCalledWith({
+        where: { id: 'stale' },
+        data: { abortedAt: NOW },
+      });
+    });
+  });
+});
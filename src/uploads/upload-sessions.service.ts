@@ -0,0 +1,374 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Upload, UploadSession } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { S3Service } from 'src/common/services/aws-s3.service';
+import { DatabaseErrorService } from 'src/common/services/database-error.service';
+import {
+  assertDirectUploadsSupported,
+  resolveUploadKey,
+} from './upload-policies';
+import { CreateUploadDto } from './dto/create-upload.dto';
+
+// S3 rejects smaller parts, except the last one
+const PART_SIZE_BYTES = 5 * 1024 * 1024;
+// Validity of each presigned part URL
+const PART_URL_TTL_SECONDS = 15 * 60;
+const HOUR_MS = 60 * 60 * 1000;
+
+export type UploadSessionWithUpload = UploadSession & { upload: Upload };
+
+export interface UploadPartUrl {
+  partNumber: number;
+  size: number;
+  uploadUrl: string;
+}
+
+export interface UploadedPart {
+  partNumber: number;
+  size: number;
+  etag: string;
+}
+
+/**
+ * Resumable uploads on top of S3 multipart uploads. The client sends each
+ * part straight to S3 with a presigned URL, can list the parts S3 already
+ * has after a dropped connection, and completes the session to get an upload
+ * it can reference like any other (e.g. as a project's `videoUploadId`).
+ * Sessions left without activity for `UPLOAD_SESSION_TTL_HOURS` are aborted.
+ */
+@Injectable()
+export class UploadSessionsService {
+  private readonly logger = new Logger(UploadSessionsService.name);
+  private readonly ttlHours: number;
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly s3Service: S3Service,
+    private readonly dbErrorService: DatabaseErrorService,
+    private readonly configService: ConfigService,
+  ) {
+    const ttlHours = Number(
+      this.configService.get<string>('UPLOAD_SESSION_TTL_HOURS'),
+    );
+    this.ttlHours = Number.isFinite(ttlHours) && ttlHours > 0 ? ttlHours : 24;
+  }
+
+  /**
+   * Starts a multipart upload of the announced file.
+   *
+   * @param createUploadDto - Purpose, file name, content type and size.
+   * @param userId - The uploading user, if authenticated.
+   * @returns A Promise resolving to the session, with its part size and count.
+   * @throws {BadRequestException} If the type or size isn't allowed for the purpose.
+   * @throws {NotImplementedException} If files aren't stored in S3.
+   */
+  async create(
+    createUploadDto: CreateUploadDto,
+    userId?: string,
+  ): Promise<UploadSessionWithUpload> {
+    assertDirectUploadsSupported(this.configService);
+    const { purpose, fileName, contentType, size } = createUploadDto;
+    const key = resolveUploadKey(createUploadDto);
+    const s3UploadId = await this.s3Service.createMultipartUpload(
+      key,
+      contentType,
+    );
+
+    try {
+      const session = await this.prismaService.uploadSession.create({
+        data: {
+          s3UploadId,
+          partSize: PART_SIZE_BYTES,
+          partCount: Math.ceil(size / PART_SIZE_BYTES),
+          upload: {
+            create: {
+              purpose,
+              key,
+              fileName,
+              contentType,
+              size,
+              userId,
+              expiresAt: this.nextExpiry(),
+            },
+          },
+        },
+        include: { upload: true },
+      });
+      this.logger.log(
+        `Upload session ${session.id} started for ${key} (${session.partCount} part(s)).`,
+      );
+      return session;
+    } catch (error) {
+      await this.s3Service
+        .abortMultipartUpload(key, s3UploadId)
+        .catch((abortError: Error) => {
+          this.logger.error(
+            `Failed to abort multipart upload of ${key}: ${abortError.message}`,
+          );
+        });
+      this.dbErrorService.handleDatabaseError(
+        error,
+        'Failed to create the upload session',
+      );
+    }
+  }
+
+  /**
+   * Retrieves a session.
+   *
+   * @param id - The UUID string of the session.
+   * @param userId - The requesting user; sessions of other users are not found.
+   * @returns A Promise resolving to the session with its upload.
+   * @throws {NotFoundException} If the session doesn't exist or belongs to someone else.
+   */
+  async findOne(id: string, userId?: string): Promise<UploadSessionWithUpload> {
+    const session = await this.prismaService.uploadSession.findUnique({
+      where: { id },
+      include: { upload: true },
+    });
+    if (
+      !session ||
+      (session.upload.userId && session.upload.userId !== userId)
+    ) {
+      throw new NotFoundException(`Upload session with ID ${id} not found`);
+    }
+    return session;
+  }
+
+  /**
+   * Presigns the URLs to PUT parts to, and keeps the session alive for
+   * another `UPLOAD_SESSION_TTL_HOURS`. Parts already uploaded can be sent
+   * again; S3 keeps the last one.
+   *
+   * @param id - The UUID string of the session.
+   * @param partNumbers - The parts to upload, from 1 to the part count.
+   * @param userId - The requesting user.
+   * @returns A Promise resolving to one URL per part, with the exact size to send.
+   * @throws {NotFoundException} If the session doesn't exist.
+   * @throws {BadRequestException} If the session is over or a part number is out of range.
+   */
+  async getPartUrls(
+    id: string,
+    partNumbers: number[],
+    userId?: string,
+  ): Promise<UploadPartUrl[]> {
+    const session = await this.findActive(id, userId);
+    const outOfRange = partNumbers.filter(
+      (partNumber) => partNumber > session.partCount,
+    );
+    if (outOfRange.length) {
+      throw new BadRequestException(
+        `The file has ${session.partCount} part(s); invalid part number(s): ${outOfRange.join(', ')}.`,
+      );
+    }
+
+    await this.prismaService.upload.update({
+      where: { id: session.uploadId },
+      data: { expiresAt: this.nextExpiry() },
+    });
+    return Promise.all(
+      [...new Set(partNumbers)].map(async (partNumber) => {
+        const size = this.getPartSize(session, partNumber);
+        return {
+          partNumber,
+          size,
+          uploadUrl: await this.s3Service.getPresignedPartUrl(
+            session.upload.key,
+            session.s3UploadId,
+            partNumber,
+            size,
+            PART_URL_TTL_SECONDS,
+          ),
+        };
+      }),
+    );
+  }
+
+  /**
+   * Lists the parts S3 has received, so that an interrupted upload can
+   * resume with the missing ones.
+   *
+   * @param id - The UUID string of the session.
+   * @param userId - The requesting user.
+   * @returns A Promise resolving to the received parts, by part number.
+   * @throws {NotFoundException} If the session doesn't exist.
+   * @throws {BadRequestException} If the session is over.
+   */
+  async listParts(id: string, userId?: string): Promise<UploadedPart[]> {
+    const session = await this.findActive(id, userId);
+    return this.s3Service.listParts(session.upload.key, session.s3UploadId);
+  }
+
+  /**
+   * Assembles the parts into the file. Every part must have been received
+   * with its expected size. Completing a completed session returns it as is.
+   *
+   * @param id - The UUID string of the session.
+   * @param userId - The requesting user.
+   * @returns A Promise resolving to the completed session; its `uploadId` can
+   * now be used like any other upload.
+   * @throws {NotFoundException} If the session doesn't exist.
+   * @throws {BadRequestException} If the session was aborted or expired, or
+   * parts are missing or have the wrong size.
+   */
+  async complete(
+    id: string,
+    userId?: string,
+  ): Promise<UploadSessionWithUpload> {
+    const session = await this.findOne(id, userId);
+    if (session.completedAt) {
+      return session;
+    }
+    this.assertActive(session);
+
+    const parts = await this.s3Service.listParts(
+      session.upload.key,
+      session.s3UploadId,
+    );
+    const problems: string[] = [];
+    for (let partNumber = 1; partNumber <= session.partCount; partNumber++) {
+      const part = parts.find((item) => item.partNumber === partNumber);
+      const size = this.getPartSize(session, partNumber);
+      if (!part) {
+        problems.push(`part ${partNumber} is missing`);
+      } else if (part.size !== size) {
+        problems.push(
+          `part ${partNumber} has ${part.size} bytes instead of ${size}`,
+        );
+      }
+    }
+    if (problems.length) {
+      throw new BadRequestException(
+        `The upload can't be completed: ${problems.join(', ')}.`,
+      );
+    }
+
+    await this.s3Service.completeMultipartUpload(
+      session.upload.key,
+      session.s3UploadId,
+      parts.filter((part) => part.partNumber <= session.partCount),
+    );
+    try {
+      const completed = await this.prismaService.uploadSession.update({
+        where: { id },
+        data: { completedAt: new Date() },
+        include: { upload: true },
+      });
+      this.logger.log(`Upload session ${id} completed.`);
+      return completed;
+    } catch (error) {
+      this.dbErrorService.handleDatabaseError(
+        error,
+        `Failed to complete upload session with ID ${id}`,
+      );
+    }
+  }
+
+  /**
+   * Aborts a session and frees its parts in S3. Aborting an aborted session
+   * does nothing.
+   *
+   * @param id - The UUID string of the session.
+   * @param userId - The requesting user.
+   * @throws {NotFoundException} If the session doesn't exist.
+   * @throws {ConflictException} If the session is completed.
+   */
+  async abort(id: string, userId?: string): Promise<void> {
+    const session = await this.findOne(id, userId);
+    if (session.completedAt) {
+      throw new ConflictException({
+        error: 'Conflict',
+        message: `Upload session ${id} is completed and can no longer be aborted.`,
+        statusCode: 409,
+      });
+    }
+    if (!session.abortedAt) {
+      await this.abortSession(session);
+    }
+  }
+
+  /**
+   * Aborts the sessions that are neither completed nor aborted and whose
+   * upload expired, i.e. that had no activity for `UPLOAD_SESSION_TTL_HOURS`.
+   * Failures are logged; the other sessions are still aborted.
+   *
+   * @returns The number of aborted sessions.
+   */
+  async abortStale(): Promise<number> {
+    const sessions = await this.prismaService.uploadSession.findMany({
+      where: {
+        completedAt: null,
+        abortedAt: null,
+        upload: { expiresAt: { lt: new Date() } },
+      },
+      include: { upload: true },
+    });
+
+    let aborted = 0;
+    for (const session of sessions) {
+      try {
+        await this.abortSession(session);
+        aborted++;
+      } catch (error) {
+        this.logger.error(
+          `Failed to abort stale upload session ${session.id}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+    return aborted;
+  }
+
+  private async abortSession(session: UploadSessionWithUpload): Promise<void> {
+    await this.s3Service.abortMultipartUpload(
+      session.upload.key,
+      session.s3UploadId,
+    );
+    await this.prismaService.uploadSession.update({
+      where: { id: session.id },
+      data: { abortedAt: new Date() },
+    });
+    this.logger.log(`Upload session ${session.id} aborted.`);
+  }
+
+  private async findActive(
+    id: string,
+    userId?: string,
+  ): Promise<UploadSessionWithUpload> {
+    const session = await this.findOne(id, userId);
+    this.assertActive(session);
+    return session;
+  }
+
+  private assertActive(session: UploadSessionWithUpload): void {
+    if (session.completedAt) {
+      throw new BadRequestException(
+        `Upload session ${session.id} is completed.`,
+      );
+    }
+    if (session.abortedAt || session.upload.expiresAt < new Date()) {
+      throw new BadRequestException(
+        `Upload session ${session.id} was aborted or expired. Start a new one.`,
+      );
+    }
+  }
+
+  private getPartSize(
+    session: UploadSessionWithUpload,
+    partNumber: number,
+  ): number {
+    return partNumber < session.partCount
+      ? session.partSize
+      : session.upload.size - session.partSize * (session.partCount - 1);
+  }
+
+  private nextExpiry(): Date {
+    return new Date(Date.now() + this.ttlHours * HOUR_MS);
+  }
+}
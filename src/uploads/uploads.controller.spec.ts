@@ -0,0 +1,97 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { UploadsController } from './uploads.controller';
+import { UploadsService } from './uploads.service';
+import { UploadIntentResponseDto } from './dto/upload-response.dto';
+import {
+  AccessControlService,
+  RequestWithRole,
+} from 'src/auth/access-control.service';
+
+describe('UploadsController', () => {
+  let controller: UploadsController;
+  const uploadsService = { createIntent: jest.fn() };
+  const accessControlService = {
+    getRole: jest.fn(),
+    hasPermissions: jest.fn(),
+  };
+  const upload = {
+    id: 'upload',
+    purpose: 'PROJECT_IMAGE',
+    key: 'uploads/upload/home-page.png',
+    fileName: 'home-page.png',
+    contentType: 'image/png',
+    size: 524288,
+    expiresAt: new Date('2025-06-01T12:15:00Z'),
+    uploadUrl: 'https://bucket.s3.amazonaws.com/uploads/upload/home-page.png',
+  };
+  const dto = (purpose: string) =>
+    ({
+      purpose,
+      fileName: 'home-page.png',
+      contentType: 'image/png',
+      size: 524288,
+    }) as never;
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    uploadsService.createIntent.mockResolvedValue(upload);
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [UploadsController],
+      providers: [
+        { provide: UploadsService, useValue: uploadsService },
+        { provide: AccessControlService, useValue: accessControlService },
+      ],
+    }).compile();
+
+    controller = module.get<UploadsController>(UploadsController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('lets anonymous visitors upload quote request files', async () => {
+    const intent = await controller.create(
+      dto('QUOTE_REQUIREMENTS'),
+      {} as RequestWithRole,
+    );
+
+    expect(intent).toBeInstanceOf(UploadIntentResponseDto);
+    expect(intent).toMatchObject({
+      method: 'PUT',
+      headers: { 'Content-Type': 'image/png', 'Content-Length': '524288' },
+    });
+    expect(uploadsService.createIntent).toHaveBeenCalledWith(
+      dto('QUOTE_REQUIREMENTS'),
+      undefined,
+    );
+    expect(accessControlService.getRole).not.toHaveBeenCalled();
+  });
+
+  it('requires projects:write for project media', async () => {
+    accessControlService.hasPermissions.mockReturnValue(false);
+
+    await expect(
+      controller.create(dto('PROJECT_IMAGE'), {} as RequestWithRole),
+    ).rejects.toThrow(ForbiddenException);
+    expect(uploadsService.createIntent).not.toHaveBeenCalled();
+  });
+
+  it('records who uploads project media', async () => {
+    accessControlService.hasPermissions.mockReturnValue(true);
+
+    await controller.create(dto('PROJECT_VIDEO'), {
+      user: { id: 'editor' },
+    } as RequestWithRole);
+
+    expect(accessControlService.hasPermissions).toHaveBeenCalledWith(
+      undefined,
+      ['projects:write'],
+    );
+    expect(uploadsService.createIntent).toHaveBeenCalledWith(
+      dto('PROJECT_VIDEO'),
+      'editor',
+    );
+  });
+});
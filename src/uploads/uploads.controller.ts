@@ -0,0 +1,61 @@
+import { Body, Controller, HttpStatus, Post, Req } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { UploadsService } from './uploads.service';
+import { assertCanUpload } from './upload-policies';
+import { CreateUploadDto } from './dto/create-upload.dto';
+import { UploadIntentResponseDto } from './dto/upload-response.dto';
+import { Public } from 'src/decorators/public.decorator';
+import { RateLimit } from 'src/decorators/rate-limit.decorator';
+import {
+  AccessControlService,
+  RequestWithRole,
+} from 'src/auth/access-control.service';
+
+@ApiTags('uploads')
+@Controller('uploads')
+export class UploadsController {
+  constructor(
+    private readonly uploadsService: UploadsService,
+    private readonly accessControlService: AccessControlService,
+  ) {}
+
+  /**
+   * Public so that quote request files can be uploaded anonymously; project
+   * media still require the projects:write permission.
+   */
+  @Public()
+  @RateLimit({ limit: 30, ttl: 600, keyBy: 'ip-user' })
+  @Post()
+  @ApiOperation({
+    summary: 'Get a presigned URL to upload a file straight to S3',
+    description:
+      'Send the file with a PUT request to `uploadUrl`, with the returned `headers`, then pass the upload `id` to the project or quote request endpoints.',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Where and how to send the file.',
+    type: UploadIntentResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'The file type or size is not allowed for this purpose.',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Uploading project media requires projects:write.',
+  })
+  async create(
+    @Body() createUploadDto: CreateUploadDto,
+    @Req() request: RequestWithRole,
+  ): Promise<UploadIntentResponseDto> {
+    await assertCanUpload(
+      this.accessControlService,
+      request,
+      createUploadDto.purpose,
+    );
+
+    return new UploadIntentResponseDto(
+      await this.uploadsService.createIntent(createUploadDto, request.user?.id),
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { UploadsService } from './uploads.service';
+import { UploadsController } from './uploads.controller';
+import { UploadSessionsService } from './upload-sessions.service';
+import { UploadSessionsController } from './upload-sessions.controller';
+import { UploadSessionCleanupService } from './upload-session-cleanup.service';
+import { DatabaseErrorService } from 'src/common/services/database-error.service';
+import { PrismaModule } from 'src/prisma/prisma.module';
+import { S3Service } from 'src/common/services/aws-s3.service';
+import { AccessControlService } from 'src/auth/access-control.service';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [UploadsController, UploadSessionsController],
+  providers: [
+    UploadsService,
+    UploadSessionsService,
+    UploadSessionCleanupService,
+    S3Service,
+    DatabaseErrorService,
+    AccessControlService,
+  ],
+  exports: [UploadsService],
+})
+export class UploadsModule {}
@@ -0,0 +1,185 @@
+import {
+  BadRequestException,
+  ConflictException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { Prisma, UploadPurpose } from '@prisma/client';
+import { UploadsService } from './uploads.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { S3Service } from 'src/common/services/aws-s3.service';
+import { DatabaseErrorService } from 'src/common/services/database-error.service';
+
+// PNG signature and IHDR chunk of a 1280x720 image
+const PNG_HEADER = Buffer.from(
+  '89504e470d0a1a0a0000000d4948445200000500000002d00802000000',
+  'hex',
+);
+
+describe('UploadsService', () => {
+  let service: UploadsService;
+  const prismaService = {
+    upload: { create: jest.fn(), findMany: jest.fn(), updateMany: jest.fn() },
+  };
+  const s3Service = {
+    getPresignedUploadUrl: jest.fn(),
+    getFileInfo: jest.fn(),
+    downloadFile: jest.fn(),
+    downloadFileRange: jest.fn(),
+  };
+  const config: Record<string, string> = { STORAGE_DRIVER: 's3' };
+  // A 5 MB PNG: the header, then pixel data never read
+  const size = 5 * 1024 * 1024;
+  const file = Buffer.concat([PNG_HEADER, Buffer.alloc(size - 29)]);
+  const upload = {
+    id: 'upload',
+    purpose: UploadPurpose.PROJECT_IMAGE,
+    key: 'projects/images/cover.png',
+    fileName: 'cover.png',
+    contentType: 'image/png',
+    size,
+    userId: 'user',
+    consumedAt: null,
+  };
+
+  beforeEach(async () => {
+    jest.resetAllMocks();
+    prismaService.upload.findMany.mockResolvedValue([upload]);
+    s3Service.getFileInfo.mockResolvedValue({ size, contentType: 'image/png' });
+    s3Service.downloadFileRange.mockImplementation(
+      (_key: string, start: number, end: number) =>
+        Promise.resolve(file.subarray(start, end)),
+    );
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UploadsService,
+        DatabaseErrorService,
+        { provide: PrismaService, useValue: prismaService },
+        { provide: S3Service, useValue: s3Service },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => config[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<UploadsService>(UploadsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('createIntent', () => {
+    it('registers the upload and presigns a PUT to its key', async () => {
+      prismaService.upload.create.mockImplementation(
+        ({ data }: Prisma.UploadCreateArgs) => Promise.resolve(data),
+      );
+      s3Service.getPresignedUploadUrl.mockResolvedValue('https://s3/put');
+
+      const intent = await service.createIntent(
+        {
+          purpose: UploadPurpose.PROJECT_IMAGE,
+          fileName: 'cover.png',
+          contentType: 'image/png',
+          size,
+        },
+        'user',
+      );
+
+      expect(intent.uploadUrl).toBe('https://s3/put');
+      expect(intent.key).toMatch(/^projects\/images\/\d+-\w{8}-cover\.png$/);
+      expect(s3Service.getPresignedUploadUrl).toHaveBeenCalledWith(
+        intent.key,
+        'image/png',
+        size,
+        15 * 60,
+      );
+    });
+  });
+
+  describe('findCompleted', () => {
+    it('checks the files from ranged reads, never downloading them', async () => {
+      await expect(
+        service.findCompleted(['upload'], UploadPurpose.PROJECT_IMAGE, 'user'),
+      ).resolves.toEqual([upload]);
+
+      expect(s3Service.downloadFile).not.toHaveBeenCalled();
+      const ranges = s3Service.downloadFileRange.mock.calls as [
+        string,
+        number,
+        number,
+      ][];
+      expect(ranges.length).toBeGreaterThan(0);
+      for (const [key, start, end] of ranges) {
+        expect(key).toBe('projects/images/cover.png');
+        expect(end - start).toBeLessThan(size);
+      }
+    });
+
+    it('rejects a file whose content is not the announced type', async () => {
+      s3Service.downloadFileRange.mockResolvedValue(Buffer.from('%PDF-1.7\n'));
+
+      await expect(
+        service.findCompleted(['upload'], UploadPurpose.PROJECT_IMAGE, 'user'),
+      ).rejects.toThrow(UnsupportedMediaTypeException);
+    });
+
+    it('rejects uploads of another user, purpose or already used', async () => {
+      await expect(
+        service.findCompleted(['upload'], UploadPurpose.PROJECT_IMAGE, 'other'),
+      ).rejects.toThrow('Upload upload not found.');
+      await expect(
+        service.findCompleted(['upload'], UploadPurpose.PROJECT_VIDEO, 'user'),
+      ).rejects.toThrow('Upload upload not found.');
+
+      prismaService.upload.findMany.mockResolvedValue([
+        { ...upload, consumedAt: new Date() },
+      ]);
+      await expect(
+        service.findCompleted(['upload'], UploadPurpose.PROJECT_IMAGE, 'user'),
+      ).rejects.toThrow('Upload upload was already used.');
+    });
+
+    it('rejects a file missing from S3 or of another size', async () => {
+      s3Service.getFileInfo.mockResolvedValueOnce(null);
+      await expect(
+        service.findCompleted(['upload'], UploadPurpose.PROJECT_IMAGE, 'user'),
+      ).rejects.toThrow('has not been uploaded');
+
+      s3Service.getFileInfo.mockResolvedValueOnce({ size: 10 });
+      await expect(
+        service.findCompleted(['upload'], UploadPurpose.PROJECT_IMAGE, 'user'),
+      ).rejects.toThrow(BadRequestException);
+      expect(s3Service.downloadFileRange).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('consume', () => {
+    it('marks unused uploads as used', async () => {
+      prismaService.upload.updateMany.mockResolvedValue({ count: 2 });
+
+      await service.consume(
+        prismaService as unknown as Prisma.TransactionClient,
+        ['a', 'b'],
+      );
+
+      expect(prismaService.upload.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['a', 'b'] }, consumedAt: null },
+        data: { consumedAt: expect.any(Date) as Date },
+      });
+    });
+
+    it('fails when another request used one of them meanwhile', async () => {
+      prismaService.upload.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(
+        service.consume(prismaService as unknown as Prisma.TransactionClient, [
+          'a',
+          'b',
+        ]),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+});
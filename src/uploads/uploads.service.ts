@@ -0,0 +1,180 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, Upload, UploadPurpose } from '@prisma/client';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { S3Service } from 'src/common/services/aws-s3.service';
+import { DatabaseErrorService } from 'src/common/services/database-error.service';
+import {
+  assertDirectUploadsSupported,
+  assertFileMatchesPolicy,
+  resolveUploadKey,
+} from './upload-policies';
+import { CreateUploadDto } from './dto/create-upload.dto';
+
+// Validity of the presigned PUT URLs
+const UPLOAD_URL_TTL_SECONDS = 15 * 60;
+
+export type UploadIntent = Upload & { uploadUrl: string };
+
+@Injectable()
+export class UploadsService {
+  private readonly logger = new Logger(UploadsService.name);
+
+  constructor(
+    private readonly prismaService: PrismaService,
+    private readonly s3Service: S3Service,
+    private readonly dbErrorService: DatabaseErrorService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Registers an upload and returns a presigned URL the client sends the file
+   * to, so the file never goes through the API.
+   *
+   * @param createUploadDto - Purpose, file name, content type and size.
+   * @param userId - The uploading user, if authenticated.
+   * @returns A Promise resolving to the upload with its presigned URL.
+   * @throws {BadRequestException} If the type or size isn't allowed for the purpose.
+   * @throws {NotImplementedException} If files aren't stored in S3.
+   */
+  async createIntent(
+    createUploadDto: CreateUploadDto,
+    userId?: string,
+  ): Promise<UploadIntent> {
+    assertDirectUploadsSupported(this.configService);
+    const { purpose, fileName, contentType, size } = createUploadDto;
+    const key = resolveUploadKey(createUploadDto);
+    try {
+      const upload = await this.prismaService.upload.create({
+        data: {
+          purpose,
+          key,
+          fileName,
+          contentType,
+          size,
+          userId,
+          expiresAt: new Date(Date.now() + UPLOAD_URL_TTL_SECONDS * 1000),
+        },
+      });
+      const uploadUrl = await this.s3Service.getPresignedUploadUrl(
+        key,
+        contentType,
+        size,
+        UPLOAD_URL_TTL_SECONDS,
+      );
+      return { ...upload, uploadUrl };
+    } catch (error) {
+      this.dbErrorService.handleDatabaseError(
+        error,
+        'Failed to create the upload',
+      );
+    }
+  }
+
+  /**
+   * Retrieves uploads the client reports as finished and checks that their
+   * files are in S3 with the announced size. The files are then checked like
+   * files sent to the multipart endpoints, from ranged reads of their headers:
+   * their content must be of the announced type and within the policy of the
+   * purpose.
+   * Doesn't mark them as used: call `consume` in the transaction that saves
+   * the files' keys.
+   *
+   * @param ids - The upload ids, in the order the files should be used.
+   * @param purpose - What the files are about to be used for.
+   * @param userId - The user using them; uploads made by someone else are rejected.
+   * @returns A Promise resolving to the uploads, in the order of `ids`.
+   * @throws {BadRequestException} If an upload doesn't exist, has another
+   * purpose or owner, was already used, its file is missing or incomplete,
+   * or the file's size, dimensions or duration aren't allowed.
+   * @throws {UnsupportedMediaTypeException} If a file's content isn't of the
+   * announced type.
+   */
+  async findCompleted(
+    ids: string[],
+    purpose: UploadPurpose,
+    userId?: string,
+  ): Promise<Upload[]> {
+    if (!ids.length) {
+      return [];
+    }
+    if (new Set(ids).size !== ids.length) {
+      throw new BadRequestException('The same upload is listed twice.');
+    }
+
+    const uploads = await this.prismaService.upload.findMany({
+      where: { id: { in: ids } },
+    });
+    const completed = await Promise.all(
+      ids.map(async (id) => {
+        const upload = uploads.find((candidate) => candidate.id === id);
+        if (
+          !upload ||
+          upload.purpose !== purpose ||
+          (upload.userId && upload.userId !== userId)
+        ) {
+          throw new BadRequestException(`Upload ${id} not found.`);
+        }
+        if (upload.consumedAt) {
+          throw new BadRequestException(`Upload ${id} was already used.`);
+        }
+        const file = await this.s3Service.getFileInfo(upload.key);
+        if (!file) {
+          throw new BadRequestException(
+            `The file of upload ${id} has not been uploaded.`,
+          );
+        }
+        if (file.size !== upload.size) {
+          throw new BadRequestException(
+            `The file of upload ${id} has ${file.size} bytes instead of ${upload.size}.`,
+          );
+        }
+        return upload;
+      }),
+    );
+
+    // Ranged reads of the headers: the files themselves aren't downloaded
+    await Promise.all(
+      completed.map((upload) =>
+        assertFileMatchesPolicy(
+          {
+            fileName: upload.fileName,
+            contentType: upload.contentType,
+            size: upload.size,
+            read: (start, end) =>
+              this.s3Service.downloadFileRange(upload.key, start, end),
+          },
+          purpose,
+        ),
+      ),
+    );
+    return completed;
+  }
+
+  /**
+   * Marks uploads as used. Meant to run in the transaction that saves their
+   * keys, after `findCompleted`.
+   *
+   * @param tx - Transaction client (or PrismaService outside a transaction).
+   * @param ids - The upload ids.
+   * @throws {ConflictException} If another request used one of them meanwhile.
+   */
+  async consume(tx: Prisma.TransactionClient, ids: string[]): Promise<void> {
+    if (!ids.length) {
+      return;
+    }
+    const { count } = await tx.upload.updateMany({
+      where: { id: { in: ids }, consumedAt: null },
+      data: { consumedAt: new Date() },
+    });
+    if (count !== ids.length) {
+      throw new ConflictException('One of the uploads was already used.');
+    }
+    this.logger.log(`Upload(s) ${ids.join(', ')} consumed.`);
+  }
+}
@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class DeleteAccountDto {
+  @ApiProperty({
+    description: 'The current password, to confirm the account deletion',
+    example: 'P@sswOrd123!',
+    required: true,
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Password cannot be empty.' })
+  password: string;
+}
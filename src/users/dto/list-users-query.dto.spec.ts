@@ -0,0 +1,40 @@
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { ListUsersQueryDto } from './list-users-query.dto';
+
+// Same transformation as the global ValidationPipe
+const parse = (query: Record<string, string>) =>
+  plainToInstance(ListUsersQueryDto, query, {
+    enableImplicitConversion: true,
+  });
+
+describe('ListUsersQueryDto', () => {
+  it.each(['email', 'createdAt', 'id'])(
+    'accepts sorting by %s',
+    async (field) => {
+      await expect(validate(parse({ sortBy: field }))).resolves.toEqual([]);
+    },
+  );
+
+  it.each(['password', 'resetToken', 'twoFactorSecret', 'role.name'])(
+    'refuses sorting by %s',
+    async (field) => {
+      const [error] = await validate(parse({ sortBy: field }));
+
+      expect(error.property).toBe('sortBy');
+    },
+  );
+
+  it('reads the isActive filter from its query string value', () => {
+    expect(parse({ isActive: 'false' }).isActive).toBe(false);
+    expect(parse({ isActive: 'true' }).isActive).toBe(true);
+    expect(parse({}).isActive).toBeUndefined();
+  });
+
+  it('converts the page size to a number', async () => {
+    const query = parse({ limit: '10', offset: '20' });
+
+    expect(query).toEqual(expect.objectContaining({ limit: 10, offset: 20 }));
+    await expect(validate(query)).resolves.toEqual([]);
+  });
+});
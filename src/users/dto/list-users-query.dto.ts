@@ -0,0 +1,42 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsIn, IsOptional, IsUUID } from 'class-validator';
+import { PaginationQueryDto } from 'src/common/dto/pagination-query.dto';
+
+// Credentials and tokens are deliberately not sortable
+export const USER_SORT_FIELDS = [
+  'id',
+  'email',
+  'name',
+  'lastName',
+  'isActive',
+  'roleId',
+  'createdAt',
+  'updatedAt',
+] as const;
+export type UserSortField = (typeof USER_SORT_FIELDS)[number];
+
+/**
+ * Query parameters of GET /users.
+ */
+export class ListUsersQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ enum: USER_SORT_FIELDS, default: 'createdAt' })
+  @IsOptional()
+  @IsIn(USER_SORT_FIELDS)
+  sortBy?: UserSortField;
+
+  @ApiPropertyOptional({ description: 'Only users with this role' })
+  @IsOptional()
+  @IsUUID()
+  roleId?: string;
+
+  @ApiPropertyOptional({ description: 'Filter by activation status' })
+  @IsOptional()
+  // Implicit conversion would turn the string "false" into true
+  @Transform(({ obj, key }) => {
+    const value = (obj as Record<string, unknown>)[key];
+    return value === 'true' || value === true;
+  })
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,10 @@
+import { PartialType, PickType } from '@nestjs/swagger';
+import { CreateUserDto } from './create-user.dto';
+
+/**
+ * Fields users can change on their own account through `PATCH /users/me`.
+ * Email, role and activation status stay under admin control.
+ */
+export class UpdateProfileDto extends PartialType(
+  PickType(CreateUserDto, ['name', 'lastName', 'address', 'phone'] as const),
+) {}
@@ -0,0 +1,72 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Exclude, Expose } from 'class-transformer';
+import { Role, User } from '@prisma/client';
+import { RoleResponseDto } from 'src/roles/dto/role-response.dto';
+
+/**
+ * User as returned by the API.
+ * Only the fields marked with @Expose() are serialized: the password hash,
+ * activation/reset tokens and 2FA secrets never leave the server.
+ */
+@Exclude()
+export class UserResponseDto {
+  @Expose()
+  @ApiProperty({ format: 'uuid' })
+  id: string;
+
+  @Expose()
+  @ApiProperty({ example: 'user@example.com' })
+  email: string;
+
+  @Expose()
+  @ApiProperty({ example: 'John' })
+  name: string;
+
+  @Expose()
+  @ApiProperty({ example: 'Doe' })
+  lastName: string;
+
+  @Expose()
+  @ApiPropertyOptional({ nullable: true })
+  address: string | null;
+
+  @Expose()
+  @ApiPropertyOptional({ nullable: true })
+  phone: string | null;
+
+  @Expose()
+  @ApiProperty()
+  isActive: boolean;
+
+  @Expose()
+  @ApiProperty()
+  twoFactorEnabled: boolean;
+
+  @Expose()
+  @ApiPropertyOptional({
+    nullable: true,
+    description: 'Set while the account is locked after failed logins',
+  })
+  lockedUntil: Date | null;
+
+  @Expose()
+  @ApiProperty({ format: 'uuid' })
+  roleId: string;
+
+  @Expose()
+  @ApiPropertyOptional({ type: () => RoleResponseDto })
+  role?: RoleResponseDto;
+
+  @Expose()
+  @ApiProperty()
+  createdAt: Date;
+
+  @Expose()
+  @ApiProperty()
+  updatedAt: Date;
+
+  constructor(user: Partial<User> & { role?: Role | null }) {
+    Object.assign(this, user);
+    this.role = user.role ? new RoleResponseDto(user.role) : undefined;
+  }
+}
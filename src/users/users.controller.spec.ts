@@ -1,14 +1,20 @@
+import { NotFoundException } from '@nestjs/common';
 import { Test, TestingModule } from '@nestjs/testing';
 import { UsersController } from './users.controller';
 import { UsersService } from './users.service';
 
 describe('UsersController', () => {
   let controller: UsersController;
+  const usersService = {
+    findByResetToken: jest.fn(),
+    resendActivation: jest.fn(),
+  };
 
   beforeEach(async () => {
+    jest.resetAllMocks();
     const module: TestingModule = await Test.createTestingModule({
       controllers: [UsersController],
-      providers: [UsersService],
+      providers: [{ provide: UsersService, useValue: usersService }],
     }).compile();
 
     controller = module.get<UsersController>(UsersController);
@@ -17,4 +23,45 @@ describe('UsersController', () => {
   it('should be defined', () => {
     expect(controller).toBeDefined();
   });
+
+  describe('checkResetToken', () => {
+    it('only confirms that the token is valid', async () => {
+      usersService.findByResetToken.mockResolvedValue({
+        id: 'user',
+        email: 'user@example.com',
+        phone: '+33 6 00 00 00 00',
+      });
+
+      await expect(controller.checkResetToken('token')).resolves.toEqual({
+        valid: true,
+      });
+    });
+
+    it('keeps the 404 for invalid tokens', async () => {
+      usersService.findByResetToken.mockRejectedValue(
+        new NotFoundException('Invalid reset token.'),
+      );
+
+      await expect(controller.checkResetToken('token')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('checkEmailAndSendEmailActivation', () => {
+    it('answers the same way whether or not the account exists', async () => {
+      usersService.resendActivation.mockResolvedValue(undefined);
+
+      const known =
+        await controller.checkEmailAndSendEmailActivation('user@example.com');
+      const unknown =
+        await controller.checkEmailAndSendEmailActivation('nobody@example.com');
+
+      expect(known).toEqual(unknown);
+      expect(known).toEqual({
+        message:
+          'If an inactive account exists for this email, an activation link has been sent.',
+      });
+    });
+  });
 });
@@ -12,11 +12,17 @@ import {
   Logger, // Import Logger
   NotFoundException, // Import exceptions
   BadRequestException,
+  Query,
 } from '@nestjs/common';
 import { UsersService } from './users.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { Public } from 'src/decorators/public.decorator'; // Assuming this decorator exists
+import { RateLimit } from 'src/decorators/rate-limit.decorator';
+import { RequirePermissions } from 'src/decorators/require-permissions.decorator';
+import { PermissionNames } from 'src/permissions/constants';
+import { Roles } from 'src/decorators/roles.decorator';
+import { RoleNames } from 'src/roles/constants';
 import { ResetPasswordDto } from './dto/reset-password.dto'; // DTO for initiating reset
 import { ChangePasswordDto } from './dto/change-password.dto'; // DTO for setting new password (both cases)
 import {
@@ -27,8 +33,19 @@ import {
   ApiBody,
   ApiBearerAuth, // If using JWT auth for protected routes
 } from '@nestjs/swagger';
-import { User } from '@prisma/client'; // Import User type for responses
 import { UpdatePasswordDto } from './dto/update-password.dto';
+import { UserResponseDto } from './dto/user-response.dto';
+import { ListUsersQueryDto } from './dto/list-users-query.dto';
+import {
+  Paginated,
+  PaginatedResponseDto,
+} from 'src/common/dto/paginated-response.dto';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+import { DeleteAccountDto } from './dto/delete-account.dto';
+import {
+  AuthenticatedUser,
+  CurrentUser,
+} from 'src/decorators/current-user.decorator';
 
 @ApiTags('Users') // Group endpoints under 'Users' tag
 @Controller('users')
@@ -38,6 +55,7 @@ export class UsersController {
   constructor(private readonly usersService: UsersService) {}
 
   @Public() // Mark as public if user creation doesn't require auth
+  @RateLimit({ limit: 5, ttl: 3600 }) // sends an activation email
   @Post()
   @HttpCode(HttpStatus.CREATED)
   @ApiOperation({ summary: 'Create a new user' })
@@ -45,7 +63,7 @@ export class UsersController {
   @ApiResponse({
     status: HttpStatus.CREATED,
     description: 'The user has been successfully created.',
-    type: CreateUserDto, // Use Prisma model or a specific UserResponseDto
+    type: UserResponseDto,
   })
   @ApiResponse({
     status: HttpStatus.BAD_REQUEST,
@@ -55,34 +73,149 @@ export class UsersController {
     status: HttpStatus.CONFLICT,
     description: 'User with this email already exists.',
   })
-  async create(@Body() createUserDto: CreateUserDto): Promise<User> {
+  async create(@Body() createUserDto: CreateUserDto): Promise<UserResponseDto> {
     this.logger.log(
       `Attempting to create user with email: ${createUserDto.email}`,
     );
     // Password confirmation logic can be added here or in the service if needed
-    return this.usersService.create(createUserDto);
+    return new UserResponseDto(await this.usersService.create(createUserDto));
   }
 
-  // Consider protecting this endpoint if it's not meant for public access
-  // @ApiBearerAuth() // Add if protected by JWT AuthGuard
+  @ApiBearerAuth()
+  @RequirePermissions(PermissionNames.USERS_READ)
   @Get()
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Retrieve all users' })
+  @ApiOperation({ summary: 'List users with pagination and filters' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Successfully retrieved a page of users.',
+    type: PaginatedResponseDto(UserResponseDto),
+  })
+  async findAll(
+    @Query() query: ListUsersQueryDto,
+  ): Promise<Paginated<UserResponseDto>> {
+    this.logger.log('Request received to list users');
+    const page = await this.usersService.findAll(query);
+    return {
+      ...page,
+      items: page.items.map((user) => new UserResponseDto(user)),
+    };
+  }
+
+  // --- Current user (self-service) ---
+  // Declared before the ':id' routes so 'me' is not taken as an ID
+
+  @ApiBearerAuth()
+  @Get('me')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Retrieve the authenticated user' })
   @ApiResponse({
     status: HttpStatus.OK,
-    description: 'Successfully retrieved all users.',
-    type: [CreateUserDto], // Array of users
+    description: 'Successfully retrieved the current user.',
+    type: UserResponseDto,
+  })
+  async findMe(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<UserResponseDto> {
+    return new UserResponseDto(await this.usersService.findOne(user.id));
+  }
+
+  @ApiBearerAuth()
+  @Patch('me')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Update the profile of the authenticated user' })
+  @ApiBody({ type: UpdateProfileDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Successfully updated the profile.',
+    type: UserResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid input data.',
   })
-  async findAll(): Promise<User[]> {
-    this.logger.log('Request received to find all users');
-    return this.usersService.findAll();
+  async updateMe(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() updateProfileDto: UpdateProfileDto,
+  ): Promise<UserResponseDto> {
+    this.logger.log(
+      `Request received to update profile of user ID: ${user.id}`,
+    );
+    return new UserResponseDto(
+      await this.usersService.updateProfile(user.id, updateProfileDto),
+    );
   }
 
-  // Consider protecting this endpoint
-  // @ApiBearerAuth()
+  @ApiBearerAuth()
+  @Patch('me/password')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Change the password of the authenticated user' })
+  @ApiBody({ type: ChangePasswordDto })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Password successfully changed.',
+    type: UserResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Incorrect current password.',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Passwords do not match or invalid input.',
+  })
+  async changeMyPassword(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() changePasswordDto: ChangePasswordDto,
+  ): Promise<UserResponseDto> {
+    this.logger.log(`Attempting password change for user ID: ${user.id}`);
+    if (
+      changePasswordDto.newPassword !== changePasswordDto.newPasswordConfirm
+    ) {
+      throw new BadRequestException('New passwords do not match.');
+    }
+    return new UserResponseDto(
+      await this.usersService.changePassword(
+        user.id,
+        changePasswordDto.currentPassword,
+        changePasswordDto.newPassword,
+      ),
+    );
+  }
+
+  @ApiBearerAuth()
+  @Delete('me')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete the account of the authenticated user' })
+  @ApiBody({ type: DeleteAccountDto })
+  @ApiResponse({
+    status: HttpStatus.NO_CONTENT,
+    description: 'Account successfully deleted.',
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Incorrect password.',
+  })
+  async removeMe(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() deleteAccountDto: DeleteAccountDto,
+  ): Promise<void> {
+    this.logger.log(
+      `Request received to delete own account, user ID: ${user.id}`,
+    );
+    await this.usersService.removeOwnAccount(
+      user.id,
+      deleteAccountDto.password,
+    );
+  }
+
+  // --- Administration by ID ---
+
+  @ApiBearerAuth()
+  @Roles(RoleNames.ADMIN)
   @Get(':id')
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Retrieve a specific user by ID' })
+  @ApiOperation({ summary: 'Retrieve a specific user by ID (admin only)' })
   @ApiParam({
     name: 'id',
     description: 'User UUID',
@@ -92,25 +225,27 @@ export class UsersController {
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Successfully retrieved the user.',
-    type: CreateUserDto, // Replace with a DTO or interface representing the user response
+    type: UserResponseDto,
   })
   @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'User not found.' })
   @ApiResponse({
     status: HttpStatus.BAD_REQUEST,
     description: 'Invalid UUID format.',
   })
-  async findOne(@Param('id', ParseUUIDPipe) id: string): Promise<User> {
+  async findOne(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<UserResponseDto> {
     this.logger.log(`Request received to find user with ID: ${id}`);
     const user = await this.usersService.findOne(id);
     // Service already throws NotFoundException, no need to check here again
-    return user;
+    return new UserResponseDto(user);
   }
 
-  // Consider protecting this endpoint
-  // @ApiBearerAuth()
+  @ApiBearerAuth()
+  @Roles(RoleNames.ADMIN)
   @Patch(':id')
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Update a user by ID' })
+  @ApiOperation({ summary: 'Update a user by ID (admin only)' })
   @ApiParam({
     name: 'id',
     description: 'User UUID',
@@ -121,7 +256,7 @@ export class UsersController {
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Successfully updated the user.',
-    type: UpdateUserDto,
+    type: UserResponseDto,
   })
   @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'User not found.' })
   @ApiResponse({
@@ -131,17 +266,19 @@ export class UsersController {
   async update(
     @Param('id', ParseUUIDPipe) id: string,
     @Body() updateUserDto: UpdateUserDto,
-  ): Promise<User> {
+  ): Promise<UserResponseDto> {
     this.logger.log(`Request received to update user with ID: ${id}`);
     // The service handles the update logic, including password hashing if present
-    return this.usersService.update(id, updateUserDto);
+    return new UserResponseDto(
+      await this.usersService.update(id, updateUserDto),
+    );
   }
 
-  // Consider protecting this endpoint
-  // @ApiBearerAuth()
+  @ApiBearerAuth()
+  @Roles(RoleNames.ADMIN)
   @Delete(':id')
   @HttpCode(HttpStatus.NO_CONTENT)
-  @ApiOperation({ summary: 'Delete a user by ID' })
+  @ApiOperation({ summary: 'Delete a user by ID (admin only)' })
   @ApiParam({
     name: 'id',
     description: 'User UUID',
@@ -163,9 +300,65 @@ export class UsersController {
     // No return needed for NO_CONTENT
   }
 
+  @ApiBearerAuth()
+  @Roles(RoleNames.ADMIN)
+  @Delete(':id/sessions')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Force-logout a user by revoking all their sessions (admin only)',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'User UUID',
+    type: String,
+    format: 'uuid',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Sessions revoked, returns how many.',
+  })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'User not found.' })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Only administrators can revoke sessions.',
+  })
+  async revokeSessions(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<{ revokedSessions: number }> {
+    this.logger.log(`Request received to revoke sessions of user ID: ${id}`);
+    return this.usersService.revokeSessions(id);
+  }
+
+  @ApiBearerAuth()
+  @Roles(RoleNames.ADMIN)
+  @Patch(':id/unlock')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Unlock an account locked by failed logins (admin only)',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'User UUID',
+    type: String,
+    format: 'uuid',
+  })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Account unlocked.' })
+  @ApiResponse({ status: HttpStatus.NOT_FOUND, description: 'User not found.' })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Only administrators can unlock accounts.',
+  })
+  async unlock(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<{ message: string }> {
+    this.logger.log(`Request received to unlock user ID: ${id}`);
+    return this.usersService.unlock(id);
+  }
+
   // --- Activation and Password Management ---
 
   @Public()
+  @RateLimit({ limit: 10, ttl: 900 })
   @Patch('activate/:token')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Activate user account using activation token' })
@@ -177,20 +370,21 @@ export class UsersController {
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'User account successfully activated.',
-    type: CreateUserDto, // Replace with a DTO representing the user response
+    type: UserResponseDto,
   })
   @ApiResponse({
     status: HttpStatus.UNAUTHORIZED,
     description: 'Invalid or expired token.',
   })
-  async activate(@Param('token') token: string): Promise<User> {
+  async activate(@Param('token') token: string): Promise<UserResponseDto> {
     this.logger.log(
       `Attempting to activate user with token: ${token.substring(0, 10)}...`,
     );
-    return this.usersService.activateUser(token);
+    return new UserResponseDto(await this.usersService.activateUser(token));
   }
 
   @Public()
+  @RateLimit({ limit: 5, ttl: 900 }) // sends a reset email
   @Post('reset-password')
   @HttpCode(HttpStatus.OK) // Or ACCEPTED if processing is async
   @ApiOperation({ summary: 'Initiate password reset process' })
@@ -205,15 +399,20 @@ export class UsersController {
   })
   async resetPassword(
     @Body() resetPasswordDto: ResetPasswordDto,
-  ): Promise<User> {
+  ): Promise<{ message: string }> {
     this.logger.log(
       `Password reset requested for email: ${resetPasswordDto.email}`,
     );
     // Service handles finding user and sending email. Avoid confirming user existence here for security.
-    return await this.usersService.resetPassword(resetPasswordDto.email);
+    await this.usersService.resetPassword(resetPasswordDto.email);
+    return {
+      message:
+        'If an account exists for this email, a password reset link has been sent.',
+    };
   }
 
   @Public()
+  @RateLimit({ limit: 10, ttl: 900 })
   @Get('check-token/:resetToken') // Renamed param for clarity
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Check if a password reset token is valid' })
@@ -229,12 +428,14 @@ export class UsersController {
   })
   async checkResetToken(
     @Param('resetToken') resetToken: string,
-  ): Promise<User> {
-    this.logger.log(`Checking reset token: ${resetToken.substring(0, 10)}...`);
-    return await this.usersService.findByResetToken(resetToken); // Service throws if invalid/expired
+  ): Promise<{ valid: true }> {
+    // Service throws if invalid/expired; the user stays private
+    await this.usersService.findByResetToken(resetToken);
+    return { valid: true };
   }
 
   @Public()
+  @RateLimit({ limit: 10, ttl: 900 })
   @Patch('update-password/:resetToken')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Update password using a reset token' })
@@ -259,86 +460,45 @@ export class UsersController {
   async updatePasswordWithToken(
     @Param('resetToken') resetToken: string,
     @Body() updatePasswordDto: UpdatePasswordDto, // Use the DTO
-  ): Promise<User> {
-    this.logger.log(
-      `Attempting password update with token: ${resetToken.substring(0, 10)}...`,
-    );
+  ): Promise<UserResponseDto> {
+    this.logger.log('Attempting password update with a reset token');
     if (
       updatePasswordDto.newPassword !== updatePasswordDto.newPasswordConfirm
     ) {
       throw new BadRequestException('Passwords do not match.');
     }
-    return await this.usersService.updatePassword(
-      resetToken,
-      updatePasswordDto.newPassword,
-    );
-  }
-
-  // This endpoint assumes the user is authenticated (e.g., changing their own password)
-  // Add @UseGuards(AuthGuard('jwt')) or similar if needed
-  // @ApiBearerAuth()
-  @Patch('change-password/:userId') // Or perhaps get userId from JWT payload instead of param
-  @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Change password for an authenticated user' })
-  @ApiParam({
-    name: 'userId',
-    description: 'User UUID',
-    type: String,
-    format: 'uuid',
-  })
-  @ApiBody({ type: ChangePasswordDto })
-  @ApiResponse({
-    status: HttpStatus.OK,
-    description: 'Password successfully changed.',
-  })
-  @ApiResponse({
-    status: HttpStatus.UNAUTHORIZED,
-    description: 'Incorrect current password or user not found.',
-  })
-  @ApiResponse({
-    status: HttpStatus.BAD_REQUEST,
-    description: 'Passwords do not match or invalid input.',
-  })
-  async changePassword(
-    @Param('userId', ParseUUIDPipe) userId: string, // Validate UUID
-    @Body() changePasswordDto: ChangePasswordDto,
-  ): Promise<User> {
-    this.logger.log(`Attempting password change for user ID: ${userId}`);
-    if (
-      changePasswordDto.newPassword !== changePasswordDto.newPasswordConfirm
-    ) {
-      throw new BadRequestException('New passwords do not match.');
-    }
-    return await this.usersService.changePassword(
-      userId,
-      changePasswordDto.currentPassword,
-      changePasswordDto.newPassword,
+    return new UserResponseDto(
+      await this.usersService.updatePassword(
+        resetToken,
+        updatePasswordDto.newPassword,
+      ),
     );
   }
 
   @Public()
+  @RateLimit({ limit: 3, ttl: 900 }) // sends an activation email
   @Get('inactive-user-and-send-email/:email') // Renamed param for clarity
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
-    summary:
-      'Check if the user is found and send a new email to activate their account',
+    summary: 'Send a new activation email to an account that is not active yet',
   })
   @ApiParam({
     name: 'email',
-    description: 'Password reset token',
+    description: 'Email address of the account to activate',
     type: String,
   })
   @ApiResponse({
     status: HttpStatus.OK,
-    description: 'User found and send email.',
-  })
-  @ApiResponse({
-    status: HttpStatus.NOT_FOUND,
-    description: 'Invalid or expired token.',
+    description: 'Activation email sent if an inactive account exists.',
   })
   async checkEmailAndSendEmailActivation(
     @Param('email') email: string,
-  ): Promise<User> {
-    return await this.usersService.findByEmailAndSendEmailActivation(email);
+  ): Promise<{ message: string }> {
+    // Same answer for every email, so that accounts can't be discovered
+    await this.usersService.resendActivation(email);
+    return {
+      message:
+        'If an inactive account exists for this email, an activation link has been sent.',
+    };
   }
 }
@@ -3,8 +3,8 @@ import { UsersService } from './users.service';
 import { UsersController } from './users.controller';
 import { PrismaService } from 'src/prisma/prisma.service';
 import { MailService } from 'src/mail/mail.service';
-import { JwtAuthGuard } from 'src/auth/jwt-auth.guard';
-import { APP_GUARD } from '@nestjs/core';
+import { SessionsService } from 'src/auth/sessions.service';
+import { LoginAttemptsService } from 'src/auth/login-attempts.service';
 
 @Module({
   controllers: [UsersController],
@@ -12,10 +12,8 @@ import { APP_GUARD } from '@nestjs/core';
     UsersService,
     PrismaService,
     MailService,
-    {
-      provide: APP_GUARD, // para proteger las rutas de los productos
-      useClass: JwtAuthGuard, // pero parece que no es necesario
-    },
+    SessionsService,
+    LoginAttemptsService,
   ],
   // exports: [UsersService],
 })
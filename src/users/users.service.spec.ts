@@ -1,12 +1,40 @@
+import { ConfigService } from '@nestjs/config';
 import { Test, TestingModule } from '@nestjs/testing';
 import { UsersService } from './users.service';
+import { PrismaService } from 'src/prisma/prisma.service';
+import { MailService } from 'src/mail/mail.service';
+import { SessionsService } from 'src/auth/sessions.service';
+import { LoginAttemptsService } from 'src/auth/login-attempts.service';
+import { SortOrder } from 'src/common/dto/pagination-query.dto';
 
 describe('UsersService', () => {
   let service: UsersService;
+  const prismaService = {
+    $transaction: jest.fn(),
+    user: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+  const mailService = { sendEmail: jest.fn() };
 
   beforeEach(async () => {
+    jest.resetAllMocks();
+    mailService.sendEmail.mockResolvedValue(undefined);
     const module: TestingModule = await Test.createTestingModule({
-      providers: [UsersService],
+      providers: [
+        UsersService,
+        { provide: PrismaService, useValue: prismaService },
+        { provide: MailService, useValue: mailService },
+        {
+          provide: ConfigService,
+          useValue: { get: () => 'https://app.example.com' },
+        },
+        { provide: SessionsService, useValue: {} },
+        { provide: LoginAttemptsService, useValue: {} },
+      ],
     }).compile();
 
     service = module.get<UsersService>(UsersService);
@@ -15,4 +43,130 @@ describe('UsersService', () => {
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('findAll', () => {
+    it('filters by role and activation and sorts by the requested column', async () => {
+      prismaService.$transaction.mockImplementation((queries: unknown[]) =>
+        Promise.all(queries),
+      );
+      prismaService.user.findMany.mockResolvedValue([{ id: 'a' }, { id: 'b' }]);
+      prismaService.user.count.mockResolvedValue(2);
+
+      const page = await service.findAll({
+        roleId: 'role',
+        isActive: false,
+        sortBy: 'email',
+        sortOrder: SortOrder.ASC,
+        limit: 1,
+      });
+
+      const where = { roleId: 'role', isActive: false };
+      expect(prismaService.user.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where,
+          take: 2,
+          orderBy: [{ email: SortOrder.ASC }, { id: SortOrder.ASC }],
+        }),
+      );
+      expect(prismaService.user.count).toHaveBeenCalledWith({ where });
+      expect(page).toEqual({ items: [{ id: 'a' }], total: 2, nextCursor: 'a' });
+    });
+  });
+
+  describe('findOne', () => {
+    it('leaves the password hash, tokens and 2FA secrets out of the query', async () => {
+      prismaService.user.findUnique.mockResolvedValue({ id: 'user' });
+
+      await service.findOne('user');
+
+      expect(prismaService.user.findUnique).toHaveBeenCalledWith({
+        where: { id: 'user' },
+        include: { role: true },
+        omit: {
+          password: true,
+          activationToken: true,
+          resetToken: true,
+          twoFactorSecret: true,
+          twoFactorRecoveryCodes: true,
+        },
+      });
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('stores a reset token and emails the link to existing users', async () => {
+      prismaService.user.findUnique.mockResolvedValue({
+        id: 'user',
+        email: 'user@example.com',
+      });
+
+      await expect(service.resetPassword('user@example.com')).resolves.toBe(
+        undefined,
+      );
+      expect(prismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'user' },
+        data: {
+          resetToken: expect.any(String) as string,
+          resetTokenExpiry: expect.any(Date) as Date,
+        },
+      });
+      expect(mailService.sendEmail).toHaveBeenCalledWith(
+        'user@example.com',
+        'Reset Your Password',
+        expect.stringContaining('https://app.example.com') as string,
+      );
+    });
+
+    it('resolves the same way for unknown emails, without sending anything', async () => {
+      prismaService.user.findUnique.mockResolvedValue(null);
+
+      await expect(service.resetPassword('nobody@example.com')).resolves.toBe(
+        undefined,
+      );
+      expect(prismaService.user.update).not.toHaveBeenCalled();
+      expect(mailService.sendEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resendActivation', () => {
+    it('emails a new activation link to inactive accounts', async () => {
+      prismaService.user.findUnique.mockResolvedValue({
+        id: 'user',
+        email: 'user@example.com',
+        isActive: false,
+      });
+
+      await expect(service.resendActivation('user@example.com')).resolves.toBe(
+        undefined,
+      );
+      expect(prismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'user' },
+        data: {
+          activationToken: expect.any(String) as string,
+          activationTokenExpires: expect.any(Date) as Date,
+        },
+      });
+      expect(mailService.sendEmail).toHaveBeenCalledWith(
+        'user@example.com',
+        'Activate Your Account',
+        expect.stringContaining('https://app.example.com') as string,
+      );
+    });
+
+    it.each([
+      ['unknown emails', null],
+      [
+        'active accounts',
+        { id: 'user', email: 'user@example.com', isActive: true },
+      ],
+    ])('sends nothing for %s', async (_case, user) => {
+      prismaService.user.findUnique.mockResolvedValue(user);
+
+      await expect(service.resendActivation('user@example.com')).resolves.toBe(
+        undefined,
+      );
+      expect(prismaService.user.update).not.toHaveBeenCalled();
+      expect(mailService.sendEmail).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -9,6 +9,8 @@ import {
 } from '@nestjs/common';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+import { ListUsersQueryDto, UserSortField } from './dto/list-users-query.dto';
 import { PrismaService } from 'src/prisma/prisma.service';
 import { Prisma, User } from '@prisma/client'; // Import User type
 import * as bcrypt from 'bcrypt';
@@ -18,10 +20,31 @@ import {
   generateResetPasswordToken,
 } from 'src/utils/auth-utils'; // Assuming these utils exist
 import { ConfigService } from '@nestjs/config';
+import { Paginated } from 'src/common/dto/paginated-response.dto';
+import { buildPaginationArgs, toPaginated } from 'src/utils/pagination-utils';
+import { SessionsService } from 'src/auth/sessions.service';
+import { LoginAttemptsService } from 'src/auth/login-attempts.service';
 // Import email templates - ensure these functions return HTML strings
 import { activationUserEmailTemplate } from 'src/mail/templates/activation-user-email';
 import { resetPasswordEmailTemplate } from 'src/mail/templates/reset-password-email';
 
+// Secrets left out of the users the service hands to controllers
+const USER_SECRETS_OMIT = {
+  password: true,
+  activationToken: true,
+  resetToken: true,
+  twoFactorSecret: true,
+  twoFactorRecoveryCodes: true,
+} satisfies Prisma.UserOmit;
+
+export type UserWithoutSecrets = Prisma.UserGetPayload<{
+  omit: typeof USER_SECRETS_OMIT;
+}>;
+export type UserWithRole = Prisma.UserGetPayload<{
+  omit: typeof USER_SECRETS_OMIT;
+  include: { role: true };
+}>;
+
 @Injectable()
 export class UsersService {
   private readonly logger = new Logger(UsersService.name); // Initialize logger
@@ -30,6 +53,8 @@ export class UsersService {
     private prismaService: PrismaService,
     private mailService: MailService, // Inject MailService
     private configService: ConfigService,
+    private sessionsService: SessionsService,
+    private loginAttemptsService: LoginAttemptsService,
   ) {}
 
   /**
@@ -42,6 +67,16 @@ export class UsersService {
     return bcrypt.hash(password, saltRounds);
   }
 
+  /**
+   * Checks a password against a bcrypt hash.
+   * @param password - The plain text password.
+   * @param hash - The stored hash.
+   * @returns true if the password matches.
+   */
+  private comparePassword(password: string, hash: string): Promise<boolean> {
+    return bcrypt.compare(password, hash);
+  }
+
   /**
    * Creates a new user, hashes the password, generates an activation token,
    * and sends an activation email.
@@ -105,15 +140,25 @@ export class UsersService {
   }
 
   /**
-   * Retrieves all users, including their role information.
-   * @returns An array of user objects.
+   * Retrieves a page of users, including their role information.
+   * @param query - Pagination, sorting and filters (role, activation status).
+   * @returns The page of users, the total count and the next cursor.
    */
-  async findAll(): Promise<User[]> {
-    // Exclude password field from all results
-    return this.prismaService.user.findMany({
-      include: { role: true },
-      // select: { id: true, email: true, name: true, /* other fields except password */ }, // Alternative explicit selection
-    });
+  async findAll(query: ListUsersQueryDto): Promise<Paginated<UserWithRole>> {
+    const where: Prisma.UserWhereInput = {
+      roleId: query.roleId,
+      isActive: query.isActive,
+    };
+    const [users, total] = await this.prismaService.$transaction([
+      this.prismaService.user.findMany({
+        where,
+        include: { role: true },
+        omit: USER_SECRETS_OMIT,
+        ...buildPaginationArgs<UserSortField>(query, 'createdAt'),
+      }),
+      this.prismaService.user.count({ where }),
+    ]);
+    return toPaginated(users, total, query);
   }
 
   /**
@@ -122,18 +167,17 @@ export class UsersService {
    * @returns The found user object.
    * @throws NotFoundException if the user is not found.
    */
-  async findOne(id: string): Promise<User> {
+  async findOne(id: string): Promise<UserWithRole> {
     const user = await this.prismaService.user.findUnique({
       where: { id },
       include: { role: true },
+      omit: USER_SECRETS_OMIT,
     });
 
     if (!user) {
       throw new NotFoundException(`User with ID ${id} not found.`);
     }
-    // Exclude password before returning
-    const { password, ...result } = user;
-    return result as unknown as User;
+    return user;
   }
 
   /**
@@ -166,13 +210,14 @@ export class UsersService {
    * @returns The found user object.
    * @throws NotFoundException if the token is invalid or expired.
    */
-  async findByResetToken(resetToken: string): Promise<User> {
+  async findByResetToken(resetToken: string): Promise<UserWithoutSecrets> {
     if (!resetToken) {
       throw new NotFoundException('Reset token is required.');
     }
 
     const user = await this.prismaService.user.findUnique({
       where: { resetToken },
+      omit: USER_SECRETS_OMIT,
     });
 
     if (!user) {
@@ -186,9 +231,7 @@ export class UsersService {
       throw new NotFoundException('Reset token has expired.');
     }
 
-    // Exclude password before returning
-    const { password, ...result } = user;
-    return result as unknown as User;
+    return user;
   }
 
   /**
@@ -276,13 +319,35 @@ export class UsersService {
     }
   }
 
+  /**
+   * Updates the profile fields a user may change on their own account.
+   * @param id - The UUID of the authenticated user.
+   * @param updateProfileDto - Name, last name, address and/or phone.
+   * @returns The updated user object.
+   * @throws NotFoundException if the user is not found.
+   */
+  async updateProfile(
+    id: string,
+    updateProfileDto: UpdateProfileDto,
+  ): Promise<User> {
+    await this.findOne(id); // Throws NotFoundException if not found
+
+    const updatedUser = await this.prismaService.user.update({
+      where: { id },
+      data: { ...updateProfileDto },
+      include: { role: true },
+    });
+    this.logger.log(`Profile updated by user ID: ${id}`);
+    return updatedUser;
+  }
+
   /**
    * Initiates the password reset process for a user by email.
    * Generates a reset token, sets expiry, updates the user, and sends a reset email.
+   * Unknown emails are only logged, so callers can't tell whether an account exists.
    * @param email - The email address of the user.
-   * @throws NotFoundException if the user is not found (handled gracefully).
    */
-  async resetPassword(email: string): Promise<User> {
+  async resetPassword(email: string): Promise<void> {
     const user = await this.findUserByEmail(email);
 
     // Important: Do not throw NotFoundException here.
@@ -291,7 +356,7 @@ export class UsersService {
       this.logger.warn(
         `Password reset requested for non-existent email: ${email}`,
       );
-      throw new NotFoundException('User not found');
+      return;
     }
 
     // Generate token and expiry
@@ -300,7 +365,7 @@ export class UsersService {
 
     try {
       // Update user with the reset token and expiry
-      const userUpdated = await this.prismaService.user.update({
+      await this.prismaService.user.update({
         where: { id: user.id },
         data: { resetToken, resetTokenExpiry },
       });
@@ -325,9 +390,6 @@ export class UsersService {
           );
           // Consider cleanup: should the token be cleared if email fails? Depends on requirements.
         });
-      // Exclude password before returning
-      const { password, ...result } = userUpdated;
-      return result as User;
     } catch (error) {
       this.logger.error(
         `Failed to update user for password reset ${user.id}: ${error.message}`,
@@ -403,7 +465,7 @@ export class UsersService {
     }
 
     // Compare the provided current password with the stored hash
-    const isMatch = await bcrypt.compare(currentPassword, user.password);
+    const isMatch = await this.comparePassword(currentPassword, user.password);
     if (!isMatch) {
       throw new UnauthorizedException('Incorrect current password.');
     }
@@ -458,29 +520,70 @@ export class UsersService {
   }
 
   /**
-   * Finds a user by email and sen email activation.
-   * @param email - The email where the email will be sent.
-   * @returns The found user object.
-   * @throws NotFoundException if the token is invalid or expired.
+   * Deletes the user's own account after checking their password.
+   * @param id - The UUID of the authenticated user.
+   * @param password - The current plain text password.
+   * @throws UnauthorizedException if the user is not found or the password doesn't match.
    */
-  async findByEmailAndSendEmailActivation(email: string): Promise<User> {
-    if (!email) {
-      throw new NotFoundException('Email is required.');
+  async removeOwnAccount(id: string, password: string): Promise<void> {
+    const user = await this.prismaService.user.findUnique({ where: { id } });
+    if (!user) {
+      throw new UnauthorizedException('User not found.');
     }
 
-    const user = await this.prismaService.user.findUnique({
-      where: { email },
-    });
+    const isMatch = await this.comparePassword(password, user.password);
+    if (!isMatch) {
+      throw new UnauthorizedException('Incorrect password.');
+    }
 
-    if (!user) {
-      throw new NotFoundException('Invalid email.');
+    await this.remove(id);
+    this.logger.warn(`User ID ${id} deleted their own account.`);
+  }
+
+  /**
+   * Revokes every session of a user, forcing them to log in again on all devices.
+   * Access tokens already issued are rejected from the next request on.
+   * @param id - The UUID of the user.
+   * @returns The number of sessions revoked.
+   * @throws NotFoundException if the user is not found.
+   */
+  async revokeSessions(id: string): Promise<{ revokedSessions: number }> {
+    await this.findOne(id); // Throws NotFoundException if not found
+    const revokedSessions = await this.sessionsService.revokeAllForUser(id);
+    this.logger.warn(`All sessions of user ${id} revoked by an administrator.`);
+    return { revokedSessions };
+  }
+
+  /**
+   * Lifts a login lockout before it expires and resets the failure counter.
+   * @param id - The UUID of the user.
+   * @throws NotFoundException if the user is not found.
+   */
+  async unlock(id: string): Promise<{ message: string }> {
+    return this.loginAttemptsService.unlock(id);
+  }
+
+  /**
+   * Sends a new activation link to an account that isn't active yet.
+   * Unknown emails and active accounts are only logged, so callers can't tell
+   * whether an account exists.
+   * @param email - The email address of the account.
+   */
+  async resendActivation(email: string): Promise<void> {
+    const user = await this.findUserByEmail(email);
+
+    // Silently succeed to prevent email enumeration attacks.
+    if (!user || user.isActive) {
+      this.logger.warn(
+        `Activation email requested for ${user ? 'active' : 'non-existent'} email: ${email}`,
+      );
+      return;
     }
 
     const activationToken = generateActivationToken();
     const activationTokenExpires = new Date(Date.now() + 24 * 60 * 60 * 1000); // Token expires in 24 hours
 
-    // Update user to active and clear activation token fields
-    const updatedUser = await this.prismaService.user.update({
+    await this.prismaService.user.update({
       where: { id: user.id },
       data: {
         activationToken: activationToken,
@@ -499,16 +602,12 @@ export class UsersService {
       .then(() => {
         this.logger.log(`Activation email sent successfully to ${user.email}`);
       })
-      .catch((error) => {
+      .catch((error: Error) => {
         this.logger.error(
           `Failed to send activation email to ${user.email}`,
           error.stack,
         );
         // Consider adding retry logic or logging to a monitoring service
       });
-
-    // Exclude password before returning
-    const { password, ...result } = updatedUser;
-    return result as User;
   }
 }
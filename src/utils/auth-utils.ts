@@ -20,3 +20,37 @@ export function verifyActivationToken(
     Buffer.from(providedToken, 'hex'),
   );
 }
+
+// Hash a token before persisting it (SHA-256 is enough for high-entropy tokens)
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Build a short, human readable device label from a User-Agent header
+export function describeDevice(userAgent?: string): string | null {
+  if (!userAgent) {
+    return null;
+  }
+  const browsers: [RegExp, string][] = [
+    [/Edg\//, 'Edge'],
+    [/OPR\/|Opera/, 'Opera'],
+    [/Firefox\//, 'Firefox'],
+    [/Chrome\//, 'Chrome'],
+    [/Safari\//, 'Safari'],
+    [/PostmanRuntime/, 'Postman'],
+    [/curl\//, 'curl'],
+  ];
+  const systems: [RegExp, string][] = [
+    [/Android/, 'Android'],
+    [/iPhone|iPad|iPod/, 'iOS'],
+    [/Windows/, 'Windows'],
+    [/Mac OS X|Macintosh/, 'macOS'],
+    [/Linux/, 'Linux'],
+  ];
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (!browser && !system) {
+    return 'Unknown device';
+  }
+  return [browser, system].filter(Boolean).join(' on ');
+}
@@ -0,0 +1,86 @@
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+// Width and height read from the header of a PNG, GIF, JPEG or WebP file.
+// Returns null for other formats and for truncated or malformed headers.
+export function readImageDimensions(buffer: Buffer): ImageDimensions | null {
+  try {
+    // PNG: 8-byte signature, then the IHDR chunk
+    if (buffer.length >= 24 && buffer.readUInt32BE(0) === 0x89504e47) {
+      return {
+        width: buffer.readUInt32BE(16),
+        height: buffer.readUInt32BE(20),
+      };
+    }
+
+    // GIF87a / GIF89a: logical screen size right after the signature
+    if (buffer.length >= 10 && buffer.toString('ascii', 0, 3) === 'GIF') {
+      return {
+        width: buffer.readUInt16LE(6),
+        height: buffer.readUInt16LE(8),
+      };
+    }
+
+    // WebP: RIFF container whose first chunk is VP8 (lossy), VP8L (lossless)
+    // or VP8X (extended)
+    if (
+      buffer.length >= 30 &&
+      buffer.toString('ascii', 0, 4) === 'RIFF' &&
+      buffer.toString('ascii', 8, 12) === 'WEBP'
+    ) {
+      switch (buffer.toString('ascii', 12, 16)) {
+        case 'VP8 ':
+          return {
+            width: buffer.readUInt16LE(26) & 0x3fff,
+            height: buffer.readUInt16LE(28) & 0x3fff,
+          };
+        case 'VP8L': {
+          const bits = buffer.readUInt32LE(21);
+          return {
+            width: (bits & 0x3fff) + 1,
+            height: ((bits >> 14) & 0x3fff) + 1,
+          };
+        }
+        case 'VP8X':
+          return {
+            width: buffer.readUIntLE(24, 3) + 1,
+            height: buffer.readUIntLE(27, 3) + 1,
+          };
+        default:
+          return null;
+      }
+    }
+
+    // JPEG: walk the segments up to the first start-of-frame marker
+    if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+      let offset = 2;
+      while (offset + 9 <= buffer.length) {
+        if (buffer[offset] !== 0xff) {
+          return null;
+        }
+        const marker = buffer[offset + 1];
+        if (marker === 0xff) {
+          offset += 1; // fill byte
+          continue;
+        }
+        // SOF0 to SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+        if (
+          marker >= 0xc0 &&
+          marker <= 0xcf &&
+          ![0xc4, 0xc8, 0xcc].includes(marker)
+        ) {
+          return {
+            height: buffer.readUInt16BE(offset + 5),
+            width: buffer.readUInt16BE(offset + 7),
+          };
+        }
+        offset += 2 + buffer.readUInt16BE(offset + 2);
+      }
+    }
+  } catch {
+    // A header field pointed past the end of the buffer
+  }
+  return null;
+}
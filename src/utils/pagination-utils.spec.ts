@@ -0,0 +1,64 @@
+import { BadRequestException } from '@nestjs/common';
+import { SortOrder } from 'src/common/dto/pagination-query.dto';
+import { buildPaginationArgs, toPaginated } from './pagination-utils';
+
+describe('buildPaginationArgs', () => {
+  it('sorts by the default column, newest first, with the id as tie-breaker', () => {
+    expect(buildPaginationArgs({}, 'createdAt')).toEqual({
+      take: 21,
+      skip: 0,
+      cursor: undefined,
+      orderBy: [{ createdAt: SortOrder.DESC }, { id: SortOrder.DESC }],
+    });
+  });
+
+  it('sorts by the requested column and order', () => {
+    const args = buildPaginationArgs(
+      { sortBy: 'name', sortOrder: SortOrder.ASC, limit: 5, offset: 10 },
+      'createdAt',
+    );
+
+    expect(args).toEqual(
+      expect.objectContaining({
+        take: 6,
+        skip: 10,
+        orderBy: [{ name: SortOrder.ASC }, { id: SortOrder.ASC }],
+      }),
+    );
+  });
+
+  it('does not repeat the id when sorting by it', () => {
+    expect(buildPaginationArgs({ sortBy: 'id' }, 'createdAt').orderBy).toEqual([
+      { id: SortOrder.DESC },
+    ]);
+  });
+
+  it('starts after the cursor row', () => {
+    const args = buildPaginationArgs({ cursor: 'last' }, 'createdAt');
+
+    expect(args.cursor).toEqual({ id: 'last' });
+    expect(args.skip).toBe(1);
+  });
+
+  it('refuses a cursor together with an offset', () => {
+    expect(() =>
+      buildPaginationArgs({ cursor: 'last', offset: 20 }, 'createdAt'),
+    ).toThrow(BadRequestException);
+  });
+});
+
+describe('toPaginated', () => {
+  const rows = ['a', 'b', 'c'].map((id) => ({ id }));
+
+  it('drops the extra row and points the cursor at the last item', () => {
+    expect(toPaginated(rows, 7, { limit: 2 })).toEqual({
+      items: [{ id: 'a' }, { id: 'b' }],
+      total: 7,
+      nextCursor: 'b',
+    });
+  });
+
+  it('has no cursor on the last page', () => {
+    expect(toPaginated(rows, 3, { limit: 3 }).nextCursor).toBeNull();
+  });
+});
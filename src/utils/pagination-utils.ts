@@ -0,0 +1,57 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  DEFAULT_PAGE_SIZE,
+  PaginationQueryDto,
+  SortOrder,
+} from 'src/common/dto/pagination-query.dto';
+import { Paginated } from 'src/common/dto/paginated-response.dto';
+
+export interface PaginationArgs<F extends string> {
+  take: number;
+  skip: number;
+  cursor?: { id: string };
+  orderBy: Partial<Record<F, SortOrder>>[];
+}
+
+// Translate pagination query parameters into Prisma findMany arguments.
+// One extra row is fetched to know whether there is a next page, and `id`
+// is always the last sort key so that pages are stable.
+// `F` is the model's sortable columns, which must include `id`.
+export function buildPaginationArgs<F extends string>(
+  query: PaginationQueryDto,
+  defaultSortBy: F,
+): PaginationArgs<F> {
+  if (query.cursor && query.offset) {
+    throw new BadRequestException(
+      'Use either cursor or offset pagination, not both.',
+    );
+  }
+  const sortBy = (query.sortBy as F | undefined) ?? defaultSortBy;
+  const sortOrder = query.sortOrder ?? SortOrder.DESC;
+  const orderBy = [{ [sortBy]: sortOrder } as Partial<Record<F, SortOrder>>];
+  if (sortBy !== 'id') {
+    orderBy.push({ id: sortOrder } as Partial<Record<F, SortOrder>>);
+  }
+
+  return {
+    take: (query.limit ?? DEFAULT_PAGE_SIZE) + 1,
+    skip: query.cursor ? 1 : (query.offset ?? 0),
+    cursor: query.cursor ? { id: query.cursor } : undefined,
+    orderBy,
+  };
+}
+
+// Build the response envelope from the rows fetched with buildPaginationArgs
+export function toPaginated<T extends { id: string }>(
+  rows: T[],
+  total: number,
+  query: PaginationQueryDto,
+): Paginated<T> {
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+  const items = rows.slice(0, limit);
+  return {
+    items,
+    total,
+    nextCursor: rows.length > limit ? items[items.length - 1].id : null,
+  };
+}
@@ -0,0 +1,27 @@
+import { nextAvailableSlug, slugify, SLUG_PATTERN } from './slug-utils';
+
+describe('slugify', () => {
+  it.each([
+    ['Diseño Web', 'diseno-web'],
+    ['  Apps & APIs!  ', 'apps-apis'],
+    ['E-commerce -- Shops', 'e-commerce-shops'],
+  ])('turns %p into %p', (text, slug) => {
+    expect(slugify(text)).toBe(slug);
+    expect(slug).toMatch(SLUG_PATTERN);
+  });
+
+  it('falls back when nothing is left of the text', () => {
+    expect(slugify('¿?')).toBe('category');
+    expect(slugify('---', 'project')).toBe('project');
+  });
+});
+
+describe('nextAvailableSlug', () => {
+  it('keeps the base slug while it is free', () => {
+    expect(nextAvailableSlug('web', ['web-design'])).toBe('web');
+  });
+
+  it('adds the first free numeric suffix', () => {
+    expect(nextAvailableSlug('web', ['web', 'web-2', 'web-4'])).toBe('web-3');
+  });
+});
@@ -0,0 +1,24 @@
+// URL-safe slug: lowercase ASCII letters and digits separated by single dashes.
+// Accents are stripped ("Diseño Web" -> "diseno-web"), same as the
+// "add_category_tree" migration does for existing categories.
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export function slugify(text: string, fallback = 'category'): string {
+  const slug = text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || fallback;
+}
+
+// First of `base`, `base-2`, `base-3`... not present in `takenSlugs`
+export function nextAvailableSlug(base: string, takenSlugs: string[]): string {
+  const taken = new Set(takenSlugs);
+  let slug = base;
+  for (let suffix = 2; taken.has(slug); suffix++) {
+    slug = `${base}-${suffix}`;
+  }
+  return slug;
+}
@@ -0,0 +1,24 @@
+import { Prisma } from '@prisma/client';
+
+// Technology names as typed by users: surrounding spaces removed, inner runs
+// of whitespace collapsed ("  Node   JS " -> "Node JS")
+export function normalizeTechnologyName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+// Aliases are stored in this form so that they can be matched with `has`
+export function toTechnologyAlias(name: string): string {
+  return normalizeTechnologyName(name).toLowerCase();
+}
+
+// Technologies whose canonical name or one of its aliases is `name`, ignoring case
+export function technologyNameWhere(name: string): Prisma.TechnologyWhereInput {
+  return {
+    OR: [
+      {
+        name: { equals: normalizeTechnologyName(name), mode: 'insensitive' },
+      },
+      { aliases: { has: toTechnologyAlias(name) } },
+    ],
+  };
+}
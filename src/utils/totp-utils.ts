@@ -0,0 +1,114 @@
+import * as crypto from 'crypto';
+
+// RFC 6238 TOTP (SHA-1, 6 digits, 30 second steps), compatible with
+// Google Authenticator, Authy, 1Password, etc.
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const cleaned = input.replace(/=+$/, '').replace(/\s/g, '').toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// Generate a random base32 secret (160 bits, as recommended by RFC 4226)
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+// Compute the TOTP code for a secret at a given time step
+export function generateTotp(secret: string, timeStep: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(timeStep));
+  const hmac = crypto
+    .createHmac('sha1', base32Decode(secret))
+    .update(counter)
+    .digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+// Find the time step a TOTP code was generated for, accepting `window` steps
+// of clock drift on each side. Returns null if the code matches none of them.
+export function findTotpStep(
+  secret: string,
+  code: string,
+  window = 1,
+  now = Date.now(),
+): number | null {
+  if (!/^\d{6}$/.test(code)) {
+    return null;
+  }
+  const currentStep = Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+  for (let drift = -window; drift <= window; drift++) {
+    const expected = generateTotp(secret, currentStep + drift);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(code))) {
+      return currentStep + drift;
+    }
+  }
+  return null;
+}
+
+// Verify a TOTP code, accepting `window` steps of clock drift on each side
+export function verifyTotp(secret: string, code: string, window = 1): boolean {
+  return findTotpStep(secret, code, window) !== null;
+}
+
+// Build the otpauth:// URI that authenticator apps read from a QR code
+export function buildOtpauthUri(
+  secret: string,
+  accountName: string,
+  issuer: string,
+): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// Generate one-time recovery codes formatted as xxxxx-xxxxx
+export function generateRecoveryCodes(count = 10): string[] {
+  return Array.from({ length: count }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}